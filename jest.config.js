@@ -2,7 +2,7 @@ module.exports = {
   preset: 'react-native',
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
   transformIgnorePatterns: [
-    'node_modules/(?!(react-native|@react-native|react-native-.*)/)',
+    'node_modules/(?!((jest-)?react-native|@react-native(-community)?|@umituz|react-native-.*)/)',
   ],
   testMatch: [
     '**/__tests__/**/*.(ts|tsx|js)',
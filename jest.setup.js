@@ -1,105 +1,132 @@
 // Jest setup file
 global.__DEV__ = true;
 
-// Mock React Native modules
-jest.mock('react-native', () => ({
-  DeviceEventEmitter: {
-    addListener: jest.fn(() => ({ remove: jest.fn() })),
-    emit: jest.fn(),
-  },
-  Platform: {
-    OS: 'ios',
-    select: jest.fn((obj) => obj.ios),
-  },
-}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
 
-// Mock external dependencies
-jest.mock('@umituz/react-native-firebase-auth', () => ({
-  useFirebaseAuth: jest.fn(() => ({
-    user: null,
-    loading: false,
-  })),
-}));
+// Design system: plain host components so tests query by text and role
+jest.mock('@umituz/react-native-design-system/theme', () => {
+  const tokenGroup = (value) => new Proxy({}, { get: () => value });
+  const tokens = {
+    colors: tokenGroup('#000000'),
+    spacing: tokenGroup(8),
+    borderRadius: tokenGroup(8),
+    iconSizes: tokenGroup(24),
+    typography: tokenGroup({}),
+  };
+  return {
+    useAppDesignTokens: jest.fn(() => tokens),
+  };
+});
 
-jest.mock('@umituz/react-native-localization', () => ({
-  useLocalization: jest.fn(() => ({
-    t: jest.fn((key, params) => {
-      if (typeof params === 'object' && params.defaultValue) {
-        return params.defaultValue;
-      }
-      return key;
-    }),
-  })),
-  useTranslation: jest.fn(() => ({
-    t: jest.fn((key, params) => {
-      if (typeof params === 'object' && params.defaultValue) {
-        return params.defaultValue;
-      }
-      return key;
-    }),
+jest.mock('@umituz/react-native-design-system/responsive', () => ({
+  useResponsive: jest.fn(() => ({
+    width: 390,
+    height: 844,
+    horizontalPadding: 16,
+    verticalPadding: 16,
+    isSmallDevice: false,
+    isTabletDevice: false,
   })),
 }));
 
-jest.mock('@umituz/react-native-design-system-theme', () => ({
-  useAppDesignTokens: jest.fn(() => ({
-    colors: {
-      primary: '#007AFF',
-      success: '#34C759',
-      error: '#FF3B30',
-      warning: '#FF9500',
-    },
-    spacing: {
-      sm: 8,
-      md: 16,
-      lg: 24,
-    },
-  })),
-}));
+jest.mock('@umituz/react-native-design-system/atoms', () => {
+  const React = require('react');
+  const { Pressable, Text, TextInput, View } = require('react-native');
 
-jest.mock('@umituz/react-native-design-system-atoms', () => ({
-  AtomicInput: 'AtomicInput',
-  AtomicButton: 'AtomicButton',
-  AtomicText: 'Text',
-  AtomicView: 'View',
-}));
+  const AtomicText = ({ children, style }) => <Text style={style}>{children}</Text>;
 
-jest.mock('@umituz/react-native-validation', () => ({
-  useValidation: jest.fn(() => ({
-    validate: jest.fn(),
-  })),
-  batchValidate: jest.fn(() => ({ isValid: true, errors: {} })),
-}));
+  const AtomicButton = ({ children, onPress, disabled, testID }) => (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityState={{ disabled: !!disabled }}
+      onPress={onPress}
+      disabled={disabled}
+      testID={testID}
+    >
+      <Text>{children}</Text>
+    </Pressable>
+  );
 
-jest.mock('@umituz/react-native-storage', () => ({
-  storageRepository: {
-    getString: jest.fn(),
-    setString: jest.fn(),
-    removeItem: jest.fn(),
-  },
-  unwrap: jest.fn((result, defaultValue) => result?.value || defaultValue),
-}));
+  const AtomicInput = React.forwardRef(
+    ({ label, helperText, disabled, state: _state, showPasswordToggle: _toggle, ...props }, ref) => (
+      <View>
+        {label ? <Text>{label}</Text> : null}
+        <TextInput ref={ref} accessibilityLabel={label} editable={!disabled} {...props} />
+        {helperText ? <Text>{helperText}</Text> : null}
+      </View>
+    )
+  );
 
-jest.mock('react-native-safe-area-context', () => ({
-  useSafeAreaInsets: jest.fn(() => ({
-    top: 44,
-    bottom: 34,
-    left: 0,
-    right: 0,
-  })),
-}));
+  return {
+    AtomicText,
+    AtomicButton,
+    AtomicInput,
+    AtomicIcon: () => null,
+    AtomicKeyboardAvoidingView: ({ children }) => <View>{children}</View>,
+  };
+});
 
+jest.mock('@umituz/react-native-design-system/molecules', () => {
+  const React = require('react');
+  const { Text, View } = require('react-native');
 
+  // Children are only mounted while presented, like the real sheet
+  const BottomSheetModal = React.forwardRef(({ children }, ref) => {
+    const [visible, setVisible] = React.useState(false);
+    React.useImperativeHandle(ref, () => ({
+      present: () => setVisible(true),
+      dismiss: () => setVisible(false),
+    }));
+    return visible ? <View testID="bottom-sheet-modal">{children}</View> : null;
+  });
 
-jest.mock('@react-navigation/stack', () => ({
-  createStackNavigator: jest.fn(() => ({
-    Navigator: 'StackNavigator',
-    Screen: 'StackScreen',
-  })),
+  const AlertMode = { TOAST: 'toast', BANNER: 'banner', INLINE: 'inline', MODAL: 'modal' };
+  const createAlert = (type) => (message, title, options = {}) => ({ type, message, title, ...options });
+
+  return {
+    BottomSheetModal,
+    AlertMode,
+    AlertService: {
+      createErrorAlert: createAlert('error'),
+      createSuccessAlert: createAlert('success'),
+      success: jest.fn(),
+      error: jest.fn(),
+    },
+    AlertInline: ({ alert }) => <Text accessibilityRole="alert">{alert.message}</Text>,
+  };
+});
+
+jest.mock('@umituz/react-native-design-system/device', () => ({
+  collectDeviceExtras: jest.fn(() => Promise.resolve({})),
 }));
 
-jest.mock('@react-navigation/native', () => ({
-  useNavigation: jest.fn(() => ({
-    navigate: jest.fn(),
+// Firebase is replaced by InMemoryAuthRepository in tests
+jest.mock('@umituz/react-native-firebase', () => ({
+  getFirebaseAuth: jest.fn(() => null),
+  configureUserDocumentService: jest.fn(),
+  ensureUserDocument: jest.fn(() => Promise.resolve()),
+  deleteCurrentUser: jest.fn(),
+  signUpWithEmail: jest.fn(),
+  signOut: jest.fn(),
+  getCurrentUserFromGlobal: jest.fn(() => null),
+  anonymousAuthService: { signInAnonymously: jest.fn() },
+  useGoogleOAuth: jest.fn(() => ({
+    signInWithGoogle: jest.fn(),
+    googleLoading: false,
+    googleConfigured: false,
+  })),
+  useSocialAuth: jest.fn(() => ({
+    signInWithApple: jest.fn(),
+    appleLoading: false,
+    appleAvailable: false,
   })),
-  useFocusEffect: jest.fn(),
-}));
\ No newline at end of file
+}));
+
+jest.mock('firebase/auth', () => ({}));
+
+// The query DevMonitor keeps a stats interval running in __DEV__, which keeps Jest from exiting
+afterAll(() => {
+  require('@umituz/react-native-design-system/tanstack').DevMonitor.clear();
+});
@@ -1,11 +1,63 @@
 
-import type { AuthUser } from "../../domain/entities/AuthUser";
-import type { AuthCredentials, SignUpCredentials } from "../../infrastructure/repositories/AuthRepository";
+import type { AuthUser, AuthProviderType } from "../../domain/entities/AuthUser";
+import type { LinkCredential, LinkableProviderType, CredentialConflict } from "../../domain/entities/AccountLink";
+import type { UpdateProfileParams } from "../../domain/entities/UserProfile";
+import type { OAuthCredential } from "../../domain/entities/OidcAuth";
+import type { AuthConfig } from "../../domain/value-objects/AuthConfig";
+import type {
+    MultiFactorChallenge,
+    MultiFactorInfo,
+    TotpEnrollment,
+} from "../../domain/entities/MultiFactor";
+import type {
+    AuthCredentials,
+    SignUpCredentials,
+    PhoneAuthVerifier,
+    PhoneVerificationSession,
+} from "../../infrastructure/repositories/AuthRepository";
+
+/**
+ * Receives every user change (sign-in/out, token refresh, profile or provider updates).
+ * providerUser is the backend's own user object, e.g. the Firebase User.
+ */
+export type AuthStateChangeCallback = (user: AuthUser | null, providerUser?: unknown) => void;
+
+/**
+ * Creates the backend AuthService talks to; the Firebase AuthRepository by default
+ */
+export type AuthRepositoryFactory = (config: AuthConfig) => IAuthRepository;
 
 export interface IAuthRepository {
     signUp(params: SignUpCredentials): Promise<AuthUser>;
     signIn(params: AuthCredentials): Promise<AuthUser>;
+    signInAnonymously(): Promise<AuthUser>;
+    signInWithOAuth(credential: OAuthCredential): Promise<AuthUser>;
     signOut(): Promise<void>;
+    sendPasswordResetEmail(email: string): Promise<void>;
+    sendEmailVerification(): Promise<void>;
+    reloadUser(): Promise<AuthUser | null>;
+    /** The caller reauthenticates with currentPassword first, see AuthService.changePassword */
+    changePassword(currentPassword: string, newPassword: string): Promise<void>;
+    /** Needs a recent login, see AuthService.changeEmail */
+    changeEmail(newEmail: string): Promise<void>;
+    /** Confirms the signed-in user's identity again before a sensitive operation */
+    reauthenticate(credential: LinkCredential): Promise<void>;
+    updateProfile(params: UpdateProfileParams): Promise<AuthUser>;
+    signInWithPhone(phoneNumber: string, verifier: PhoneAuthVerifier): Promise<PhoneVerificationSession>;
+    confirmOtp(verificationId: string, code: string): Promise<AuthUser>;
+    sendSignInLink(email: string): Promise<void>;
+    isSignInLink(url: string): boolean;
+    signInWithEmailLink(email: string, url: string): Promise<AuthUser>;
+    startTotpEnrollment(params?: { accountName?: string; issuer?: string }): Promise<TotpEnrollment>;
+    completeTotpEnrollment(enrollment: TotpEnrollment, code: string, displayName?: string): Promise<MultiFactorInfo[]>;
+    getEnrolledFactors(): MultiFactorInfo[];
+    unenrollFactor(factorUid: string): Promise<MultiFactorInfo[]>;
+    resolveMultiFactorSignIn(challenge: MultiFactorChallenge, code: string, factorUid?: string): Promise<AuthUser>;
+    linkProvider(credential: LinkCredential): Promise<AuthUser>;
+    unlinkProvider(provider: LinkableProviderType): Promise<AuthUser>;
+    upgradeAnonymousAccount(credential: LinkCredential, displayName?: string): Promise<AuthUser>;
+    getLinkedProviders(): AuthProviderType[];
+    resolveCredentialConflict(conflict: CredentialConflict): Promise<AuthUser>;
     getCurrentUser(): AuthUser | null;
-    onAuthStateChange(callback: (user: AuthUser | null) => void): () => void;
+    onAuthStateChange(callback: AuthStateChangeCallback): () => void;
 }
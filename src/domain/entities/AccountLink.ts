@@ -0,0 +1,27 @@
+/**
+ * Account Link Types
+ * Domain types for attaching extra sign-in methods to the current user
+ */
+
+import type { AuthProviderType } from "./AuthUser";
+
+export type LinkableProviderType = Extract<AuthProviderType, "google.com" | "apple.com" | "password">;
+
+/**
+ * Credential for a sign-in method, obtained by the app from the provider SDK
+ */
+export type LinkCredential =
+  | { provider: "password"; email: string; password: string }
+  | { provider: "google.com"; idToken: string; accessToken?: string }
+  | { provider: "apple.com"; identityToken: string; rawNonce?: string };
+
+/**
+ * Sign-in method that already belongs to a different account
+ */
+export interface CredentialConflict {
+  provider: LinkableProviderType;
+  /** Email of the other account, when the provider reports it */
+  email: string | null;
+  /** Provider specific credential, passed back unchanged to switch accounts */
+  readonly credential: unknown;
+}
@@ -3,7 +3,20 @@
  * Provider-agnostic user representation
  */
 
-export type AuthProviderType = "google.com" | "apple.com" | "password" | "anonymous" | "unknown";
+/**
+ * OAuth 2.0 / OIDC providers signed in through the generic PKCE flow.
+ * Firebase uses "microsoft.com" / "github.com" and "oidc.<name>" for custom OIDC providers.
+ */
+export type OAuthProviderType = "microsoft.com" | "github.com" | `oidc.${string}`;
+
+export type AuthProviderType =
+  | "google.com"
+  | "apple.com"
+  | "password"
+  | "phone"
+  | "anonymous"
+  | OAuthProviderType
+  | "unknown";
 
 export interface AuthUser {
   uid: string;
@@ -12,5 +25,10 @@ export interface AuthUser {
   isAnonymous: boolean;
   emailVerified: boolean;
   photoURL: string | null;
+  /** E.164 phone number for phone-authenticated users */
+  phoneNumber?: string | null;
+  /** Primary sign-in method */
   provider: AuthProviderType;
+  /** Every sign-in method linked to the account */
+  providers: AuthProviderType[];
 }
@@ -0,0 +1,38 @@
+/**
+ * Multi-Factor Types
+ * Domain types for second-factor enrollment and sign-in challenges
+ */
+
+export type MultiFactorType = "totp" | "phone";
+
+export interface MultiFactorInfo {
+    uid: string;
+    factorId: MultiFactorType;
+    displayName: string | null;
+    enrollmentTime: string;
+}
+
+/**
+ * Pending sign-in that needs a second factor to complete
+ */
+export interface MultiFactorChallenge {
+    hints: MultiFactorInfo[];
+    /** Provider specific resolver, passed back unchanged to resolve the challenge */
+    readonly resolver: unknown;
+}
+
+/**
+ * TOTP secret awaiting its first code before the factor is enrolled
+ */
+export interface TotpEnrollment {
+    /** Base32 secret for manual entry in an authenticator app */
+    secretKey: string;
+    /** otpauth:// URI, also the QR code payload */
+    otpauthUri: string;
+    accountName: string;
+    issuer: string;
+    digits: number;
+    period: number;
+    /** Provider specific secret handle, passed back unchanged to complete enrollment */
+    readonly secret: unknown;
+}
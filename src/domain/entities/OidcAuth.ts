@@ -0,0 +1,60 @@
+/**
+ * OIDC Auth Types
+ * Domain types for the generic OAuth 2.0 / OpenID Connect sign-in flow
+ */
+
+import type { AuthUser, OAuthProviderType } from "./AuthUser";
+
+/**
+ * Tokens returned by the provider's token endpoint
+ */
+export interface OidcTokens {
+  /** Absent for plain OAuth 2.0 providers such as GitHub */
+  idToken: string | null;
+  accessToken: string;
+  refreshToken: string | null;
+  /** Milliseconds since epoch, null when the provider doesn't say */
+  expiresAt: number | null;
+}
+
+/**
+ * Standard claims read from the ID token (or the userinfo endpoint)
+ */
+export interface OidcClaims {
+  sub: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  iat?: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+  picture?: string;
+  phone_number?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * Credential handed to the auth backend after a completed OAuth/OIDC flow
+ */
+export interface OAuthCredential {
+  providerId: OAuthProviderType;
+  idToken?: string;
+  accessToken?: string;
+  /** Unhashed nonce sent in the authorization request */
+  rawNonce?: string;
+}
+
+/**
+ * Outcome of the browser part of the flow, before the backend sign-in
+ */
+export interface OidcAuthorizationResult {
+  providerId: OAuthProviderType;
+  tokens: OidcTokens;
+  claims: OidcClaims;
+  /** Claims mapped to a user, e.g. to prefill a profile */
+  user: AuthUser;
+  rawNonce: string;
+}
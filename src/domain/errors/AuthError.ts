@@ -3,26 +3,47 @@
  * Domain-specific error types for authentication
  */
 
+import type { MultiFactorChallenge } from "../entities/MultiFactor";
+import type { CredentialConflict } from "../entities/AccountLink";
+
+export interface AuthErrorOptions {
+  /** The provider error this one was translated from, e.g. the FirebaseError */
+  cause?: unknown;
+  /** Trying the same operation again later may succeed, e.g. after a network failure */
+  isRetryable?: boolean;
+  /** The user can fix it, e.g. by correcting their input or signing in again */
+  userActionable?: boolean;
+}
+
 export class AuthError extends Error {
+  public readonly isRetryable: boolean;
+  public readonly userActionable: boolean;
+
   constructor(
     message: string,
     public readonly code: string = "AUTH_ERROR",
+    options: AuthErrorOptions = {},
   ) {
     super(message);
     this.name = "AuthError";
+    this.isRetryable = options.isRetryable ?? false;
+    this.userActionable = options.userActionable ?? false;
+    if (options.cause !== undefined) {
+      this.cause = options.cause;
+    }
   }
 }
 
 export class AuthInitializationError extends AuthError {
-  constructor(message: string = "Auth service not initialized") {
-    super(message, "AUTH_INITIALIZATION_ERROR");
+  constructor(message: string = "Auth service not initialized", cause?: unknown) {
+    super(message, "AUTH_INITIALIZATION_ERROR", { cause });
     this.name = "AuthInitializationError";
   }
 }
 
 export class AuthConfigurationError extends AuthError {
-  constructor(message: string = "Invalid auth configuration") {
-    super(message, "AUTH_CONFIGURATION_ERROR");
+  constructor(message: string = "Invalid auth configuration", cause?: unknown) {
+    super(message, "AUTH_CONFIGURATION_ERROR", { cause });
     this.name = "AuthConfigurationError";
   }
 }
@@ -32,49 +53,143 @@ export class AuthValidationError extends AuthError {
     message: string = "Validation failed",
     public readonly field?: string,
   ) {
-    super(message, "AUTH_VALIDATION_ERROR");
+    super(message, "AUTH_VALIDATION_ERROR", { userActionable: true });
     this.name = "AuthValidationError";
   }
 }
 
 export class AuthNetworkError extends AuthError {
-  constructor(message: string = "Network error") {
-    super(message, "AUTH_NETWORK_ERROR");
+  constructor(message: string = "Network error", cause?: unknown) {
+    super(message, "AUTH_NETWORK_ERROR", { cause, isRetryable: true, userActionable: true });
     this.name = "AuthNetworkError";
   }
 }
 
 export class AuthUserNotFoundError extends AuthError {
-  constructor(message: string = "User not found") {
-    super(message, "AUTH_USER_NOT_FOUND");
+  constructor(message: string = "User not found", cause?: unknown) {
+    super(message, "AUTH_USER_NOT_FOUND", { cause, userActionable: true });
     this.name = "AuthUserNotFoundError";
   }
 }
 
 export class AuthWrongPasswordError extends AuthError {
-  constructor(message: string = "Wrong password") {
-    super(message, "AUTH_WRONG_PASSWORD");
+  constructor(message: string = "Wrong password", cause?: unknown) {
+    super(message, "AUTH_WRONG_PASSWORD", { cause, userActionable: true });
     this.name = "AuthWrongPasswordError";
   }
 }
 
+/**
+ * Email or password is wrong; sign-in doesn't say which, so it can't be used
+ * to find out whether an email has an account
+ */
+export class AuthInvalidCredentialError extends AuthError {
+  constructor(message: string = "Incorrect email or password", cause?: unknown) {
+    super(message, "AUTH_INVALID_CREDENTIAL", { cause, userActionable: true });
+    this.name = "AuthInvalidCredentialError";
+  }
+}
+
 export class AuthEmailAlreadyInUseError extends AuthError {
-  constructor(message: string = "Email already in use") {
-    super(message, "AUTH_EMAIL_ALREADY_IN_USE");
+  constructor(message: string = "Email already in use", cause?: unknown) {
+    super(message, "AUTH_EMAIL_ALREADY_IN_USE", { cause, userActionable: true });
     this.name = "AuthEmailAlreadyInUseError";
   }
 }
 
 export class AuthWeakPasswordError extends AuthError {
-  constructor(message: string = "Password is too weak") {
-    super(message, "AUTH_WEAK_PASSWORD");
+  constructor(message: string = "Password is too weak", cause?: unknown) {
+    super(message, "AUTH_WEAK_PASSWORD", { cause, userActionable: true });
     this.name = "AuthWeakPasswordError";
   }
 }
 
 export class AuthInvalidEmailError extends AuthError {
-  constructor(message: string = "Invalid email address") {
-    super(message, "AUTH_INVALID_EMAIL");
+  constructor(message: string = "Invalid email address", cause?: unknown) {
+    super(message, "AUTH_INVALID_EMAIL", { cause, userActionable: true });
     this.name = "AuthInvalidEmailError";
   }
 }
+
+/**
+ * The backend is rate limiting this device or account; waiting helps
+ */
+export class AuthTooManyRequestsError extends AuthError {
+  constructor(
+    message: string = "Too many requests",
+    cause?: unknown,
+    /** How long to wait before trying again when the backend said so, shown as {{retryAfterSeconds}} */
+    public readonly retryAfterMs?: number,
+  ) {
+    super(message, "AUTH_TOO_MANY_REQUESTS", { cause, isRetryable: true, userActionable: true });
+    this.name = "AuthTooManyRequestsError";
+  }
+}
+
+/**
+ * The account was disabled by an administrator
+ */
+export class AuthUserDisabledError extends AuthError {
+  constructor(message: string = "User account is disabled", cause?: unknown) {
+    super(message, "AUTH_USER_DISABLED", { cause });
+    this.name = "AuthUserDisabledError";
+  }
+}
+
+/**
+ * A sensitive operation needs a fresh sign-in, see AuthService.reauthenticate
+ */
+export class AuthRequiresRecentLoginError extends AuthError {
+  constructor(message: string = "Please sign in again to continue", cause?: unknown) {
+    super(message, "AUTH_REQUIRES_RECENT_LOGIN", { cause, userActionable: true });
+    this.name = "AuthRequiresRecentLoginError";
+  }
+}
+
+/**
+ * The session can't be refreshed any more; the user has to sign in again
+ */
+export class AuthSessionExpiredError extends AuthError {
+  constructor(message: string = "Session expired", cause?: unknown) {
+    super(message, "AUTH_SESSION_EXPIRED", { cause, userActionable: true });
+    this.name = "AuthSessionExpiredError";
+  }
+}
+
+/**
+ * The sign-in method is disabled in the backend (e.g. the Firebase console)
+ */
+export class AuthOperationNotAllowedError extends AuthError {
+  constructor(message: string = "This sign-in method is not enabled", cause?: unknown) {
+    super(message, "AUTH_OPERATION_NOT_ALLOWED", { cause });
+    this.name = "AuthOperationNotAllowedError";
+  }
+}
+
+/**
+ * Thrown by sign-in when the account has a second factor enrolled.
+ * Resolve the challenge with the code from the user's authenticator app.
+ */
+export class MultiFactorRequiredError extends AuthError {
+  constructor(
+    public readonly challenge: MultiFactorChallenge,
+    message: string = "Multi-factor authentication required",
+  ) {
+    super(message, "AUTH_MFA_REQUIRED", { userActionable: true });
+    this.name = "MultiFactorRequiredError";
+  }
+}
+
+/**
+ * Thrown by linkProvider when the credential already signs in to another account.
+ * Offer to switch to that account with resolveCredentialConflict.
+ */
+export class AuthCredentialAlreadyInUseError extends AuthError {
+  constructor(
+    public readonly conflict: CredentialConflict,
+    message: string = "This sign-in method is already used by another account",
+  ) {
+    super(message, "AUTH_CREDENTIAL_ALREADY_IN_USE", { userActionable: true });
+    this.name = "AuthCredentialAlreadyInUseError";
+  }
+}
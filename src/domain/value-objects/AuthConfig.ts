@@ -3,8 +3,50 @@
  * Validates and stores authentication configuration
  */
 
+import type { OAuthProviderType } from "../entities/AuthUser";
+
+/**
+ * What a password is checked against besides itself
+ */
+export interface PasswordPolicyContext {
+  email?: string | null;
+  displayName?: string | null;
+}
+
+/**
+ * App-specific password requirement, e.g. "not one of our product names"
+ */
+export interface PasswordRule {
+  id: string;
+  /** Requirement shown by PasswordStrengthIndicator, already localized */
+  label: string;
+  /** Validation key or message when the rule fails (default: auth.validation.passwordRuleFailed) */
+  error?: string;
+  test: (password: string, context: PasswordPolicyContext) => boolean;
+}
+
+/**
+ * Estimated password strength, 0 (too guessable) to 4 (very unguessable)
+ */
+export type PasswordStrengthScore = 0 | 1 | 2 | 3 | 4;
+
 export interface PasswordConfig {
   minLength: number;
+  maxLength?: number;
+  requireUppercase?: boolean;
+  requireLowercase?: boolean;
+  requireDigit?: boolean;
+  /** Anything but letters and digits */
+  requireSymbol?: boolean;
+  /** Longest run of one character, e.g. 2 rejects "aaa" */
+  maxRepeatedChars?: number;
+  /** Longest run of consecutive letters or digits, e.g. 3 rejects "abcd" and "4321" */
+  maxSequenceLength?: number;
+  /** Reject passwords containing the email's name part or a part of the display name */
+  disallowPersonalInfo?: boolean;
+  /** Lowest estimated strength accepted, see estimatePasswordStrength */
+  minScore?: PasswordStrengthScore;
+  customRules?: PasswordRule[];
 }
 
 export interface SocialProviderConfig {
@@ -19,26 +61,126 @@ export interface GoogleAuthConfig extends SocialProviderConfig {
 
 export interface AppleAuthConfig extends SocialProviderConfig {}
 
+export interface OidcEndpoints {
+  authorization?: string;
+  token?: string;
+  userInfo?: string;
+}
+
+/**
+ * Generic OAuth 2.0 / OpenID Connect provider (Microsoft, GitHub, corporate SSO...)
+ * signed in with the authorization code flow and PKCE
+ */
+export interface OidcProviderConfig {
+  /** Unique key used by buttons and signInWithOidc, e.g. "microsoft" */
+  id: string;
+  /** Button label */
+  displayName: string;
+  /** Issuer URL; endpoints are discovered from <issuer>/.well-known/openid-configuration */
+  issuer: string;
+  clientId: string;
+  /** Must be registered with the provider, e.g. "myapp://oauth/callback" */
+  redirectUri: string;
+  /** Defaults to openid, profile and email */
+  scopes?: string[];
+  /** Provider id on the auth backend (default: "oidc.<id>") */
+  providerId?: OAuthProviderType;
+  /** Skip discovery, required for plain OAuth 2.0 providers such as GitHub */
+  endpoints?: OidcEndpoints;
+  /** Extra authorization request parameters, e.g. { prompt: "select_account" } */
+  additionalParameters?: Record<string, string>;
+}
+
 export interface SocialAuthConfig {
   google?: GoogleAuthConfig;
   apple?: AppleAuthConfig;
+  oidc?: OidcProviderConfig[];
 }
 
 export type SocialAuthProvider = "google" | "apple";
 
+export interface EmailLinkAuthConfig {
+  enabled: boolean;
+  /** Deep link the email opens; must be on an authorized domain */
+  url?: string;
+  iosBundleId?: string;
+  androidPackageName?: string;
+  androidInstallApp?: boolean;
+  /** Custom Firebase Hosting domain for the link */
+  linkDomain?: string;
+}
+
+export interface PasswordlessAuthConfig {
+  emailLink?: EmailLinkAuthConfig;
+}
+
+export interface MultiFactorAuthConfig {
+  /** Issuer shown in authenticator apps (defaults to the Firebase project id) */
+  totpIssuer?: string;
+}
+
+export type SessionTimeoutAction = "signOut" | "lock";
+
+/**
+ * Ends signed-in (non-anonymous) sessions; time in background counts as inactivity
+ */
+export interface SessionTimeoutConfig {
+  /** Inactivity after which the session expires */
+  idleTimeoutMs?: number;
+  /** Session length since sign-in after which it expires regardless of activity */
+  absoluteTimeoutMs?: number;
+  /** Sign out, or lock the auth store until the user unlocks */
+  action: SessionTimeoutAction;
+}
+
+/**
+ * Local PIN / biometric lock on top of the signed-in session
+ */
+export interface AppLockConfig {
+  /** Lock when the app returns after this long in background; 0 locks on every return (default: 30000) */
+  backgroundTimeoutMs?: number;
+  /** Lock when the app starts (default: true) */
+  lockOnColdStart?: boolean;
+  /** Digits in a PIN, 4-8 (default: 4) */
+  pinLength?: number;
+  /** Wrong PINs before unlocking is paused (default: 5) */
+  maxAttempts?: number;
+  /** How long unlocking is paused after maxAttempts wrong PINs (default: 30000) */
+  lockoutMs?: number;
+}
+
 export interface AuthConfig {
   password: PasswordConfig;
   social?: SocialAuthConfig;
+  passwordless?: PasswordlessAuthConfig;
+  mfa?: MultiFactorAuthConfig;
+  session?: SessionTimeoutConfig;
+  appLock?: AppLockConfig;
+  /** Treat signed-in users with an unverified email as not authenticated for gated features */
+  requireEmailVerification?: boolean;
 }
 
 export const DEFAULT_PASSWORD_CONFIG: PasswordConfig = { minLength: 6 };
+export const DEFAULT_OIDC_SCOPES: readonly string[] = ["openid", "profile", "email"];
 export const DEFAULT_SOCIAL_CONFIG: SocialAuthConfig = {
   google: { enabled: false },
   apple: { enabled: false },
 };
+export const DEFAULT_PASSWORDLESS_CONFIG: PasswordlessAuthConfig = {
+  emailLink: { enabled: false },
+};
+export const DEFAULT_APP_LOCK_CONFIG: Required<AppLockConfig> = {
+  backgroundTimeoutMs: 30000,
+  lockOnColdStart: true,
+  pinLength: 4,
+  maxAttempts: 5,
+  lockoutMs: 30000,
+};
 export const DEFAULT_AUTH_CONFIG: AuthConfig = {
   password: DEFAULT_PASSWORD_CONFIG,
   social: DEFAULT_SOCIAL_CONFIG,
+  passwordless: DEFAULT_PASSWORDLESS_CONFIG,
+  requireEmailVerification: false,
 };
 
 class AuthConfigValidationError extends Error {
@@ -59,6 +201,22 @@ function validateAuthConfig(config: Partial<AuthConfig>): void {
     if (config.password.minLength > 128) {
       throw new AuthConfigValidationError("Password minLength must not exceed 128 characters", "password.minLength");
     }
+    if (config.password.maxLength !== undefined && config.password.maxLength < config.password.minLength) {
+      throw new AuthConfigValidationError("Password maxLength must not be less than minLength", "password.maxLength");
+    }
+    if (config.password.maxRepeatedChars !== undefined && config.password.maxRepeatedChars < 1) {
+      throw new AuthConfigValidationError("Password maxRepeatedChars must be at least 1", "password.maxRepeatedChars");
+    }
+    if (config.password.maxSequenceLength !== undefined && config.password.maxSequenceLength < 2) {
+      throw new AuthConfigValidationError("Password maxSequenceLength must be at least 2", "password.maxSequenceLength");
+    }
+    if (config.password.minScore !== undefined && ![0, 1, 2, 3, 4].includes(config.password.minScore)) {
+      throw new AuthConfigValidationError("Password minScore must be 0, 1, 2, 3 or 4", "password.minScore");
+    }
+    const ruleIds = (config.password.customRules ?? []).map((rule) => rule.id);
+    if (new Set(ruleIds).size !== ruleIds.length) {
+      throw new AuthConfigValidationError("Password custom rule ids must be unique", "password.customRules");
+    }
   }
 
   if (config.social?.google?.enabled) {
@@ -67,12 +225,80 @@ function validateAuthConfig(config: Partial<AuthConfig>): void {
       throw new AuthConfigValidationError("At least one Google client ID must be provided when Google Sign-In is enabled", "social.google");
     }
   }
+
+  validateOidcProviders(config.social?.oidc ?? []);
+
+  if (config.passwordless?.emailLink?.enabled && !config.passwordless.emailLink.url) {
+    throw new AuthConfigValidationError("A link URL must be provided when email link sign-in is enabled", "passwordless.emailLink.url");
+  }
+
+  if (config.session) {
+    validateSessionTimeout(config.session);
+  }
+
+  if (config.appLock) {
+    validateAppLock(config.appLock);
+  }
+}
+
+function validateSessionTimeout(session: SessionTimeoutConfig): void {
+  const { idleTimeoutMs, absoluteTimeoutMs, action } = session;
+  if (idleTimeoutMs === undefined && absoluteTimeoutMs === undefined) {
+    throw new AuthConfigValidationError("Session timeout needs idleTimeoutMs or absoluteTimeoutMs", "session");
+  }
+  if (idleTimeoutMs !== undefined && !(idleTimeoutMs > 0)) {
+    throw new AuthConfigValidationError("Session idleTimeoutMs must be a positive number", "session.idleTimeoutMs");
+  }
+  if (absoluteTimeoutMs !== undefined && !(absoluteTimeoutMs > 0)) {
+    throw new AuthConfigValidationError("Session absoluteTimeoutMs must be a positive number", "session.absoluteTimeoutMs");
+  }
+  if (action !== "signOut" && action !== "lock") {
+    throw new AuthConfigValidationError('Session action must be "signOut" or "lock"', "session.action");
+  }
+}
+
+function validateAppLock(appLock: AppLockConfig): void {
+  const { backgroundTimeoutMs, pinLength, maxAttempts, lockoutMs } = appLock;
+  if (backgroundTimeoutMs !== undefined && !(backgroundTimeoutMs >= 0)) {
+    throw new AuthConfigValidationError("App lock backgroundTimeoutMs must not be negative", "appLock.backgroundTimeoutMs");
+  }
+  if (pinLength !== undefined && !(Number.isInteger(pinLength) && pinLength >= 4 && pinLength <= 8)) {
+    throw new AuthConfigValidationError("App lock pinLength must be between 4 and 8", "appLock.pinLength");
+  }
+  if (maxAttempts !== undefined && !(Number.isInteger(maxAttempts) && maxAttempts > 0)) {
+    throw new AuthConfigValidationError("App lock maxAttempts must be a positive integer", "appLock.maxAttempts");
+  }
+  if (lockoutMs !== undefined && !(lockoutMs >= 0)) {
+    throw new AuthConfigValidationError("App lock lockoutMs must not be negative", "appLock.lockoutMs");
+  }
+}
+
+function validateOidcProviders(providers: OidcProviderConfig[]): void {
+  const ids = new Set<string>();
+  providers.forEach((provider, index) => {
+    const field = `social.oidc[${index}]`;
+    if (!provider.id || ids.has(provider.id)) {
+      throw new AuthConfigValidationError("Every OIDC provider needs a unique id", `${field}.id`);
+    }
+    ids.add(provider.id);
+
+    if (!provider.clientId) {
+      throw new AuthConfigValidationError("OIDC provider clientId must be provided", `${field}.clientId`);
+    }
+    if (!provider.redirectUri) {
+      throw new AuthConfigValidationError("OIDC provider redirectUri must be provided", `${field}.redirectUri`);
+    }
+    if (!/^https:\/\//.test(provider.issuer)) {
+      throw new AuthConfigValidationError("OIDC provider issuer must be an https URL", `${field}.issuer`);
+    }
+  });
 }
 
 export function sanitizeAuthConfig(config: Partial<AuthConfig> = {}): AuthConfig {
   validateAuthConfig(config);
   return {
     password: {
+      ...config.password,
       minLength: config.password?.minLength ?? DEFAULT_PASSWORD_CONFIG.minLength,
     },
     social: {
@@ -85,7 +311,35 @@ export function sanitizeAuthConfig(config: Partial<AuthConfig> = {}): AuthConfig
       apple: {
         enabled: config.social?.apple?.enabled ?? DEFAULT_SOCIAL_CONFIG.apple?.enabled ?? false,
       },
+      oidc: (config.social?.oidc ?? []).map((provider) => ({
+        ...provider,
+        issuer: provider.issuer.replace(/\/+$/, ""),
+        scopes: provider.scopes?.length ? provider.scopes : [...DEFAULT_OIDC_SCOPES],
+        providerId: provider.providerId ?? `oidc.${provider.id}`,
+      })),
+    },
+    passwordless: {
+      emailLink: {
+        enabled: config.passwordless?.emailLink?.enabled ?? DEFAULT_PASSWORDLESS_CONFIG.emailLink?.enabled ?? false,
+        url: config.passwordless?.emailLink?.url,
+        iosBundleId: config.passwordless?.emailLink?.iosBundleId,
+        androidPackageName: config.passwordless?.emailLink?.androidPackageName,
+        androidInstallApp: config.passwordless?.emailLink?.androidInstallApp,
+        linkDomain: config.passwordless?.emailLink?.linkDomain,
+      },
+    },
+    mfa: {
+      totpIssuer: config.mfa?.totpIssuer,
     },
+    session: config.session
+      ? {
+          idleTimeoutMs: config.session.idleTimeoutMs,
+          absoluteTimeoutMs: config.session.absoluteTimeoutMs,
+          action: config.session.action,
+        }
+      : undefined,
+    appLock: config.appLock ? { ...DEFAULT_APP_LOCK_CONFIG, ...config.appLock } : undefined,
+    requireEmailVerification: config.requireEmailVerification ?? false,
   };
 }
 
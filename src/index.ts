@@ -8,8 +8,25 @@
 // =============================================================================
 // DOMAIN LAYER
 // =============================================================================
-export type { AuthUser, AuthProviderType } from './domain/entities/AuthUser';
+export type { AuthUser, AuthProviderType, OAuthProviderType } from './domain/entities/AuthUser';
 export type { UserProfile, UpdateProfileParams } from './domain/entities/UserProfile';
+export type {
+  MultiFactorType,
+  MultiFactorInfo,
+  MultiFactorChallenge,
+  TotpEnrollment,
+} from './domain/entities/MultiFactor';
+export type {
+  LinkableProviderType,
+  LinkCredential,
+  CredentialConflict,
+} from './domain/entities/AccountLink';
+export type {
+  OidcTokens,
+  OidcClaims,
+  OAuthCredential,
+  OidcAuthorizationResult,
+} from './domain/entities/OidcAuth';
 export {
   AuthError,
   AuthInitializationError,
@@ -18,29 +35,76 @@ export {
   AuthNetworkError,
   AuthUserNotFoundError,
   AuthWrongPasswordError,
+  AuthInvalidCredentialError,
   AuthEmailAlreadyInUseError,
   AuthWeakPasswordError,
   AuthInvalidEmailError,
+  AuthTooManyRequestsError,
+  AuthUserDisabledError,
+  AuthRequiresRecentLoginError,
+  AuthSessionExpiredError,
+  AuthOperationNotAllowedError,
+  MultiFactorRequiredError,
+  AuthCredentialAlreadyInUseError,
 } from './domain/errors/AuthError';
+export type { AuthErrorOptions } from './domain/errors/AuthError';
 export type {
   AuthConfig,
   PasswordConfig,
+  PasswordPolicyContext,
+  PasswordRule,
+  PasswordStrengthScore,
   SocialAuthConfig,
   SocialProviderConfig,
   GoogleAuthConfig,
   AppleAuthConfig,
   SocialAuthProvider,
+  OidcProviderConfig,
+  OidcEndpoints,
+  PasswordlessAuthConfig,
+  EmailLinkAuthConfig,
+  MultiFactorAuthConfig,
+  SessionTimeoutConfig,
+  SessionTimeoutAction,
+  AppLockConfig,
 } from './domain/value-objects/AuthConfig';
 export {
   DEFAULT_AUTH_CONFIG,
+  DEFAULT_APP_LOCK_CONFIG,
   DEFAULT_PASSWORD_CONFIG,
   DEFAULT_SOCIAL_CONFIG,
+  DEFAULT_PASSWORDLESS_CONFIG,
+  DEFAULT_OIDC_SCOPES,
 } from './domain/value-objects/AuthConfig';
 
+// =============================================================================
+// APPLICATION LAYER
+// =============================================================================
+export type {
+  IAuthRepository,
+  AuthRepositoryFactory,
+  AuthStateChangeCallback,
+} from './application/ports/IAuthRepository';
+
 // =============================================================================
 // INFRASTRUCTURE LAYER
 // =============================================================================
-export type { AuthCredentials, SignUpCredentials } from './infrastructure/repositories/AuthRepository';
+export { AuthRepository } from './infrastructure/repositories/AuthRepository';
+export {
+  RestAuthRepository,
+  createRestAuthRepositoryFactory,
+} from './infrastructure/repositories/RestAuthRepository';
+export type {
+  RestAuthEndpoints,
+  RestAuthTokens,
+  RestAuthRepositoryOptions,
+} from './infrastructure/repositories/RestAuthRepository';
+export type {
+  AuthCredentials,
+  SignUpCredentials,
+  PhoneAuthVerifier,
+  PhoneVerificationSession,
+} from './infrastructure/repositories/AuthRepository';
 
 // Services
 export {
@@ -48,6 +112,7 @@ export {
   initializeAuthService,
   getAuthService,
   resetAuthService,
+  RECENT_LOGIN_MAX_AGE_MS,
 } from './infrastructure/services/AuthService';
 export {
   initializeAuth,
@@ -55,6 +120,46 @@ export {
   resetAuthInitialization,
 } from './infrastructure/services/initializeAuth';
 export type { InitializeAuthOptions } from './infrastructure/services/initializeAuth';
+export { OidcAuthService, parseRedirectParams } from './infrastructure/services/OidcAuthService';
+export type { OidcAuthServiceOptions, OpenAuthSession } from './infrastructure/services/OidcAuthService';
+export { authEventService } from './infrastructure/services/AuthEventService';
+export type {
+  AuthEventMap,
+  AuthEventName,
+  AuthEventPayload,
+  AuthEvent,
+  AuthEventListener,
+  AuthWildcardListener,
+  AuthEventSubscription,
+  AuthEventHandler,
+  AuthMethod,
+  AuthOperation,
+} from './infrastructure/types/AuthEvents.types';
+export { authAnalyticsService, toAnalyticsMethod } from './infrastructure/services/AuthAnalyticsService';
+export { ConsoleAuthAnalyticsAdapter } from './infrastructure/adapters/ConsoleAuthAnalyticsAdapter';
+export type { ConsoleAuthAnalyticsAdapterOptions } from './infrastructure/adapters/ConsoleAuthAnalyticsAdapter';
+export { BufferingAuthAnalyticsAdapter } from './infrastructure/adapters/BufferingAuthAnalyticsAdapter';
+export type {
+  AuthAnalyticsAdapter,
+  AuthAnalyticsEvent,
+  AuthAnalyticsAttemptEvent,
+  AuthAnalyticsLogoutEvent,
+  AuthAnalyticsConversionEvent,
+  AuthAnalyticsMethod,
+} from './infrastructure/types/AuthAnalytics.types';
+export type {
+  AuthMiddleware,
+  AuthSignInContext,
+  AuthSignUpContext,
+  AuthSignOutContext,
+  AuthSignedInContext,
+  AuthSignedUpContext,
+} from './infrastructure/types/AuthMiddleware.types';
+export { sessionTimeoutService } from './infrastructure/services/SessionTimeoutService';
+export type { SessionExpiry, SessionExpiryReason } from './infrastructure/types/SessionTimeout.types';
+export { appLockService } from './infrastructure/services/AppLockService';
+export type { AppLockState, BiometricProvider } from './infrastructure/types/AppLock.types';
+export type { ReauthenticationHandlers } from './infrastructure/types/Reauthentication.types';
 
 // Storage
 export type { IStorageProvider } from './infrastructure/types/Storage.types';
@@ -91,6 +196,28 @@ export {
   hasContent,
 } from './infrastructure/utils/validation/validationHelpers';
 export { safeCallback, safeCallbackSync } from './infrastructure/utils/safeCallback';
+export { createAuthError, translateFirebaseError, translateSignInError } from './infrastructure/utils/authErrorTranslator';
+export {
+  generateTotpSecret,
+  generateTotpCode,
+  verifyTotpCode,
+  buildOtpauthUri,
+  base32Encode,
+  base32Decode,
+} from './infrastructure/utils/totp';
+export type {
+  TotpOptions,
+  TotpVerifyOptions,
+  OtpauthUriParams,
+} from './infrastructure/utils/totp';
+export {
+  createPkcePair,
+  createCodeChallenge,
+  generateRandomToken,
+  parseIdToken,
+  mapOidcClaimsToAuthUser,
+} from './infrastructure/utils/oidc';
+export type { PkcePair, IdTokenExpectations } from './infrastructure/utils/oidc';
 
 // Calculators
 export {
@@ -112,21 +239,95 @@ export {
   calculatePasswordStrength,
 } from './infrastructure/utils/calculators';
 
+// Auth State Machine
+export { transitionAuthStatus, isSettledAuthStatus } from './infrastructure/utils/authStateMachine';
+
 // =============================================================================
 // PRESENTATION LAYER - Hooks
 // =============================================================================
 export { useAuth } from './presentation/hooks/useAuth';
+export { useAuthEvent } from './presentation/hooks/useAuthEvent';
+export { useSessionTimeout } from './presentation/hooks/useSessionTimeout';
+export { useAppLock } from './presentation/hooks/useAppLock';
+export type { UseAppLockResult } from './presentation/hooks/useAppLock';
+export { useAuthTranslations } from './presentation/hooks/useAuthTranslations';
+export type {
+  UseSessionTimeoutOptions,
+  UseSessionTimeoutResult,
+} from './presentation/hooks/useSessionTimeout';
 export type { UseAuthResult } from './presentation/hooks/useAuth';
 export { useLoginForm } from './presentation/hooks/useLoginForm';
 export type { UseLoginFormConfig, UseLoginFormResult } from './presentation/hooks/useLoginForm';
 export { useRegisterForm } from './presentation/hooks/useRegisterForm';
+export { useForgotPasswordForm } from './presentation/hooks/useForgotPasswordForm';
+export { useChangePasswordForm } from './presentation/hooks/useChangePasswordForm';
+export type {
+  UseChangePasswordFormConfig,
+  UseChangePasswordFormResult,
+} from './presentation/hooks/useChangePasswordForm';
+export { useChangeEmailForm } from './presentation/hooks/useChangeEmailForm';
+export type {
+  UseChangeEmailFormConfig,
+  UseChangeEmailFormResult,
+} from './presentation/hooks/useChangeEmailForm';
+export type {
+  UseForgotPasswordFormConfig,
+  UseForgotPasswordFormResult,
+} from './presentation/hooks/useForgotPasswordForm';
+export { usePhoneLoginForm } from './presentation/hooks/usePhoneLoginForm';
+export type {
+  UsePhoneLoginFormConfig,
+  UsePhoneLoginFormResult,
+} from './presentation/hooks/usePhoneLoginForm';
+export { useMagicLinkForm } from './presentation/hooks/useMagicLinkForm';
+export type {
+  UseMagicLinkFormConfig,
+  UseMagicLinkFormResult,
+} from './presentation/hooks/useMagicLinkForm';
+export { useEmailLinkHandler } from './presentation/hooks/useEmailLinkHandler';
+export type {
+  UseEmailLinkHandlerOptions,
+  UseEmailLinkHandlerResult,
+} from './presentation/hooks/useEmailLinkHandler';
+export { useOtpVerifyForm } from './presentation/hooks/useOtpVerifyForm';
+export { useMfaChallengeForm } from './presentation/hooks/useMfaChallengeForm';
+export type {
+  UseMfaChallengeFormConfig,
+  UseMfaChallengeFormResult,
+} from './presentation/hooks/useMfaChallengeForm';
+export { useTotpEnrollment } from './presentation/hooks/useTotpEnrollment';
+export { useLinkedAccounts } from './presentation/hooks/useLinkedAccounts';
+export { useOidcAuth } from './presentation/hooks/useOidcAuth';
+export type { UseOidcAuthOptions, UseOidcAuthResult } from './presentation/hooks/useOidcAuth';
+export type {
+  UseLinkedAccountsOptions,
+  UseLinkedAccountsResult,
+} from './presentation/hooks/useLinkedAccounts';
+export type {
+  UseTotpEnrollmentOptions,
+  UseTotpEnrollmentResult,
+} from './presentation/hooks/useTotpEnrollment';
+export type {
+  UseOtpVerifyFormConfig,
+  UseOtpVerifyFormResult,
+} from './presentation/hooks/useOtpVerifyForm';
 export type {
   UseRegisterFormConfig,
   UseRegisterFormResult,
 } from './presentation/hooks/useRegisterForm';
 export { useAuthRequired } from './presentation/hooks/useAuthRequired';
+export { useEmailVerification } from './presentation/hooks/useEmailVerification';
+export type {
+  UseEmailVerificationOptions,
+  UseEmailVerificationResult,
+} from './presentation/hooks/useEmailVerification';
 export { useRequireAuth, useUserId } from './presentation/hooks/useRequireAuth';
 export { useUserProfile } from './presentation/hooks/useUserProfile';
+export { useEditProfile } from './presentation/hooks/useEditProfile';
+export type {
+  UseEditProfileOptions,
+  UseEditProfileResult,
+} from './presentation/hooks/useEditProfile';
 export type {
   UserProfileData,
   UseUserProfileParams,
@@ -146,8 +347,14 @@ export { useAuthHandlers } from './presentation/hooks/useAuthHandlers';
 export type {
   AuthHandlersAppInfo,
   AuthHandlersTranslations,
+  AuthHandlersReauthentication,
 } from './presentation/hooks/useAuthHandlers';
 export { usePasswordPromptNavigation } from './presentation/hooks/usePasswordPromptNavigation';
+export { useReauthentication } from './presentation/hooks/useReauthentication';
+export type {
+  UseReauthenticationOptions,
+  UseReauthenticationResult,
+} from './presentation/hooks/useReauthentication';
 export type {
   UsePasswordPromptNavigationOptions,
   UsePasswordPromptNavigationReturn,
@@ -165,16 +372,63 @@ export type { UseLocalErrorResult } from './presentation/hooks/useLocalError';
 // =============================================================================
 export { AuthProvider } from './presentation/providers/AuthProvider';
 export type { ErrorFallbackProps } from './presentation/providers/AuthProvider';
+export { AuthI18nProvider } from './presentation/providers/AuthI18nProvider';
+export type { AuthI18nProviderProps, AuthI18nContextValue } from './presentation/providers/AuthI18nProvider';
 export { LoginScreen } from './presentation/screens/LoginScreen';
 export type {
   LoginScreenProps,
   LoginScreenTranslations,
 } from './presentation/screens/LoginScreen';
 export { RegisterScreen } from './presentation/screens/RegisterScreen';
+export { ForgotPasswordScreen } from './presentation/screens/ForgotPasswordScreen';
+export { EmailVerificationScreen } from './presentation/screens/EmailVerificationScreen';
+export { ChangePasswordScreen } from './presentation/screens/ChangePasswordScreen';
+export type {
+  ChangePasswordScreenProps,
+  ChangePasswordScreenTranslations,
+} from './presentation/screens/ChangePasswordScreen';
+export { ChangeEmailScreen } from './presentation/screens/ChangeEmailScreen';
+export type {
+  ChangeEmailScreenProps,
+  ChangeEmailScreenTranslations,
+} from './presentation/screens/ChangeEmailScreen';
+export type {
+  EmailVerificationScreenProps,
+  EmailVerificationScreenTranslations,
+} from './presentation/screens/EmailVerificationScreen';
+export type {
+  ForgotPasswordScreenProps,
+  ForgotPasswordScreenTranslations,
+} from './presentation/screens/ForgotPasswordScreen';
 export type {
   RegisterScreenProps,
   RegisterScreenTranslations,
 } from './presentation/screens/RegisterScreen';
+export { PhoneLoginScreen } from './presentation/screens/PhoneLoginScreen';
+export type {
+  PhoneLoginScreenProps,
+  PhoneLoginScreenTranslations,
+} from './presentation/screens/PhoneLoginScreen';
+export { MagicLinkScreen } from './presentation/screens/MagicLinkScreen';
+export type {
+  MagicLinkScreenProps,
+  MagicLinkScreenTranslations,
+} from './presentation/screens/MagicLinkScreen';
+export { OtpVerifyScreen } from './presentation/screens/OtpVerifyScreen';
+export { MfaChallengeScreen } from './presentation/screens/MfaChallengeScreen';
+export { LinkedAccountsScreen } from './presentation/screens/LinkedAccountsScreen';
+export type {
+  LinkedAccountsScreenProps,
+  LinkedAccountsScreenTranslations,
+} from './presentation/screens/LinkedAccountsScreen';
+export type {
+  MfaChallengeScreenProps,
+  MfaChallengeScreenTranslations,
+} from './presentation/screens/MfaChallengeScreen';
+export type {
+  OtpVerifyScreenProps,
+  OtpVerifyScreenTranslations,
+} from './presentation/screens/OtpVerifyScreen';
 export { AccountScreen } from './presentation/screens/AccountScreen';
 export type {
   AccountScreenProps,
@@ -183,8 +437,15 @@ export type {
 export { EditProfileScreen } from './presentation/screens/EditProfileScreen';
 export type {
   EditProfileScreenProps,
+  EditProfileConfig,
+  EditProfileLabels,
 } from './presentation/screens/EditProfileScreen';
 export { PasswordPromptScreen } from './presentation/screens/PasswordPromptScreen';
+export { AppLockScreen } from './presentation/screens/AppLockScreen';
+export type {
+  AppLockScreenProps,
+  AppLockScreenTranslations,
+} from './presentation/screens/AppLockScreen';
 export type {
   PasswordPromptScreenProps,
 } from './presentation/screens/PasswordPromptScreen';
@@ -193,8 +454,12 @@ export type {
   AuthStackParamList,
   AuthNavigatorProps,
   AuthNavigatorTranslations,
+  PhoneAuthConfiguration,
 } from './presentation/navigation/AuthNavigator';
 export { AuthBottomSheet } from './presentation/components/AuthBottomSheet';
+export type {
+  ForgotPasswordFormTranslations,
+} from './presentation/components/ForgotPasswordForm';
 export type {
   AuthBottomSheetProps,
   AuthBottomSheetTranslations,
@@ -202,7 +467,20 @@ export type {
 export { SocialLoginButtons } from './presentation/components/SocialLoginButtons';
 export type {
   SocialLoginButtonsTranslations,
+  SocialLoginProviderButton,
 } from './presentation/components/SocialLoginButtons';
+export { OtpCodeInput } from './presentation/components/OtpCodeInput';
+export type { OtpCodeInputProps } from './presentation/components/OtpCodeInput';
+export { MfaChallengeForm } from './presentation/components/MfaChallengeForm';
+export type {
+  MfaChallengeFormProps,
+  MfaChallengeFormTranslations,
+} from './presentation/components/MfaChallengeForm';
+export { EmailVerificationBanner } from './presentation/components/EmailVerificationBanner';
+export type {
+  EmailVerificationBannerProps,
+  EmailVerificationBannerTranslations,
+} from './presentation/components/EmailVerificationBanner';
 export { ProfileSection } from './presentation/components/ProfileSection';
 export type {
   ProfileSectionProps,
@@ -222,17 +500,22 @@ export {
 export type {
   AuthState,
   AuthActions,
+  AuthStatus,
+  AuthStateEvent,
   UserType,
   AuthListenerOptions,
 } from './types/auth-store.types';
 export type { AuthModalMode } from './presentation/stores/auth.selectors';
 export {
   selectUser,
+  selectStatus,
   selectLoading,
   selectError,
+  selectTransition,
   selectSetLoading,
   selectSetError,
   selectSetIsAnonymous,
+  selectUpdateUser,
   selectShowAuthModal,
   selectUserId,
   selectIsAuthenticated,
@@ -248,11 +531,13 @@ export {
 // SHARED LAYER (New Modular Utilities)
 // =============================================================================
 // Validation
-export { EmailValidator, PasswordValidator, NameValidator } from './shared/validation/validators';
+export { EmailValidator, PasswordValidator, NameValidator, PhoneValidator } from './shared/validation/validators';
+export type { PhoneValidatorConfig } from './shared/validation/validators';
 export {
   EmailSanitizer,
   PasswordSanitizer,
   NameSanitizer,
+  PhoneSanitizer,
 } from './shared/validation/sanitizers';
 export {
   BaseValidationRule,
@@ -260,9 +545,15 @@ export {
   RegexRule,
   MinLengthRule,
 } from './shared/validation/rules';
+export { evaluatePasswordPolicy, getFailedPasswordCheck } from './shared/validation/policy';
+export { estimatePasswordStrength } from './shared/validation/strength';
 export type {
   ValidationResult,
   PasswordRequirements,
+  PasswordRequirementCheck,
+  PasswordStrengthEstimate,
+  PasswordStrengthMatch,
+  PasswordPatternType,
   PasswordStrengthResult,
   ValidationRule,
   ValidatorConfig,
@@ -275,14 +566,32 @@ export {
   FieldErrorMapper,
 } from './shared/error-handling/mappers';
 export { ErrorHandler, FormErrorHandler } from './shared/error-handling/handlers';
+export { authErrorRegistry, interpolateErrorMessage } from './shared/error-handling/registry';
 export type {
   FieldError,
   FormFieldErrors,
   ErrorMap,
   ErrorMappingConfig,
   FormErrorHandlerConfig,
+  ErrorMessageParams,
+  AuthErrorLocalizationConfig,
 } from './shared/error-handling/types';
 
+// I18n
+export {
+  AUTH_TRANSLATIONS,
+  AUTH_LOCALES,
+  DEFAULT_AUTH_LOCALE,
+  resolveAuthLocale,
+  getAuthTranslationBundle,
+} from './shared/i18n/bundles';
+export type {
+  AuthTranslationKey,
+  AuthTranslationBundle,
+  AuthLocale,
+  AuthTranslationOverrides,
+} from './shared/i18n/types';
+
 // Form
 export { useField, useForm } from './shared/form/builders';
 export type {
@@ -338,5 +647,12 @@ export {
   getAuthErrorLocalizationKey,
   resolveErrorMessage,
 } from './presentation/utils/getAuthErrorMessage';
+export { createAuthTranslator } from './presentation/utils/authTranslator';
+export type { AuthTranslate } from './presentation/utils/authTranslator';
+export {
+  getDefaultLoginScreenTranslations,
+  getDefaultRegisterScreenTranslations,
+  getDefaultSocialButtonsTranslations,
+} from './presentation/utils/defaultAuthTranslations';
 export { createAuthInitModule } from './init/createAuthInitModule';
 export type { AuthInitModuleConfig } from './init/createAuthInitModule';
@@ -0,0 +1,33 @@
+/**
+ * Buffering Auth Analytics Adapter
+ * Keeps tracked events in memory so tests can assert on them
+ */
+
+import type {
+  AuthAnalyticsAdapter,
+  AuthAnalyticsEvent,
+} from "../types/AuthAnalytics.types";
+
+export class BufferingAuthAnalyticsAdapter implements AuthAnalyticsAdapter {
+  private events: AuthAnalyticsEvent[] = [];
+
+  track(event: AuthAnalyticsEvent): void {
+    this.events.push(event);
+  }
+
+  /**
+   * Tracked events in order, optionally only those with the given name
+   */
+  getEvents<N extends AuthAnalyticsEvent["name"]>(name?: N): Extract<AuthAnalyticsEvent, { name: N }>[] {
+    const events = name ? this.events.filter((event) => event.name === name) : this.events;
+    return [...events] as Extract<AuthAnalyticsEvent, { name: N }>[];
+  }
+
+  getLastEvent(): AuthAnalyticsEvent | null {
+    return this.events[this.events.length - 1] ?? null;
+  }
+
+  clear(): void {
+    this.events = [];
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Console Auth Analytics Adapter
+ * Logs auth analytics events, useful while wiring up a real analytics adapter
+ */
+
+import type { AuthAnalyticsAdapter, AuthAnalyticsEvent } from "../types/AuthAnalytics.types";
+
+export interface ConsoleAuthAnalyticsAdapterOptions {
+  /** Defaults to "[AuthAnalytics]" */
+  prefix?: string;
+  /** Defaults to console.log */
+  log?: (message: string, event: AuthAnalyticsEvent) => void;
+}
+
+export class ConsoleAuthAnalyticsAdapter implements AuthAnalyticsAdapter {
+  private prefix: string;
+  private log: (message: string, event: AuthAnalyticsEvent) => void;
+
+  constructor(options: ConsoleAuthAnalyticsAdapterOptions = {}) {
+    this.prefix = options.prefix ?? "[AuthAnalytics]";
+    this.log = options.log ?? ((message, event) => console.log(message, event));
+  }
+
+  track(event: AuthAnalyticsEvent): void {
+    const outcome = "success" in event ? (event.success ? " (success)" : ` (failed: ${event.errorCode ?? "unknown"})`) : "";
+    this.log(`${this.prefix} ${event.name}${outcome}`, event);
+  }
+}
@@ -3,31 +3,84 @@
  * Handles authentication with validation
  */
 
-import type { IAuthRepository } from "../../application/ports/IAuthRepository";
-import type { AuthUser } from "../../domain/entities/AuthUser";
+import type { IAuthRepository, AuthStateChangeCallback } from "../../application/ports/IAuthRepository";
+import type { AuthUser, AuthProviderType } from "../../domain/entities/AuthUser";
+import type { LinkCredential, LinkableProviderType, CredentialConflict } from "../../domain/entities/AccountLink";
+import type { UpdateProfileParams } from "../../domain/entities/UserProfile";
+import type { OAuthCredential } from "../../domain/entities/OidcAuth";
 import {
-    signInWithEmail,
     signUpWithEmail,
     signOut as firebaseSignOut,
     getCurrentUserFromGlobal,
-    setupAuthListener,
+    anonymousAuthService,
     ensureUserDocument,
+    getFirebaseAuth,
 } from "@umituz/react-native-firebase";
+import {
+    sendPasswordResetEmail as firebaseSendPasswordResetEmail,
+    sendEmailVerification as firebaseSendEmailVerification,
+    reload,
+    EmailAuthProvider,
+    reauthenticateWithCredential,
+    updatePassword,
+    verifyBeforeUpdateEmail,
+    updateProfile as firebaseUpdateProfile,
+    signInWithPhoneNumber,
+    signInWithCredential,
+    PhoneAuthProvider,
+    sendSignInLinkToEmail,
+    isSignInWithEmailLink,
+    signInWithEmailLink as firebaseSignInWithEmailLink,
+    signInWithEmailAndPassword,
+    onIdTokenChanged,
+    linkWithCredential,
+    unlink,
+    GoogleAuthProvider,
+    OAuthProvider,
+    multiFactor,
+    getMultiFactorResolver,
+    TotpMultiFactorGenerator,
+    TotpSecret,
+    type ActionCodeSettings,
+    type AuthCredential,
+    type AuthError as FirebaseAuthError,
+    type MultiFactorError,
+    type MultiFactorInfo as FirebaseMultiFactorInfo,
+    type MultiFactorResolver,
+    type User,
+} from "firebase/auth";
 import {
     AuthValidationError,
     AuthWeakPasswordError,
     AuthInvalidEmailError,
     AuthError,
+    MultiFactorRequiredError,
+    AuthCredentialAlreadyInUseError,
 } from "../../domain/errors/AuthError";
+import type {
+    MultiFactorChallenge,
+    MultiFactorInfo,
+    TotpEnrollment,
+} from "../../domain/entities/MultiFactor";
+import { buildOtpauthUri, verifyTotpCode } from "../utils/totp";
 import {
     validateEmail,
     validatePasswordForLogin,
     validatePasswordForRegister,
     validateDisplayName,
+    validatePhoneNumber,
+    validateOtpCode,
 } from "../utils/AuthValidation";
 import type { AuthConfig } from "../../domain/value-objects/AuthConfig";
-import { sanitizeEmail, sanitizeName, sanitizePassword } from "../utils/validation/sanitization";
+import {
+    sanitizeEmail,
+    sanitizeName,
+    sanitizePassword,
+    sanitizePhoneNumber,
+    sanitizeOtpCode,
+} from "../utils/validation/sanitization";
 import { mapToAuthUser } from "../utils/UserMapper";
+import { translateFirebaseError, translateSignInError } from "../utils/authErrorTranslator";
 
 export interface SignUpCredentials {
     email: string;
@@ -40,6 +93,24 @@ export interface AuthCredentials {
     password: string;
 }
 
+/**
+ * Proves the SMS request comes from the app (e.g. reCAPTCHA).
+ * Structurally compatible with Firebase's ApplicationVerifier, so a fake
+ * verifier can be used together with Firebase test phone numbers.
+ */
+export interface PhoneAuthVerifier {
+    readonly type: string;
+    verify(): Promise<string>;
+}
+
+/**
+ * Result of the first phone sign-in step, needed to confirm the OTP
+ */
+export interface PhoneVerificationSession {
+    verificationId: string;
+    phoneNumber: string;
+}
+
 export class AuthRepository implements IAuthRepository {
     private config: AuthConfig;
 
@@ -64,14 +135,14 @@ export class AuthRepository implements IAuthRepository {
             }
         }
 
-        const passwordResult = validatePasswordForRegister(password, this.config.password);
+        const passwordResult = validatePasswordForRegister(password, this.config.password, { email, displayName });
         if (!passwordResult.isValid) {
             throw new AuthWeakPasswordError(passwordResult.error);
         }
 
         const result = await signUpWithEmail({ email, password, displayName });
         if (!result.success || !result.data) {
-            throw new AuthError(result.error?.message || "Sign up failed");
+            throw translateFirebaseError(result.error, "Sign up failed");
         }
 
         const authUser = mapToAuthUser(result.data);
@@ -99,12 +170,29 @@ export class AuthRepository implements IAuthRepository {
             throw new AuthValidationError(passwordResult.error || "Password is required", "password");
         }
 
-        const result = await signInWithEmail(email, password);
-        if (!result.success || !result.data) {
-            throw new AuthError(result.error?.message || "Sign in failed");
+        const auth = getFirebaseAuth();
+        if (!auth) {
+            throw new AuthError("Firebase Auth is not initialized", "AUTH_NOT_INITIALIZED");
         }
 
-        const authUser = mapToAuthUser(result.data);
+        // Called directly (not through the firebase package helper) so a
+        // second-factor challenge keeps the resolver it needs
+        let user: User;
+        try {
+            const result = await signInWithEmailAndPassword(auth, email, password);
+            user = result.user;
+        } catch (error) {
+            if ((error as { code?: string } | null)?.code === "auth/multi-factor-auth-required") {
+                const resolver = getMultiFactorResolver(auth, error as MultiFactorError);
+                throw new MultiFactorRequiredError({
+                    hints: resolver.hints.map(mapMultiFactorInfo),
+                    resolver,
+                });
+            }
+            throw translateSignInError(error, "Sign in failed");
+        }
+
+        const authUser = mapToAuthUser(user);
         if (!authUser) {
             throw new AuthError("Failed to map user");
         }
@@ -112,11 +200,653 @@ export class AuthRepository implements IAuthRepository {
         return authUser;
     }
 
+    async signInAnonymously(): Promise<AuthUser> {
+        const auth = getFirebaseAuth();
+        if (!auth) {
+            throw new AuthError("Firebase Auth is not initialized", "AUTH_NOT_INITIALIZED");
+        }
+
+        let user: User;
+        try {
+            const result = await anonymousAuthService.signInAnonymously(auth);
+            user = result.user;
+        } catch (error) {
+            throw translateFirebaseError(error, "Anonymous sign-in failed");
+        }
+
+        return this.mapCurrentUser(user);
+    }
+
+    /**
+     * Signs in with tokens from an OAuth 2.0 / OIDC provider (Microsoft, GitHub, "oidc.*")
+     * that is enabled in the Firebase console
+     */
+    async signInWithOAuth(credential: OAuthCredential): Promise<AuthUser> {
+        if (!credential.idToken && !credential.accessToken) {
+            throw new AuthError("An ID token or access token is required", "AUTH_OIDC_INVALID_RESPONSE");
+        }
+
+        const auth = getFirebaseAuth();
+        if (!auth) {
+            throw new AuthError("Firebase Auth is not initialized", "AUTH_NOT_INITIALIZED");
+        }
+
+        let user: User;
+        try {
+            const firebaseCredential = new OAuthProvider(credential.providerId).credential({
+                idToken: credential.idToken,
+                accessToken: credential.accessToken,
+                rawNonce: credential.rawNonce,
+            });
+            const result = await signInWithCredential(auth, firebaseCredential);
+            user = result.user;
+        } catch (error) {
+            if ((error as { code?: string } | null)?.code === "auth/multi-factor-auth-required") {
+                const resolver = getMultiFactorResolver(auth, error as MultiFactorError);
+                throw new MultiFactorRequiredError({
+                    hints: resolver.hints.map(mapMultiFactorInfo),
+                    resolver,
+                });
+            }
+            throw translateSignInError(error, "Sign in failed");
+        }
+
+        await ensureUserDocument(user, { signUpMethod: credential.providerId });
+
+        return this.mapCurrentUser(user);
+    }
+
     async signOut(): Promise<void> {
         const result = await firebaseSignOut();
         if (!result.success) {
-            throw new AuthError(result.error?.message || "Sign out failed");
+            throw translateFirebaseError(result.error, "Sign out failed");
+        }
+    }
+
+    async sendPasswordResetEmail(email: string): Promise<void> {
+        const sanitizedEmail = sanitizeEmail(email);
+
+        const emailResult = validateEmail(sanitizedEmail);
+        if (!emailResult.isValid) {
+            throw new AuthInvalidEmailError(emailResult.error);
+        }
+
+        const auth = getFirebaseAuth();
+        if (!auth) {
+            throw new AuthError("Firebase Auth is not initialized", "AUTH_NOT_INITIALIZED");
+        }
+
+        try {
+            await firebaseSendPasswordResetEmail(auth, sanitizedEmail);
+        } catch (error) {
+            throw translateFirebaseError(error, "Password reset failed");
+        }
+    }
+
+    async sendEmailVerification(): Promise<void> {
+        const auth = getFirebaseAuth();
+        if (!auth) {
+            throw new AuthError("Firebase Auth is not initialized", "AUTH_NOT_INITIALIZED");
+        }
+
+        const user = auth.currentUser;
+        if (!user || user.isAnonymous || !user.email) {
+            throw new AuthError("No signed-in user with an email address", "AUTH_NO_USER");
+        }
+
+        if (user.emailVerified) return;
+
+        try {
+            await firebaseSendEmailVerification(user);
+        } catch (error) {
+            throw translateFirebaseError(error, "Sending verification email failed");
+        }
+    }
+
+    async reloadUser(): Promise<AuthUser | null> {
+        const auth = getFirebaseAuth();
+        const user = auth?.currentUser;
+        if (!user) return null;
+
+        try {
+            await reload(user);
+        } catch (error) {
+            throw translateFirebaseError(error, "Reloading user failed");
+        }
+
+        return mapToAuthUser(auth.currentUser);
+    }
+
+    async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+        const current = sanitizePassword(currentPassword);
+        const next = sanitizePassword(newPassword);
+
+        const currentResult = validatePasswordForLogin(current);
+        if (!currentResult.isValid) {
+            throw new AuthValidationError(currentResult.error || "Password is required", "currentPassword");
+        }
+
+        const passwordResult = validatePasswordForRegister(next, this.config.password, this.getCurrentUser() ?? undefined);
+        if (!passwordResult.isValid) {
+            throw new AuthWeakPasswordError(passwordResult.error);
+        }
+
+        if (current === next) {
+            throw new AuthValidationError("auth.validation.passwordUnchanged", "newPassword");
+        }
+
+        const user = this.requireFirebaseUser();
+
+        try {
+            await updatePassword(user, next);
+        } catch (error) {
+            throw translateFirebaseError(error, "Changing password failed");
+        }
+    }
+
+    /**
+     * Sends a confirmation link to the new address; the email changes once it is opened
+     */
+    async changeEmail(newEmail: string): Promise<void> {
+        const email = sanitizeEmail(newEmail);
+
+        const emailResult = validateEmail(email);
+        if (!emailResult.isValid) {
+            throw new AuthInvalidEmailError(emailResult.error);
+        }
+
+        const user = this.requireFirebaseUser();
+
+        if (user.email?.toLowerCase() === email) {
+            throw new AuthValidationError("auth.validation.emailUnchanged", "email");
+        }
+
+        try {
+            await verifyBeforeUpdateEmail(user, email);
+        } catch (error) {
+            throw translateFirebaseError(error, "Changing email failed");
+        }
+    }
+
+    /**
+     * Password accounts confirm the password, others sign in again with Google or Apple
+     */
+    async reauthenticate(credential: LinkCredential): Promise<void> {
+        if (credential.provider === "password") {
+            await this.reauthenticateWithPassword(sanitizePassword(credential.password));
+            return;
+        }
+
+        const user = this.requireFirebaseUser();
+        try {
+            await reauthenticateWithCredential(user, this.buildCredential(credential));
+        } catch (error) {
+            throw translateFirebaseError(error, "Reauthentication failed");
+        }
+    }
+
+    async updateProfile(params: UpdateProfileParams): Promise<AuthUser> {
+        const updates: { displayName?: string; photoURL?: string | null } = {};
+
+        if (params.displayName !== undefined) {
+            const displayName = sanitizeName(params.displayName);
+            const nameResult = validateDisplayName(displayName);
+            if (!nameResult.isValid) {
+                throw new AuthValidationError(nameResult.error || "Invalid name", "displayName");
+            }
+            updates.displayName = displayName;
+        }
+
+        if (params.photoURL !== undefined) {
+            const photoURL = params.photoURL.trim();
+            if (photoURL && !/^https?:\/\//i.test(photoURL)) {
+                throw new AuthValidationError("auth.validation.invalidPhotoURL", "photoURL");
+            }
+            // Empty string removes the photo
+            updates.photoURL = photoURL || null;
+        }
+
+        const auth = getFirebaseAuth();
+        if (!auth) {
+            throw new AuthError("Firebase Auth is not initialized", "AUTH_NOT_INITIALIZED");
+        }
+
+        const user = auth.currentUser;
+        if (!user || user.isAnonymous) {
+            throw new AuthError("No signed-in user", "AUTH_NO_USER");
+        }
+
+        if (Object.keys(updates).length > 0) {
+            try {
+                await firebaseUpdateProfile(user, updates);
+            } catch (error) {
+                throw translateFirebaseError(error, "Updating profile failed");
+            }
+        }
+
+        const authUser = mapToAuthUser(user);
+        if (!authUser) {
+            throw new AuthError("Failed to map user");
+        }
+
+        return authUser;
+    }
+
+    /**
+     * Password reauthentication required by Firebase for sensitive operations
+     */
+    private async reauthenticateWithPassword(password: string): Promise<User> {
+        const passwordResult = validatePasswordForLogin(password);
+        if (!passwordResult.isValid) {
+            throw new AuthValidationError(passwordResult.error || "Password is required", "password");
+        }
+
+        const auth = getFirebaseAuth();
+        if (!auth) {
+            throw new AuthError("Firebase Auth is not initialized", "AUTH_NOT_INITIALIZED");
+        }
+
+        const user = auth.currentUser;
+        if (!user || user.isAnonymous || !user.email) {
+            throw new AuthError("No signed-in user with an email address", "AUTH_NO_USER");
+        }
+
+        try {
+            const credential = EmailAuthProvider.credential(user.email, password);
+            await reauthenticateWithCredential(user, credential);
+        } catch (error) {
+            throw translateFirebaseError(error, "Reauthentication failed");
+        }
+
+        return user;
+    }
+
+    async signInWithPhone(phoneNumber: string, verifier: PhoneAuthVerifier): Promise<PhoneVerificationSession> {
+        const phone = sanitizePhoneNumber(phoneNumber);
+
+        const phoneResult = validatePhoneNumber(phone);
+        if (!phoneResult.isValid) {
+            throw new AuthError(phoneResult.error || "Invalid phone number", "AUTH_INVALID_PHONE");
+        }
+
+        const auth = getFirebaseAuth();
+        if (!auth) {
+            throw new AuthError("Firebase Auth is not initialized", "AUTH_NOT_INITIALIZED");
+        }
+
+        try {
+            const confirmation = await signInWithPhoneNumber(auth, phone, verifier);
+            return { verificationId: confirmation.verificationId, phoneNumber: phone };
+        } catch (error) {
+            throw translateFirebaseError(error, "Sending verification code failed");
+        }
+    }
+
+    async confirmOtp(verificationId: string, code: string): Promise<AuthUser> {
+        const otp = sanitizeOtpCode(code);
+
+        const otpResult = validateOtpCode(otp);
+        if (!otpResult.isValid) {
+            throw new AuthValidationError(otpResult.error || "Invalid code", "code");
+        }
+
+        const auth = getFirebaseAuth();
+        if (!auth) {
+            throw new AuthError("Firebase Auth is not initialized", "AUTH_NOT_INITIALIZED");
+        }
+
+        let user: User;
+        try {
+            const credential = PhoneAuthProvider.credential(verificationId, otp);
+            const result = await signInWithCredential(auth, credential);
+            user = result.user;
+        } catch (error) {
+            throw translateFirebaseError(error, "Verifying code failed");
+        }
+
+        const authUser = mapToAuthUser(user);
+        if (!authUser) {
+            throw new AuthError("Failed to map user");
+        }
+
+        await ensureUserDocument(user, { signUpMethod: "phone" });
+
+        return authUser;
+    }
+
+    async sendSignInLink(email: string): Promise<void> {
+        const emailLink = this.config.passwordless?.emailLink;
+        if (!emailLink?.enabled || !emailLink.url) {
+            throw new AuthError("Email link sign-in is not enabled", "AUTH_PASSWORDLESS_DISABLED");
+        }
+
+        const sanitizedEmail = sanitizeEmail(email);
+        const emailResult = validateEmail(sanitizedEmail);
+        if (!emailResult.isValid) {
+            throw new AuthInvalidEmailError(emailResult.error);
+        }
+
+        const auth = getFirebaseAuth();
+        if (!auth) {
+            throw new AuthError("Firebase Auth is not initialized", "AUTH_NOT_INITIALIZED");
+        }
+
+        const settings: ActionCodeSettings = {
+            url: emailLink.url,
+            handleCodeInApp: true,
+            linkDomain: emailLink.linkDomain,
+            iOS: emailLink.iosBundleId ? { bundleId: emailLink.iosBundleId } : undefined,
+            android: emailLink.androidPackageName
+                ? { packageName: emailLink.androidPackageName, installApp: emailLink.androidInstallApp }
+                : undefined,
+        };
+
+        try {
+            await sendSignInLinkToEmail(auth, sanitizedEmail, settings);
+        } catch (error) {
+            throw translateFirebaseError(error, "Sending sign-in link failed");
+        }
+    }
+
+    isSignInLink(url: string): boolean {
+        const auth = getFirebaseAuth();
+        return !!auth && isSignInWithEmailLink(auth, url);
+    }
+
+    async signInWithEmailLink(email: string, url: string): Promise<AuthUser> {
+        const sanitizedEmail = sanitizeEmail(email);
+        const emailResult = validateEmail(sanitizedEmail);
+        if (!emailResult.isValid) {
+            throw new AuthInvalidEmailError(emailResult.error);
+        }
+
+        const auth = getFirebaseAuth();
+        if (!auth) {
+            throw new AuthError("Firebase Auth is not initialized", "AUTH_NOT_INITIALIZED");
+        }
+
+        let user: User;
+        try {
+            const result = await firebaseSignInWithEmailLink(auth, sanitizedEmail, url);
+            user = result.user;
+        } catch (error) {
+            throw translateFirebaseError(error, "Email link sign-in failed");
+        }
+
+        const authUser = mapToAuthUser(user);
+        if (!authUser) {
+            throw new AuthError("Failed to map user");
+        }
+
+        await ensureUserDocument(user, { signUpMethod: "emailLink" });
+
+        return authUser;
+    }
+
+    async startTotpEnrollment(params: { accountName?: string; issuer?: string } = {}): Promise<TotpEnrollment> {
+        const user = this.requireFirebaseUser();
+
+        let secret: TotpSecret;
+        try {
+            const session = await multiFactor(user).getSession();
+            secret = await TotpMultiFactorGenerator.generateSecret(session);
+        } catch (error) {
+            throw translateFirebaseError(error, "Starting two-factor enrollment failed");
+        }
+
+        const accountName = params.accountName ?? user.email ?? user.uid;
+        const issuer = params.issuer ?? this.config.mfa?.totpIssuer ?? getFirebaseAuth()?.app.options.projectId ?? "App";
+
+        return {
+            secretKey: secret.secretKey,
+            otpauthUri: buildOtpauthUri({
+                secret: secret.secretKey,
+                accountName,
+                issuer,
+                digits: secret.codeLength,
+                period: secret.codeIntervalSeconds,
+            }),
+            accountName,
+            issuer,
+            digits: secret.codeLength,
+            period: secret.codeIntervalSeconds,
+            secret,
+        };
+    }
+
+    async completeTotpEnrollment(enrollment: TotpEnrollment, code: string, displayName?: string): Promise<MultiFactorInfo[]> {
+        const otp = sanitizeOtpCode(code);
+        const otpResult = validateOtpCode(otp, enrollment.digits);
+        if (!otpResult.isValid) {
+            throw new AuthValidationError(otpResult.error || "Invalid code", "code");
+        }
+
+        if (!(enrollment.secret instanceof TotpSecret)) {
+            throw new AuthError("Invalid enrollment, start the enrollment again", "AUTH_MFA_ENROLLMENT_INVALID");
+        }
+
+        // Catch typos offline first; the window allows for clock drift between devices
+        if (enrollment.secret.hashingAlgorithm.toUpperCase().replace("-", "") === "SHA1"
+            && !verifyTotpCode(enrollment.secretKey, otp, { digits: enrollment.digits, period: enrollment.period, window: 2 })) {
+            throw new AuthError("Invalid verification code", "AUTH_INVALID_OTP");
+        }
+
+        const user = this.requireFirebaseUser();
+        try {
+            const assertion = TotpMultiFactorGenerator.assertionForEnrollment(enrollment.secret, otp);
+            await multiFactor(user).enroll(assertion, displayName ?? null);
+        } catch (error) {
+            throw translateFirebaseError(error, "Two-factor enrollment failed");
+        }
+
+        return this.getEnrolledFactors();
+    }
+
+    getEnrolledFactors(): MultiFactorInfo[] {
+        const user = getFirebaseAuth()?.currentUser;
+        if (!user) return [];
+        return multiFactor(user).enrolledFactors.map(mapMultiFactorInfo);
+    }
+
+    async unenrollFactor(factorUid: string): Promise<MultiFactorInfo[]> {
+        const user = this.requireFirebaseUser();
+        try {
+            await multiFactor(user).unenroll(factorUid);
+        } catch (error) {
+            throw translateFirebaseError(error, "Removing two-factor authentication failed");
+        }
+        return this.getEnrolledFactors();
+    }
+
+    async resolveMultiFactorSignIn(challenge: MultiFactorChallenge, code: string, factorUid?: string): Promise<AuthUser> {
+        const otp = sanitizeOtpCode(code);
+        const otpResult = validateOtpCode(otp);
+        if (!otpResult.isValid) {
+            throw new AuthValidationError(otpResult.error || "Invalid code", "code");
+        }
+
+        const resolver = challenge.resolver as MultiFactorResolver | undefined;
+        const hint = resolver?.hints.find((candidate) =>
+            factorUid ? candidate.uid === factorUid : candidate.factorId === TotpMultiFactorGenerator.FACTOR_ID
+        );
+        if (!resolver || !hint) {
+            throw new AuthError("No matching second factor for this sign-in", "AUTH_MFA_FACTOR_NOT_FOUND");
+        }
+
+        let user: User;
+        try {
+            const assertion = TotpMultiFactorGenerator.assertionForSignIn(hint.uid, otp);
+            const result = await resolver.resolveSignIn(assertion);
+            user = result.user;
+        } catch (error) {
+            throw translateFirebaseError(error, "Verifying code failed");
+        }
+
+        const authUser = mapToAuthUser(user);
+        if (!authUser) {
+            throw new AuthError("Failed to map user");
+        }
+
+        return authUser;
+    }
+
+    /**
+     * Attaches another sign-in method to the current user. Throws
+     * AuthCredentialAlreadyInUseError when it belongs to a different account.
+     */
+    async linkProvider(credential: LinkCredential): Promise<AuthUser> {
+        const firebaseCredential = this.buildCredential(credential);
+        const user = this.requireFirebaseUser();
+
+        try {
+            await linkWithCredential(user, firebaseCredential);
+        } catch (error) {
+            const code = (error as { code?: string } | null)?.code;
+            if (code === "auth/credential-already-in-use" || code === "auth/email-already-in-use") {
+                throw createCredentialConflictError(credential, firebaseCredential, error);
+            }
+            throw translateFirebaseError(error, "Linking sign-in method failed");
         }
+
+        return this.mapCurrentUser(user);
+    }
+
+    /**
+     * Turns the current anonymous user into a permanent account by linking
+     * the credential, so the UID and everything stored under it is kept
+     */
+    async upgradeAnonymousAccount(credential: LinkCredential, displayName?: string): Promise<AuthUser> {
+        const firebaseCredential = this.buildCredential(credential);
+
+        const name = displayName ? sanitizeName(displayName) : undefined;
+        if (name) {
+            const nameResult = validateDisplayName(name);
+            if (!nameResult.isValid) {
+                throw new AuthValidationError(nameResult.error || "Invalid name", "displayName");
+            }
+        }
+
+        const auth = getFirebaseAuth();
+        if (!auth) {
+            throw new AuthError("Firebase Auth is not initialized", "AUTH_NOT_INITIALIZED");
+        }
+
+        const user = auth.currentUser;
+        if (!user?.isAnonymous) {
+            throw new AuthError("No anonymous user to upgrade", "AUTH_NOT_ANONYMOUS");
+        }
+
+        try {
+            await linkWithCredential(user, firebaseCredential);
+        } catch (error) {
+            // A social account of its own becomes a conflict; an email in use fails like sign-up does
+            if ((error as { code?: string } | null)?.code === "auth/credential-already-in-use") {
+                throw createCredentialConflictError(credential, firebaseCredential, error);
+            }
+            throw translateFirebaseError(error, "Upgrading account failed");
+        }
+
+        if (name) {
+            try {
+                await firebaseUpdateProfile(user, { displayName: name });
+            } catch (error) {
+                throw translateFirebaseError(error, "Updating profile failed");
+            }
+        }
+
+        // Same UID, so the existing user document is updated rather than replaced
+        await ensureUserDocument(user);
+
+        return this.mapCurrentUser(user);
+    }
+
+    async unlinkProvider(provider: LinkableProviderType): Promise<AuthUser> {
+        const user = this.requireFirebaseUser();
+        // Removing the last method would leave an account nobody can sign in to
+        if (user.providerData.length <= 1) {
+            throw new AuthError("Cannot remove the only sign-in method", "AUTH_LAST_PROVIDER");
+        }
+
+        try {
+            await unlink(user, provider);
+        } catch (error) {
+            throw translateFirebaseError(error, "Unlinking sign-in method failed");
+        }
+
+        return this.mapCurrentUser(user);
+    }
+
+    getLinkedProviders(): AuthProviderType[] {
+        return this.getCurrentUser()?.providers ?? [];
+    }
+
+    /**
+     * Signs in to the account that owns a conflicting credential
+     */
+    async resolveCredentialConflict(conflict: CredentialConflict): Promise<AuthUser> {
+        const auth = getFirebaseAuth();
+        if (!auth) {
+            throw new AuthError("Firebase Auth is not initialized", "AUTH_NOT_INITIALIZED");
+        }
+
+        let user: User;
+        try {
+            const result = await signInWithCredential(auth, conflict.credential as AuthCredential);
+            user = result.user;
+        } catch (error) {
+            throw translateFirebaseError(error, "Switching account failed");
+        }
+
+        return this.mapCurrentUser(user);
+    }
+
+    private buildCredential(credential: LinkCredential): AuthCredential {
+        switch (credential.provider) {
+            case "password": {
+                const email = sanitizeEmail(credential.email);
+                const password = sanitizePassword(credential.password);
+
+                const emailResult = validateEmail(email);
+                if (!emailResult.isValid) {
+                    throw new AuthInvalidEmailError(emailResult.error);
+                }
+
+                const passwordResult = validatePasswordForRegister(password, this.config.password, { email });
+                if (!passwordResult.isValid) {
+                    throw new AuthWeakPasswordError(passwordResult.error);
+                }
+
+                return EmailAuthProvider.credential(email, password);
+            }
+            case "google.com":
+                return GoogleAuthProvider.credential(credential.idToken, credential.accessToken);
+            case "apple.com":
+                return new OAuthProvider("apple.com").credential({
+                    idToken: credential.identityToken,
+                    rawNonce: credential.rawNonce,
+                });
+        }
+    }
+
+    private mapCurrentUser(user: User): AuthUser {
+        const authUser = mapToAuthUser(user);
+        if (!authUser) {
+            throw new AuthError("Failed to map user");
+        }
+        return authUser;
+    }
+
+    private requireFirebaseUser(): User {
+        const auth = getFirebaseAuth();
+        if (!auth) {
+            throw new AuthError("Firebase Auth is not initialized", "AUTH_NOT_INITIALIZED");
+        }
+
+        const user = auth.currentUser;
+        if (!user || user.isAnonymous) {
+            throw new AuthError("No signed-in user", "AUTH_NO_USER");
+        }
+        return user;
     }
 
     getCurrentUser(): AuthUser | null {
@@ -124,13 +854,55 @@ export class AuthRepository implements IAuthRepository {
         return user ? mapToAuthUser(user) : null;
     }
 
-    onAuthStateChange(callback: (user: AuthUser | null) => void): () => void {
-        const result = setupAuthListener({
-            onAuthStateChange: (user) => {
-                const authUser = user ? mapToAuthUser(user) : null;
-                callback(authUser);
-            },
+    /**
+     * Token changes (not only sign-in/out) so profile, verification and
+     * linking updates reach listeners too
+     */
+    onAuthStateChange(callback: AuthStateChangeCallback): () => void {
+        const auth = getFirebaseAuth();
+        if (!auth) {
+            throw new AuthError("Firebase Auth is not initialized", "AUTH_NOT_INITIALIZED");
+        }
+
+        return onIdTokenChanged(auth, (user) => {
+            callback(user ? mapToAuthUser(user) : null, user);
         });
-        return result.success && result.unsubscribe ? result.unsubscribe : () => {};
+    }
+}
+
+function mapMultiFactorInfo(info: FirebaseMultiFactorInfo): MultiFactorInfo {
+    return {
+        uid: info.uid,
+        factorId: info.factorId,
+        displayName: info.displayName ?? null,
+        enrollmentTime: info.enrollmentTime,
+    };
+}
+
+function createCredentialConflictError(
+    credential: LinkCredential,
+    firebaseCredential: AuthCredential,
+    error: unknown,
+): AuthCredentialAlreadyInUseError {
+    return new AuthCredentialAlreadyInUseError({
+        provider: credential.provider,
+        email: credential.provider === "password"
+            ? sanitizeEmail(credential.email)
+            : (error as FirebaseAuthError).customData.email ?? null,
+        credential: credentialFromLinkError(credential.provider, error) ?? firebaseCredential,
+    });
+}
+
+/**
+ * Fresh credential for switching accounts; OAuth tokens are single use
+ */
+function credentialFromLinkError(provider: LinkableProviderType, error: unknown): AuthCredential | null {
+    switch (provider) {
+        case "google.com":
+            return GoogleAuthProvider.credentialFromError(error as FirebaseAuthError);
+        case "apple.com":
+            return OAuthProvider.credentialFromError(error as FirebaseAuthError);
+        default:
+            return null;
     }
 }
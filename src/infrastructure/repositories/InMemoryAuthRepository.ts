@@ -0,0 +1,879 @@
+/**
+ * In-Memory Auth Repository
+ * Offline IAuthRepository for tests, previews and demos
+ * Same validation and error classes as the Firebase AuthRepository, no network
+ */
+
+import type { IAuthRepository, AuthStateChangeCallback } from "../../application/ports/IAuthRepository";
+import type { AuthUser, AuthProviderType, OAuthProviderType } from "../../domain/entities/AuthUser";
+import type { LinkCredential, LinkableProviderType, CredentialConflict } from "../../domain/entities/AccountLink";
+import type { UpdateProfileParams } from "../../domain/entities/UserProfile";
+import type { OAuthCredential } from "../../domain/entities/OidcAuth";
+import type {
+    MultiFactorChallenge,
+    MultiFactorInfo,
+    TotpEnrollment,
+} from "../../domain/entities/MultiFactor";
+import type { AuthConfig } from "../../domain/value-objects/AuthConfig";
+import { DEFAULT_AUTH_CONFIG } from "../../domain/value-objects/AuthConfig";
+import {
+    AuthValidationError,
+    AuthWeakPasswordError,
+    AuthInvalidEmailError,
+    AuthUserNotFoundError,
+    AuthWrongPasswordError,
+    AuthEmailAlreadyInUseError,
+    AuthNetworkError,
+    AuthUserDisabledError,
+    AuthError,
+    MultiFactorRequiredError,
+    AuthCredentialAlreadyInUseError,
+} from "../../domain/errors/AuthError";
+import type {
+    AuthCredentials,
+    SignUpCredentials,
+    PhoneAuthVerifier,
+    PhoneVerificationSession,
+} from "./AuthRepository";
+import { buildOtpauthUri, generateTotpSecret, verifyTotpCode } from "../utils/totp";
+import {
+    validateEmail,
+    validatePasswordForLogin,
+    validatePasswordForRegister,
+    validateDisplayName,
+    validatePhoneNumber,
+    validateOtpCode,
+} from "../utils/AuthValidation";
+import {
+    sanitizeEmail,
+    sanitizeName,
+    sanitizePassword,
+    sanitizePhoneNumber,
+    sanitizeOtpCode,
+} from "../utils/validation/sanitization";
+import { mapToAuthUser, isOAuthProviderType } from "../utils/UserMapper";
+import { decodeJwtPayload } from "../utils/jwt";
+
+/**
+ * A user known to the fake backend
+ */
+export interface InMemoryUserSeed {
+    uid?: string;
+    email?: string | null;
+    /** Enables email/password sign-in */
+    password?: string;
+    displayName?: string | null;
+    photoURL?: string | null;
+    phoneNumber?: string | null;
+    emailVerified?: boolean;
+    isAnonymous?: boolean;
+    disabled?: boolean;
+    /**
+     * Token that identifies the user's social account; linkProvider and
+     * upgradeAnonymousAccount compare it with the credential's idToken/identityToken,
+     * signInWithOAuth with the idToken (or accessToken) of OAuth/OIDC providers
+     */
+    socialTokens?: Partial<Record<SocialTokenProvider, string>>;
+    /** Base32 secret; an enrolled TOTP factor makes signIn require a code */
+    totpSecret?: string;
+}
+
+type SocialTokenProvider = "google.com" | "apple.com" | OAuthProviderType;
+
+export type InMemoryAuthMethod = {
+    [K in keyof IAuthRepository]: IAuthRepository[K] extends (...args: never[]) => Promise<unknown> ? K : never;
+}[keyof IAuthRepository];
+
+/**
+ * Mail the backend would have sent, links included so tests can follow them
+ */
+export interface InMemorySentEmail {
+    type: "passwordReset" | "verification" | "signInLink" | "emailChange";
+    email: string;
+    link?: string;
+}
+
+export interface InMemoryAuthRepositoryOptions {
+    users?: InMemoryUserSeed[];
+    /** uid or email of the user that starts signed in */
+    signedInAs?: string;
+    /** Code every SMS "contains" (default: 123456) */
+    otpCode?: string;
+}
+
+interface StoredUser {
+    uid: string;
+    email: string | null;
+    password: string | null;
+    displayName: string | null;
+    photoURL: string | null;
+    phoneNumber: string | null;
+    emailVerified: boolean;
+    isAnonymous: boolean;
+    disabled: boolean;
+    providerData: { providerId: AuthProviderType }[];
+    socialTokens: Partial<Record<SocialTokenProvider, string>>;
+    totpSecret: string | null;
+    factors: MultiFactorInfo[];
+}
+
+const DEFAULT_OTP_CODE = "123456";
+
+export class InMemoryAuthRepository implements IAuthRepository {
+    private config: AuthConfig;
+    private users: StoredUser[] = [];
+    private currentUid: string | null = null;
+    private listeners = new Set<AuthStateChangeCallback>();
+    private failures: { method: InMemoryAuthMethod; error: Error }[] = [];
+    private sentEmails: InMemorySentEmail[] = [];
+    private phoneSessions = new Map<string, string>();
+    private issuedLinks = new Set<string>();
+    private otpCode: string;
+    private sequence = 0;
+
+    constructor(config: AuthConfig = DEFAULT_AUTH_CONFIG, options: InMemoryAuthRepositoryOptions = {}) {
+        this.config = config;
+        this.otpCode = options.otpCode ?? DEFAULT_OTP_CODE;
+        options.users?.forEach((seed) => this.addUser(seed));
+        if (options.signedInAs) {
+            this.currentUid = this.requireUser(options.signedInAs).uid;
+        }
+    }
+
+    // =========================================================================
+    // TEST CONTROLS
+    // =========================================================================
+
+    addUser(seed: InMemoryUserSeed): AuthUser {
+        const email = seed.email ? sanitizeEmail(seed.email) : null;
+        if (email && this.findByEmail(email)) {
+            throw new AuthEmailAlreadyInUseError();
+        }
+
+        const isAnonymous = seed.isAnonymous ?? false;
+        const providers: AuthProviderType[] = [];
+        if (!isAnonymous) {
+            if (seed.password && email) providers.push("password");
+            if (seed.phoneNumber) providers.push("phone");
+            if (seed.socialTokens?.["google.com"]) providers.push("google.com");
+            if (seed.socialTokens?.["apple.com"]) providers.push("apple.com");
+            providers.push(...Object.keys(seed.socialTokens ?? {}).filter(isOAuthProviderType));
+        }
+
+        const user: StoredUser = {
+            uid: seed.uid ?? this.nextId("user"),
+            email,
+            password: seed.password ?? null,
+            displayName: seed.displayName ?? null,
+            photoURL: seed.photoURL ?? null,
+            phoneNumber: seed.phoneNumber ?? null,
+            emailVerified: seed.emailVerified ?? false,
+            isAnonymous,
+            disabled: seed.disabled ?? false,
+            providerData: providers.map((providerId) => ({ providerId })),
+            socialTokens: { ...seed.socialTokens },
+            totpSecret: seed.totpSecret ?? null,
+            factors: seed.totpSecret ? [this.createTotpFactor("Authenticator")] : [],
+        };
+        this.users.push(user);
+        return this.toAuthUser(user);
+    }
+
+    /** Look a user up by uid or email */
+    getUser(uidOrEmail: string): AuthUser | null {
+        const user = this.findUser(uidOrEmail);
+        return user ? this.toAuthUser(user) : null;
+    }
+
+    /**
+     * Switch the session without going through sign-in, e.g. to simulate an
+     * expired session (null) or another device signing in
+     */
+    setCurrentUser(uidOrEmail: string | null): void {
+        this.currentUid = uidOrEmail ? this.requireUser(uidOrEmail).uid : null;
+        this.notify();
+    }
+
+    /** What opening the verification mail does */
+    markEmailVerified(uidOrEmail: string): void {
+        this.requireUser(uidOrEmail).emailVerified = true;
+    }
+
+    /** Make the next call of method reject with error (default: AuthNetworkError) */
+    failNext(method: InMemoryAuthMethod, error: Error = new AuthNetworkError()): void {
+        this.failures.push({ method, error });
+    }
+
+    clearFailures(): void {
+        this.failures = [];
+    }
+
+    getSentEmails(): InMemorySentEmail[] {
+        return [...this.sentEmails];
+    }
+
+    // =========================================================================
+    // IAuthRepository
+    // =========================================================================
+
+    async signUp(params: SignUpCredentials): Promise<AuthUser> {
+        await this.simulateRequest("signUp");
+        const email = sanitizeEmail(params.email);
+        const password = sanitizePassword(params.password);
+        const displayName = params.displayName ? sanitizeName(params.displayName) : undefined;
+
+        const emailResult = validateEmail(email);
+        if (!emailResult.isValid) {
+            throw new AuthInvalidEmailError(emailResult.error);
+        }
+
+        if (displayName) {
+            this.assertValidName(displayName);
+        }
+
+        const passwordResult = validatePasswordForRegister(password, this.config.password, { email, displayName });
+        if (!passwordResult.isValid) {
+            throw new AuthWeakPasswordError(passwordResult.error);
+        }
+
+        const user = this.addUser({ email, password, displayName });
+        return this.signInAs(user.uid);
+    }
+
+    async signIn(params: AuthCredentials): Promise<AuthUser> {
+        await this.simulateRequest("signIn");
+        const email = sanitizeEmail(params.email);
+        const password = sanitizePassword(params.password);
+
+        const emailResult = validateEmail(email);
+        if (!emailResult.isValid) {
+            throw new AuthInvalidEmailError(emailResult.error);
+        }
+
+        const passwordResult = validatePasswordForLogin(password);
+        if (!passwordResult.isValid) {
+            throw new AuthValidationError(passwordResult.error || "Password is required", "password");
+        }
+
+        const user = this.findByEmail(email);
+        if (!user) {
+            throw new AuthUserNotFoundError();
+        }
+        this.assertEnabled(user);
+        if (user.password === null || user.password !== password) {
+            throw new AuthWrongPasswordError();
+        }
+
+        if (user.factors.length > 0) {
+            throw new MultiFactorRequiredError({ hints: [...user.factors], resolver: { uid: user.uid } });
+        }
+
+        return this.signInAs(user.uid);
+    }
+
+    async signInAnonymously(): Promise<AuthUser> {
+        await this.simulateRequest("signInAnonymously");
+        const current = this.currentRecord();
+        if (current?.isAnonymous) {
+            return this.toAuthUser(current);
+        }
+
+        const user = this.addUser({ isAnonymous: true });
+        return this.signInAs(user.uid);
+    }
+
+    /**
+     * Signs in the user seeded with the same token, or creates one from the
+     * ID token's claims like a first federated sign-in
+     */
+    async signInWithOAuth(credential: OAuthCredential): Promise<AuthUser> {
+        await this.simulateRequest("signInWithOAuth");
+        const token = credential.idToken ?? credential.accessToken;
+        if (!token) {
+            throw new AuthError("An ID token or access token is required", "AUTH_OIDC_INVALID_RESPONSE");
+        }
+
+        const owner = this.users.find((user) => user.socialTokens[credential.providerId] === token);
+        if (owner) {
+            this.assertEnabled(owner);
+            if (owner.factors.length > 0) {
+                throw new MultiFactorRequiredError({ hints: [...owner.factors], resolver: { uid: owner.uid } });
+            }
+            return this.signInAs(owner.uid);
+        }
+
+        const claims = credential.idToken ? decodeJwtPayload(credential.idToken) : null;
+        const readClaim = (name: string) => (typeof claims?.[name] === "string" ? claims[name] : null);
+        const user = this.addUser({
+            email: readClaim("email"),
+            displayName: readClaim("name"),
+            photoURL: readClaim("picture"),
+            emailVerified: claims?.email_verified === true,
+            socialTokens: { [credential.providerId]: token },
+        });
+        return this.signInAs(user.uid);
+    }
+
+    async signOut(): Promise<void> {
+        await this.simulateRequest("signOut");
+        this.currentUid = null;
+        this.notify();
+    }
+
+    async sendPasswordResetEmail(email: string): Promise<void> {
+        await this.simulateRequest("sendPasswordResetEmail");
+        const sanitizedEmail = sanitizeEmail(email);
+
+        const emailResult = validateEmail(sanitizedEmail);
+        if (!emailResult.isValid) {
+            throw new AuthInvalidEmailError(emailResult.error);
+        }
+
+        // Unknown addresses succeed too, like Firebase with email enumeration protection
+        if (this.findByEmail(sanitizedEmail)) {
+            this.sentEmails.push({ type: "passwordReset", email: sanitizedEmail });
+        }
+    }
+
+    async sendEmailVerification(): Promise<void> {
+        await this.simulateRequest("sendEmailVerification");
+        const user = this.currentRecord();
+        if (!user || user.isAnonymous || !user.email) {
+            throw new AuthError("No signed-in user with an email address", "AUTH_NO_USER");
+        }
+
+        if (user.emailVerified) return;
+
+        this.sentEmails.push({ type: "verification", email: user.email });
+    }
+
+    async reloadUser(): Promise<AuthUser | null> {
+        await this.simulateRequest("reloadUser");
+        const user = this.currentRecord();
+        return user ? this.toAuthUser(user) : null;
+    }
+
+    async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+        await this.simulateRequest("changePassword");
+        const current = sanitizePassword(currentPassword);
+        const next = sanitizePassword(newPassword);
+
+        const currentResult = validatePasswordForLogin(current);
+        if (!currentResult.isValid) {
+            throw new AuthValidationError(currentResult.error || "Password is required", "currentPassword");
+        }
+
+        const passwordResult = validatePasswordForRegister(next, this.config.password, this.getCurrentUser() ?? undefined);
+        if (!passwordResult.isValid) {
+            throw new AuthWeakPasswordError(passwordResult.error);
+        }
+
+        if (current === next) {
+            throw new AuthValidationError("auth.validation.passwordUnchanged", "newPassword");
+        }
+
+        this.requirePermanentUser().password = next;
+    }
+
+    async changeEmail(newEmail: string): Promise<void> {
+        await this.simulateRequest("changeEmail");
+        const email = sanitizeEmail(newEmail);
+
+        const emailResult = validateEmail(email);
+        if (!emailResult.isValid) {
+            throw new AuthInvalidEmailError(emailResult.error);
+        }
+
+        const user = this.requirePermanentUser();
+
+        if (user.email?.toLowerCase() === email) {
+            throw new AuthValidationError("auth.validation.emailUnchanged", "email");
+        }
+        if (this.findByEmail(email)) {
+            throw new AuthEmailAlreadyInUseError();
+        }
+
+        this.sentEmails.push({ type: "emailChange", email });
+    }
+
+    async reauthenticate(credential: LinkCredential): Promise<void> {
+        await this.simulateRequest("reauthenticate");
+        if (credential.provider === "password") {
+            this.reauthenticateWithPassword(sanitizePassword(credential.password));
+            return;
+        }
+
+        const user = this.requirePermanentUser();
+        if (this.findCredentialOwner(credential)?.uid !== user.uid) {
+            throw new AuthError("Credential doesn't belong to the signed-in user", "AUTH_USER_MISMATCH");
+        }
+    }
+
+    async updateProfile(params: UpdateProfileParams): Promise<AuthUser> {
+        await this.simulateRequest("updateProfile");
+        const updates: { displayName?: string; photoURL?: string | null } = {};
+
+        if (params.displayName !== undefined) {
+            const displayName = sanitizeName(params.displayName);
+            this.assertValidName(displayName);
+            updates.displayName = displayName;
+        }
+
+        if (params.photoURL !== undefined) {
+            const photoURL = params.photoURL.trim();
+            if (photoURL && !/^https?:\/\//i.test(photoURL)) {
+                throw new AuthValidationError("auth.validation.invalidPhotoURL", "photoURL");
+            }
+            updates.photoURL = photoURL || null;
+        }
+
+        const user = this.requirePermanentUser();
+        Object.assign(user, updates);
+
+        this.notify();
+        return this.toAuthUser(user);
+    }
+
+    async signInWithPhone(phoneNumber: string, verifier: PhoneAuthVerifier): Promise<PhoneVerificationSession> {
+        await this.simulateRequest("signInWithPhone");
+        const phone = sanitizePhoneNumber(phoneNumber);
+
+        const phoneResult = validatePhoneNumber(phone);
+        if (!phoneResult.isValid) {
+            throw new AuthError(phoneResult.error || "Invalid phone number", "AUTH_INVALID_PHONE");
+        }
+
+        await verifier.verify();
+
+        const verificationId = this.nextId("verification");
+        this.phoneSessions.set(verificationId, phone);
+        return { verificationId, phoneNumber: phone };
+    }
+
+    async confirmOtp(verificationId: string, code: string): Promise<AuthUser> {
+        await this.simulateRequest("confirmOtp");
+        const otp = sanitizeOtpCode(code);
+
+        const otpResult = validateOtpCode(otp);
+        if (!otpResult.isValid) {
+            throw new AuthValidationError(otpResult.error || "Invalid code", "code");
+        }
+
+        const phone = this.phoneSessions.get(verificationId);
+        if (!phone) {
+            throw new AuthError("Verification expired", "AUTH_OTP_EXPIRED");
+        }
+        if (otp !== this.otpCode) {
+            throw new AuthError("Invalid verification code", "AUTH_INVALID_OTP");
+        }
+        this.phoneSessions.delete(verificationId);
+
+        const user = this.users.find((candidate) => candidate.phoneNumber === phone)
+            ?? this.requireUser(this.addUser({ phoneNumber: phone }).uid);
+        this.assertEnabled(user);
+        return this.signInAs(user.uid);
+    }
+
+    async sendSignInLink(email: string): Promise<void> {
+        await this.simulateRequest("sendSignInLink");
+        const emailLink = this.config.passwordless?.emailLink;
+        if (!emailLink?.enabled || !emailLink.url) {
+            throw new AuthError("Email link sign-in is not enabled", "AUTH_PASSWORDLESS_DISABLED");
+        }
+
+        const sanitizedEmail = sanitizeEmail(email);
+        const emailResult = validateEmail(sanitizedEmail);
+        if (!emailResult.isValid) {
+            throw new AuthInvalidEmailError(emailResult.error);
+        }
+
+        const separator = emailLink.url.includes("?") ? "&" : "?";
+        const link = `${emailLink.url}${separator}mode=signIn&oobCode=${this.nextId("oob")}`;
+        this.issuedLinks.add(link);
+        this.sentEmails.push({ type: "signInLink", email: sanitizedEmail, link });
+    }
+
+    isSignInLink(url: string): boolean {
+        return this.issuedLinks.has(url);
+    }
+
+    async signInWithEmailLink(email: string, url: string): Promise<AuthUser> {
+        await this.simulateRequest("signInWithEmailLink");
+        const sanitizedEmail = sanitizeEmail(email);
+        const emailResult = validateEmail(sanitizedEmail);
+        if (!emailResult.isValid) {
+            throw new AuthInvalidEmailError(emailResult.error);
+        }
+
+        const sent = this.sentEmails.some((mail) => mail.link === url && mail.email === sanitizedEmail);
+        if (!this.issuedLinks.has(url) || !sent) {
+            throw new AuthError("Invalid sign-in link", "AUTH_LINK_INVALID");
+        }
+        // Links are single use
+        this.issuedLinks.delete(url);
+
+        const user = this.findByEmail(sanitizedEmail)
+            ?? this.requireUser(this.addUser({ email: sanitizedEmail }).uid);
+        this.assertEnabled(user);
+        user.emailVerified = true;
+        if (!this.hasProvider(user, "password")) {
+            user.providerData.push({ providerId: "password" });
+        }
+        return this.signInAs(user.uid);
+    }
+
+    async startTotpEnrollment(params: { accountName?: string; issuer?: string } = {}): Promise<TotpEnrollment> {
+        await this.simulateRequest("startTotpEnrollment");
+        const user = this.requirePermanentUser();
+
+        const secretKey = generateTotpSecret();
+        const accountName = params.accountName ?? user.email ?? user.uid;
+        const issuer = params.issuer ?? this.config.mfa?.totpIssuer ?? "App";
+        const digits = 6;
+        const period = 30;
+
+        return {
+            secretKey,
+            otpauthUri: buildOtpauthUri({ secret: secretKey, accountName, issuer, digits, period }),
+            accountName,
+            issuer,
+            digits,
+            period,
+            secret: { uid: user.uid },
+        };
+    }
+
+    async completeTotpEnrollment(enrollment: TotpEnrollment, code: string, displayName?: string): Promise<MultiFactorInfo[]> {
+        await this.simulateRequest("completeTotpEnrollment");
+        const otp = sanitizeOtpCode(code);
+        const otpResult = validateOtpCode(otp, enrollment.digits);
+        if (!otpResult.isValid) {
+            throw new AuthValidationError(otpResult.error || "Invalid code", "code");
+        }
+
+        const user = this.requirePermanentUser();
+        if ((enrollment.secret as { uid?: string } | null)?.uid !== user.uid) {
+            throw new AuthError("Invalid enrollment, start the enrollment again", "AUTH_MFA_ENROLLMENT_INVALID");
+        }
+        if (!verifyTotpCode(enrollment.secretKey, otp, { digits: enrollment.digits, period: enrollment.period })) {
+            throw new AuthError("Invalid verification code", "AUTH_INVALID_OTP");
+        }
+
+        user.totpSecret = enrollment.secretKey;
+        user.factors = [this.createTotpFactor(displayName ?? null)];
+        this.notify();
+        return this.getEnrolledFactors();
+    }
+
+    getEnrolledFactors(): MultiFactorInfo[] {
+        return [...(this.currentRecord()?.factors ?? [])];
+    }
+
+    async unenrollFactor(factorUid: string): Promise<MultiFactorInfo[]> {
+        await this.simulateRequest("unenrollFactor");
+        const user = this.requirePermanentUser();
+        if (!user.factors.some((factor) => factor.uid === factorUid)) {
+            throw new AuthError("Second factor not found", "AUTH_MFA_FACTOR_NOT_FOUND");
+        }
+
+        user.factors = user.factors.filter((factor) => factor.uid !== factorUid);
+        if (user.factors.length === 0) {
+            user.totpSecret = null;
+        }
+        this.notify();
+        return this.getEnrolledFactors();
+    }
+
+    async resolveMultiFactorSignIn(challenge: MultiFactorChallenge, code: string, factorUid?: string): Promise<AuthUser> {
+        await this.simulateRequest("resolveMultiFactorSignIn");
+        const otp = sanitizeOtpCode(code);
+        const otpResult = validateOtpCode(otp);
+        if (!otpResult.isValid) {
+            throw new AuthValidationError(otpResult.error || "Invalid code", "code");
+        }
+
+        const uid = (challenge.resolver as { uid?: string } | null)?.uid;
+        const user = uid ? this.findUser(uid) : undefined;
+        const hint = user?.factors.find((factor) =>
+            factorUid ? factor.uid === factorUid : factor.factorId === "totp"
+        );
+        if (!user || !hint || !user.totpSecret) {
+            throw new AuthError("No matching second factor for this sign-in", "AUTH_MFA_FACTOR_NOT_FOUND");
+        }
+
+        if (!verifyTotpCode(user.totpSecret, otp)) {
+            throw new AuthError("Invalid verification code", "AUTH_INVALID_OTP");
+        }
+
+        return this.signInAs(user.uid);
+    }
+
+    async linkProvider(credential: LinkCredential): Promise<AuthUser> {
+        await this.simulateRequest("linkProvider");
+        this.assertValidCredential(credential);
+        const user = this.requirePermanentUser();
+
+        if (this.hasProvider(user, credential.provider)) {
+            throw new AuthError("Provider already linked", "AUTH_PROVIDER_ALREADY_LINKED");
+        }
+
+        const owner = this.findCredentialOwner(credential);
+        if (owner && owner.uid !== user.uid) {
+            throw this.createConflictError(credential);
+        }
+
+        this.attachCredential(user, credential);
+        this.notify();
+        return this.toAuthUser(user);
+    }
+
+    async upgradeAnonymousAccount(credential: LinkCredential, displayName?: string): Promise<AuthUser> {
+        await this.simulateRequest("upgradeAnonymousAccount");
+        this.assertValidCredential(credential);
+
+        const name = displayName ? sanitizeName(displayName) : undefined;
+        if (name) {
+            this.assertValidName(name);
+        }
+
+        const user = this.currentRecord();
+        if (!user?.isAnonymous) {
+            throw new AuthError("No anonymous user to upgrade", "AUTH_NOT_ANONYMOUS");
+        }
+
+        if (this.findCredentialOwner(credential)) {
+            if (credential.provider === "password") {
+                throw new AuthEmailAlreadyInUseError();
+            }
+            throw this.createConflictError(credential);
+        }
+
+        // Same record, so the UID survives the upgrade
+        user.isAnonymous = false;
+        this.attachCredential(user, credential);
+        if (name) {
+            user.displayName = name;
+        }
+
+        this.notify();
+        return this.toAuthUser(user);
+    }
+
+    async unlinkProvider(provider: LinkableProviderType): Promise<AuthUser> {
+        await this.simulateRequest("unlinkProvider");
+        const user = this.requirePermanentUser();
+        if (user.providerData.length <= 1) {
+            throw new AuthError("Cannot remove the only sign-in method", "AUTH_LAST_PROVIDER");
+        }
+        if (!this.hasProvider(user, provider)) {
+            throw new AuthError("Provider not linked", "AUTH_PROVIDER_NOT_LINKED");
+        }
+
+        user.providerData = user.providerData.filter((data) => data.providerId !== provider);
+        if (provider === "password") {
+            user.password = null;
+        } else {
+            delete user.socialTokens[provider];
+        }
+
+        this.notify();
+        return this.toAuthUser(user);
+    }
+
+    getLinkedProviders(): AuthProviderType[] {
+        return this.getCurrentUser()?.providers ?? [];
+    }
+
+    async resolveCredentialConflict(conflict: CredentialConflict): Promise<AuthUser> {
+        await this.simulateRequest("resolveCredentialConflict");
+        const owner = this.findCredentialOwner(conflict.credential as LinkCredential);
+        if (!owner) {
+            throw new AuthUserNotFoundError();
+        }
+        this.assertEnabled(owner);
+        return this.signInAs(owner.uid);
+    }
+
+    getCurrentUser(): AuthUser | null {
+        const user = this.currentRecord();
+        return user ? this.toAuthUser(user) : null;
+    }
+
+    /**
+     * Reports the current state right away, like Firebase does on subscribe
+     */
+    onAuthStateChange(callback: AuthStateChangeCallback): () => void {
+        this.listeners.add(callback);
+        callback(this.getCurrentUser());
+        return () => {
+            this.listeners.delete(callback);
+        };
+    }
+
+    // =========================================================================
+    // HELPERS
+    // =========================================================================
+
+    /**
+     * Settles on a later tick like a network call, or rejects with a scripted failure
+     */
+    private async simulateRequest(method: InMemoryAuthMethod): Promise<void> {
+        await Promise.resolve();
+
+        const index = this.failures.findIndex((failure) => failure.method === method);
+        if (index === -1) return;
+
+        const [failure] = this.failures.splice(index, 1);
+        throw failure.error;
+    }
+
+    private notify(): void {
+        const user = this.getCurrentUser();
+        for (const listener of [...this.listeners]) {
+            listener(user);
+        }
+    }
+
+    private signInAs(uid: string): AuthUser {
+        this.currentUid = uid;
+        this.notify();
+        return this.toAuthUser(this.requireUser(uid));
+    }
+
+    private toAuthUser(user: StoredUser): AuthUser {
+        const authUser = mapToAuthUser(user);
+        if (!authUser) {
+            throw new AuthError("Failed to map user");
+        }
+        return authUser;
+    }
+
+    private currentRecord(): StoredUser | undefined {
+        return this.currentUid ? this.findUser(this.currentUid) : undefined;
+    }
+
+    private requirePermanentUser(): StoredUser {
+        const user = this.currentRecord();
+        if (!user || user.isAnonymous) {
+            throw new AuthError("No signed-in user", "AUTH_NO_USER");
+        }
+        return user;
+    }
+
+    private reauthenticateWithPassword(password: string): StoredUser {
+        const passwordResult = validatePasswordForLogin(password);
+        if (!passwordResult.isValid) {
+            throw new AuthValidationError(passwordResult.error || "Password is required", "password");
+        }
+
+        const user = this.currentRecord();
+        if (!user || user.isAnonymous || !user.email) {
+            throw new AuthError("No signed-in user with an email address", "AUTH_NO_USER");
+        }
+        if (user.password !== password) {
+            throw new AuthWrongPasswordError();
+        }
+        return user;
+    }
+
+    private findUser(uidOrEmail: string): StoredUser | undefined {
+        return this.users.find((user) => user.uid === uidOrEmail) ?? this.findByEmail(uidOrEmail);
+    }
+
+    private findByEmail(email: string): StoredUser | undefined {
+        const normalized = sanitizeEmail(email);
+        return this.users.find((user) => user.email === normalized);
+    }
+
+    private requireUser(uidOrEmail: string): StoredUser {
+        const user = this.findUser(uidOrEmail);
+        if (!user) {
+            throw new AuthUserNotFoundError(`No in-memory user "${uidOrEmail}"`);
+        }
+        return user;
+    }
+
+    private findCredentialOwner(credential: LinkCredential): StoredUser | undefined {
+        switch (credential.provider) {
+            case "password":
+                return this.findByEmail(credential.email);
+            case "google.com":
+                return this.users.find((user) => user.socialTokens["google.com"] === credential.idToken);
+            case "apple.com":
+                return this.users.find((user) => user.socialTokens["apple.com"] === credential.identityToken);
+        }
+    }
+
+    private attachCredential(user: StoredUser, credential: LinkCredential): void {
+        switch (credential.provider) {
+            case "password":
+                user.email = sanitizeEmail(credential.email);
+                user.password = sanitizePassword(credential.password);
+                break;
+            case "google.com":
+                user.socialTokens["google.com"] = credential.idToken;
+                break;
+            case "apple.com":
+                user.socialTokens["apple.com"] = credential.identityToken;
+                break;
+        }
+        user.providerData = user.providerData.filter((data) => data.providerId !== "anonymous");
+        user.providerData.push({ providerId: credential.provider });
+    }
+
+    private createConflictError(credential: LinkCredential): AuthCredentialAlreadyInUseError {
+        const owner = this.findCredentialOwner(credential);
+        return new AuthCredentialAlreadyInUseError({
+            provider: credential.provider,
+            email: owner?.email ?? null,
+            credential,
+        });
+    }
+
+    private assertValidCredential(credential: LinkCredential): void {
+        if (credential.provider !== "password") return;
+
+        const emailResult = validateEmail(sanitizeEmail(credential.email));
+        if (!emailResult.isValid) {
+            throw new AuthInvalidEmailError(emailResult.error);
+        }
+
+        const passwordResult = validatePasswordForRegister(sanitizePassword(credential.password), this.config.password, {
+            email: credential.email,
+        });
+        if (!passwordResult.isValid) {
+            throw new AuthWeakPasswordError(passwordResult.error);
+        }
+    }
+
+    private assertValidName(displayName: string): void {
+        const nameResult = validateDisplayName(displayName);
+        if (!nameResult.isValid) {
+            throw new AuthValidationError(nameResult.error || "Invalid name", "displayName");
+        }
+    }
+
+    private assertEnabled(user: StoredUser): void {
+        if (user.disabled) {
+            throw new AuthUserDisabledError();
+        }
+    }
+
+    private hasProvider(user: StoredUser, provider: AuthProviderType): boolean {
+        return user.providerData.some((data) => data.providerId === provider);
+    }
+
+    private createTotpFactor(displayName: string | null): MultiFactorInfo {
+        return {
+            uid: this.nextId("factor"),
+            factorId: "totp",
+            displayName,
+            enrollmentTime: new Date().toUTCString(),
+        };
+    }
+
+    private nextId(prefix: string): string {
+        this.sequence += 1;
+        return `${prefix}-${this.sequence}`;
+    }
+}
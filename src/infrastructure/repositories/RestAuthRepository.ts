@@ -0,0 +1,956 @@
+/**
+ * REST Auth Repository
+ * IAuthRepository for self-hosted backends issuing JWT access/refresh tokens
+ * Tokens are kept through IStorageProvider and refreshed before they expire
+ */
+
+import type {
+    IAuthRepository,
+    AuthRepositoryFactory,
+    AuthStateChangeCallback,
+} from "../../application/ports/IAuthRepository";
+import type { AuthUser, AuthProviderType } from "../../domain/entities/AuthUser";
+import type { LinkCredential } from "../../domain/entities/AccountLink";
+import type { UpdateProfileParams } from "../../domain/entities/UserProfile";
+import type { OAuthCredential } from "../../domain/entities/OidcAuth";
+import type { MultiFactorInfo, TotpEnrollment } from "../../domain/entities/MultiFactor";
+import type { AuthConfig } from "../../domain/value-objects/AuthConfig";
+import {
+    AuthValidationError,
+    AuthWeakPasswordError,
+    AuthInvalidEmailError,
+    AuthEmailAlreadyInUseError,
+    AuthNetworkError,
+    AuthTooManyRequestsError,
+    AuthSessionExpiredError,
+    AuthError,
+} from "../../domain/errors/AuthError";
+import type { IStorageProvider } from "../types/Storage.types";
+import type {
+    AuthCredentials,
+    SignUpCredentials,
+    PhoneVerificationSession,
+} from "./AuthRepository";
+import {
+    validateEmail,
+    validatePasswordForLogin,
+    validatePasswordForRegister,
+    validateDisplayName,
+} from "../utils/AuthValidation";
+import {
+    sanitizeEmail,
+    sanitizeName,
+    sanitizePassword,
+} from "../utils/validation/sanitization";
+import { getJwtExpiry } from "../utils/jwt";
+import { isOAuthProviderType } from "../utils/UserMapper";
+import { createAuthError } from "../utils/authErrorTranslator";
+
+export interface RestAuthEndpoints {
+    login: string;
+    register: string;
+    refresh: string;
+    logout: string;
+    me: string;
+    /** Optional features; calling one without its endpoint throws AUTH_OPERATION_NOT_SUPPORTED */
+    anonymous?: string;
+    /** Receives { providerId, idToken, accessToken, nonce } from an OAuth/OIDC sign-in */
+    oauth?: string;
+    passwordReset?: string;
+    emailVerification?: string;
+    changePassword?: string;
+    changeEmail?: string;
+    /** Receives { provider, password } or the Google/Apple tokens of a fresh sign-in */
+    reauthenticate?: string;
+    profile?: string;
+}
+
+export interface RestAuthTokens {
+    accessToken: string;
+    refreshToken: string | null;
+    /** Milliseconds since epoch, null when the token doesn't expire */
+    expiresAt: number | null;
+}
+
+export interface RestAuthRepositoryOptions {
+    /** e.g. https://api.example.com */
+    baseUrl: string;
+    storage: IStorageProvider;
+    endpoints?: Partial<RestAuthEndpoints>;
+    /** Defaults to the global fetch */
+    fetch?: typeof fetch;
+    /** Sent with every request, e.g. an API key */
+    headers?: Record<string, string>;
+    /** Refresh this long before the access token expires (default: 60s) */
+    refreshMarginMs?: number;
+    storageKey?: string;
+    /** Server error code to AuthError code, merged over the defaults */
+    errorCodes?: Record<string, string>;
+    /** Reads the user from a login/register/me response */
+    parseUser?: (body: unknown) => AuthUser;
+    /** Reads the tokens from a login/register/refresh response */
+    parseTokens?: (body: unknown) => RestAuthTokens;
+}
+
+interface StoredSession {
+    tokens: RestAuthTokens;
+    user: AuthUser;
+}
+
+interface RequestOptions {
+    method?: "GET" | "POST" | "PATCH";
+    body?: Record<string, unknown>;
+    accessToken?: string;
+    /** AuthError code for a 401 without an error code in the body (default: AUTH_SESSION_EXPIRED) */
+    unauthorizedCode?: string;
+}
+
+interface HttpResponse {
+    ok: boolean;
+    status: number;
+    payload: unknown;
+    /** From the Retry-After header */
+    retryAfterMs?: number;
+}
+
+const DEFAULT_ENDPOINTS: RestAuthEndpoints = {
+    login: "/auth/login",
+    register: "/auth/register",
+    refresh: "/auth/refresh",
+    logout: "/auth/logout",
+    me: "/auth/me",
+};
+
+const DEFAULT_REFRESH_MARGIN_MS = 60_000;
+/** setTimeout overflows past 2^31-1 ms and long timers are unreliable on Android, re-check instead */
+const MAX_TIMER_MS = 60_000;
+const DEFAULT_STORAGE_KEY = "@auth/rest-session";
+
+const DEFAULT_ERROR_CODES: Record<string, string> = {
+    INVALID_EMAIL: "AUTH_INVALID_EMAIL",
+    WEAK_PASSWORD: "AUTH_WEAK_PASSWORD",
+    USER_NOT_FOUND: "AUTH_USER_NOT_FOUND",
+    INVALID_CREDENTIALS: "AUTH_INVALID_CREDENTIAL",
+    INVALID_PASSWORD: "AUTH_WRONG_PASSWORD",
+    WRONG_PASSWORD: "AUTH_WRONG_PASSWORD",
+    EMAIL_ALREADY_IN_USE: "AUTH_EMAIL_ALREADY_IN_USE",
+    EMAIL_EXISTS: "AUTH_EMAIL_ALREADY_IN_USE",
+    USER_EXISTS: "AUTH_EMAIL_ALREADY_IN_USE",
+    USER_DISABLED: "AUTH_USER_DISABLED",
+    TOO_MANY_REQUESTS: "AUTH_TOO_MANY_REQUESTS",
+    TOKEN_EXPIRED: "AUTH_SESSION_EXPIRED",
+    INVALID_TOKEN: "AUTH_SESSION_EXPIRED",
+    INVALID_REFRESH_TOKEN: "AUTH_SESSION_EXPIRED",
+    REQUIRES_RECENT_LOGIN: "AUTH_REQUIRES_RECENT_LOGIN",
+};
+
+export class RestAuthRepository implements IAuthRepository {
+    private config: AuthConfig;
+    private options: RestAuthRepositoryOptions;
+    private endpoints: RestAuthEndpoints;
+    private errorCodes: Record<string, string>;
+    private session: StoredSession | null = null;
+    private restorePromise: Promise<void> | null = null;
+    private refreshPromise: Promise<RestAuthTokens> | null = null;
+    private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+    private listeners = new Set<AuthStateChangeCallback>();
+
+    constructor(config: AuthConfig, options: RestAuthRepositoryOptions) {
+        this.config = config;
+        this.options = options;
+        this.endpoints = { ...DEFAULT_ENDPOINTS, ...options.endpoints };
+        this.errorCodes = { ...DEFAULT_ERROR_CODES, ...options.errorCodes };
+    }
+
+    async signUp(params: SignUpCredentials): Promise<AuthUser> {
+        const email = sanitizeEmail(params.email);
+        const password = sanitizePassword(params.password);
+        const displayName = params.displayName ? sanitizeName(params.displayName) : undefined;
+
+        const emailResult = validateEmail(email);
+        if (!emailResult.isValid) {
+            throw new AuthInvalidEmailError(emailResult.error);
+        }
+
+        if (displayName) {
+            const nameResult = validateDisplayName(displayName);
+            if (!nameResult.isValid) {
+                throw new AuthValidationError(nameResult.error || "Invalid name", "displayName");
+            }
+        }
+
+        const passwordResult = validatePasswordForRegister(password, this.config.password, { email, displayName });
+        if (!passwordResult.isValid) {
+            throw new AuthWeakPasswordError(passwordResult.error);
+        }
+
+        const body = await this.request(this.endpoints.register, {
+            body: { email, password, displayName },
+        });
+        return this.startSession(body);
+    }
+
+    async signIn(params: AuthCredentials): Promise<AuthUser> {
+        const email = sanitizeEmail(params.email);
+        const password = sanitizePassword(params.password);
+
+        const emailResult = validateEmail(email);
+        if (!emailResult.isValid) {
+            throw new AuthInvalidEmailError(emailResult.error);
+        }
+
+        const passwordResult = validatePasswordForLogin(password);
+        if (!passwordResult.isValid) {
+            throw new AuthValidationError(passwordResult.error || "Password is required", "password");
+        }
+
+        const body = await this.request(this.endpoints.login, {
+            body: { email, password },
+            unauthorizedCode: "AUTH_INVALID_CREDENTIAL",
+        });
+        return this.startSession(body);
+    }
+
+    async signInAnonymously(): Promise<AuthUser> {
+        await this.ensureRestored();
+        if (this.session?.user.isAnonymous) {
+            return this.session.user;
+        }
+
+        const body = await this.request(this.requireEndpoint("anonymous"), { body: {} });
+        return this.startSession(body);
+    }
+
+    /**
+     * Exchanges provider tokens for a session; the server verifies them
+     */
+    async signInWithOAuth(credential: OAuthCredential): Promise<AuthUser> {
+        await this.ensureRestored();
+        const body = await this.request(this.requireEndpoint("oauth"), {
+            body: {
+                providerId: credential.providerId,
+                idToken: credential.idToken ?? null,
+                accessToken: credential.accessToken ?? null,
+                nonce: credential.rawNonce ?? null,
+            },
+            unauthorizedCode: "AUTH_OIDC_INVALID_RESPONSE",
+        });
+        return this.startSession(body);
+    }
+
+    /**
+     * Revokes the refresh token when possible; the local session ends either way
+     */
+    async signOut(): Promise<void> {
+        await this.ensureRestored();
+        const session = this.session;
+        if (!session) return;
+
+        try {
+            await this.request(this.endpoints.logout, {
+                body: { refreshToken: session.tokens.refreshToken },
+                accessToken: session.tokens.accessToken,
+            });
+        } catch (error) {
+            if (__DEV__) {
+                console.warn("[RestAuthRepository] Logout request failed:", error instanceof Error ? error.message : error);
+            }
+        }
+
+        await this.endSession();
+    }
+
+    async sendPasswordResetEmail(email: string): Promise<void> {
+        const sanitizedEmail = sanitizeEmail(email);
+
+        const emailResult = validateEmail(sanitizedEmail);
+        if (!emailResult.isValid) {
+            throw new AuthInvalidEmailError(emailResult.error);
+        }
+
+        await this.request(this.requireEndpoint("passwordReset"), { body: { email: sanitizedEmail } });
+    }
+
+    async sendEmailVerification(): Promise<void> {
+        const endpoint = this.requireEndpoint("emailVerification");
+        const user = await this.requirePermanentUser();
+        if (!user.email) {
+            throw new AuthError("No signed-in user with an email address", "AUTH_NO_USER");
+        }
+
+        if (user.emailVerified) return;
+
+        await this.authorizedRequest(endpoint, { body: {} });
+    }
+
+    async reloadUser(): Promise<AuthUser | null> {
+        await this.ensureRestored();
+        if (!this.session) return null;
+
+        const body = await this.authorizedRequest(this.endpoints.me, { method: "GET" });
+        return this.updateSessionUser(body);
+    }
+
+    async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+        const endpoint = this.requireEndpoint("changePassword");
+        const current = sanitizePassword(currentPassword);
+        const next = sanitizePassword(newPassword);
+
+        const currentResult = validatePasswordForLogin(current);
+        if (!currentResult.isValid) {
+            throw new AuthValidationError(currentResult.error || "Password is required", "currentPassword");
+        }
+
+        const passwordResult = validatePasswordForRegister(next, this.config.password, this.getCurrentUser() ?? undefined);
+        if (!passwordResult.isValid) {
+            throw new AuthWeakPasswordError(passwordResult.error);
+        }
+
+        if (current === next) {
+            throw new AuthValidationError("auth.validation.passwordUnchanged", "newPassword");
+        }
+
+        await this.requirePermanentUser();
+        await this.authorizedRequest(endpoint, {
+            body: { currentPassword: current, newPassword: next },
+            unauthorizedCode: "AUTH_WRONG_PASSWORD",
+        });
+    }
+
+    async changeEmail(newEmail: string): Promise<void> {
+        const endpoint = this.requireEndpoint("changeEmail");
+        const email = sanitizeEmail(newEmail);
+
+        const emailResult = validateEmail(email);
+        if (!emailResult.isValid) {
+            throw new AuthInvalidEmailError(emailResult.error);
+        }
+
+        const user = await this.requirePermanentUser();
+        if (user.email?.toLowerCase() === email) {
+            throw new AuthValidationError("auth.validation.emailUnchanged", "email");
+        }
+
+        await this.authorizedRequest(endpoint, { body: { newEmail: email } });
+    }
+
+    async reauthenticate(credential: LinkCredential): Promise<void> {
+        const endpoint = this.requireEndpoint("reauthenticate");
+        if (credential.provider === "password") {
+            const password = sanitizePassword(credential.password);
+            const passwordResult = validatePasswordForLogin(password);
+            if (!passwordResult.isValid) {
+                throw new AuthValidationError(passwordResult.error || "Password is required", "password");
+            }
+            await this.requirePermanentUser();
+            await this.authorizedRequest(endpoint, {
+                body: { provider: "password", password },
+                unauthorizedCode: "AUTH_WRONG_PASSWORD",
+            });
+            return;
+        }
+
+        await this.requirePermanentUser();
+        await this.authorizedRequest(endpoint, { body: credential, unauthorizedCode: "AUTH_USER_MISMATCH" });
+    }
+
+    async updateProfile(params: UpdateProfileParams): Promise<AuthUser> {
+        const endpoint = this.requireEndpoint("profile");
+        const updates: { displayName?: string; photoURL?: string | null } = {};
+
+        if (params.displayName !== undefined) {
+            const displayName = sanitizeName(params.displayName);
+            const nameResult = validateDisplayName(displayName);
+            if (!nameResult.isValid) {
+                throw new AuthValidationError(nameResult.error || "Invalid name", "displayName");
+            }
+            updates.displayName = displayName;
+        }
+
+        if (params.photoURL !== undefined) {
+            const photoURL = params.photoURL.trim();
+            if (photoURL && !/^https?:\/\//i.test(photoURL)) {
+                throw new AuthValidationError("auth.validation.invalidPhotoURL", "photoURL");
+            }
+            updates.photoURL = photoURL || null;
+        }
+
+        const user = await this.requirePermanentUser();
+        if (Object.keys(updates).length === 0) {
+            return user;
+        }
+
+        const body = await this.authorizedRequest(endpoint, { method: "PATCH", body: updates });
+        return this.updateSessionUser(body);
+    }
+
+    signInWithPhone(): Promise<PhoneVerificationSession> {
+        return this.unsupported("Phone sign-in");
+    }
+
+    confirmOtp(): Promise<AuthUser> {
+        return this.unsupported("Phone sign-in");
+    }
+
+    sendSignInLink(): Promise<void> {
+        return this.unsupported("Email link sign-in");
+    }
+
+    isSignInLink(): boolean {
+        return false;
+    }
+
+    signInWithEmailLink(): Promise<AuthUser> {
+        return this.unsupported("Email link sign-in");
+    }
+
+    startTotpEnrollment(): Promise<TotpEnrollment> {
+        return this.unsupported("Two-factor authentication");
+    }
+
+    completeTotpEnrollment(): Promise<MultiFactorInfo[]> {
+        return this.unsupported("Two-factor authentication");
+    }
+
+    getEnrolledFactors(): MultiFactorInfo[] {
+        return [];
+    }
+
+    unenrollFactor(): Promise<MultiFactorInfo[]> {
+        return this.unsupported("Two-factor authentication");
+    }
+
+    resolveMultiFactorSignIn(): Promise<AuthUser> {
+        return this.unsupported("Two-factor authentication");
+    }
+
+    linkProvider(): Promise<AuthUser> {
+        return this.unsupported("Account linking");
+    }
+
+    unlinkProvider(): Promise<AuthUser> {
+        return this.unsupported("Account linking");
+    }
+
+    upgradeAnonymousAccount(): Promise<AuthUser> {
+        return this.unsupported("Anonymous account upgrade");
+    }
+
+    getLinkedProviders(): AuthProviderType[] {
+        return this.session?.user.providers ?? [];
+    }
+
+    resolveCredentialConflict(): Promise<AuthUser> {
+        return this.unsupported("Account linking");
+    }
+
+    getCurrentUser(): AuthUser | null {
+        return this.session?.user ?? null;
+    }
+
+    /**
+     * Reports the stored session once it is restored, then every change
+     */
+    onAuthStateChange(callback: AuthStateChangeCallback): () => void {
+        this.listeners.add(callback);
+
+        void this.ensureRestored().then(() => {
+            if (this.listeners.has(callback)) {
+                callback(this.getCurrentUser());
+            }
+        });
+
+        return () => {
+            this.listeners.delete(callback);
+        };
+    }
+
+    /**
+     * Valid access token for calls to your own API, refreshed when it is about to expire
+     */
+    async getAccessToken(): Promise<string | null> {
+        await this.ensureRestored();
+        if (!this.session) return null;
+        return this.getValidAccessToken();
+    }
+
+    /**
+     * Stop the refresh timer and drop listeners (tests, hot reload)
+     */
+    dispose(): void {
+        this.clearRefreshTimer();
+        this.listeners.clear();
+    }
+
+    // =========================================================================
+    // SESSION
+    // =========================================================================
+
+    private ensureRestored(): Promise<void> {
+        if (!this.restorePromise) {
+            this.restorePromise = this.restoreSession();
+        }
+        return this.restorePromise;
+    }
+
+    private async restoreSession(): Promise<void> {
+        let stored: StoredSession | null = null;
+        try {
+            const raw = await this.options.storage.get(this.storageKey);
+            stored = raw ? parseStoredSession(raw) : null;
+        } catch (error) {
+            if (__DEV__) {
+                console.warn("[RestAuthRepository] Reading stored session failed:", error);
+            }
+        }
+
+        if (!stored) return;
+
+        // Start with the stored user so the app works offline, then sync it
+        this.session = stored;
+        this.scheduleRefresh();
+        void this.syncUser();
+    }
+
+    private async syncUser(): Promise<void> {
+        try {
+            const body = await this.authorizedRequest(this.endpoints.me, { method: "GET" });
+            this.updateSessionUser(body);
+        } catch (error) {
+            // Network failures keep the stored session; expired sessions already ended
+            if (__DEV__) {
+                console.warn("[RestAuthRepository] Syncing user failed:", error instanceof Error ? error.message : error);
+            }
+        }
+    }
+
+    private async startSession(body: unknown): Promise<AuthUser> {
+        await this.ensureRestored();
+        const tokens = this.parseTokens(body);
+
+        const user = hasUser(body)
+            ? this.parseUser(body)
+            : this.parseUser(await this.request(this.endpoints.me, { method: "GET", accessToken: tokens.accessToken }));
+
+        this.session = { tokens, user };
+        await this.persistSession();
+        this.scheduleRefresh();
+        this.notify();
+        return user;
+    }
+
+    private async endSession(): Promise<void> {
+        this.clearRefreshTimer();
+        this.session = null;
+        try {
+            await this.options.storage.remove(this.storageKey);
+        } catch (error) {
+            if (__DEV__) {
+                console.warn("[RestAuthRepository] Removing stored session failed:", error);
+            }
+        }
+        this.notify();
+    }
+
+    private updateSessionUser(body: unknown): AuthUser {
+        const user = this.parseUser(body);
+        if (this.session) {
+            this.session = { ...this.session, user };
+            void this.persistSession();
+            this.notify();
+        }
+        return user;
+    }
+
+    private async persistSession(): Promise<void> {
+        if (!this.session) return;
+        try {
+            await this.options.storage.set(this.storageKey, JSON.stringify(this.session));
+        } catch (error) {
+            if (__DEV__) {
+                console.warn("[RestAuthRepository] Storing session failed:", error);
+            }
+        }
+    }
+
+    private async getValidAccessToken(): Promise<string> {
+        const session = this.session;
+        if (!session) {
+            throw new AuthError("No signed-in user", "AUTH_NO_USER");
+        }
+
+        const { expiresAt, accessToken } = session.tokens;
+        if (expiresAt !== null && Date.now() >= expiresAt - this.refreshMargin) {
+            return (await this.refreshTokens()).accessToken;
+        }
+        return accessToken;
+    }
+
+    /**
+     * One refresh at a time; concurrent callers share it
+     */
+    private refreshTokens(): Promise<RestAuthTokens> {
+        if (!this.refreshPromise) {
+            this.refreshPromise = this.performRefresh().finally(() => {
+                this.refreshPromise = null;
+            });
+        }
+        return this.refreshPromise;
+    }
+
+    private async performRefresh(): Promise<RestAuthTokens> {
+        const refreshToken = this.session?.tokens.refreshToken;
+        if (!refreshToken) {
+            await this.endSession();
+            throw new AuthSessionExpiredError();
+        }
+
+        let body: unknown;
+        try {
+            body = await this.request(this.endpoints.refresh, {
+                body: { refreshToken },
+                unauthorizedCode: "AUTH_SESSION_EXPIRED",
+            });
+        } catch (error) {
+            // A rejected refresh token means the session is over; network errors may recover
+            if (!(error instanceof AuthNetworkError)) {
+                await this.endSession();
+            }
+            throw error;
+        }
+
+        const next = this.parseTokens(body);
+        // Servers that don't rotate refresh tokens keep the current one valid
+        const tokens = { ...next, refreshToken: next.refreshToken ?? refreshToken };
+
+        if (this.session) {
+            this.session = {
+                tokens,
+                user: hasUser(body) ? this.parseUser(body) : this.session.user,
+            };
+            await this.persistSession();
+            this.scheduleRefresh();
+            // Listeners see refreshes like Firebase's onIdTokenChanged
+            this.notify();
+        }
+        return tokens;
+    }
+
+    private scheduleRefresh(): void {
+        this.clearRefreshTimer();
+        const tokens = this.session?.tokens;
+        if (!tokens?.refreshToken || tokens.expiresAt === null) return;
+
+        const refreshAt = tokens.expiresAt - this.refreshMargin;
+        const remaining = Math.max(0, refreshAt - Date.now());
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = null;
+            // A clamped timer fires before the refresh point
+            if (Date.now() < refreshAt) {
+                this.scheduleRefresh();
+                return;
+            }
+            this.refreshTokens().catch((error: unknown) => {
+                if (__DEV__) {
+                    console.warn("[RestAuthRepository] Token refresh failed:", error instanceof Error ? error.message : error);
+                }
+            });
+        }, Math.min(remaining, MAX_TIMER_MS));
+    }
+
+    private clearRefreshTimer(): void {
+        if (this.refreshTimer !== null) {
+            clearTimeout(this.refreshTimer);
+            this.refreshTimer = null;
+        }
+    }
+
+    private notify(): void {
+        const user = this.getCurrentUser();
+        for (const listener of [...this.listeners]) {
+            listener(user);
+        }
+    }
+
+    private async requirePermanentUser(): Promise<AuthUser> {
+        await this.ensureRestored();
+        const user = this.session?.user;
+        if (!user || user.isAnonymous) {
+            throw new AuthError("No signed-in user", "AUTH_NO_USER");
+        }
+        return user;
+    }
+
+    // =========================================================================
+    // HTTP
+    // =========================================================================
+
+    /**
+     * Request with the access token; an expired token gets one refresh and retry
+     */
+    private async authorizedRequest(path: string, options: RequestOptions = {}): Promise<unknown> {
+        await this.ensureRestored();
+        let response = await this.send(path, { ...options, accessToken: await this.getValidAccessToken() });
+
+        if (response.status === 401 && this.isSessionError(response.payload)) {
+            const tokens = await this.refreshTokens();
+            response = await this.send(path, { ...options, accessToken: tokens.accessToken });
+        }
+
+        if (response.ok) {
+            return response.payload;
+        }
+        throw this.mapHttpError(response, options.unauthorizedCode);
+    }
+
+    private async request(path: string, options: RequestOptions = {}): Promise<unknown> {
+        const response = await this.send(path, options);
+        if (response.ok) {
+            return response.payload;
+        }
+        throw this.mapHttpError(response, options.unauthorizedCode);
+    }
+
+    private async send(path: string, options: RequestOptions): Promise<HttpResponse> {
+        const { method = "POST", body, accessToken } = options;
+        const fetchImpl = this.options.fetch ?? fetch;
+
+        const headers: Record<string, string> = {
+            Accept: "application/json",
+            ...this.options.headers,
+        };
+        if (body) {
+            headers["Content-Type"] = "application/json";
+        }
+        if (accessToken) {
+            headers.Authorization = `Bearer ${accessToken}`;
+        }
+
+        let response: Response;
+        try {
+            response = await fetchImpl(joinUrl(this.options.baseUrl, path), {
+                method,
+                headers,
+                body: body ? JSON.stringify(body) : undefined,
+            });
+        } catch (error) {
+            throw new AuthNetworkError(error instanceof Error ? error.message : undefined, error);
+        }
+
+        return {
+            ok: response.ok,
+            status: response.status,
+            payload: await readJson(response),
+            retryAfterMs: readRetryAfter(response),
+        };
+    }
+
+    /**
+     * A 401 without a code, or with a token code, means the access token was rejected
+     */
+    private isSessionError(payload: unknown): boolean {
+        const { code } = readServerError(payload);
+        return !code || this.errorCodes[normalizeServerCode(code)] === "AUTH_SESSION_EXPIRED";
+    }
+
+    /**
+     * Map server failures to errors the error mapper understands
+     */
+    private mapHttpError(response: HttpResponse, unauthorizedCode = "AUTH_SESSION_EXPIRED"): AuthError {
+        const { status, payload } = response;
+        const { code, message } = readServerError(payload);
+        const mapped = code ? this.errorCodes[normalizeServerCode(code)] : undefined;
+        const text = message ?? `Request failed with status ${status}`;
+
+        if (mapped === "AUTH_TOO_MANY_REQUESTS" || (!mapped && status === 429)) {
+            return new AuthTooManyRequestsError(text, undefined, response.retryAfterMs);
+        }
+        if (mapped) {
+            return createAuthError(mapped, text);
+        }
+        switch (status) {
+            case 401:
+                return createAuthError(unauthorizedCode, text);
+            case 409:
+                return new AuthEmailAlreadyInUseError(text);
+            default:
+                return new AuthError(text, code ?? `HTTP_${status}`);
+        }
+    }
+
+    private parseTokens(body: unknown): RestAuthTokens {
+        const tokens = this.options.parseTokens ? this.options.parseTokens(body) : defaultParseTokens(body);
+        if (!tokens.accessToken) {
+            throw new AuthError("Response has no access token", "AUTH_INVALID_RESPONSE");
+        }
+        return tokens;
+    }
+
+    private parseUser(body: unknown): AuthUser {
+        return this.options.parseUser ? this.options.parseUser(body) : defaultParseUser(body);
+    }
+
+    private requireEndpoint(name: keyof RestAuthEndpoints): string {
+        const endpoint = this.endpoints[name];
+        if (!endpoint) {
+            throw new AuthError(`No "${name}" endpoint configured`, "AUTH_OPERATION_NOT_SUPPORTED");
+        }
+        return endpoint;
+    }
+
+    private unsupported<T>(feature: string): Promise<T> {
+        return Promise.reject(new AuthError(`${feature} is not supported by this backend`, "AUTH_OPERATION_NOT_SUPPORTED"));
+    }
+
+    private get refreshMargin(): number {
+        return this.options.refreshMarginMs ?? DEFAULT_REFRESH_MARGIN_MS;
+    }
+
+    private get storageKey(): string {
+        return this.options.storageKey ?? DEFAULT_STORAGE_KEY;
+    }
+}
+
+/**
+ * Factory for initializeAuth({ repositoryFactory })
+ */
+export function createRestAuthRepositoryFactory(options: RestAuthRepositoryOptions): AuthRepositoryFactory {
+    return (config) => new RestAuthRepository(config, options);
+}
+
+function normalizeServerCode(code: string): string {
+    return code.replace(/^auth[/.]/i, "").replace(/[-./\s]/g, "_").toUpperCase();
+}
+
+function readServerError(payload: unknown): { code?: string; message?: string } {
+    if (!isRecord(payload)) return {};
+    const source = isRecord(payload.error) ? payload.error : payload;
+    const code = source.code ?? (typeof source.error === "string" ? source.error : undefined);
+    const message = source.message ?? source.error_description;
+    return {
+        code: typeof code === "string" ? code : undefined,
+        message: typeof message === "string" ? message : undefined,
+    };
+}
+
+async function readJson(response: Response): Promise<unknown> {
+    if (response.status === 204) return null;
+    try {
+        return (await response.json()) as unknown;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Retry-After in seconds or as an HTTP date
+ */
+function readRetryAfter(response: Response): number | undefined {
+    const value = response.headers?.get("Retry-After");
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function joinUrl(baseUrl: string, path: string): string {
+    if (/^https?:\/\//i.test(path)) return path;
+    return `${baseUrl.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null;
+}
+
+function hasUser(body: unknown): boolean {
+    return isRecord(body) && isRecord(body.user);
+}
+
+function readString(source: Record<string, unknown>, ...keys: string[]): string | null {
+    for (const key of keys) {
+        const value = source[key];
+        if (typeof value === "string" && value) return value;
+        if (typeof value === "number") return String(value);
+    }
+    return null;
+}
+
+/**
+ * Accepts { accessToken, refreshToken, expiresIn } in camelCase or snake_case,
+ * optionally nested under "tokens"; falls back to the JWT exp claim
+ */
+function defaultParseTokens(body: unknown): RestAuthTokens {
+    const root = isRecord(body) ? body : {};
+    const source = isRecord(root.tokens) ? root.tokens : root;
+
+    const accessToken = readString(source, "accessToken", "access_token", "token") ?? "";
+    const refreshToken = readString(source, "refreshToken", "refresh_token");
+
+    const expiresIn = source.expiresIn ?? source.expires_in;
+    const expiresAt = source.expiresAt ?? source.expires_at;
+    let expiry: number | null = null;
+    if (typeof expiresIn === "number") {
+        expiry = Date.now() + expiresIn * 1000;
+    } else if (typeof expiresAt === "number") {
+        expiry = expiresAt;
+    } else if (typeof expiresAt === "string") {
+        const parsed = Date.parse(expiresAt);
+        expiry = Number.isNaN(parsed) ? null : parsed;
+    } else if (accessToken) {
+        expiry = getJwtExpiry(accessToken);
+    }
+
+    return { accessToken, refreshToken, expiresAt: expiry };
+}
+
+const KNOWN_PROVIDERS: readonly AuthProviderType[] = ["google.com", "apple.com", "password", "phone"];
+
+/**
+ * Accepts the user under "user" or at the top level, with common field names
+ */
+function defaultParseUser(body: unknown): AuthUser {
+    const root = isRecord(body) ? body : {};
+    const source = isRecord(root.user) ? root.user : root;
+
+    const uid = readString(source, "uid", "id", "_id", "sub");
+    if (!uid) {
+        throw new AuthError("Response has no user id", "AUTH_INVALID_RESPONSE");
+    }
+
+    const isAnonymous = source.isAnonymous === true || source.is_anonymous === true;
+    const providers = Array.isArray(source.providers)
+        ? [
+            ...KNOWN_PROVIDERS.filter((provider) => (source.providers as unknown[]).includes(provider)),
+            ...source.providers.filter(isOAuthProviderType),
+        ]
+        : [];
+    if (providers.length === 0) {
+        providers.push(isAnonymous ? "anonymous" : "password");
+    }
+
+    return {
+        uid,
+        email: readString(source, "email"),
+        displayName: readString(source, "displayName", "display_name", "name"),
+        isAnonymous,
+        emailVerified: source.emailVerified === true || source.email_verified === true,
+        photoURL: readString(source, "photoURL", "photoUrl", "avatarUrl", "avatar_url", "picture"),
+        phoneNumber: readString(source, "phoneNumber", "phone_number", "phone"),
+        provider: isAnonymous ? "anonymous" : providers[0],
+        providers: isAnonymous ? ["anonymous"] : providers,
+    };
+}
+
+function parseStoredSession(raw: string): StoredSession | null {
+    try {
+        const parsed: unknown = JSON.parse(raw);
+        if (!isRecord(parsed) || !isRecord(parsed.tokens) || !isRecord(parsed.user)) return null;
+        if (typeof parsed.tokens.accessToken !== "string" || typeof parsed.user.uid !== "string") return null;
+        return parsed as unknown as StoredSession;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,176 @@
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { RestAuthRepository } from "../RestAuthRepository";
+import { sanitizeAuthConfig } from "../../../domain/value-objects/AuthConfig";
+import type { IStorageProvider } from "../../types/Storage.types";
+
+const REFRESH_MARGIN_MS = 60_000;
+/** Longer than setTimeout can wait (2^31-1 ms, about 24.8 days) */
+const LONG_LIVED_SECONDS = 60 * 24 * 3600;
+
+function createMemoryStorage(): IStorageProvider {
+  const values = new Map<string, string>();
+  return {
+    get: (key) => Promise.resolve(values.get(key) ?? null),
+    set: (key, value) => {
+      values.set(key, value);
+      return Promise.resolve();
+    },
+    remove: (key) => {
+      values.delete(key);
+      return Promise.resolve();
+    },
+  };
+}
+
+function readJsonBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let raw = "";
+    request.setEncoding("utf8");
+    request.on("data", (chunk: string) => {
+      raw += chunk;
+    });
+    request.on("end", () => resolve(raw ? (JSON.parse(raw) as Record<string, unknown>) : {}));
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Backend on an ephemeral port: login and refresh issue tokens living expiresIn seconds,
+ * and only the latest refresh token is accepted
+ */
+function startTestServer(expiresIn: number): Promise<{
+  baseUrl: string;
+  refreshRequests: string[];
+  close: () => Promise<void>;
+}> {
+  let issued = 0;
+  const refreshRequests: string[] = [];
+  const issueTokens = () => {
+    issued += 1;
+    return { accessToken: `access-${issued}`, refreshToken: `refresh-${issued}`, expiresIn };
+  };
+
+  const server: Server = createServer((request, response) => {
+    void readJsonBody(request).then((body) => {
+      const send = (status: number, payload: unknown) => {
+        response.writeHead(status, { "Content-Type": "application/json" });
+        response.end(JSON.stringify(payload));
+      };
+
+      if (request.method === "POST" && request.url === "/auth/login") {
+        send(200, { user: { id: "user-1", email: body.email }, ...issueTokens() });
+      } else if (request.method === "POST" && request.url === "/auth/refresh") {
+        refreshRequests.push(String(body.refreshToken));
+        if (body.refreshToken !== `refresh-${issued}`) {
+          send(401, { code: "INVALID_REFRESH_TOKEN" });
+        } else {
+          send(200, issueTokens());
+        }
+      } else {
+        send(404, { code: "NOT_FOUND" });
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        baseUrl: `http://127.0.0.1:${port}`,
+        refreshRequests,
+        close: () => {
+          server.closeAllConnections();
+          return new Promise((done) => server.close(() => done()));
+        },
+      });
+    });
+  });
+}
+
+describe("RestAuthRepository token refresh", () => {
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+  let repository: RestAuthRepository;
+  /** Requests the repository started; a request is on the server once its response arrives */
+  const inFlight = new Set<Promise<Response>>();
+
+  function trackedFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const response = fetch(input, init);
+    inFlight.add(response);
+    void response.then(
+      () => inFlight.delete(response),
+      () => inFlight.delete(response)
+    );
+    return response;
+  }
+
+  /** Waits for every request the fake timers triggered to reach the server */
+  async function settle(): Promise<void> {
+    await Promise.allSettled([...inFlight]);
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+  });
+
+  afterEach(async () => {
+    repository.dispose();
+    jest.useRealTimers();
+    await settle();
+    await server.close();
+  });
+
+  async function signIn(expiresIn: number) {
+    server = await startTestServer(expiresIn);
+    repository = new RestAuthRepository(sanitizeAuthConfig(), {
+      baseUrl: server.baseUrl,
+      storage: createMemoryStorage(),
+      fetch: trackedFetch,
+      refreshMarginMs: REFRESH_MARGIN_MS,
+    });
+    return repository.signIn({ email: "jane@example.com", password: "Secret123!" });
+  }
+
+  it("refreshes a short-lived token at the refresh margin", async () => {
+    await signIn(120);
+
+    await jest.advanceTimersByTimeAsync(120_000 - REFRESH_MARGIN_MS - 1);
+    await settle();
+    expect(server.refreshRequests).toHaveLength(0);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await settle();
+    expect(server.refreshRequests).toEqual(["refresh-1"]);
+    expect(await repository.getAccessToken()).toBe("access-2");
+  });
+
+  it("doesn't refresh in a loop when the token outlives the longest timer", async () => {
+    await signIn(LONG_LIVED_SECONDS);
+
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+    await settle();
+
+    expect(server.refreshRequests).toHaveLength(0);
+    expect(await repository.getAccessToken()).toBe("access-1");
+  });
+
+  it("keeps re-checking a long-lived token and refreshes it once when due", async () => {
+    await signIn(LONG_LIVED_SECONDS);
+
+    // The app was suspended until shortly before the refresh point
+    jest.setSystemTime(Date.now() + LONG_LIVED_SECONDS * 1000 - REFRESH_MARGIN_MS - 30_000);
+    await jest.advanceTimersByTimeAsync(29_999);
+    await settle();
+    expect(server.refreshRequests).toHaveLength(0);
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    await settle();
+    expect(server.refreshRequests).toEqual(["refresh-1"]);
+    expect(await repository.getAccessToken()).toBe("access-2");
+
+    // The new token is long-lived too
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+    await settle();
+    expect(server.refreshRequests).toHaveLength(1);
+  });
+});
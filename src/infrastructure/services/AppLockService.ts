@@ -0,0 +1,321 @@
+/**
+ * App Lock Service
+ * Local PIN / biometric lock on top of the signed-in session.
+ * Locks on cold start and after a while in background, pauses unlocking
+ * after too many wrong PINs and forgets the PIN when the user signs out.
+ */
+
+import { AppState, type AppStateStatus, type NativeEventSubscription } from "react-native";
+import { AuthError } from "../../domain/errors/AuthError";
+import { DEFAULT_APP_LOCK_CONFIG, type AppLockConfig } from "../../domain/value-objects/AuthConfig";
+import { authEventService } from "./AuthEventService";
+import { hashPin, verifyPinHash, type PinHash } from "../utils/pinHash";
+import type { IStorageProvider } from "../types/Storage.types";
+import type { AppLockState, BiometricProvider } from "../types/AppLock.types";
+
+const STORAGE_KEY = "@auth_app_lock";
+
+interface AppLockRecord {
+  pin: PinHash | null;
+  biometricsEnabled: boolean;
+  failedAttempts: number;
+  lockedOutUntil: number | null;
+}
+
+interface AppLockOptions {
+  /** Without one the PIN only lives until the app restarts */
+  storageProvider?: IStorageProvider;
+  biometricProvider?: BiometricProvider;
+}
+
+const EMPTY_RECORD: AppLockRecord = {
+  pin: null,
+  biometricsEnabled: false,
+  failedAttempts: 0,
+  lockedOutUntil: null,
+};
+
+const DISABLED_STATE: AppLockState = {
+  isEnabled: false,
+  isReady: false,
+  isLocked: false,
+  hasPin: false,
+  biometricsEnabled: false,
+  failedAttempts: 0,
+  lockedOutUntil: null,
+};
+
+class AppLockService {
+  private static instance: AppLockService;
+  private config: Required<AppLockConfig> | null = null;
+  private options: AppLockOptions = {};
+  private record: AppLockRecord = EMPTY_RECORD;
+  private state: AppLockState = DISABLED_STATE;
+  private backgroundedAt: number | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private unsubscribeSignOut: (() => void) | null = null;
+  private listeners = new Set<() => void>();
+
+  private constructor() {}
+
+  static getInstance(): AppLockService {
+    if (!AppLockService.instance) {
+      AppLockService.instance = new AppLockService();
+    }
+    return AppLockService.instance;
+  }
+
+  async configure(config: AppLockConfig, options: AppLockOptions = {}): Promise<void> {
+    this.stop();
+    this.config = { ...DEFAULT_APP_LOCK_CONFIG, ...config };
+    this.options = options;
+    this.setState({ ...DISABLED_STATE, isEnabled: true });
+
+    if (!options.storageProvider && __DEV__) {
+      console.warn("[AppLockService] No storage provider, the PIN is lost when the app restarts");
+    }
+
+    this.appStateSubscription = AppState.addEventListener("change", (state) => this.handleAppStateChange(state));
+    // A PIN belongs to the signed-in user
+    this.unsubscribeSignOut = authEventService.on("user-signed-out", () => {
+      void this.reset();
+    });
+
+    const record = await this.load();
+    // Stopped or reconfigured while loading
+    if (this.options !== options || !this.config) return;
+
+    this.record = record;
+    this.setState({
+      isEnabled: true,
+      isReady: true,
+      isLocked: this.config.lockOnColdStart && record.pin !== null,
+      hasPin: record.pin !== null,
+      biometricsEnabled: record.biometricsEnabled,
+      failedAttempts: record.failedAttempts,
+      lockedOutUntil: record.lockedOutUntil,
+    });
+  }
+
+  stop(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.unsubscribeSignOut?.();
+    this.unsubscribeSignOut = null;
+    this.config = null;
+    this.options = {};
+    this.record = EMPTY_RECORD;
+    this.backgroundedAt = null;
+    this.setState(DISABLED_STATE);
+  }
+
+  getState(): AppLockState {
+    return this.state;
+  }
+
+  getPinLength(): number {
+    return this.config?.pinLength ?? DEFAULT_APP_LOCK_CONFIG.pinLength;
+  }
+
+  /**
+   * Notified on every state change; getState() returns a new object each time
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Lock now, e.g. from a "Lock app" button; without a PIN there's nothing to unlock with
+   */
+  lock(): void {
+    if (!this.record.pin || this.state.isLocked) return;
+    this.setState({ ...this.state, isLocked: true });
+  }
+
+  async setPin(pin: string): Promise<void> {
+    this.assertValidPin(pin);
+    await this.save({ ...this.record, pin: hashPin(pin), failedAttempts: 0, lockedOutUntil: null });
+  }
+
+  /**
+   * Wrong current PINs count towards the lockout, like unlockWithPin
+   */
+  async changePin(currentPin: string, newPin: string): Promise<void> {
+    this.assertValidPin(newPin);
+    await this.confirmPin(currentPin);
+    await this.save({ ...this.record, pin: hashPin(newPin), failedAttempts: 0, lockedOutUntil: null });
+  }
+
+  /**
+   * Turn the app lock off after confirming the current PIN
+   */
+  async removePin(currentPin: string): Promise<void> {
+    await this.confirmPin(currentPin);
+    await this.save(EMPTY_RECORD);
+    this.setState({ ...this.state, isLocked: false });
+  }
+
+  /**
+   * Unlocks with the right PIN; wrong PINs count towards the lockout
+   */
+  async unlockWithPin(pin: string): Promise<boolean> {
+    if (this.isLockedOut() || !(await this.verifyPin(pin))) return false;
+
+    await this.save({ ...this.record, failedAttempts: 0, lockedOutUntil: null });
+    this.setState({ ...this.state, isLocked: false });
+    return true;
+  }
+
+  async isBiometricAvailable(): Promise<boolean> {
+    const provider = this.options.biometricProvider;
+    if (!provider) return false;
+
+    try {
+      return await provider.isAvailable();
+    } catch {
+      return false;
+    }
+  }
+
+  async setBiometricsEnabled(enabled: boolean): Promise<void> {
+    if (enabled && !(await this.isBiometricAvailable())) {
+      throw new AuthError("Biometric authentication is not available", "AUTH_APP_LOCK_BIOMETRICS_UNAVAILABLE");
+    }
+    await this.save({ ...this.record, biometricsEnabled: enabled });
+  }
+
+  async unlockWithBiometrics(prompt: string): Promise<boolean> {
+    const provider = this.options.biometricProvider;
+    if (!provider || !this.record.biometricsEnabled || !this.record.pin || this.isLockedOut()) return false;
+
+    try {
+      if (!(await provider.authenticate(prompt))) return false;
+    } catch (error) {
+      if (__DEV__) {
+        console.warn("[AppLockService] Biometric authentication failed:", error instanceof Error ? error.message : error);
+      }
+      return false;
+    }
+
+    await this.save({ ...this.record, failedAttempts: 0, lockedOutUntil: null });
+    this.setState({ ...this.state, isLocked: false });
+    return true;
+  }
+
+  private isLockedOut(): boolean {
+    const { lockedOutUntil } = this.record;
+    return lockedOutUntil !== null && lockedOutUntil > Date.now();
+  }
+
+  /**
+   * Right PIN, or a failed attempt that starts the lockout after maxAttempts
+   */
+  private async verifyPin(pin: string): Promise<boolean> {
+    const { pin: stored } = this.record;
+    if (!this.config || !stored) return false;
+    if (verifyPinHash(pin, stored)) return true;
+
+    const failedAttempts = this.record.failedAttempts + 1;
+    await this.save(
+      failedAttempts >= this.config.maxAttempts
+        ? { ...this.record, failedAttempts: 0, lockedOutUntil: Date.now() + this.config.lockoutMs }
+        : { ...this.record, failedAttempts }
+    );
+    return false;
+  }
+
+  private async confirmPin(pin: string): Promise<void> {
+    if (this.isLockedOut()) {
+      throw new AuthError("Too many wrong PINs, try again later", "AUTH_APP_LOCK_LOCKED_OUT", {
+        isRetryable: true,
+      });
+    }
+    if (!(await this.verifyPin(pin))) {
+      throw new AuthError("Current PIN is wrong", "AUTH_APP_LOCK_WRONG_PIN");
+    }
+  }
+
+  private assertValidPin(pin: string): void {
+    const length = this.getPinLength();
+    if (!this.config) {
+      throw new AuthError("App lock is not configured", "AUTH_APP_LOCK_DISABLED");
+    }
+    if (!new RegExp(`^\\d{${length}}$`).test(pin)) {
+      throw new AuthError(`PIN must be ${length} digits`, "AUTH_APP_LOCK_INVALID_PIN");
+    }
+  }
+
+  private handleAppStateChange(state: AppStateStatus): void {
+    if (state === "background") {
+      this.backgroundedAt = Date.now();
+      return;
+    }
+    if (state !== "active" || this.backgroundedAt === null || !this.config) return;
+
+    const backgroundMs = Date.now() - this.backgroundedAt;
+    this.backgroundedAt = null;
+    if (backgroundMs >= this.config.backgroundTimeoutMs) {
+      this.lock();
+    }
+  }
+
+  private async reset(): Promise<void> {
+    if (!this.record.pin && !this.record.biometricsEnabled) return;
+    await this.save(EMPTY_RECORD);
+    this.setState({ ...this.state, isLocked: false });
+  }
+
+  private setState(state: AppLockState): void {
+    this.state = state;
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private async load(): Promise<AppLockRecord> {
+    const storage = this.options.storageProvider;
+    if (!storage) return EMPTY_RECORD;
+
+    try {
+      const value = await storage.get(STORAGE_KEY);
+      return value ? { ...EMPTY_RECORD, ...(JSON.parse(value) as Partial<AppLockRecord>) } : EMPTY_RECORD;
+    } catch (error) {
+      if (__DEV__) {
+        console.error('[AppLockService] Failed to load state:', error instanceof Error ? error.message : String(error));
+      }
+      return EMPTY_RECORD;
+    }
+  }
+
+  /**
+   * Keeps the record in memory even when storage fails, so a failed write can't unlock
+   */
+  private async save(record: AppLockRecord): Promise<void> {
+    this.record = record;
+    this.setState({
+      ...this.state,
+      hasPin: record.pin !== null,
+      biometricsEnabled: record.biometricsEnabled,
+      failedAttempts: record.failedAttempts,
+      lockedOutUntil: record.lockedOutUntil,
+    });
+
+    const storage = this.options.storageProvider;
+    if (!storage) return;
+
+    try {
+      if (record.pin || record.biometricsEnabled) {
+        await storage.set(STORAGE_KEY, JSON.stringify(record));
+      } else {
+        await storage.remove(STORAGE_KEY);
+      }
+    } catch (error) {
+      if (__DEV__) {
+        console.error('[AppLockService] Failed to save state:', error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+}
+
+export const appLockService = AppLockService.getInstance();
@@ -0,0 +1,160 @@
+/**
+ * Auth Analytics Service
+ * Maps the auth lifecycle to standardized analytics events
+ * ("login", "sign_up", "logout", "conversion") for the registered adapter
+ */
+
+import type { AuthProviderType } from "../../domain/entities/AuthUser";
+import { authEventService } from "./AuthEventService";
+import { safeCallbackSync } from "../utils/safeCallback";
+import type { AuthEvent, AuthMethod, AuthOperation } from "../types/AuthEvents.types";
+import type {
+  AuthAnalyticsAdapter,
+  AuthAnalyticsAttemptEvent,
+  AuthAnalyticsEvent,
+  AuthAnalyticsMethod,
+} from "../types/AuthAnalytics.types";
+
+/**
+ * Methods that don't depend on the provider of the signed-in account
+ */
+const METHODS: Partial<Record<AuthMethod, AuthAnalyticsMethod>> = {
+  password: "password",
+  anonymous: "anonymous",
+  phone: "phone",
+  emailLink: "email_link",
+  oauth: "oauth",
+};
+
+/**
+ * Failed operations reported as login / sign_up attempts
+ */
+const FAILED_ATTEMPTS: Partial<Record<AuthOperation, Pick<AuthAnalyticsAttemptEvent, "name" | "method">>> = {
+  signUp: { name: "sign_up", method: "password" },
+  signIn: { name: "login", method: "password" },
+  signInAnonymously: { name: "login", method: "anonymous" },
+  signInWithOidc: { name: "login", method: "oauth" },
+  signInWithOAuth: { name: "login", method: "oauth" },
+  signInWithPhone: { name: "login", method: "phone" },
+  confirmOtp: { name: "login", method: "phone" },
+  sendSignInLink: { name: "login", method: "email_link" },
+  completeSignInFromLink: { name: "login", method: "email_link" },
+};
+
+export function toAnalyticsMethod(provider: AuthProviderType): AuthAnalyticsMethod {
+  switch (provider) {
+    case "google.com":
+      return "google";
+    case "apple.com":
+      return "apple";
+    case "password":
+    case "phone":
+    case "anonymous":
+    case "unknown":
+      return provider;
+    default:
+      return "oauth";
+  }
+}
+
+class AuthAnalyticsService {
+  private static instance: AuthAnalyticsService;
+  private adapter: AuthAnalyticsAdapter | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  private constructor() {}
+
+  static getInstance(): AuthAnalyticsService {
+    if (!AuthAnalyticsService.instance) {
+      AuthAnalyticsService.instance = new AuthAnalyticsService();
+    }
+    return AuthAnalyticsService.instance;
+  }
+
+  /**
+   * Register the adapter that receives analytics events, null stops tracking
+   */
+  setAdapter(adapter: AuthAnalyticsAdapter | null): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.adapter = adapter;
+
+    if (adapter) {
+      this.unsubscribe = authEventService.on("*", (event) => this.handleAuthEvent(event));
+    }
+  }
+
+  getAdapter(): AuthAnalyticsAdapter | null {
+    return this.adapter;
+  }
+
+  /**
+   * Reported by the auth state handler, which also sees conversions
+   * through the Firebase social sign-in hooks
+   */
+  trackConversion(conversion: {
+    anonymousUserId: string;
+    userId: string;
+    sameUid: boolean;
+    provider: AuthProviderType;
+  }): void {
+    this.track({
+      name: "conversion",
+      method: toAnalyticsMethod(conversion.provider),
+      anonymousUserId: conversion.anonymousUserId,
+      userId: conversion.userId,
+      sameUid: conversion.sameUid,
+      timestamp: Date.now(),
+    });
+  }
+
+  private handleAuthEvent(event: AuthEvent): void {
+    switch (event.type) {
+      case "user-signed-up":
+      case "user-authenticated":
+        // A registration also signs in, report it once as sign_up
+        if (event.type === "user-authenticated" && event.isNewUser) return;
+        this.track({
+          name: event.type === "user-signed-up" ? "sign_up" : "login",
+          method: METHODS[event.method] ?? toAnalyticsMethod(event.provider),
+          providerId: event.provider === "unknown" ? null : event.provider,
+          success: true,
+          userId: event.userId,
+          errorCode: null,
+          durationMs: event.durationMs ?? null,
+          timestamp: event.timestamp,
+        });
+        return;
+
+      case "auth-error": {
+        const attempt = FAILED_ATTEMPTS[event.operation];
+        if (!attempt) return;
+        this.track({
+          ...attempt,
+          providerId: null,
+          success: false,
+          userId: null,
+          errorCode: event.code ?? null,
+          durationMs: event.durationMs ?? null,
+          timestamp: event.timestamp,
+        });
+        return;
+      }
+
+      case "user-signed-out":
+        this.track({ name: "logout", userId: event.userId, timestamp: event.timestamp });
+        return;
+
+      default:
+        return;
+    }
+  }
+
+  private track(event: AuthAnalyticsEvent): void {
+    const adapter = this.adapter;
+    if (!adapter) return;
+    safeCallbackSync((analyticsEvent: AuthAnalyticsEvent) => adapter.track(analyticsEvent), [event], "[AuthAnalytics]");
+  }
+}
+
+export const authAnalyticsService = AuthAnalyticsService.getInstance();
@@ -1,23 +1,33 @@
 /**
  * Auth Event Service
- * Handles authentication event emission and management
+ * Typed event bus for authentication events
+ * Listeners may be async; failures are logged and never reach the emitter
  */
 
 import { DeviceEventEmitter } from "react-native";
+import type {
+  AuthEvent,
+  AuthEventMap,
+  AuthEventName,
+  AuthEventPayload,
+  AuthEventSubscription,
+  AuthEventListener,
+  AuthOperation,
+  AuthWildcardListener,
+} from "../types/AuthEvents.types";
 
-interface AuthEventPayload {
-  userId?: string;
-  error?: string;
-  timestamp: number;
-}
+type StoredListener = (event: AuthEvent) => void | Promise<void>;
 
-interface AuthEventListener {
-  (payload: AuthEventPayload): void;
-}
+// What the overloads accept, narrowed to StoredListener once stored
+type AnyListener = AuthEventListener<AuthEventName> | AuthWildcardListener;
+
+const WILDCARD = "*";
 
 class AuthEventService {
   private static instance: AuthEventService;
-  private listeners: Map<string, AuthEventListener[]> = new Map();
+  private listeners: Map<AuthEventSubscription, StoredListener[]> = new Map();
+  // Maps the handlers passed to on/once to what is stored, so off() finds them
+  private registrations: Map<AuthEventSubscription, Map<unknown, StoredListener>> = new Map();
 
   private constructor() {}
 
@@ -28,84 +38,153 @@ class AuthEventService {
     return AuthEventService.instance;
   }
 
-  emitUserAuthenticated(userId: string): void {
-    const payload: AuthEventPayload = {
-      userId,
-      timestamp: Date.now(),
+  /**
+   * Subscribe to one event, or to every event with "*"
+   * @returns unsubscribe function
+   */
+  on<K extends AuthEventName>(event: K, listener: AuthEventListener<K>): () => void;
+  on(event: "*", listener: AuthWildcardListener): () => void;
+  on(event: AuthEventSubscription, listener: AnyListener): () => void {
+    return this.register(event, listener, listener as StoredListener);
+  }
+
+  /**
+   * Subscribe for the next occurrence only
+   */
+  once<K extends AuthEventName>(event: K, listener: AuthEventListener<K>): () => void;
+  once(event: "*", listener: AuthWildcardListener): () => void;
+  once(event: AuthEventSubscription, listener: AnyListener): () => void {
+    const wrapped: StoredListener = (payload) => {
+      this.unregister(event, listener);
+      return (listener as StoredListener)(payload);
     };
+    return this.register(event, listener, wrapped);
+  }
+
+  off<K extends AuthEventName>(event: K, listener: AuthEventListener<K>): void;
+  off(event: "*", listener: AuthWildcardListener): void;
+  off(event: AuthEventSubscription, listener: AnyListener): void {
+    this.unregister(event, listener);
+  }
+
+  /**
+   * Notify listeners of event, then "*" listeners.
+   * Resolves once async listeners have settled; callers usually don't wait.
+   */
+  async emit<K extends AuthEventName>(event: K, data: AuthEventMap[K]): Promise<void> {
+    const payload = { ...data, type: event, timestamp: Date.now() } as AuthEventPayload<K>;
+
+    DeviceEventEmitter.emit(event, payload);
+
+    // Copy arrays before iterating so listeners can unsubscribe while notified
+    const targets = [
+      ...(this.listeners.get(event) ?? []),
+      ...(this.listeners.get(WILDCARD) ?? []),
+    ];
+
+    const pending: Promise<void>[] = [];
+    for (const listener of targets) {
+      try {
+        const result = listener(payload as AuthEvent);
+        if (result instanceof Promise) {
+          pending.push(result.catch((error: unknown) => this.reportListenerError(event, error)));
+        }
+      } catch (error) {
+        this.reportListenerError(event, error);
+      }
+    }
+
+    await Promise.all(pending);
+  }
 
-    DeviceEventEmitter.emit("user-authenticated", payload);
-    this.notifyListeners("user-authenticated", payload);
+  emitUserAuthenticated(userId: string): void {
+    void this.emit("user-authenticated", { userId, method: "credential", provider: "unknown", isNewUser: false });
   }
 
   emitAnonymousModeEnabled(): void {
-    const payload: AuthEventPayload = {
-      timestamp: Date.now(),
-    };
+    void this.emit("anonymous-mode-enabled", {});
+  }
 
-    DeviceEventEmitter.emit("anonymous-mode-enabled", payload);
-    this.notifyListeners("anonymous-mode-enabled", payload);
+  emitAuthError(error: unknown, operation: AuthOperation, durationMs?: number): void {
+    const code = (error as { code?: unknown } | null)?.code;
+    void this.emit("auth-error", {
+      operation,
+      error: error instanceof Error ? error.message : String(error),
+      code: typeof code === "string" ? code : undefined,
+      durationMs,
+    });
   }
 
-  emitAuthError(error: string): void {
-    const payload: AuthEventPayload = {
-      error,
-      timestamp: Date.now(),
-    };
+  /**
+   * @deprecated Use on(event, listener)
+   */
+  addEventListener<K extends AuthEventName>(event: K, listener: AuthEventListener<K>): () => void {
+    return this.on(event, listener);
+  }
 
-    DeviceEventEmitter.emit("auth-error", payload);
-    this.notifyListeners("auth-error", payload);
+  removeAllListeners(event?: AuthEventSubscription): void {
+    if (event) {
+      this.listeners.delete(event);
+      this.registrations.delete(event);
+    } else {
+      this.listeners.clear();
+      this.registrations.clear();
+    }
   }
 
-  addEventListener(event: string, listener: AuthEventListener): () => void {
+  listenerCount(event?: AuthEventSubscription): number {
+    if (event) {
+      return this.listeners.get(event)?.length ?? 0;
+    }
+    let count = 0;
+    this.listeners.forEach((eventListeners) => {
+      count += eventListeners.length;
+    });
+    return count;
+  }
+
+  private register(event: AuthEventSubscription, key: unknown, stored: StoredListener): () => void {
+    // Subscribing the same handler twice keeps one registration
+    this.unregister(event, key);
+
     let eventListeners = this.listeners.get(event);
     if (!eventListeners) {
       eventListeners = [];
       this.listeners.set(event, eventListeners);
     }
+    eventListeners.push(stored);
 
-    eventListeners.push(listener);
-
-    // Return cleanup function
-    return () => {
-      // Re-fetch eventListeners to ensure we have the current array
-      const currentListeners = this.listeners.get(event);
-      if (!currentListeners) return;
+    let registrations = this.registrations.get(event);
+    if (!registrations) {
+      registrations = new Map();
+      this.registrations.set(event, registrations);
+    }
+    registrations.set(key, stored);
 
-      const index = currentListeners.indexOf(listener);
-      if (index > -1) {
-        currentListeners.splice(index, 1);
-        // Clean up empty arrays to prevent memory leaks
-        if (currentListeners.length === 0) {
-          this.listeners.delete(event);
-        }
-      }
-    };
+    return () => this.unregister(event, key);
   }
 
-  removeAllListeners(event?: string): void {
-    if (event) {
+  private unregister(event: AuthEventSubscription, key: unknown): void {
+    const registrations = this.registrations.get(event);
+    const stored = registrations?.get(key);
+    if (!registrations || !stored) return;
+
+    registrations.delete(key);
+    const eventListeners = this.listeners.get(event) ?? [];
+    const index = eventListeners.indexOf(stored);
+    if (index > -1) {
+      eventListeners.splice(index, 1);
+    }
+    // Clean up empty arrays to prevent memory leaks
+    if (eventListeners.length === 0) {
       this.listeners.delete(event);
-    } else {
-      this.listeners.clear();
+      this.registrations.delete(event);
     }
   }
 
-  private notifyListeners(event: string, payload: AuthEventPayload): void {
-    const eventListeners = this.listeners.get(event);
-    if (eventListeners) {
-      // Copy array before iterating to prevent issues if a listener
-      // removes itself or other listeners during notification
-      const snapshot = [...eventListeners];
-      for (const listener of snapshot) {
-        try {
-          listener(payload);
-        } catch (error) {
-          if (__DEV__) {
-            console.error(`[AuthEventService] Listener error for "${event}":`, error);
-          }
-        }
-      }
+  private reportListenerError(event: string, error: unknown): void {
+    if (__DEV__) {
+      console.error(`[AuthEventService] Listener error for "${event}":`, error);
     }
   }
 }
@@ -115,4 +194,3 @@ export const authEventService = AuthEventService.getInstance();
 export function emitAnonymousModeEnabled(): void {
   authEventService.emitAnonymousModeEnabled();
 }
-
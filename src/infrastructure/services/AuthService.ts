@@ -3,29 +3,107 @@
  * Orchestrates authentication operations
  */
 
-import type { AuthUser } from "../../domain/entities/AuthUser";
-import type { AuthConfig } from "../../domain/value-objects/AuthConfig";
+import type { AuthUser, AuthProviderType } from "../../domain/entities/AuthUser";
+import type { LinkCredential, LinkableProviderType, CredentialConflict } from "../../domain/entities/AccountLink";
+import type { UpdateProfileParams } from "../../domain/entities/UserProfile";
+import type { OAuthCredential } from "../../domain/entities/OidcAuth";
+import type {
+  MultiFactorChallenge,
+  MultiFactorInfo,
+  TotpEnrollment,
+} from "../../domain/entities/MultiFactor";
+import type { AuthConfig, OidcProviderConfig } from "../../domain/value-objects/AuthConfig";
 import { sanitizeAuthConfig } from "../../domain/value-objects/AuthConfig";
-import { AuthRepository, type SignUpCredentials, type AuthCredentials } from "../repositories/AuthRepository";
+import type {
+  IAuthRepository,
+  AuthRepositoryFactory,
+  AuthStateChangeCallback,
+} from "../../application/ports/IAuthRepository";
+import {
+  AuthRepository,
+  type SignUpCredentials,
+  type AuthCredentials,
+  type PhoneAuthVerifier,
+  type PhoneVerificationSession,
+} from "../repositories/AuthRepository";
 import { AnonymousModeService } from "./AnonymousModeService";
+import { EmailLinkService } from "./EmailLinkService";
+import { OidcAuthService } from "./OidcAuthService";
 import { authEventService } from "./AuthEventService";
 import type { IStorageProvider } from "../types/Storage.types";
+import type { ReauthenticationHandlers } from "../types/Reauthentication.types";
+import type { AuthOperation } from "../types/AuthEvents.types";
+import type {
+  AuthMiddleware,
+  AuthSignInContext,
+  AuthSignUpContext,
+  AuthSignOutContext,
+  AuthSignedUpContext,
+} from "../types/AuthMiddleware.types";
+import { safeCallback } from "../utils/safeCallback";
+import {
+  AuthError,
+  MultiFactorRequiredError,
+  AuthCredentialAlreadyInUseError,
+} from "../../domain/errors/AuthError";
+import { sanitizeEmail } from "../utils/validation/sanitization";
+
+/** Firebase only allows sensitive operations within 5 minutes of a sign-in */
+export const RECENT_LOGIN_MAX_AGE_MS = 5 * 60 * 1000;
+
+const createFirebaseRepository: AuthRepositoryFactory = (config) => new AuthRepository(config);
+
+/**
+ * Last time a user proved who they are, by signing in or reauthenticating
+ */
+interface RecentLogin {
+  userId: string;
+  at: number;
+}
+
+/**
+ * Session before a sign-in started, used by middleware and to report conversions and durations
+ */
+interface SignInAttempt {
+  previousUser: AuthUser | null;
+  startedAt: number;
+  context: AuthSignInContext | AuthSignUpContext;
+  /** Registrations run the sign-up middleware and report "user-signed-up" */
+  isNewUser: boolean;
+}
+
+type MiddlewareHook = keyof AuthMiddleware;
+type MiddlewareContext<K extends MiddlewareHook> = Parameters<NonNullable<AuthMiddleware[K]>>[0];
 
 export class AuthService {
-  private repository!: AuthRepository;
+  private repository!: IAuthRepository;
+  private repositoryFactory: AuthRepositoryFactory;
   private anonymousModeService: AnonymousModeService;
+  private emailLinkService: EmailLinkService;
+  private oidcAuthService: OidcAuthService;
   private storageProvider?: IStorageProvider;
+  private pendingMultiFactorChallenge: MultiFactorChallenge | null = null;
+  private recentLogin: RecentLogin | null = null;
+  private middleware: AuthMiddleware[] = [];
+  private sessionTracking: (() => void) | null = null;
   private initialized: boolean = false;
   private initializationPromise: Promise<void> | null = null;
   private config: AuthConfig;
 
-  constructor(config: Partial<AuthConfig> = {}, storageProvider?: IStorageProvider) {
+  constructor(
+    config: Partial<AuthConfig> = {},
+    storageProvider?: IStorageProvider,
+    repositoryFactory: AuthRepositoryFactory = createFirebaseRepository,
+  ) {
     this.config = sanitizeAuthConfig(config);
+    this.repositoryFactory = repositoryFactory;
     this.anonymousModeService = new AnonymousModeService();
+    this.emailLinkService = new EmailLinkService();
+    this.oidcAuthService = new OidcAuthService();
     this.storageProvider = storageProvider;
   }
 
-  private get repositoryInstance(): AuthRepository {
+  private get repositoryInstance(): IAuthRepository {
     if (!this.initialized) {
       // Only auto-initialize in development for better DX
       if (__DEV__) {
@@ -36,7 +114,7 @@ export class AuthService {
         });
         // Create repository immediately for synchronous operations
         if (!this.repository) {
-          this.repository = new AuthRepository(this.config);
+          this.repository = this.repositoryFactory(this.config);
           this.initialized = true;
         }
       } else {
@@ -57,7 +135,8 @@ export class AuthService {
 
     // Store reference to current promise to prevent race condition
     const initPromise = (async () => {
-      this.repository = new AuthRepository(this.config);
+      this.repository = this.repositoryFactory(this.config);
+      this.startSessionTracking();
 
       if (this.storageProvider) {
         await this.anonymousModeService.load(this.storageProvider);
@@ -81,23 +160,559 @@ export class AuthService {
     return this.initialized;
   }
 
+  /**
+   * Add middleware around sign-in, sign-up and sign-out; runs after earlier middleware
+   * @returns function that removes the middleware
+   */
+  use(middleware: AuthMiddleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter((registered) => registered !== middleware);
+    };
+  }
+
   async signUp(params: SignUpCredentials): Promise<AuthUser> {
-    const user = await this.repositoryInstance.signUp(params);
-    await this.clearAnonymousModeIfNeeded();
-    authEventService.emitUserAuthenticated(user.uid);
-    return user;
+    const attempt = this.startSignIn(
+      { method: "password", provider: "password", email: sanitizeEmail(params.email) },
+      { displayName: params.displayName ?? null }
+    );
+    const user = await this.run("signUp", async () => {
+      await this.runBeforeMiddleware(attempt);
+      return this.repositoryInstance.signUp(params);
+    });
+    return this.completeSignIn(user, attempt);
   }
 
+  /**
+   * Throws MultiFactorRequiredError when the account has a second factor;
+   * the challenge is kept so resolveMultiFactorSignIn can complete it
+   */
   async signIn(params: AuthCredentials): Promise<AuthUser> {
-    const user = await this.repositoryInstance.signIn(params);
-    await this.clearAnonymousModeIfNeeded();
-    authEventService.emitUserAuthenticated(user.uid);
+    const attempt = this.startSignIn({ method: "password", provider: "password", email: sanitizeEmail(params.email) });
+    const user = await this.runSignIn("signIn", async () => {
+      await this.runBeforeMiddleware(attempt);
+      return this.repositoryInstance.signIn(params);
+    });
+    return this.completeSignIn(user, attempt);
+  }
+
+  getOidcProviders(): OidcProviderConfig[] {
+    return this.config.social?.oidc ?? [];
+  }
+
+  /**
+   * Signs in with a configured OAuth 2.0 / OIDC provider: opens the provider
+   * in the browser (PKCE, state and nonce checked) and hands its tokens to the backend
+   */
+  async signInWithOidc(providerKey: string): Promise<AuthUser> {
+    const provider = this.getOidcProviders().find((candidate) => candidate.id === providerKey);
+    const attempt = this.startSignIn({ method: "oauth", provider: provider?.providerId ?? null, email: null });
+    const result = await this.run("signInWithOidc", async () => {
+      if (!provider) {
+        throw new AuthError(`OIDC provider "${providerKey}" is not configured`, "AUTH_OIDC_PROVIDER_NOT_FOUND");
+      }
+      // Before the browser opens, so a veto doesn't make the user sign in at the provider
+      await this.runBeforeMiddleware(attempt);
+      return this.oidcAuthService.authorize(provider);
+    });
+    return this.signInWithOAuthCredential({
+      providerId: result.providerId,
+      idToken: result.tokens.idToken ?? undefined,
+      accessToken: result.tokens.accessToken,
+      rawNonce: result.tokens.idToken ? result.rawNonce : undefined,
+    }, attempt);
+  }
+
+  /**
+   * Signs in with tokens from an OAuth flow the app ran itself
+   */
+  async signInWithOAuth(credential: OAuthCredential): Promise<AuthUser> {
+    const attempt = this.startSignIn({ method: "oauth", provider: credential.providerId, email: null });
+    await this.run("signInWithOAuth", () => this.runBeforeMiddleware(attempt));
+    return this.signInWithOAuthCredential(credential, attempt);
+  }
+
+  private async signInWithOAuthCredential(credential: OAuthCredential, attempt: SignInAttempt): Promise<AuthUser> {
+    const user = await this.runSignIn("signInWithOAuth", () => this.repositoryInstance.signInWithOAuth(credential));
+    return this.completeSignIn(user, attempt);
+  }
+
+  /**
+   * Step 1 of phone sign-in: sends the SMS code
+   */
+  async signInWithPhone(phoneNumber: string, verifier: PhoneAuthVerifier): Promise<PhoneVerificationSession> {
+    return this.run("signInWithPhone", () => this.repositoryInstance.signInWithPhone(phoneNumber, verifier));
+  }
+
+  /**
+   * Step 2 of phone sign-in: confirms the SMS code and signs in
+   */
+  async confirmOtp(verificationId: string, code: string): Promise<AuthUser> {
+    const attempt = this.startSignIn({ method: "phone", provider: "phone", email: null });
+    const user = await this.run("confirmOtp", async () => {
+      await this.runBeforeMiddleware(attempt);
+      return this.repositoryInstance.confirmOtp(verificationId, code);
+    });
+    return this.completeSignIn(user, attempt);
+  }
+
+  /**
+   * Step 1 of email link sign-in: emails the link and remembers the address
+   */
+  async sendSignInLink(email: string): Promise<void> {
+    const sanitizedEmail = sanitizeEmail(email);
+    await this.run("sendSignInLink", () => this.repositoryInstance.sendSignInLink(sanitizedEmail));
+    await this.emailLinkService.savePendingEmail(sanitizedEmail, this.storageProvider);
+  }
+
+  isSignInLink(url: string): boolean {
+    return this.repositoryInstance.isSignInLink(url);
+  }
+
+  /**
+   * Step 2 of email link sign-in: completes sign-in from an incoming deep link.
+   * Returns null when the url is not a sign-in link. The email is only needed
+   * when the link is opened on a different device than it was requested from.
+   */
+  async completeSignInFromLink(url: string, email?: string): Promise<AuthUser | null> {
+    if (!this.repositoryInstance.isSignInLink(url)) return null;
+
+    const pendingEmail = email ?? await this.emailLinkService.getPendingEmail(this.storageProvider);
+    const attempt = this.startSignIn({ method: "emailLink", provider: null, email: pendingEmail });
+    const user = await this.run("completeSignInFromLink", async () => {
+      if (!pendingEmail) {
+        throw new AuthError("Confirm the email address the link was sent to", "AUTH_LINK_EMAIL_REQUIRED");
+      }
+      await this.runBeforeMiddleware(attempt);
+      return this.repositoryInstance.signInWithEmailLink(pendingEmail, url);
+    });
+    await this.emailLinkService.clear(this.storageProvider);
+    return this.completeSignIn(user, attempt);
+  }
+
+  async getPendingSignInEmail(): Promise<string | null> {
+    return this.emailLinkService.getPendingEmail(this.storageProvider);
+  }
+
+  getPendingMultiFactorChallenge(): MultiFactorChallenge | null {
+    return this.pendingMultiFactorChallenge;
+  }
+
+  /**
+   * Completes a sign-in that threw MultiFactorRequiredError with the TOTP code.
+   * beforeSignIn already ran for the first factor, only afterSignIn runs here.
+   */
+  async resolveMultiFactorSignIn(code: string, challenge?: MultiFactorChallenge, factorUid?: string): Promise<AuthUser> {
+    const attempt = this.startSignIn({ method: "multiFactor", provider: null, email: null });
+    const user = await this.run("resolveMultiFactorSignIn", () => {
+      const pendingChallenge = challenge ?? this.pendingMultiFactorChallenge;
+      if (!pendingChallenge) {
+        throw new AuthError("No pending two-factor sign-in", "AUTH_MFA_NO_CHALLENGE");
+      }
+      return this.repositoryInstance.resolveMultiFactorSignIn(pendingChallenge, code, factorUid);
+    });
+    this.pendingMultiFactorChallenge = null;
+    return this.completeSignIn(user, attempt);
+  }
+
+  /**
+   * Step 1 of TOTP enrollment: creates the secret and otpauth URI (QR payload)
+   */
+  async startTotpEnrollment(params?: { accountName?: string; issuer?: string }): Promise<TotpEnrollment> {
+    return this.run("startTotpEnrollment", () => this.repositoryInstance.startTotpEnrollment(params));
+  }
+
+  /**
+   * Step 2 of TOTP enrollment: verifies the first code and enrolls the factor
+   */
+  async completeTotpEnrollment(enrollment: TotpEnrollment, code: string, displayName?: string): Promise<MultiFactorInfo[]> {
+    const before = new Set(this.getEnrolledFactors().map((factor) => factor.uid));
+    const factors = await this.run("completeTotpEnrollment", () =>
+      this.repositoryInstance.completeTotpEnrollment(enrollment, code, displayName)
+    );
+    void authEventService.emit("mfa-enrolled", {
+      userId: this.getCurrentUser()?.uid ?? null,
+      factorUid: factors.find((factor) => !before.has(factor.uid))?.uid ?? null,
+    });
+    return factors;
+  }
+
+  getEnrolledFactors(): MultiFactorInfo[] {
+    if (!this.initialized) return [];
+    return this.repositoryInstance.getEnrolledFactors();
+  }
+
+  async unenrollFactor(factorUid: string): Promise<MultiFactorInfo[]> {
+    const factors = await this.run("unenrollFactor", () => this.repositoryInstance.unenrollFactor(factorUid));
+    void authEventService.emit("mfa-unenrolled", { userId: this.getCurrentUser()?.uid ?? null, factorUid });
+    return factors;
+  }
+
+  /**
+   * Attaches a Google, Apple or password credential to the signed-in user.
+   * Throws AuthCredentialAlreadyInUseError when another account owns it.
+   */
+  async linkProvider(credential: LinkCredential): Promise<AuthUser> {
+    const user = await this.run("linkProvider", () => this.repositoryInstance.linkProvider(credential));
+    void authEventService.emit("provider-linked", { userId: user.uid, provider: credential.provider });
+    return user;
+  }
+
+  async unlinkProvider(provider: LinkableProviderType): Promise<AuthUser> {
+    const user = await this.run("unlinkProvider", () => this.repositoryInstance.unlinkProvider(provider));
+    void authEventService.emit("provider-unlinked", { userId: user.uid, provider });
+    return user;
+  }
+
+  getLinkedProviders(): AuthProviderType[] {
+    if (!this.initialized) return [];
+    return this.repositoryInstance.getLinkedProviders();
+  }
+
+  /**
+   * Makes the current anonymous user permanent with an email/password or
+   * social credential, keeping the UID so no data has to be migrated.
+   * A social credential that already has its own account can't be linked;
+   * that account is signed in instead and onUserConverted reports the switch.
+   * Runs the sign-up middleware, or afterSignIn when it switched accounts.
+   */
+  async upgradeAnonymousAccount(credential: LinkCredential, options: { displayName?: string } = {}): Promise<AuthUser> {
+    const attempt = this.startSignIn(
+      {
+        method: "credential",
+        provider: credential.provider,
+        email: credential.provider === "password" ? sanitizeEmail(credential.email) : null,
+      },
+      { displayName: options.displayName ?? null }
+    );
+    const user = await this.run("upgradeAnonymousAccount", async () => {
+      await this.runBeforeMiddleware(attempt);
+      try {
+        return await this.repositoryInstance.upgradeAnonymousAccount(credential, options.displayName);
+      } catch (error) {
+        if (!(error instanceof AuthCredentialAlreadyInUseError) || credential.provider === "password") {
+          throw error;
+        }
+        return this.repositoryInstance.resolveCredentialConflict(error.conflict);
+      }
+    });
+    const switchedAccount = !!attempt.previousUser && attempt.previousUser.uid !== user.uid;
+    return this.completeSignIn(user, switchedAccount ? { ...attempt, isNewUser: false } : attempt);
+  }
+
+  /**
+   * Switches to the account that owns a conflicting credential.
+   * The current session ends, so any data to merge must be read beforehand.
+   */
+  async resolveCredentialConflict(conflict: CredentialConflict): Promise<AuthUser> {
+    const attempt = this.startSignIn({ method: "credential", provider: conflict.provider, email: conflict.email });
+    const user = await this.run("resolveCredentialConflict", async () => {
+      await this.runBeforeMiddleware(attempt);
+      return this.repositoryInstance.resolveCredentialConflict(conflict);
+    });
+    return this.completeSignIn(user, attempt);
+  }
+
+  /**
+   * Backend anonymous session, used by the auth listener's auto sign-in
+   */
+  async signInAnonymously(): Promise<AuthUser> {
+    const attempt = this.startSignIn({ method: "anonymous", provider: "anonymous", email: null });
+    const user = await this.run("signInAnonymously", async () => {
+      await this.runBeforeMiddleware(attempt);
+      return this.repositoryInstance.signInAnonymously();
+    });
+    void authEventService.emit("user-authenticated", {
+      userId: user.uid,
+      method: "anonymous",
+      provider: "anonymous",
+      isNewUser: false,
+      durationMs: Date.now() - attempt.startedAt,
+    });
+    await this.runAfterMiddleware("afterSignIn", { ...attempt.context, user });
     return user;
   }
 
   async signOut(): Promise<void> {
-    await this.repositoryInstance.signOut();
+    this.pendingMultiFactorChallenge = null;
+    this.recentLogin = null;
+    const currentUser = this.getCurrentUser();
+    const context: AuthSignOutContext = {
+      userId: currentUser?.uid ?? null,
+      isAnonymous: currentUser?.isAnonymous ?? false,
+    };
+    await this.run("signOut", async () => {
+      await this.runMiddleware("beforeSignOut", context);
+      await this.repositoryInstance.signOut();
+    });
     await this.clearAnonymousModeIfNeeded();
+    // The session tracker reports sign-outs; without it report this one here
+    if (!this.sessionTracking) {
+      void authEventService.emit("user-signed-out", { userId: context.userId });
+    }
+    await this.runAfterMiddleware("afterSignOut", context);
+  }
+
+  async sendPasswordResetEmail(email: string): Promise<void> {
+    await this.run("sendPasswordResetEmail", () => this.repositoryInstance.sendPasswordResetEmail(email));
+    void authEventService.emit("password-reset-requested", { email: sanitizeEmail(email) });
+  }
+
+  async sendEmailVerification(): Promise<void> {
+    await this.run("sendEmailVerification", () => this.repositoryInstance.sendEmailVerification());
+    void authEventService.emit("email-verification-sent", { userId: this.getCurrentUser()?.uid ?? null });
+  }
+
+  /**
+   * Fetch the latest user state from the provider (e.g. emailVerified)
+   */
+  async reloadUser(): Promise<AuthUser | null> {
+    return this.repositoryInstance.reloadUser();
+  }
+
+  /**
+   * Checking the current password is the reauthentication, so it is asked for
+   * even after a recent login
+   */
+  async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+    await this.reauthenticate({ password: () => Promise.resolve(currentPassword) });
+    await this.run("changePassword", () => this.repositoryInstance.changePassword(currentPassword, newPassword));
+    void authEventService.emit("password-changed", { userId: this.getCurrentUser()?.uid ?? null });
+  }
+
+  /**
+   * Reauthenticates with the account's own sign-in method unless the user
+   * signed in within the last 5 minutes, so Google and Apple accounts can change it too
+   */
+  async changeEmail(newEmail: string, handlers: ReauthenticationHandlers): Promise<void> {
+    await this.requireRecentLogin(RECENT_LOGIN_MAX_AGE_MS, handlers);
+    await this.run("changeEmail", () => this.repositoryInstance.changeEmail(newEmail));
+    void authEventService.emit("email-change-requested", {
+      userId: this.getCurrentUser()?.uid ?? null,
+      newEmail: sanitizeEmail(newEmail),
+    });
+  }
+
+  /**
+   * Asks the user to confirm who they are with the account's own sign-in method:
+   * the password when it has one, otherwise Google or Apple.
+   * Throws AUTH_REAUTH_CANCELLED when the user dismisses the prompt and
+   * AUTH_REAUTH_UNAVAILABLE when no handler fits the account.
+   */
+  async reauthenticate(handlers: ReauthenticationHandlers): Promise<void> {
+    const { user, provider } = await this.run("reauthenticate", async () => {
+      const currentUser = this.getCurrentUser();
+      if (!currentUser || currentUser.isAnonymous) {
+        throw new AuthError("No signed-in user", "AUTH_NO_USER");
+      }
+      const credential = await this.requestReauthCredential(currentUser, handlers);
+      await this.repositoryInstance.reauthenticate(credential);
+      return { user: currentUser, provider: credential.provider };
+    });
+    this.recordRecentLogin(user);
+    void authEventService.emit("user-reauthenticated", { userId: user.uid, provider });
+  }
+
+  /**
+   * Guard for sensitive operations: reauthenticates unless the current user
+   * signed in or reauthenticated within maxAgeMs
+   */
+  async requireRecentLogin(maxAgeMs: number, handlers: ReauthenticationHandlers): Promise<void> {
+    if (this.hasRecentLogin(maxAgeMs)) return;
+    await this.reauthenticate(handlers);
+  }
+
+  hasRecentLogin(maxAgeMs: number): boolean {
+    const lastLoginAt = this.getLastReauthenticatedAt();
+    return lastLoginAt !== null && Date.now() - lastLoginAt <= maxAgeMs;
+  }
+
+  /**
+   * When the current user last signed in or reauthenticated through this service;
+   * null after a restart, so the first sensitive operation asks again
+   */
+  getLastReauthenticatedAt(): number | null {
+    const user = this.getCurrentUser();
+    if (!user || this.recentLogin?.userId !== user.uid) return null;
+    return this.recentLogin.at;
+  }
+
+  /**
+   * Password first, then Google and Apple, among the linked methods the app has a handler for
+   */
+  private async requestReauthCredential(user: AuthUser, handlers: ReauthenticationHandlers): Promise<LinkCredential> {
+    const cancelled = () => new AuthError("Reauthentication was cancelled", "AUTH_REAUTH_CANCELLED");
+
+    if (user.providers.includes("password") && user.email && handlers.password) {
+      const password = await handlers.password();
+      if (password === null) throw cancelled();
+      return { provider: "password", email: user.email, password };
+    }
+    if (user.providers.includes("google.com") && handlers.google) {
+      const tokens = await handlers.google();
+      if (!tokens) throw cancelled();
+      return { provider: "google.com", ...tokens };
+    }
+    if (user.providers.includes("apple.com") && handlers.apple) {
+      const tokens = await handlers.apple();
+      if (!tokens) throw cancelled();
+      return { provider: "apple.com", ...tokens };
+    }
+    throw new AuthError("No reauthentication method for this account", "AUTH_REAUTH_UNAVAILABLE");
+  }
+
+  private recordRecentLogin(user: AuthUser | null): void {
+    if (!user || user.isAnonymous) return;
+    this.recentLogin = { userId: user.uid, at: Date.now() };
+  }
+
+  async updateProfile(params: UpdateProfileParams): Promise<AuthUser> {
+    const user = await this.run("updateProfile", () => this.repositoryInstance.updateProfile(params));
+    const fields = (Object.keys(params) as (keyof UpdateProfileParams)[])
+      .filter((field) => params[field] !== undefined);
+    void authEventService.emit("profile-updated", { userId: user.uid, fields });
+    return user;
+  }
+
+  /**
+   * Runs an operation and reports its failure as an "auth-error" event
+   */
+  private async run<T>(operation: AuthOperation, action: () => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      return await action();
+    } catch (error) {
+      // A second factor is a step of the sign-in, not a failure
+      if (!(error instanceof MultiFactorRequiredError)) {
+        authEventService.emitAuthError(error, operation, Date.now() - startedAt);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Keeps the challenge of a sign-in that needs a second factor
+   */
+  private async runSignIn(operation: AuthOperation, action: () => Promise<AuthUser>): Promise<AuthUser> {
+    this.pendingMultiFactorChallenge = null;
+    return this.run(operation, async () => {
+      try {
+        return await action();
+      } catch (error) {
+        if (error instanceof MultiFactorRequiredError) {
+          this.pendingMultiFactorChallenge = error.challenge;
+        }
+        throw error;
+      }
+    });
+  }
+
+  private startSignIn(
+    context: Omit<AuthSignInContext, "anonymousUserId">,
+    signUp?: Omit<AuthSignUpContext, keyof AuthSignInContext>
+  ): SignInAttempt {
+    const previousUser = this.getCurrentUser();
+    const anonymousUserId = previousUser?.isAnonymous ? previousUser.uid : null;
+    return {
+      previousUser,
+      startedAt: Date.now(),
+      context: { ...context, anonymousUserId, ...signUp },
+      isNewUser: !!signUp,
+    };
+  }
+
+  /**
+   * Runs beforeSignUp or beforeSignIn; a throwing middleware cancels the attempt
+   */
+  private async runBeforeMiddleware(attempt: SignInAttempt): Promise<void> {
+    if (attempt.isNewUser) {
+      await this.runMiddleware("beforeSignUp", attempt.context as AuthSignUpContext);
+    } else {
+      await this.runMiddleware("beforeSignIn", attempt.context);
+    }
+  }
+
+  private async runMiddleware<K extends MiddlewareHook>(hook: K, context: MiddlewareContext<K>): Promise<void> {
+    // Copy so middleware can remove itself while running
+    for (const middleware of [...this.middleware]) {
+      const handler = middleware[hook] as ((context: MiddlewareContext<K>) => void | Promise<void>) | undefined;
+      if (handler) {
+        await handler(context);
+      }
+    }
+  }
+
+  /**
+   * The operation already happened, so failures are only logged
+   */
+  private async runAfterMiddleware<K extends MiddlewareHook>(hook: K, context: MiddlewareContext<K>): Promise<void> {
+    for (const middleware of [...this.middleware]) {
+      const handler = middleware[hook] as ((context: MiddlewareContext<K>) => void | Promise<void>) | undefined;
+      await safeCallback(handler, [context], `[AuthService] ${hook}`);
+    }
+  }
+
+  private async completeSignIn(user: AuthUser, attempt: SignInAttempt): Promise<AuthUser> {
+    const { previousUser, isNewUser } = attempt;
+    const { method } = attempt.context;
+    const provider = attempt.context.provider ?? user.provider;
+    const durationMs = Date.now() - attempt.startedAt;
+
+    await this.clearAnonymousModeIfNeeded();
+    this.recordRecentLogin(user);
+    if (isNewUser) {
+      void authEventService.emit("user-signed-up", { userId: user.uid, method, provider, durationMs });
+    }
+    if (previousUser?.isAnonymous && !user.isAnonymous) {
+      void authEventService.emit("user-converted", {
+        anonymousUserId: previousUser.uid,
+        userId: user.uid,
+        sameUid: previousUser.uid === user.uid,
+      });
+    }
+    void authEventService.emit("user-authenticated", { userId: user.uid, method, provider, isNewUser, durationMs });
+
+    const signedInContext = { ...attempt.context, provider, user };
+    if (isNewUser) {
+      await this.runAfterMiddleware("afterSignUp", signedInContext as AuthSignedUpContext);
+    } else {
+      await this.runAfterMiddleware("afterSignIn", signedInContext);
+    }
+    return user;
+  }
+
+  /**
+   * Reports sign-outs and token refreshes that happen outside AuthService calls
+   * (session expiry, another tab, scheduled refresh)
+   */
+  private startSessionTracking(): void {
+    let sessionUser: AuthUser | null | undefined;
+    try {
+      this.sessionTracking = this.repository.onAuthStateChange((user) => {
+        const previous = sessionUser;
+        sessionUser = user;
+        // The first callback only reports the restored session
+        if (previous === undefined) return;
+
+        if (!user && previous) {
+          void authEventService.emit("user-signed-out", { userId: previous.uid });
+        } else if (user && previous && user.uid === previous.uid && user.isAnonymous === previous.isAnonymous) {
+          void authEventService.emit("token-refreshed", { userId: user.uid });
+        }
+      });
+    } catch (error) {
+      if (__DEV__) {
+        console.warn('[AuthService] Session events unavailable:', error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  /**
+   * Stops session tracking; the service can't be used afterwards
+   */
+  dispose(): void {
+    this.sessionTracking?.();
+    this.sessionTracking = null;
   }
 
   private async clearAnonymousModeIfNeeded(): Promise<void> {
@@ -128,7 +743,7 @@ export class AuthService {
     return this.anonymousModeService.getIsAnonymousMode();
   }
 
-  onAuthStateChange(callback: (user: AuthUser | null) => void): () => void {
+  onAuthStateChange(callback: AuthStateChangeCallback): () => void {
     return this.repositoryInstance.onAuthStateChange(callback);
   }
 
@@ -140,10 +755,11 @@ let authServiceInstance: AuthService | null = null;
 
 export async function initializeAuthService(
   config?: Partial<AuthConfig>,
-  storageProvider?: IStorageProvider
+  storageProvider?: IStorageProvider,
+  repositoryFactory?: AuthRepositoryFactory
 ): Promise<AuthService> {
   if (!authServiceInstance) {
-    authServiceInstance = new AuthService(config, storageProvider);
+    authServiceInstance = new AuthService(config, storageProvider, repositoryFactory);
   }
   await authServiceInstance.initialize();
   return authServiceInstance;
@@ -173,5 +789,6 @@ export function getAuthService(): AuthService | null {
 }
 
 export function resetAuthService(): void {
+  authServiceInstance?.dispose();
   authServiceInstance = null;
 }
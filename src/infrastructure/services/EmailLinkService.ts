@@ -0,0 +1,55 @@
+/**
+ * Email Link Service
+ * Remembers the email a sign-in link was sent to until the link is opened
+ */
+
+import type { IStorageProvider } from "../types/Storage.types";
+
+export class EmailLinkService {
+  private pendingEmail: string | null = null;
+  private storageKey: string;
+
+  constructor(storageKey: string = "@auth_email_link_pending_email") {
+    this.storageKey = storageKey;
+  }
+
+  async savePendingEmail(email: string, storageProvider?: IStorageProvider): Promise<void> {
+    // Memory first so the same session still works when storage fails
+    this.pendingEmail = email;
+    if (!storageProvider) return;
+
+    try {
+      await storageProvider.set(this.storageKey, email);
+    } catch (error) {
+      if (__DEV__) {
+        console.error('[EmailLinkService] Failed to save pending email:', error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  async getPendingEmail(storageProvider?: IStorageProvider): Promise<string | null> {
+    if (this.pendingEmail || !storageProvider) return this.pendingEmail;
+
+    try {
+      this.pendingEmail = await storageProvider.get(this.storageKey);
+    } catch (error) {
+      if (__DEV__) {
+        console.error('[EmailLinkService] Failed to load pending email:', error instanceof Error ? error.message : String(error));
+      }
+    }
+    return this.pendingEmail;
+  }
+
+  async clear(storageProvider?: IStorageProvider): Promise<void> {
+    this.pendingEmail = null;
+    if (!storageProvider) return;
+
+    try {
+      await storageProvider.remove(this.storageKey);
+    } catch (error) {
+      if (__DEV__) {
+        console.error('[EmailLinkService] Failed to clear pending email:', error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+}
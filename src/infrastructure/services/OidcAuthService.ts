@@ -0,0 +1,245 @@
+/**
+ * OIDC Auth Service
+ * Runs the OAuth 2.0 authorization code flow with PKCE against any OIDC provider:
+ * discovery, browser round trip, state/nonce checks, code exchange and claim parsing
+ */
+
+import { DEFAULT_OIDC_SCOPES, type OidcEndpoints, type OidcProviderConfig } from "../../domain/value-objects/AuthConfig";
+import type { OAuthProviderType } from "../../domain/entities/AuthUser";
+import type { OidcAuthorizationResult, OidcClaims, OidcTokens } from "../../domain/entities/OidcAuth";
+import { AuthError, AuthNetworkError } from "../../domain/errors/AuthError";
+import {
+  createPkcePair,
+  generateRandomToken,
+  parseIdToken,
+  toOidcClaims,
+  mapOidcClaimsToAuthUser,
+  type RandomBytesSource,
+} from "../utils/oidc";
+
+/**
+ * Opens the authorization url and resolves with the redirect url, or null when the user cancels
+ */
+export type OpenAuthSession = (authorizationUrl: string, redirectUri: string) => Promise<string | null>;
+
+export interface OidcAuthServiceOptions {
+  /** Defaults to the global fetch */
+  fetch?: typeof fetch;
+  /** Defaults to expo-web-browser's openAuthSessionAsync */
+  openAuthSession?: OpenAuthSession;
+  /** Defaults to crypto.getRandomValues */
+  randomBytes?: RandomBytesSource;
+}
+
+type ResolvedEndpoints = Required<Pick<OidcEndpoints, "authorization" | "token">> & Pick<OidcEndpoints, "userInfo">;
+
+const openWithWebBrowser: OpenAuthSession = async (authorizationUrl, redirectUri) => {
+  const WebBrowser = await import("expo-web-browser");
+  const result = await WebBrowser.openAuthSessionAsync(authorizationUrl, redirectUri);
+  return result.type === "success" ? result.url : null;
+};
+
+function providerError(message: string): AuthError {
+  return new AuthError(message, "AUTH_OIDC_PROVIDER_ERROR");
+}
+
+function invalidResponse(message: string): AuthError {
+  return new AuthError(message, "AUTH_OIDC_INVALID_RESPONSE");
+}
+
+function encodeParams(params: Record<string, string>): string {
+  return Object.entries(params)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join("&");
+}
+
+/**
+ * Query and fragment parameters of a redirect url
+ * (URLSearchParams is incomplete on older React Native versions)
+ */
+export function parseRedirectParams(url: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const [withoutFragment, fragment = ""] = url.split("#");
+  const query = withoutFragment.split("?")[1] ?? "";
+
+  for (const part of `${query}&${fragment}`.split("&")) {
+    if (!part) continue;
+    const [key, value = ""] = part.split("=");
+    params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, " "));
+  }
+  return params;
+}
+
+export class OidcAuthService {
+  private fetchImpl: typeof fetch;
+  private openAuthSession: OpenAuthSession;
+  private randomBytes?: RandomBytesSource;
+  private discoveryCache = new Map<string, Promise<ResolvedEndpoints>>();
+
+  constructor(options: OidcAuthServiceOptions = {}) {
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.openAuthSession = options.openAuthSession ?? openWithWebBrowser;
+    this.randomBytes = options.randomBytes;
+  }
+
+  /**
+   * Sign the user in at the provider and return its tokens and claims.
+   * Throws AUTH_OIDC_CANCELLED when the browser is closed.
+   */
+  async authorize(provider: OidcProviderConfig): Promise<OidcAuthorizationResult> {
+    const providerId: OAuthProviderType = provider.providerId ?? `oidc.${provider.id}`;
+    const endpoints = await this.getEndpoints(provider);
+
+    const { codeVerifier, codeChallenge } = createPkcePair(this.randomBytes);
+    const state = generateRandomToken(undefined, this.randomBytes);
+    const nonce = generateRandomToken(undefined, this.randomBytes);
+
+    const authorizationUrl = `${endpoints.authorization}?${encodeParams({
+      ...provider.additionalParameters,
+      response_type: "code",
+      client_id: provider.clientId,
+      redirect_uri: provider.redirectUri,
+      scope: (provider.scopes ?? DEFAULT_OIDC_SCOPES).join(" "),
+      state,
+      nonce,
+      code_challenge: codeChallenge,
+      code_challenge_method: "S256",
+    })}`;
+
+    const redirectUrl = await this.openAuthSession(authorizationUrl, provider.redirectUri);
+    if (!redirectUrl) {
+      throw new AuthError("Sign-in was cancelled", "AUTH_OIDC_CANCELLED");
+    }
+
+    const params = parseRedirectParams(redirectUrl);
+    // Checked before anything else so a forged redirect can't inject errors or codes
+    if (params.state !== state) {
+      throw invalidResponse("Authorization response state does not match the request");
+    }
+    if (params.error) {
+      throw params.error === "access_denied"
+        ? new AuthError(params.error_description || "Sign-in was cancelled", "AUTH_OIDC_CANCELLED")
+        : providerError(params.error_description || params.error);
+    }
+    if (!params.code) {
+      throw invalidResponse("Authorization response has no code");
+    }
+
+    const tokens = await this.exchangeCode(provider, endpoints, params.code, codeVerifier);
+    const claims = tokens.idToken
+      ? parseIdToken(tokens.idToken, { issuer: provider.issuer, clientId: provider.clientId, nonce })
+      : await this.fetchUserInfo(endpoints, tokens.accessToken);
+
+    return {
+      providerId,
+      tokens,
+      claims,
+      user: mapOidcClaimsToAuthUser(claims, providerId),
+      rawNonce: nonce,
+    };
+  }
+
+  private getEndpoints(provider: OidcProviderConfig): Promise<ResolvedEndpoints> {
+    const { authorization, token, userInfo } = provider.endpoints ?? {};
+    if (authorization && token) {
+      return Promise.resolve({ authorization, token, userInfo });
+    }
+
+    let discovery = this.discoveryCache.get(provider.issuer);
+    if (!discovery) {
+      discovery = this.discover(provider.issuer);
+      // Failed lookups are retried on the next sign-in
+      void discovery.catch(() => this.discoveryCache.delete(provider.issuer));
+      this.discoveryCache.set(provider.issuer, discovery);
+    }
+
+    return discovery.then((discovered) => ({
+      authorization: authorization ?? discovered.authorization,
+      token: token ?? discovered.token,
+      userInfo: userInfo ?? discovered.userInfo,
+    }));
+  }
+
+  private async discover(issuer: string): Promise<ResolvedEndpoints> {
+    const document = await this.requestJson(`${issuer}/.well-known/openid-configuration`, {
+      headers: { Accept: "application/json" },
+    });
+
+    if (typeof document.authorization_endpoint !== "string" || typeof document.token_endpoint !== "string") {
+      throw providerError("Provider discovery document is missing endpoints");
+    }
+    return {
+      authorization: document.authorization_endpoint,
+      token: document.token_endpoint,
+      userInfo: typeof document.userinfo_endpoint === "string" ? document.userinfo_endpoint : undefined,
+    };
+  }
+
+  private async exchangeCode(
+    provider: OidcProviderConfig,
+    endpoints: ResolvedEndpoints,
+    code: string,
+    codeVerifier: string
+  ): Promise<OidcTokens> {
+    const body = await this.requestJson(endpoints.token, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: encodeParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: provider.redirectUri,
+        client_id: provider.clientId,
+        code_verifier: codeVerifier,
+      }),
+    });
+
+    if (typeof body.access_token !== "string") {
+      throw invalidResponse("Token response has no access token");
+    }
+    return {
+      idToken: typeof body.id_token === "string" ? body.id_token : null,
+      accessToken: body.access_token,
+      refreshToken: typeof body.refresh_token === "string" ? body.refresh_token : null,
+      expiresAt: typeof body.expires_in === "number" ? Date.now() + body.expires_in * 1000 : null,
+    };
+  }
+
+  private async fetchUserInfo(endpoints: ResolvedEndpoints, accessToken: string): Promise<OidcClaims> {
+    if (!endpoints.userInfo) {
+      throw invalidResponse("Provider returned no ID token and has no userinfo endpoint");
+    }
+    const body = await this.requestJson(endpoints.userInfo, {
+      headers: { Accept: "application/json", Authorization: `Bearer ${accessToken}` },
+    });
+    return toOidcClaims(body);
+  }
+
+  private async requestJson(url: string, init: RequestInit): Promise<Record<string, unknown>> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, init);
+    } catch (error) {
+      throw new AuthNetworkError(error instanceof Error ? error.message : undefined);
+    }
+
+    let body: unknown = null;
+    try {
+      body = (await response.json()) as unknown;
+    } catch {
+      // Handled below as an invalid response
+    }
+
+    const record = body && typeof body === "object" ? (body as Record<string, unknown>) : null;
+    if (!response.ok || typeof record?.error === "string") {
+      const description = record?.error_description ?? record?.error;
+      throw providerError(typeof description === "string" ? description : `Provider request failed (${response.status})`);
+    }
+    if (!record) {
+      throw invalidResponse("Provider returned an invalid response");
+    }
+    return record;
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * Session Timeout Service
+ * Expires signed-in sessions after inactivity or a maximum length.
+ * Time spent in background counts as inactivity, the last-active timestamp
+ * is persisted so restarting the app doesn't reset it.
+ */
+
+import { AppState, type AppStateStatus, type NativeEventSubscription } from "react-native";
+import type { AuthUser } from "../../domain/entities/AuthUser";
+import type { SessionTimeoutConfig } from "../../domain/value-objects/AuthConfig";
+import { authEventService } from "./AuthEventService";
+import { safeCallback } from "../utils/safeCallback";
+import type {
+  SessionExpiry,
+  SessionExpiryReason,
+  SessionTimeoutOptions,
+} from "../types/SessionTimeout.types";
+
+const STORAGE_KEY = "@auth_session";
+/** Activity is persisted at most this often, backgrounding always persists */
+const PERSIST_INTERVAL_MS = 15000;
+/** Long timers are unreliable (and warned about) on Android, re-check instead */
+const MAX_TIMER_MS = 60000;
+
+interface SessionRecord {
+  userId: string;
+  startedAt: number;
+  lastActiveAt: number;
+}
+
+class SessionTimeoutService {
+  private static instance: SessionTimeoutService;
+  private config: SessionTimeoutConfig | null = null;
+  private options: SessionTimeoutOptions | null = null;
+  private session: SessionRecord | null = null;
+  /** Persisted session of the previous app run, used once for the same user */
+  private restored: Promise<SessionRecord | null> = Promise.resolve(null);
+  private expired = false;
+  private persistedAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private listeners = new Set<() => void>();
+
+  private constructor() {}
+
+  static getInstance(): SessionTimeoutService {
+    if (!SessionTimeoutService.instance) {
+      SessionTimeoutService.instance = new SessionTimeoutService();
+    }
+    return SessionTimeoutService.instance;
+  }
+
+  start(config: SessionTimeoutConfig, options: SessionTimeoutOptions): void {
+    this.stop();
+    this.config = config;
+    this.options = options;
+    this.restored = this.load();
+    this.appStateSubscription = AppState.addEventListener("change", (state) => this.handleAppStateChange(state));
+    this.notify();
+  }
+
+  stop(): void {
+    this.clearTimer();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.config = null;
+    this.options = null;
+    this.session = null;
+    this.restored = Promise.resolve(null);
+    this.expired = false;
+    this.notify();
+  }
+
+  isEnabled(): boolean {
+    return this.config !== null;
+  }
+
+  getConfig(): SessionTimeoutConfig | null {
+    return this.config;
+  }
+
+  /**
+   * Fed with every auth state change; anonymous users have no session to expire
+   */
+  async handleUserChange(user: AuthUser | null): Promise<void> {
+    if (!this.config) return;
+
+    const userId = user && !user.isAnonymous ? user.uid : null;
+    if (userId === (this.session?.userId ?? null)) return;
+
+    if (!userId) {
+      this.endSession();
+      return;
+    }
+
+    const restored = await this.restored;
+    // Stopped or another change won while loading
+    if (!this.config || this.session?.userId === userId) return;
+
+    const now = Date.now();
+    this.session = restored?.userId === userId ? restored : { userId, startedAt: now, lastActiveAt: now };
+    this.restored = Promise.resolve(null);
+    this.expired = false;
+    void this.persist();
+    this.check();
+    this.notify();
+  }
+
+  /**
+   * User interaction, extends the idle timeout
+   */
+  recordActivity(): void {
+    if (!this.session || this.expired) return;
+
+    const now = Date.now();
+    this.session.lastActiveAt = now;
+    if (now - this.persistedAt >= PERSIST_INTERVAL_MS) {
+      void this.persist();
+    }
+  }
+
+  /**
+   * Starts the session over once the user proved their identity again (e.g. unlocked)
+   */
+  resume(): void {
+    if (!this.session) return;
+
+    const now = Date.now();
+    this.session = { ...this.session, startedAt: now, lastActiveAt: now };
+    this.expired = false;
+    void this.persist();
+    this.check();
+    this.notify();
+  }
+
+  /**
+   * Time until the session expires, null without a timed session
+   */
+  getRemainingMs(): number | null {
+    if (!this.session) return null;
+    if (this.expired) return 0;
+    return this.getNextExpiry(Date.now())?.remainingMs ?? null;
+  }
+
+  isExpired(): boolean {
+    return this.expired;
+  }
+
+  /**
+   * Notified when tracking starts or stops and when a session starts, ends, expires or resumes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private handleAppStateChange(state: AppStateStatus): void {
+    if (!this.session || this.expired) return;
+
+    if (state === "active") {
+      // Timers don't run in background, catch up with the time spent there
+      this.check();
+    } else {
+      void this.persist();
+    }
+  }
+
+  private getNextExpiry(now: number): { reason: SessionExpiryReason; remainingMs: number } | null {
+    const { config, session } = this;
+    if (!config || !session) return null;
+
+    const deadlines: { reason: SessionExpiryReason; remainingMs: number }[] = [];
+    if (config.idleTimeoutMs !== undefined) {
+      deadlines.push({ reason: "idle", remainingMs: session.lastActiveAt + config.idleTimeoutMs - now });
+    }
+    if (config.absoluteTimeoutMs !== undefined) {
+      deadlines.push({ reason: "absolute", remainingMs: session.startedAt + config.absoluteTimeoutMs - now });
+    }
+
+    return deadlines.reduce<{ reason: SessionExpiryReason; remainingMs: number } | null>(
+      (next, deadline) => (!next || deadline.remainingMs < next.remainingMs ? deadline : next),
+      null
+    );
+  }
+
+  private check(): void {
+    this.clearTimer();
+    const next = this.getNextExpiry(Date.now());
+    if (!next) return;
+
+    if (next.remainingMs <= 0) {
+      this.expire(next.reason);
+      return;
+    }
+    this.timer = setTimeout(() => this.check(), Math.min(next.remainingMs, MAX_TIMER_MS));
+  }
+
+  private expire(reason: SessionExpiryReason): void {
+    const { config, options, session } = this;
+    if (!config || !options || !session) return;
+
+    this.expired = true;
+    const expiry: SessionExpiry = { userId: session.userId, reason, action: config.action };
+    void authEventService.emit("session-expired", expiry);
+    void safeCallback(options.onExpire, [expiry], "[SessionTimeout]");
+    this.notify();
+  }
+
+  private endSession(): void {
+    this.clearTimer();
+    this.session = null;
+    this.restored = Promise.resolve(null);
+    this.expired = false;
+    void this.clearStorage();
+    this.notify();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private async load(): Promise<SessionRecord | null> {
+    const storage = this.options?.storageProvider;
+    if (!storage) return null;
+
+    try {
+      const value = await storage.get(STORAGE_KEY);
+      const record = value ? (JSON.parse(value) as Partial<SessionRecord>) : null;
+      if (
+        typeof record?.userId !== "string" ||
+        typeof record.startedAt !== "number" ||
+        typeof record.lastActiveAt !== "number"
+      ) {
+        return null;
+      }
+      return { userId: record.userId, startedAt: record.startedAt, lastActiveAt: record.lastActiveAt };
+    } catch (error) {
+      if (__DEV__) {
+        console.error('[SessionTimeoutService] Failed to load session:', error instanceof Error ? error.message : String(error));
+      }
+      return null;
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const storage = this.options?.storageProvider;
+    const session = this.session;
+    if (!storage || !session) return;
+
+    this.persistedAt = Date.now();
+    try {
+      await storage.set(STORAGE_KEY, JSON.stringify(session));
+    } catch (error) {
+      if (__DEV__) {
+        console.error('[SessionTimeoutService] Failed to save session:', error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  private async clearStorage(): Promise<void> {
+    const storage = this.options?.storageProvider;
+    if (!storage) return;
+
+    try {
+      await storage.remove(STORAGE_KEY);
+    } catch (error) {
+      if (__DEV__) {
+        console.error('[SessionTimeoutService] Failed to clear session:', error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+}
+
+export const sessionTimeoutService = SessionTimeoutService.getInstance();
@@ -0,0 +1,87 @@
+import { appLockService } from "../AppLockService";
+import type { IStorageProvider } from "../../types/Storage.types";
+
+const PIN = "1234";
+const WRONG_PIN = "9999";
+const LOCKOUT_MS = 30_000;
+
+function createMemoryStorage(): IStorageProvider {
+  const values = new Map<string, string>();
+  return {
+    get: (key) => Promise.resolve(values.get(key) ?? null),
+    set: (key, value) => {
+      values.set(key, value);
+      return Promise.resolve();
+    },
+    remove: (key) => {
+      values.delete(key);
+      return Promise.resolve();
+    },
+  };
+}
+
+describe("AppLockService PIN lockout", () => {
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+    await appLockService.configure(
+      { maxAttempts: 3, lockoutMs: LOCKOUT_MS },
+      { storageProvider: createMemoryStorage() }
+    );
+    await appLockService.setPin(PIN);
+  });
+
+  afterEach(() => {
+    appLockService.stop();
+    jest.useRealTimers();
+  });
+
+  it("counts a wrong current PIN in changePin and removePin", async () => {
+    await expect(appLockService.changePin(WRONG_PIN, "5678")).rejects.toMatchObject({
+      code: "AUTH_APP_LOCK_WRONG_PIN",
+    });
+    await expect(appLockService.removePin(WRONG_PIN)).rejects.toMatchObject({
+      code: "AUTH_APP_LOCK_WRONG_PIN",
+    });
+
+    expect(appLockService.getState().failedAttempts).toBe(2);
+  });
+
+  it("locks out after maxAttempts wrong PINs across unlock, change and remove", async () => {
+    expect(await appLockService.unlockWithPin(WRONG_PIN)).toBe(false);
+    await expect(appLockService.changePin(WRONG_PIN, "5678")).rejects.toMatchObject({
+      code: "AUTH_APP_LOCK_WRONG_PIN",
+    });
+    await expect(appLockService.removePin(WRONG_PIN)).rejects.toMatchObject({
+      code: "AUTH_APP_LOCK_WRONG_PIN",
+    });
+
+    expect(appLockService.getState().lockedOutUntil).toBe(Date.now() + LOCKOUT_MS);
+  });
+
+  it("rejects changePin and removePin while locked out, even with the right PIN", async () => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await appLockService.unlockWithPin(WRONG_PIN);
+    }
+
+    await expect(appLockService.changePin(PIN, "5678")).rejects.toMatchObject({
+      code: "AUTH_APP_LOCK_LOCKED_OUT",
+    });
+    await expect(appLockService.removePin(PIN)).rejects.toMatchObject({
+      code: "AUTH_APP_LOCK_LOCKED_OUT",
+    });
+    expect(appLockService.getState().hasPin).toBe(true);
+
+    jest.advanceTimersByTime(LOCKOUT_MS);
+    await appLockService.changePin(PIN, "5678");
+    expect(await appLockService.unlockWithPin("5678")).toBe(true);
+  });
+
+  it("resets the attempt count after the right current PIN", async () => {
+    await appLockService.unlockWithPin(WRONG_PIN);
+    await appLockService.unlockWithPin(WRONG_PIN);
+
+    await appLockService.changePin(PIN, "5678");
+
+    expect(appLockService.getState().failedAttempts).toBe(0);
+  });
+});
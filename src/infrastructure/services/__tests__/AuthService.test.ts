@@ -0,0 +1,67 @@
+import { createTestAuthEnvironment, type TestAuthEnvironment } from "../../../testing";
+
+const PASSWORD = "Secret123!";
+const GOOGLE_TOKEN = "google-id-token";
+
+describe("AuthService reauthentication for account changes", () => {
+  let env: TestAuthEnvironment;
+
+  afterEach(() => {
+    env.cleanup();
+  });
+
+  it("lets a Google-only account change its email after a Google reauthentication", async () => {
+    env = await createTestAuthEnvironment({
+      users: [{ email: "sam@example.com", socialTokens: { "google.com": GOOGLE_TOKEN } }],
+      signedInAs: "sam@example.com",
+    });
+    const google = jest.fn(() => Promise.resolve({ idToken: GOOGLE_TOKEN }));
+
+    await env.service.changeEmail("sam@example.org", { google });
+
+    expect(google).toHaveBeenCalledTimes(1);
+    expect(env.repository.getSentEmails()).toContainEqual(
+      expect.objectContaining({ type: "emailChange", email: "sam@example.org" })
+    );
+  });
+
+  it("doesn't ask for the password again right after signing in", async () => {
+    env = await createTestAuthEnvironment({ users: [{ email: "sam@example.com", password: PASSWORD }] });
+    await env.service.signIn({ email: "sam@example.com", password: PASSWORD });
+    const password = jest.fn(() => Promise.resolve(PASSWORD));
+
+    await env.service.changeEmail("sam@example.org", { password });
+
+    expect(password).not.toHaveBeenCalled();
+  });
+
+  it("asks for the password when the login isn't recent", async () => {
+    env = await createTestAuthEnvironment({
+      users: [{ email: "sam@example.com", password: PASSWORD }],
+      signedInAs: "sam@example.com",
+    });
+
+    await expect(
+      env.service.changeEmail("sam@example.org", { password: () => Promise.resolve("Wrong123!") })
+    ).rejects.toMatchObject({ code: "AUTH_WRONG_PASSWORD" });
+    expect(env.repository.getSentEmails()).toHaveLength(0);
+
+    await env.service.changeEmail("sam@example.org", { password: () => Promise.resolve(PASSWORD) });
+    expect(env.repository.getSentEmails()).toHaveLength(1);
+  });
+
+  it("checks the current password on a password change even after signing in", async () => {
+    env = await createTestAuthEnvironment({ users: [{ email: "sam@example.com", password: PASSWORD }] });
+    await env.service.signIn({ email: "sam@example.com", password: PASSWORD });
+
+    await expect(env.service.changePassword("Wrong123!", "Changed456!")).rejects.toMatchObject({
+      code: "AUTH_WRONG_PASSWORD",
+    });
+
+    await env.service.changePassword(PASSWORD, "Changed456!");
+    await env.service.signOut();
+    await expect(env.service.signIn({ email: "sam@example.com", password: "Changed456!" })).resolves.toMatchObject({
+      email: "sam@example.com",
+    });
+  });
+});
@@ -6,13 +6,25 @@
 import type { User } from "firebase/auth";
 import { getFirebaseAuth, configureUserDocumentService } from "@umituz/react-native-firebase";
 import type { UserDocumentExtras } from "@umituz/react-native-firebase";
-import { initializeAuthService } from "./AuthService";
+import { initializeAuthService, type AuthService } from "./AuthService";
 import { collectDeviceExtras } from "@umituz/react-native-design-system/device";
 import { initializeAuthListener } from "../../presentation/stores/initializeAuthListener";
+import { useAuthStore } from "../../presentation/stores/authStore";
 import { createAuthStateHandler } from "../utils/authStateHandler";
+import { authAnalyticsService } from "./AuthAnalyticsService";
+import { sessionTimeoutService } from "./SessionTimeoutService";
+import { appLockService } from "./AppLockService";
 import type { ConversionState } from "../utils/authConversionDetector";
 import type { AuthConfig } from "../../domain/value-objects/AuthConfig";
 import type { IStorageProvider } from "../types/Storage.types";
+import type { AuthUser } from "../../domain/entities/AuthUser";
+import type { AuthRepositoryFactory } from "../../application/ports/IAuthRepository";
+import type { AuthAnalyticsAdapter } from "../types/AuthAnalytics.types";
+import type { AuthMiddleware } from "../types/AuthMiddleware.types";
+import type { SessionExpiry } from "../types/SessionTimeout.types";
+import type { BiometricProvider } from "../types/AppLock.types";
+import { authErrorRegistry } from "../../shared/error-handling/registry/AuthErrorRegistry";
+import type { AuthErrorLocalizationConfig } from "../../shared/error-handling/types/ErrorTypes";
 
 export interface InitializeAuthOptions {
   userCollection?: string;
@@ -20,9 +32,36 @@ export interface InitializeAuthOptions {
   collectExtras?: () => Promise<UserDocumentExtras>;
   storageProvider?: IStorageProvider;
   autoAnonymousSignIn?: boolean;
+  /**
+   * Anonymous user was replaced by a different account (new UID), migrate its data here.
+   * Not called for upgradeAnonymousAccount, which keeps the UID.
+   */
   onUserConverted?: (anonymousId: string, authenticatedId: string) => void | Promise<void>;
-  onAuthStateChange?: (user: User | null) => void | Promise<void>;
+  /** user is the Firebase user, null with a custom repository; authUser is always set when signed in */
+  onAuthStateChange?: (user: User | null, authUser: AuthUser | null) => void | Promise<void>;
   authConfig?: Partial<AuthConfig>;
+  /**
+   * Backend to authenticate against, defaults to the Firebase AuthRepository.
+   * With a custom repository Firebase Auth and the Firestore user document are skipped.
+   */
+  repositoryFactory?: AuthRepositoryFactory;
+  /**
+   * Receives standardized login, sign_up, logout and conversion events,
+   * e.g. ConsoleAuthAnalyticsAdapter or an adapter for your analytics SDK
+   */
+  analytics?: AuthAnalyticsAdapter;
+  /**
+   * Runs around sign-in, sign-up and sign-out in order, registered before the
+   * listener's anonymous sign-in. More can be added later with AuthService.use().
+   */
+  middleware?: AuthMiddleware[];
+  /** Lets authConfig.appLock unlock with Face ID / fingerprint as well as the PIN */
+  biometricProvider?: BiometricProvider;
+  /**
+   * Custom error codes, per-locale messages and fallbacks for every error path,
+   * change the locale later with authErrorRegistry.setLocale()
+   */
+  errorLocalization?: AuthErrorLocalizationConfig;
 }
 
 let isInitialized = false;
@@ -66,47 +105,68 @@ async function doInitializeAuth(
     onUserConverted,
     onAuthStateChange,
     authConfig,
+    repositoryFactory,
+    analytics,
+    middleware = [],
+    biometricProvider,
+    errorLocalization,
   } = options;
 
-  let auth;
-  try {
-    auth = getFirebaseAuth();
-  } catch {
-    if (__DEV__) {
-      console.warn('[Auth] Firebase Auth not available — skipping auth initialization.');
-    }
-    return { success: false };
+  // Before anything that can fail, so those errors are localized too
+  if (errorLocalization) {
+    authErrorRegistry.configure(errorLocalization);
   }
 
-  if (!auth) {
-    if (__DEV__) {
-      console.warn('[Auth] Firebase Auth not initialized — skipping auth initialization.');
+  if (!repositoryFactory) {
+    let auth;
+    try {
+      auth = getFirebaseAuth();
+    } catch {
+      if (__DEV__) {
+        console.warn('[Auth] Firebase Auth not available — skipping auth initialization.');
+      }
+      return { success: false };
     }
-    return { success: false };
+
+    if (!auth) {
+      if (__DEV__) {
+        console.warn('[Auth] Firebase Auth not initialized — skipping auth initialization.');
+      }
+      return { success: false };
+    }
+
+    configureUserDocumentService({
+      collectionName: userCollection,
+      extraFields,
+      collectExtras: collectExtras || collectDeviceExtras,
+    });
   }
 
-  configureUserDocumentService({
-    collectionName: userCollection,
-    extraFields,
-    collectExtras: collectExtras || collectDeviceExtras,
-  });
+  if (analytics) {
+    authAnalyticsService.setAdapter(analytics);
+  }
 
   let authServiceInitFailed = false;
   try {
-    await initializeAuthService(authConfig, storageProvider);
+    const service = await initializeAuthService(authConfig, storageProvider, repositoryFactory);
+    middleware.forEach((entry) => service.use(entry));
+    startSessionTimeout(service, storageProvider);
+    startAppLock(service, storageProvider, biometricProvider);
   } catch {
     authServiceInitFailed = true;
   }
 
   const handleAuthStateChange = createAuthStateHandler(conversionState, {
     onUserConverted,
+    onConversion: (conversion) => authAnalyticsService.trackConversion(conversion),
     onAuthStateChange,
   });
 
   listenerUnsubscribe = initializeAuthListener({
     autoAnonymousSignIn,
-    onAuthStateChange: (user) => {
-      void handleAuthStateChange(user);
+    onAuthStateChange: (user, authUser) => {
+      void sessionTimeoutService.handleUserChange(authUser);
+      void handleAuthStateChange(user, authUser);
     },
   });
 
@@ -114,6 +174,41 @@ async function doInitializeAuth(
   return { success: !authServiceInitFailed };
 }
 
+/**
+ * Expire sessions as configured in authConfig.session
+ */
+export function startSessionTimeout(service: AuthService, storageProvider?: IStorageProvider): void {
+  const config = service.getConfig().session;
+  if (!config) return;
+
+  sessionTimeoutService.start(config, {
+    storageProvider,
+    onExpire: async (expiry: SessionExpiry) => {
+      if (expiry.action === "lock") {
+        useAuthStore.getState().transition({ type: "sessionLocked" });
+        // With an app lock PIN the lock screen unlocks the session too
+        appLockService.lock();
+        return;
+      }
+      await service.signOut();
+    },
+  });
+}
+
+/**
+ * PIN / biometric app lock as configured in authConfig.appLock
+ */
+export function startAppLock(
+  service: AuthService,
+  storageProvider?: IStorageProvider,
+  biometricProvider?: BiometricProvider
+): void {
+  const config = service.getConfig().appLock;
+  if (!config) return;
+
+  void appLockService.configure(config, { storageProvider, biometricProvider });
+}
+
 export function isAuthInitialized(): boolean {
   return isInitialized;
 }
@@ -123,6 +218,10 @@ export function resetAuthInitialization(): void {
     listenerUnsubscribe();
     listenerUnsubscribe = null;
   }
+  authAnalyticsService.setAdapter(null);
+  sessionTimeoutService.stop();
+  appLockService.stop();
+  authErrorRegistry.reset();
   isInitialized = false;
   conversionState.current = { previousUserId: null, wasAnonymous: false };
 }
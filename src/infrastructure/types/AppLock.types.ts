@@ -0,0 +1,32 @@
+/**
+ * App Lock Types
+ * Biometric provider and the state AppLockService exposes
+ */
+
+/**
+ * Biometric check the app lock delegates to, e.g. backed by expo-local-authentication:
+ * ```typescript
+ * const biometrics: BiometricProvider = {
+ *   isAvailable: async () => (await hasHardwareAsync()) && (await isEnrolledAsync()),
+ *   authenticate: async (prompt) => (await authenticateAsync({ promptMessage: prompt })).success,
+ * };
+ * ```
+ */
+export interface BiometricProvider {
+  isAvailable(): Promise<boolean>;
+  /** Resolves true when the user passed the check */
+  authenticate(prompt: string): Promise<boolean>;
+}
+
+export interface AppLockState {
+  /** authConfig.appLock is configured */
+  isEnabled: boolean;
+  /** The stored PIN and attempts were loaded */
+  isReady: boolean;
+  isLocked: boolean;
+  hasPin: boolean;
+  biometricsEnabled: boolean;
+  failedAttempts: number;
+  /** Unlocking is paused until this time after too many wrong PINs */
+  lockedOutUntil: number | null;
+}
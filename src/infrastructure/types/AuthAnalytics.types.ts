@@ -0,0 +1,65 @@
+/**
+ * Auth Analytics Types
+ * Standardized analytics events and the adapter apps forward them through
+ */
+
+/**
+ * Sign-in method as analytics tools usually name it
+ * ("oauth" covers Microsoft, GitHub and OIDC providers)
+ */
+export type AuthAnalyticsMethod =
+  | "password"
+  | "google"
+  | "apple"
+  | "anonymous"
+  | "phone"
+  | "email_link"
+  | "oauth"
+  | "unknown";
+
+interface AuthAnalyticsBaseEvent {
+  timestamp: number;
+}
+
+/**
+ * A sign-in ("login") or registration ("sign_up") attempt
+ */
+export interface AuthAnalyticsAttemptEvent extends AuthAnalyticsBaseEvent {
+  name: "login" | "sign_up";
+  method: AuthAnalyticsMethod;
+  /** Backend provider id, e.g. "google.com" or "oidc.corp" */
+  providerId: string | null;
+  success: boolean;
+  userId: string | null;
+  /** AuthError code of a failed attempt */
+  errorCode: string | null;
+  durationMs: number | null;
+}
+
+export interface AuthAnalyticsLogoutEvent extends AuthAnalyticsBaseEvent {
+  name: "logout";
+  userId: string | null;
+}
+
+/**
+ * An anonymous user registered (sameUid) or signed in to an existing account
+ */
+export interface AuthAnalyticsConversionEvent extends AuthAnalyticsBaseEvent {
+  name: "conversion";
+  method: AuthAnalyticsMethod;
+  anonymousUserId: string;
+  userId: string;
+  sameUid: boolean;
+}
+
+export type AuthAnalyticsEvent =
+  | AuthAnalyticsAttemptEvent
+  | AuthAnalyticsLogoutEvent
+  | AuthAnalyticsConversionEvent;
+
+/**
+ * Forwards auth analytics to Firebase Analytics, Segment, Amplitude...
+ */
+export interface AuthAnalyticsAdapter {
+  track(event: AuthAnalyticsEvent): void | Promise<void>;
+}
@@ -0,0 +1,118 @@
+/**
+ * Auth Event Types
+ * Event names and payloads emitted by AuthEventService
+ *
+ * Apps can add their own events through declaration merging:
+ * ```typescript
+ * declare module "@umituz/react-native-auth" {
+ *   interface AuthEventMap {
+ *     "onboarding-completed": { userId: string };
+ *   }
+ * }
+ * ```
+ */
+
+import type { AuthProviderType } from "../../domain/entities/AuthUser";
+import type { UpdateProfileParams } from "../../domain/entities/UserProfile";
+import type { SessionExpiry } from "./SessionTimeout.types";
+
+/**
+ * How a user got signed in
+ */
+export type AuthMethod =
+  | "password"
+  | "anonymous"
+  | "phone"
+  | "emailLink"
+  | "oauth"
+  | "multiFactor"
+  | "credential";
+
+/**
+ * AuthService operation that failed, reported by "auth-error"
+ */
+export type AuthOperation =
+  | "signUp"
+  | "signIn"
+  | "signInAnonymously"
+  | "signInWithOidc"
+  | "signInWithOAuth"
+  | "signInWithPhone"
+  | "confirmOtp"
+  | "sendSignInLink"
+  | "completeSignInFromLink"
+  | "resolveMultiFactorSignIn"
+  | "startTotpEnrollment"
+  | "completeTotpEnrollment"
+  | "unenrollFactor"
+  | "linkProvider"
+  | "unlinkProvider"
+  | "upgradeAnonymousAccount"
+  | "resolveCredentialConflict"
+  | "signOut"
+  | "sendPasswordResetEmail"
+  | "sendEmailVerification"
+  | "changePassword"
+  | "changeEmail"
+  | "reauthenticate"
+  | "updateProfile"
+  | "deleteAccount";
+
+export interface AuthEventMap {
+  "user-signed-up": { userId: string; method: AuthMethod; provider: AuthProviderType; durationMs?: number };
+  /** isNewUser is true when the sign-in registered the account (after "user-signed-up") */
+  "user-authenticated": {
+    userId: string;
+    method: AuthMethod;
+    provider: AuthProviderType;
+    isNewUser: boolean;
+    durationMs?: number;
+  };
+  "user-signed-out": { userId: string | null };
+  "anonymous-mode-enabled": Record<never, never>;
+  /** An anonymous user became a permanent one; sameUid is false when another account was signed in */
+  "user-converted": { anonymousUserId: string; userId: string; sameUid: boolean };
+  "token-refreshed": { userId: string };
+  "profile-updated": { userId: string; fields: (keyof UpdateProfileParams)[] };
+  "password-changed": { userId: string | null };
+  "email-change-requested": { userId: string | null; newEmail: string };
+  "user-reauthenticated": { userId: string; provider: AuthProviderType };
+  "password-reset-requested": { email: string };
+  "email-verification-sent": { userId: string | null };
+  "provider-linked": { userId: string; provider: AuthProviderType };
+  "provider-unlinked": { userId: string; provider: AuthProviderType };
+  "mfa-enrolled": { userId: string | null; factorUid: string | null };
+  "mfa-unenrolled": { userId: string | null; factorUid: string };
+  "account-deleted": { userId: string };
+  /** The session timeout expired, action is what happens next */
+  "session-expired": SessionExpiry;
+  "auth-error": { operation: AuthOperation; error: string; code?: string; durationMs?: number };
+}
+
+export type AuthEventName = keyof AuthEventMap;
+
+/**
+ * What listeners receive: the event's data plus its name and time
+ */
+export type AuthEventPayload<K extends AuthEventName = AuthEventName> = AuthEventMap[K] & {
+  type: K;
+  timestamp: number;
+};
+
+/**
+ * Any event, discriminated by type (what wildcard listeners receive)
+ */
+export type AuthEvent = { [K in AuthEventName]: AuthEventPayload<K> }[AuthEventName];
+
+export type AuthEventListener<K extends AuthEventName> = (payload: AuthEventPayload<K>) => void | Promise<void>;
+
+export type AuthWildcardListener = (event: AuthEvent) => void | Promise<void>;
+
+/**
+ * Subscribe to every event with "*"
+ */
+export type AuthEventSubscription = AuthEventName | "*";
+
+export type AuthEventHandler<E extends AuthEventSubscription> = E extends AuthEventName
+  ? AuthEventListener<E>
+  : AuthWildcardListener;
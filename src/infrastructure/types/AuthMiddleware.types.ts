@@ -0,0 +1,42 @@
+/**
+ * Auth Middleware Types
+ * Hooks AuthService runs around sign-in, sign-up and sign-out
+ */
+
+import type { AuthUser, AuthProviderType } from "../../domain/entities/AuthUser";
+import type { AuthMethod } from "./AuthEvents.types";
+
+export interface AuthSignInContext {
+  method: AuthMethod;
+  /** null when the backend decides it (two-factor, email link) */
+  provider: AuthProviderType | null;
+  email: string | null;
+  /** Anonymous session the sign-in replaces or upgrades */
+  anonymousUserId: string | null;
+}
+
+export interface AuthSignUpContext extends AuthSignInContext {
+  displayName: string | null;
+}
+
+export interface AuthSignOutContext {
+  userId: string | null;
+  isAnonymous: boolean;
+}
+
+export type AuthSignedInContext = AuthSignInContext & { user: AuthUser };
+export type AuthSignedUpContext = AuthSignUpContext & { user: AuthUser };
+
+/**
+ * Registered with AuthService.use(); handlers run in registration order and may be async.
+ * Throwing (ideally an AuthError) from a before hook cancels the operation.
+ * After hooks run once the operation succeeded, their errors are logged and ignored.
+ */
+export interface AuthMiddleware {
+  beforeSignIn?: (context: AuthSignInContext) => void | Promise<void>;
+  afterSignIn?: (context: AuthSignedInContext) => void | Promise<void>;
+  beforeSignUp?: (context: AuthSignUpContext) => void | Promise<void>;
+  afterSignUp?: (context: AuthSignedUpContext) => void | Promise<void>;
+  beforeSignOut?: (context: AuthSignOutContext) => void | Promise<void>;
+  afterSignOut?: (context: AuthSignOutContext) => void | Promise<void>;
+}
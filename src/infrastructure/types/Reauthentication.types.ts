@@ -0,0 +1,17 @@
+/**
+ * Reauthentication Types
+ * Where AuthService.reauthenticate gets a fresh credential from
+ */
+
+/**
+ * Each handler asks the user to confirm who they are and resolves null when they cancel.
+ * The account's own sign-in method decides which one runs.
+ */
+export interface ReauthenticationHandlers {
+  /** Current password, e.g. from PasswordPromptScreen via usePasswordPromptNavigation */
+  password?: () => Promise<string | null>;
+  /** Tokens of a fresh Google sign-in */
+  google?: () => Promise<{ idToken: string; accessToken?: string } | null>;
+  /** Tokens of a fresh Apple sign-in */
+  apple?: () => Promise<{ identityToken: string; rawNonce?: string } | null>;
+}
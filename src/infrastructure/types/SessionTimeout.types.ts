@@ -0,0 +1,22 @@
+/**
+ * Session Timeout Types
+ * Expiry reported by SessionTimeoutService
+ */
+
+import type { SessionTimeoutAction } from "../../domain/value-objects/AuthConfig";
+import type { IStorageProvider } from "./Storage.types";
+
+export type SessionExpiryReason = "idle" | "absolute";
+
+export interface SessionExpiry {
+  userId: string;
+  reason: SessionExpiryReason;
+  action: SessionTimeoutAction;
+}
+
+export interface SessionTimeoutOptions {
+  /** Persists the last-active timestamp so a restart doesn't reset the idle time */
+  storageProvider?: IStorageProvider;
+  /** Signs out or locks the store, see initializeAuth */
+  onExpire: (expiry: SessionExpiry) => void | Promise<void>;
+}
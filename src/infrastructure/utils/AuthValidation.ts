@@ -1,5 +1,8 @@
-import type { PasswordConfig } from "../../domain/value-objects/AuthConfig";
+import type { PasswordConfig, PasswordPolicyContext } from "../../domain/value-objects/AuthConfig";
 import { isEmptyEmail, isEmptyPassword, isEmptyName } from "./validation/validationHelpers";
+import { PhoneValidator } from "../../shared/validation/validators/PhoneValidator";
+import { evaluatePasswordPolicy, getFailedPasswordCheck } from "../../shared/validation/policy/PasswordPolicy";
+import type { PasswordRequirements } from "../../shared/validation/types";
 
 // Define validation types locally
 export interface ValidationResult {
@@ -7,9 +10,7 @@ export interface ValidationResult {
   error?: string;
 }
 
-export interface PasswordRequirements {
-  hasMinLength: boolean;
-}
+export type { PasswordRequirements };
 
 export interface PasswordStrengthResult extends ValidationResult {
   requirements: PasswordRequirements;
@@ -47,17 +48,21 @@ export function validatePasswordForLogin(password: string): ValidationResult {
 export function validatePasswordForRegister(
   password: string,
   config: PasswordConfig,
+  context?: PasswordPolicyContext,
 ): PasswordStrengthResult {
-  // Don't trim passwords - whitespace may be intentional
-  if (isEmptyPassword(password)) {
-    return { isValid: false, error: "auth.validation.passwordRequired", requirements: { hasMinLength: false } };
-  }
-
+  const checks = evaluatePasswordPolicy(password, config, context);
   const req: PasswordRequirements = {
     hasMinLength: password.length >= config.minLength,
+    checks,
   };
 
-  if (!req.hasMinLength) return { isValid: false, error: "auth.validation.passwordTooShort", requirements: req };
+  // Don't trim passwords - whitespace may be intentional
+  if (isEmptyPassword(password)) {
+    return { isValid: false, error: "auth.validation.passwordRequired", requirements: req };
+  }
+
+  const failed = getFailedPasswordCheck(checks);
+  if (failed) return { isValid: false, error: failed.error, requirements: req };
 
   return { isValid: true, requirements: req };
 }
@@ -77,3 +82,18 @@ export function validateDisplayName(
   if (name.trim().length < minLength) return { isValid: false, error: "auth.validation.nameTooShort" };
   return { isValid: true };
 }
+
+const phoneValidator = new PhoneValidator();
+
+/**
+ * Validate an E.164 phone number (sanitize with sanitizePhoneNumber first)
+ */
+export function validatePhoneNumber(phone: string): ValidationResult {
+  return phoneValidator.validate(phone);
+}
+
+export function validateOtpCode(code: string, length: number = 6): ValidationResult {
+  if (!code) return { isValid: false, error: "auth.validation.otpRequired" };
+  if (!new RegExp(`^\\d{${length}}$`).test(code)) return { isValid: false, error: "auth.validation.invalidOtp" };
+  return { isValid: true };
+}
@@ -3,7 +3,7 @@
  * Single Source of Truth for user object transformations
  */
 
-import type { AuthUser, AuthProviderType } from "../../domain/entities/AuthUser";
+import type { AuthUser, AuthProviderType, OAuthProviderType } from "../../domain/entities/AuthUser";
 
 interface ProviderData {
   providerId: string | null;
@@ -16,9 +16,19 @@ interface FirebaseUserLike {
   isAnonymous: boolean;
   emailVerified: boolean;
   photoURL: string | null;
+  phoneNumber?: string | null;
   providerData?: (ProviderData | null)[];
 }
 
+/**
+ * Whether a provider id belongs to a generic OAuth 2.0 / OIDC provider
+ */
+export function isOAuthProviderType(providerId: unknown): providerId is OAuthProviderType {
+  return providerId === "microsoft.com"
+    || providerId === "github.com"
+    || (typeof providerId === "string" && providerId.startsWith("oidc.") && providerId.length > 5);
+}
+
 /**
  * Extract auth provider from Firebase user's providerData
  */
@@ -48,9 +58,36 @@ function extractProvider(user: FirebaseUserLike): AuthProviderType {
   const passwordProvider = validProviders.find((p) => p.providerId === "password");
   if (passwordProvider) return "password";
 
+  const phoneProvider = validProviders.find((p) => p.providerId === "phone");
+  if (phoneProvider) return "phone";
+
+  const oauthProvider = validProviders.map((p) => p.providerId).find(isOAuthProviderType);
+  if (oauthProvider) return oauthProvider;
+
   return "unknown";
 }
 
+const KNOWN_PROVIDERS: readonly AuthProviderType[] = ["google.com", "apple.com", "password", "phone"];
+
+/**
+ * Extract every linked auth provider from Firebase user's providerData
+ */
+function extractProviders(user: FirebaseUserLike): AuthProviderType[] {
+  if (user.isAnonymous) {
+    return ["anonymous"];
+  }
+
+  const providers: AuthProviderType[] = [];
+  for (const data of user.providerData ?? []) {
+    const provider = KNOWN_PROVIDERS.find((known) => known === data?.providerId)
+      ?? (isOAuthProviderType(data?.providerId) ? data.providerId : undefined);
+    if (provider && !providers.includes(provider)) {
+      providers.push(provider);
+    }
+  }
+  return providers;
+}
+
 export function mapToAuthUser(user: FirebaseUserLike | null): AuthUser | null {
   if (!user) return null;
   return {
@@ -60,6 +97,8 @@ export function mapToAuthUser(user: FirebaseUserLike | null): AuthUser | null {
     isAnonymous: user.isAnonymous,
     emailVerified: user.emailVerified,
     photoURL: user.photoURL,
+    phoneNumber: user.phoneNumber ?? null,
     provider: extractProvider(user),
+    providers: extractProviders(user),
   };
 }
@@ -0,0 +1,143 @@
+/**
+ * Auth Error Translator
+ * Turns backend error codes into AuthError subclasses, so callers can branch
+ * on instanceof, isRetryable and userActionable instead of matching strings
+ */
+
+import {
+  AuthError,
+  AuthEmailAlreadyInUseError,
+  AuthInvalidCredentialError,
+  AuthInvalidEmailError,
+  AuthNetworkError,
+  AuthOperationNotAllowedError,
+  AuthRequiresRecentLoginError,
+  AuthSessionExpiredError,
+  AuthTooManyRequestsError,
+  AuthUserDisabledError,
+  AuthUserNotFoundError,
+  AuthWeakPasswordError,
+  AuthWrongPasswordError,
+} from "../../domain/errors/AuthError";
+
+const FIREBASE_ERROR_CODES: Record<string, string> = {
+  "auth/user-not-found": "AUTH_USER_NOT_FOUND",
+  "auth/invalid-email": "AUTH_INVALID_EMAIL",
+  "auth/wrong-password": "AUTH_WRONG_PASSWORD",
+  "auth/invalid-credential": "AUTH_INVALID_CREDENTIAL",
+  "auth/invalid-login-credentials": "AUTH_INVALID_CREDENTIAL",
+  "auth/weak-password": "AUTH_WEAK_PASSWORD",
+  "auth/email-already-in-use": "AUTH_EMAIL_ALREADY_IN_USE",
+  "auth/too-many-requests": "AUTH_TOO_MANY_REQUESTS",
+  "auth/quota-exceeded": "AUTH_TOO_MANY_REQUESTS",
+  "auth/network-request-failed": "AUTH_NETWORK_ERROR",
+  "auth/timeout": "AUTH_NETWORK_ERROR",
+  "auth/user-disabled": "AUTH_USER_DISABLED",
+  "auth/requires-recent-login": "AUTH_REQUIRES_RECENT_LOGIN",
+  "auth/user-token-expired": "AUTH_SESSION_EXPIRED",
+  "auth/invalid-user-token": "AUTH_SESSION_EXPIRED",
+  "auth/operation-not-allowed": "AUTH_OPERATION_NOT_ALLOWED",
+  "auth/user-mismatch": "AUTH_USER_MISMATCH",
+  "auth/invalid-phone-number": "AUTH_INVALID_PHONE",
+  "auth/missing-phone-number": "AUTH_INVALID_PHONE",
+  "auth/invalid-verification-code": "AUTH_INVALID_OTP",
+  "auth/missing-verification-code": "AUTH_INVALID_OTP",
+  "auth/code-expired": "AUTH_OTP_EXPIRED",
+  "auth/invalid-verification-id": "AUTH_OTP_EXPIRED",
+  "auth/invalid-action-code": "AUTH_LINK_INVALID",
+  "auth/expired-action-code": "AUTH_LINK_EXPIRED",
+  "auth/unsupported-first-factor": "AUTH_MFA_UNAVAILABLE",
+  "auth/unverified-email": "AUTH_MFA_UNAVAILABLE",
+  "auth/multi-factor-info-not-found": "AUTH_MFA_FACTOR_NOT_FOUND",
+  "auth/provider-already-linked": "AUTH_PROVIDER_ALREADY_LINKED",
+  "auth/no-such-provider": "AUTH_PROVIDER_NOT_LINKED",
+};
+
+/**
+ * On sign-in an unknown email and a wrong password look the same, like Firebase
+ * does with email enumeration protection on
+ */
+const SIGN_IN_ERROR_CODES: Record<string, string> = {
+  ...FIREBASE_ERROR_CODES,
+  "auth/user-not-found": "AUTH_INVALID_CREDENTIAL",
+  "auth/wrong-password": "AUTH_INVALID_CREDENTIAL",
+};
+
+/**
+ * Codes without their own class that the user can still fix, e.g. by requesting a new code
+ */
+const USER_ACTIONABLE_CODES = new Set([
+  "AUTH_USER_MISMATCH",
+  "AUTH_INVALID_PHONE",
+  "AUTH_INVALID_OTP",
+  "AUTH_OTP_EXPIRED",
+  "AUTH_LINK_INVALID",
+  "AUTH_LINK_EXPIRED",
+  "AUTH_PROVIDER_ALREADY_LINKED",
+]);
+
+/**
+ * Builds the AuthError subclass for an AUTH_* code, whichever backend reported it
+ */
+export function createAuthError(code: string, message: string, cause?: unknown): AuthError {
+  switch (code) {
+    case "AUTH_INVALID_EMAIL":
+      return new AuthInvalidEmailError(message, cause);
+    case "AUTH_WEAK_PASSWORD":
+      return new AuthWeakPasswordError(message, cause);
+    case "AUTH_USER_NOT_FOUND":
+      return new AuthUserNotFoundError(message, cause);
+    case "AUTH_WRONG_PASSWORD":
+      return new AuthWrongPasswordError(message, cause);
+    case "AUTH_INVALID_CREDENTIAL":
+      return new AuthInvalidCredentialError(message, cause);
+    case "AUTH_EMAIL_ALREADY_IN_USE":
+      return new AuthEmailAlreadyInUseError(message, cause);
+    case "AUTH_NETWORK_ERROR":
+      return new AuthNetworkError(message, cause);
+    case "AUTH_TOO_MANY_REQUESTS":
+      return new AuthTooManyRequestsError(message, cause);
+    case "AUTH_USER_DISABLED":
+      return new AuthUserDisabledError(message, cause);
+    case "AUTH_REQUIRES_RECENT_LOGIN":
+      return new AuthRequiresRecentLoginError(message, cause);
+    case "AUTH_SESSION_EXPIRED":
+      return new AuthSessionExpiredError(message, cause);
+    case "AUTH_OPERATION_NOT_ALLOWED":
+      return new AuthOperationNotAllowedError(message, cause);
+    default:
+      return new AuthError(message, code, { cause, userActionable: USER_ACTIONABLE_CODES.has(code) });
+  }
+}
+
+function translateWithCodes(
+  error: unknown,
+  fallbackMessage: string,
+  codes: Record<string, string>
+): AuthError {
+  if (error instanceof AuthError) return error;
+
+  const { code, message } = (error ?? {}) as { code?: unknown; message?: unknown };
+  const text = typeof message === "string" && message ? message : fallbackMessage;
+  if (typeof code !== "string") {
+    return new AuthError(text, undefined, { cause: error });
+  }
+
+  return createAuthError(codes[code] ?? code, text, error);
+}
+
+/**
+ * Translates a FirebaseError (or a firebase package result error) into an AuthError
+ * that keeps the original as its cause; unknown codes are passed through unchanged
+ */
+export function translateFirebaseError(error: unknown, fallbackMessage: string): AuthError {
+  return translateWithCodes(error, fallbackMessage, FIREBASE_ERROR_CODES);
+}
+
+/**
+ * translateFirebaseError for sign-in, where an unknown email or a wrong password
+ * becomes AuthInvalidCredentialError
+ */
+export function translateSignInError(error: unknown, fallbackMessage: string): AuthError {
+  return translateWithCodes(error, fallbackMessage, SIGN_IN_ERROR_CODES);
+}
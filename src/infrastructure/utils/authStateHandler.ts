@@ -4,13 +4,24 @@
  */
 
 import type { User } from "firebase/auth";
+import type { AuthUser, AuthProviderType } from "../../domain/entities/AuthUser";
 import { ensureUserDocument } from "@umituz/react-native-firebase";
 import { detectConversion, type ConversionState } from "./authConversionDetector";
-import { safeCallback } from "./safeCallback";
+import { safeCallback, safeCallbackSync } from "./safeCallback";
+
+export interface AuthConversion {
+  anonymousUserId: string;
+  userId: string;
+  /** Upgraded in place (linkWithCredential) rather than switched to another account */
+  sameUid: boolean;
+  provider: AuthProviderType;
+}
 
 interface AuthStateHandlerOptions {
   onUserConverted?: (anonymousId: string, authenticatedId: string) => void | Promise<void>;
-  onAuthStateChange?: (user: User | null) => void | Promise<void>;
+  /** Every anonymous to registered conversion, including upgrades that keep the UID */
+  onConversion?: (conversion: AuthConversion) => void;
+  onAuthStateChange?: (user: User | null, authUser: AuthUser | null) => void | Promise<void>;
 }
 
 /**
@@ -20,21 +31,24 @@ export function createAuthStateHandler(
   state: { current: ConversionState },
   options: AuthStateHandlerOptions
 ) {
-  return async (user: User | null): Promise<void> => {
-    const { onUserConverted, onAuthStateChange } = options;
+  return async (user: User | null, authUser: AuthUser | null): Promise<void> => {
+    const { onUserConverted, onConversion, onAuthStateChange } = options;
+    // Custom repositories only report the mapped user
+    const sessionUser = authUser ?? user;
 
-    if (!user) {
+    if (!sessionUser) {
       state.current = { previousUserId: null, wasAnonymous: false };
-      await safeCallback(onAuthStateChange, [null], '[AuthStateHandler]');
+      await safeCallback(onAuthStateChange, [null, null], '[AuthStateHandler]');
       return;
     }
 
-    const currentUserId = user.uid;
-    const isCurrentlyAnonymous = user.isAnonymous ?? false;
+    const currentUserId = sessionUser.uid;
+    const isCurrentlyAnonymous = sessionUser.isAnonymous ?? false;
 
     const conversion = detectConversion(state.current, currentUserId, isCurrentlyAnonymous);
 
-    if (conversion.isConversion && onUserConverted && state.current.previousUserId) {
+    // An upgrade that kept the UID needs no migration, only a switch to another account does
+    if (conversion.isNewUser && onUserConverted && state.current.previousUserId) {
       await safeCallback(
         onUserConverted,
         [state.current.previousUserId, currentUserId],
@@ -42,17 +56,29 @@ export function createAuthStateHandler(
       );
     }
 
+    if (conversion.isConversion && state.current.previousUserId) {
+      safeCallbackSync(onConversion, [{
+        anonymousUserId: state.current.previousUserId,
+        userId: currentUserId,
+        sameUid: conversion.isSameUser,
+        provider: authUser?.provider ?? "unknown",
+      }], '[AuthStateHandler]');
+    }
+
     const extras = conversion.isConversion && state.current.previousUserId
       ? { previousAnonymousUserId: state.current.previousUserId }
       : undefined;
 
-    try {
-      await ensureUserDocument(user, extras);
-    } catch (error) {
-      if (__DEV__) {
-        console.error('[AuthStateHandler] Failed to ensure user document:', error);
+    // The Firestore user document only exists for the Firebase repository
+    if (user) {
+      try {
+        await ensureUserDocument(user, extras);
+      } catch (error) {
+        if (__DEV__) {
+          console.error('[AuthStateHandler] Failed to ensure user document:', error);
+        }
+        // Continue execution - don't let user document creation failure block auth flow
       }
-      // Continue execution - don't let user document creation failure block auth flow
     }
 
     state.current = {
@@ -61,6 +87,6 @@ export function createAuthStateHandler(
     };
 
     // Call user callback with error handling
-    await safeCallback(onAuthStateChange, [user], '[AuthStateHandler]');
+    await safeCallback(onAuthStateChange, [user, authUser], '[AuthStateHandler]');
   };
 }
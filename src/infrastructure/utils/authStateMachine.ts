@@ -0,0 +1,85 @@
+/**
+ * Auth State Machine
+ * Guarded transitions of the auth status and the flags derived from it
+ */
+
+import type { AuthStateEvent, AuthStatus } from "../../types/auth-store.types";
+
+type EventType = AuthStateEvent["type"];
+
+/**
+ * Statuses in which the session is known
+ */
+const SETTLED_STATUSES: readonly AuthStatus[] = ["anonymous", "authenticated", "unauthenticated", "locked", "error"];
+
+/**
+ * Events each status accepts; anything else is an impossible transition
+ */
+const ALLOWED_EVENTS: Record<AuthStatus, readonly EventType[]> = {
+  booting: ["listenerStarted", "sessionResolved", "listenerUnavailable", "listenerFailed"],
+  restoring: ["sessionResolved", "anonymousSignInStarted", "listenerTimedOut", "listenerFailed"],
+  // The anonymous sign-in has its own timeout, the listener timeout must not settle it
+  signingInAnonymously: ["sessionResolved", "anonymousSignInFailed"],
+  anonymous: ["sessionResolved", "anonymousSignInStarted", "signOutStarted", "sessionLocked"],
+  authenticated: ["sessionResolved", "anonymousSignInStarted", "signOutStarted", "sessionLocked"],
+  unauthenticated: ["sessionResolved", "anonymousSignInStarted", "listenerStarted"],
+  signingOut: ["sessionResolved", "anonymousSignInStarted", "signOutFailed"],
+  // A sign-out from the lock screen stays locked until the session is gone
+  locked: ["sessionResolved", "anonymousSignInStarted", "sessionUnlocked"],
+  error: ["sessionResolved", "anonymousSignInStarted", "listenerStarted"],
+};
+
+function statusForUser(user: { isAnonymous: boolean } | null): AuthStatus {
+  if (!user) return "unauthenticated";
+  return user.isAnonymous ? "anonymous" : "authenticated";
+}
+
+/**
+ * Next status for event, or null when the current status doesn't accept it
+ */
+export function transitionAuthStatus(status: AuthStatus, event: AuthStateEvent): AuthStatus | null {
+  if (!ALLOWED_EVENTS[status].includes(event.type)) {
+    return null;
+  }
+
+  switch (event.type) {
+    case "listenerStarted":
+      return "restoring";
+    case "sessionResolved":
+      // Token refreshes report the same session, only a sign-out ends the lock
+      if (status === "locked" && event.user) return "locked";
+      return statusForUser(event.user);
+    case "signOutFailed":
+    case "sessionUnlocked":
+      return statusForUser(event.user);
+    case "listenerTimedOut":
+    case "listenerUnavailable":
+      return "unauthenticated";
+    case "listenerFailed":
+    case "anonymousSignInFailed":
+      return "error";
+    case "anonymousSignInStarted":
+      return "signingInAnonymously";
+    case "signOutStarted":
+      return "signingOut";
+    case "sessionLocked":
+      return "locked";
+  }
+}
+
+export function isSettledAuthStatus(status: AuthStatus): boolean {
+  return SETTLED_STATUSES.includes(status);
+}
+
+/**
+ * loading and initialized as the store keeps them for compatibility
+ */
+export function deriveAuthStatusFlags(
+  status: AuthStatus,
+  wasInitialized: boolean
+): { loading: boolean; initialized: boolean } {
+  return {
+    loading: !isSettledAuthStatus(status),
+    initialized: wasInitialized || isSettledAuthStatus(status),
+  };
+}
@@ -5,7 +5,8 @@
  */
 
 import type { AuthUser } from "../../../domain/entities/AuthUser";
-import type { UserType } from "../../../types/auth-store.types";
+import type { AuthStatus, UserType } from "../../../types/auth-store.types";
+import { isSettledAuthStatus } from "../authStateMachine";
 
 interface FirebaseUserLike {
   uid: string;
@@ -15,8 +16,8 @@ interface FirebaseUserLike {
 interface AuthStateInput {
   firebaseUser: FirebaseUserLike | null;
   user: AuthUser | null;
+  status: AuthStatus;
   loading: boolean;
-  initialized: boolean;
   error: string | null;
 }
 
@@ -61,10 +62,14 @@ export function calculateUserType(firebaseUser: FirebaseUserLike | null): UserTy
 }
 
 /**
- * Calculate if auth is ready (initialized and not loading)
+ * Calculate if auth is ready (session settled and no operation running)
  */
-export function calculateIsAuthReady(initialized: boolean, loading: boolean): boolean {
-  return initialized && !loading;
+export function calculateIsAuthReady(status: AuthStatus, loading?: boolean): boolean;
+/** @deprecated Pass the auth status */
+export function calculateIsAuthReady(initialized: boolean, loading: boolean): boolean;
+export function calculateIsAuthReady(status: AuthStatus | boolean, loading = false): boolean {
+  const settled = typeof status === "boolean" ? status : isSettledAuthStatus(status);
+  return settled && !loading;
 }
 
 /**
@@ -79,14 +84,16 @@ export function calculateDerivedAuthState(input: AuthStateInput): {
   userType: UserType;
   isAuthReady: boolean;
 } {
-  const { firebaseUser, initialized, loading } = input;
+  const { status, loading } = input;
+  // The mapped user exists for every backend, the raw Firebase user only for Firebase
+  const sessionUser = input.user ?? input.firebaseUser;
 
   return {
-    userId: calculateUserId(firebaseUser),
-    hasFirebaseUser: calculateHasFirebaseUser(firebaseUser),
-    isAnonymous: calculateIsAnonymous(firebaseUser),
-    isAuthenticated: calculateIsAuthenticated(firebaseUser),
-    userType: calculateUserType(firebaseUser),
-    isAuthReady: calculateIsAuthReady(initialized, loading),
+    userId: calculateUserId(sessionUser),
+    hasFirebaseUser: calculateHasFirebaseUser(sessionUser),
+    isAnonymous: calculateIsAnonymous(sessionUser),
+    isAuthenticated: calculateIsAuthenticated(sessionUser),
+    userType: calculateUserType(sessionUser),
+    isAuthReady: calculateIsAuthReady(status, loading),
   };
 }
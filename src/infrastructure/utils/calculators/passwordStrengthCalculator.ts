@@ -8,8 +8,9 @@ import {
   validatePasswordForRegister,
   validatePasswordConfirmation,
 } from "../AuthValidation";
-import type { PasswordConfig } from "../../../domain/value-objects/AuthConfig";
+import type { PasswordConfig, PasswordPolicyContext } from "../../../domain/value-objects/AuthConfig";
 import type { PasswordRequirements } from "../AuthValidation";
+import { estimatePasswordStrength } from "../../../shared/validation/strength/PasswordStrengthEstimator";
 
 // Re-export PasswordRequirements type
 export type { PasswordRequirements };
@@ -18,6 +19,7 @@ interface PasswordValidationInput {
   password: string;
   confirmPassword: string;
   config?: PasswordConfig;
+  context?: PasswordPolicyContext;
 }
 
 interface PasswordValidationResult {
@@ -32,14 +34,18 @@ interface PasswordValidationResult {
  */
 export function calculatePasswordRequirements(
   password: string,
-  config?: PasswordConfig
+  config?: PasswordConfig,
+  context?: PasswordPolicyContext
 ): PasswordRequirements {
-  if (!password || !config) {
-    return { hasMinLength: false };
+  if (!config) {
+    return { hasMinLength: false, checks: [] };
   }
 
-  const result = validatePasswordForRegister(password, config);
-  return result.requirements ?? { hasMinLength: false };
+  const { requirements } = validatePasswordForRegister(password ?? "", config, context);
+  if (!password) {
+    return requirements;
+  }
+  return { ...requirements, strength: estimatePasswordStrength(password, context) };
 }
 
 /**
@@ -60,10 +66,10 @@ export function calculatePasswordsMatch(
 export function calculatePasswordValidation(
   input: PasswordValidationInput
 ): PasswordValidationResult {
-  const { password, confirmPassword, config } = input;
+  const { password, confirmPassword, config, context } = input;
 
   // Calculate password requirements
-  const requirements = calculatePasswordRequirements(password, config);
+  const requirements = calculatePasswordRequirements(password, config, context);
 
   // Calculate if passwords match
   const passwordsMatch = calculatePasswordsMatch(password, confirmPassword);
@@ -76,7 +82,8 @@ export function calculatePasswordValidation(
   }
 
   // Calculate overall validity
-  const isValid = requirements.hasMinLength && passwordsMatch;
+  const isValid =
+    requirements.hasMinLength && requirements.checks.every((check) => check.isValid) && passwordsMatch;
 
   return {
     requirements,
@@ -88,7 +95,7 @@ export function calculatePasswordValidation(
 
 /**
  * Calculate password strength score (0-100)
- * Can be extended for more sophisticated strength calculation
+ * The estimator's 0-4 score in steps of 25, capped at 25 until the minimum length is met
  */
 export function calculatePasswordStrength(
   password: string,
@@ -96,25 +103,6 @@ export function calculatePasswordStrength(
 ): number {
   if (!password) return 0;
 
-  let score = 0;
-
-  // Base score for meeting minimum length
-  if (requirements.hasMinLength) {
-    score += 40;
-  }
-
-  // Additional points for length
-  if (password.length >= 8) score += 20;
-  if (password.length >= 12) score += 20;
-
-  // Additional points for variety (can be extended)
-  const hasLower = /[a-z]/.test(password);
-  const hasUpper = /[A-Z]/.test(password);
-  const hasNumber = /[0-9]/.test(password);
-  const hasSpecial = /[^a-zA-Z0-9]/.test(password);
-
-  const varietyCount = [hasLower, hasUpper, hasNumber, hasSpecial].filter(Boolean).length;
-  score += varietyCount * 5;
-
-  return Math.min(score, 100);
+  const score = (requirements.strength ?? estimatePasswordStrength(password)).score * 25;
+  return requirements.hasMinLength ? score : Math.min(score, 25);
 }
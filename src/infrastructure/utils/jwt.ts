@@ -0,0 +1,54 @@
+/**
+ * JWT Utility
+ * Reads claims from a JWT without verifying it (the server does that)
+ */
+
+/**
+ * Decode the payload of a JWT, null when it isn't one
+ */
+export function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  const [, payload] = token.split(".");
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+    const json: unknown = JSON.parse(decodeBase64(padded));
+    return json && typeof json === "object" ? (json as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Expiry of a JWT in milliseconds since epoch, null without an exp claim
+ */
+export function getJwtExpiry(token: string): number | null {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
+
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function decodeBase64(input: string): string {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of input) {
+    if (char === "=") break;
+    const value = BASE64_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error("Invalid base64 character");
+    }
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >>> bits) & 0xff);
+    }
+  }
+
+  // Claims may contain non-ASCII text (names), so decode as UTF-8
+  return decodeURIComponent(bytes.map((byte) => `%${byte.toString(16).padStart(2, "0")}`).join(""));
+}
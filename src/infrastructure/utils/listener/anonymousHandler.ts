@@ -3,7 +3,6 @@
  * Handles anonymous sign-in flow
  */
 
-import type { Auth } from "firebase/auth";
 import type { AuthActions } from "../../../types/auth-store.types";
 import { createAnonymousSignInHandler } from "./anonymousSignInHandler";
 import {
@@ -14,12 +13,15 @@ import {
 /**
  * Handle anonymous mode sign-in
  */
-export async function handleAnonymousMode(store: AuthActions, auth: Auth): Promise<void> {
+export async function handleAnonymousMode(
+  store: AuthActions,
+  signInAnonymously: () => Promise<unknown>
+): Promise<void> {
   if (!startAnonymousSignIn()) {
     return; // Already signing in
   }
 
-  const handleAnonymousSignIn = createAnonymousSignInHandler(auth, store);
+  const handleAnonymousSignIn = createAnonymousSignInHandler(signInAnonymously, store);
 
   try {
     await handleAnonymousSignIn();
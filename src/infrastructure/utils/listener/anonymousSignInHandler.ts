@@ -3,9 +3,7 @@
  * Handles anonymous authentication retry logic with timeout protection
  */
 
-import { anonymousAuthService } from "@umituz/react-native-firebase";
-import type { Auth } from "firebase/auth";
-import type { User } from "firebase/auth";
+import type { AuthActions } from "../../../types/auth-store.types";
 
 const MAX_ANONYMOUS_RETRIES = 2;
 const ANONYMOUS_RETRY_DELAY_MS = 1000;
@@ -16,6 +14,8 @@ interface AnonymousSignInCallbacks {
     onSignInFailure: (error: Error) => void;
 }
 
+type SignInAnonymously = () => Promise<unknown>;
+
 interface AnonymousSignInOptions {
     maxRetries?: number;
     retryDelay?: number;
@@ -24,12 +24,12 @@ interface AnonymousSignInOptions {
 
 /**
  * Attempt anonymous sign-in with retry logic and timeout protection
- * @param auth - Firebase Auth instance
+ * @param signInAnonymously - Repository anonymous sign-in
  * @param callbacks - Callback functions for sign-in events
  * @param options - Configuration options
  */
 async function attemptAnonymousSignIn(
-    auth: Auth,
+    signInAnonymously: SignInAnonymously,
     callbacks: Omit<AnonymousSignInCallbacks, 'onSignInStart'>,
     options: AnonymousSignInOptions = {}
 ): Promise<void> {
@@ -49,7 +49,7 @@ async function attemptAnonymousSignIn(
 
         // Race between sign-in and timeout
         await Promise.race([
-            performAnonymousSignIn(auth, maxRetries, retryDelay),
+            performAnonymousSignIn(signInAnonymously, maxRetries, retryDelay),
             timeoutPromise,
         ]);
 
@@ -69,13 +69,13 @@ async function attemptAnonymousSignIn(
  * Perform anonymous sign-in with retry logic
  */
 async function performAnonymousSignIn(
-    auth: Auth,
+    signInAnonymously: SignInAnonymously,
     maxRetries: number,
     retryDelay: number
 ): Promise<void> {
     for (let attempt = 0; attempt < maxRetries; attempt++) {
         try {
-            await anonymousAuthService.signInAnonymously(auth);
+            await signInAnonymously();
             return;
         } catch (error) {
             // If not last attempt, wait and retry
@@ -95,26 +95,19 @@ async function performAnonymousSignIn(
  * Returns a function that can be called when no user is detected
  */
 export function createAnonymousSignInHandler(
-    auth: Auth | null,
-    store: {
-        setFirebaseUser: (user: User | null) => void;
-        setLoading: (loading: boolean) => void;
-        setInitialized: (initialized: boolean) => void;
-        setError: (error: string | null) => void;
-    }
+    signInAnonymously: SignInAnonymously | null,
+    store: Pick<AuthActions, "setUser" | "transition">
 ): () => Promise<void> {
     return async () => {
-        if (!auth) {
-            store.setFirebaseUser(null);
-            store.setLoading(false);
-            store.setInitialized(true);
+        if (!signInAnonymously) {
+            store.setUser(null);
             return;
         }
 
-        store.setLoading(true);
+        store.transition({ type: "anonymousSignInStarted" });
 
         await attemptAnonymousSignIn(
-            auth,
+            signInAnonymously,
             {
                 onSignInSuccess: () => {
                     // Listener will be triggered again with the new user
@@ -123,10 +116,10 @@ export function createAnonymousSignInHandler(
                     if (__DEV__) {
                         console.error("[AnonymousSignIn] Failed:", error.message);
                     }
-                    store.setFirebaseUser(null);
-                    store.setLoading(false);
-                    store.setInitialized(true);
-                    store.setError("Failed to sign in anonymously. Please check your connection.");
+                    store.transition({
+                        type: "anonymousSignInFailed",
+                        error: "Failed to sign in anonymously. Please check your connection.",
+                    });
                 },
             },
             {
@@ -1,52 +1,51 @@
 /**
  * Auth State Change Handler
- * Processes Firebase auth state changes and updates store
+ * Processes repository auth state changes and updates store
  */
 
-import type { Auth, User } from "firebase/auth";
+import type { User } from "firebase/auth";
 import type { AuthActions } from "../../../types/auth-store.types";
+import type { AuthUser } from "../../../domain/entities/AuthUser";
 import { handleAnonymousMode } from "./anonymousHandler";
 import { safeCallbackSync } from "../safeCallback";
 
 type StoreActions = AuthActions;
-type GetIsAnonymous = () => boolean;
 
 /**
- * Handle auth state change from Firebase
+ * Handle auth state change from the auth repository
+ * providerUser is the Firebase User with the Firebase repository, anything else is ignored
  */
 export function handleAuthStateChange(
-  user: User | null,
+  user: AuthUser | null,
+  providerUser: unknown,
   store: StoreActions,
-  auth: Auth,
+  signInAnonymously: () => Promise<unknown>,
   autoAnonymousSignIn: boolean,
-  onAuthStateChange?: (user: User | null) => void | Promise<void>,
-  getIsAnonymous?: GetIsAnonymous
+  onAuthStateChange?: (user: User | null, authUser: AuthUser | null) => void | Promise<void>
 ): void {
   try {
     if (!user && autoAnonymousSignIn) {
-      // Don't call completeInitialization here - handleAnonymousMode
-      // will set initialized/loading when anonymous sign-in completes or fails.
-      void handleAnonymousMode(store, auth);
+      // Don't resolve the session here - handleAnonymousMode moves the status
+      // to signingInAnonymously and the listener fires again with the new user.
+      void handleAnonymousMode(store, signInAnonymously);
       return;
     }
 
-    store.setFirebaseUser(user);
-    store.setInitialized(true);
-
-    // Handle conversion from anonymous - read fresh state, not stale snapshot
-    const currentIsAnonymous = getIsAnonymous ? getIsAnonymous() : false;
-    if (user && !user.isAnonymous && currentIsAnonymous) {
-      store.setIsAnonymous(false);
-    }
+    const firebaseUser = user && isFirebaseUser(providerUser) ? providerUser : null;
+    // Resolves the status, a conversion moves anonymous → authenticated
+    store.setUser(user, firebaseUser);
 
     // Call user callback with proper error handling for async callbacks
-    safeCallbackSync(onAuthStateChange, [user], '[AuthListener]');
+    safeCallbackSync(onAuthStateChange, [firebaseUser, user], '[AuthListener]');
   } catch (error) {
     if (__DEV__) {
       console.error("[AuthListener] Error handling auth state change:", error);
     }
-    // Ensure we don't leave the app in a bad state
-    store.setInitialized(true);
-    store.setLoading(false);
+    // Ensure we don't leave the app restoring forever
+    store.transition({ type: "listenerFailed" });
   }
 }
+
+function isFirebaseUser(value: unknown): value is User {
+  return typeof value === "object" && value !== null && "providerData" in value && "getIdToken" in value;
+}
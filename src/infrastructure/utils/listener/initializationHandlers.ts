@@ -7,12 +7,11 @@ import type { AuthActions } from "../../../types/auth-store.types";
 import { completeInitialization } from "./listenerState.util";
 
 /**
- * Handle case where Firebase auth is not available
+ * Handle case where the auth service is not available
  */
-export function handleNoFirebaseAuth(store: AuthActions): () => void {
+export function handleNoAuthService(store: AuthActions): () => void {
   completeInitialization();
-  store.setLoading(false);
-  store.setInitialized(true);
+  store.transition({ type: "listenerUnavailable" });
   return () => {};
 }
 
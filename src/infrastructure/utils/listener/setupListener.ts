@@ -1,12 +1,12 @@
 /**
  * Setup Auth Listener
- * Configures Firebase auth listener with timeout protection
+ * Subscribes to the auth repository's state changes with timeout protection
  */
 
-import type { Auth, User } from "firebase/auth";
-import { onIdTokenChanged } from "firebase/auth";
+import type { User } from "firebase/auth";
 import type { AuthActions } from "../../../types/auth-store.types";
-import { getAuthService } from "../../services/AuthService";
+import type { AuthUser } from "../../../domain/entities/AuthUser";
+import type { AuthService } from "../../services/AuthService";
 import { completeInitialization, setUnsubscribe } from "./listenerState.util";
 import { handleAuthStateChange } from "./authListenerStateHandler";
 
@@ -15,44 +15,44 @@ const AUTH_LISTENER_TIMEOUT_MS = 10000;
 type StoreActions = AuthActions;
 
 /**
- * Setup Firebase auth listener with timeout protection
- * @param getIsAnonymous - Function to read fresh isAnonymous state (avoids stale snapshots)
+ * Setup auth listener with timeout protection
+ * @param service - Auth service whose repository emits the user changes
  */
 export function setupAuthListener(
-  auth: Auth,
+  service: AuthService,
   store: StoreActions,
   autoAnonymousSignIn: boolean,
-  onAuthStateChange?: (user: User | null) => void | Promise<void>,
-  getIsAnonymous?: () => boolean
+  onAuthStateChange?: (user: User | null, authUser: AuthUser | null) => void | Promise<void>
 ): void {
-  const service = getAuthService();
+  store.transition({ type: "listenerStarted" });
 
-  if (service) {
-    const isAnonymous = service.getIsAnonymousMode();
-    if (isAnonymous) {
-      store.setIsAnonymous(true);
-    }
-  }
+  const signInAnonymously = () => service.signInAnonymously();
 
-  // Safety timeout: if listener doesn't trigger within AUTH_LISTENER_TIMEOUT_MS, mark as initialized
+  // Safety timeout: if listener doesn't trigger within AUTH_LISTENER_TIMEOUT_MS, settle as unauthenticated
   let hasTriggered = false;
   const timeout = setTimeout(() => {
     if (!hasTriggered) {
       if (__DEV__) {
         console.warn("[AuthListener] Auth listener timeout - marking as initialized");
       }
-      store.setInitialized(true);
-      store.setLoading(false);
+      store.transition({ type: "listenerTimedOut" });
     }
   }, AUTH_LISTENER_TIMEOUT_MS);
 
   try {
-    const unsubscribe = onIdTokenChanged(auth, (user) => {
+    const unsubscribe = service.onAuthStateChange((user, providerUser) => {
       if (!hasTriggered) {
         hasTriggered = true;
         clearTimeout(timeout);
       }
-      handleAuthStateChange(user, store, auth, autoAnonymousSignIn, onAuthStateChange, getIsAnonymous);
+      handleAuthStateChange(
+        user,
+        providerUser,
+        store,
+        signInAnonymously,
+        autoAnonymousSignIn,
+        onAuthStateChange
+      );
     });
 
     setUnsubscribe(unsubscribe);
@@ -63,9 +63,7 @@ export function setupAuthListener(
       console.error("[AuthListener] Failed to setup auth listener:", error);
     }
     completeInitialization();
-    store.setLoading(false);
-    store.setInitialized(true);
-    store.setError("Failed to initialize authentication listener");
+    store.transition({ type: "listenerFailed", error: "Failed to initialize authentication listener" });
     // Don't re-throw - app state is already cleaned up and consistent
   }
 }
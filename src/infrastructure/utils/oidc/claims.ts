@@ -0,0 +1,89 @@
+/**
+ * OIDC Claims Utility
+ * Reads and checks ID token claims and maps them to an AuthUser
+ * Signature checks are left to the auth backend that receives the token
+ */
+
+import type { AuthUser, OAuthProviderType } from "../../../domain/entities/AuthUser";
+import type { OidcClaims } from "../../../domain/entities/OidcAuth";
+import { AuthError } from "../../../domain/errors/AuthError";
+import { decodeJwtPayload } from "../jwt";
+
+export interface IdTokenExpectations {
+  issuer: string;
+  clientId: string;
+  nonce: string;
+  /** Milliseconds since epoch (default: Date.now()) */
+  now?: number;
+  /** Tolerated clock difference with the provider (default: 5 minutes) */
+  clockSkewMs?: number;
+}
+
+const DEFAULT_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+function invalidResponse(message: string): AuthError {
+  return new AuthError(message, "AUTH_OIDC_INVALID_RESPONSE");
+}
+
+/**
+ * Claims of an object returned by the provider (ID token payload or userinfo)
+ */
+export function toOidcClaims(value: unknown): OidcClaims {
+  const claims = value && typeof value === "object" ? (value as Record<string, unknown>) : null;
+  // GitHub's user endpoint has a numeric id instead of sub
+  const subject = claims?.sub ?? claims?.id;
+  if (!claims || (typeof subject !== "string" && typeof subject !== "number")) {
+    throw invalidResponse("Provider response has no subject");
+  }
+  return { ...claims, sub: String(subject) };
+}
+
+/**
+ * Decode an ID token and check issuer, audience, expiry and nonce
+ */
+export function parseIdToken(idToken: string, expected: IdTokenExpectations): OidcClaims {
+  const claims = toOidcClaims(decodeJwtPayload(idToken));
+  const now = expected.now ?? Date.now();
+  const clockSkewMs = expected.clockSkewMs ?? DEFAULT_CLOCK_SKEW_MS;
+
+  if (claims.iss?.replace(/\/+$/, "") !== expected.issuer) {
+    throw invalidResponse("ID token was issued by another issuer");
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(expected.clientId)) {
+    throw invalidResponse("ID token was issued for another client");
+  }
+
+  if (typeof claims.exp !== "number" || claims.exp * 1000 + clockSkewMs < now) {
+    throw invalidResponse("ID token has expired");
+  }
+
+  if (claims.nonce !== expected.nonce) {
+    throw invalidResponse("ID token nonce does not match the request");
+  }
+
+  return claims;
+}
+
+function stringClaim(claims: OidcClaims, name: string): string | null {
+  const value = claims[name];
+  return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+/**
+ * AuthUser as described by the provider's claims
+ */
+export function mapOidcClaimsToAuthUser(claims: OidcClaims, providerId: OAuthProviderType): AuthUser {
+  return {
+    uid: claims.sub,
+    email: stringClaim(claims, "email"),
+    displayName: stringClaim(claims, "name") ?? stringClaim(claims, "preferred_username") ?? stringClaim(claims, "login"),
+    isAnonymous: false,
+    emailVerified: claims.email_verified === true,
+    photoURL: stringClaim(claims, "picture") ?? stringClaim(claims, "avatar_url"),
+    phoneNumber: stringClaim(claims, "phone_number"),
+    provider: providerId,
+    providers: [providerId],
+  };
+}
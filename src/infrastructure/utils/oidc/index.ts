@@ -0,0 +1,10 @@
+/**
+ * OIDC Utilities Index
+ * Centralized exports for the PKCE and ID token helpers
+ */
+
+export { createPkcePair, createCodeChallenge, generateRandomToken, base64UrlEncode } from "./pkce";
+export type { PkcePair, RandomBytesSource } from "./pkce";
+export { parseIdToken, toOidcClaims, mapOidcClaimsToAuthUser } from "./claims";
+export type { IdTokenExpectations } from "./claims";
+export { sha256 } from "./sha256";
@@ -0,0 +1,85 @@
+/**
+ * PKCE Utility
+ * Code verifier, code challenge, state and nonce for the authorization code flow (RFC 7636)
+ */
+
+import { sha256 } from "./sha256";
+
+export interface PkcePair {
+  codeVerifier: string;
+  /** S256 challenge sent in the authorization request */
+  codeChallenge: string;
+}
+
+export type RandomBytesSource = (length: number) => Uint8Array;
+
+const VERIFIER_BYTES = 32;
+const STATE_BYTES = 16;
+const BASE64URL_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+/**
+ * Unpadded base64url encoding
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 6) {
+      output += BASE64URL_ALPHABET[(buffer >>> (bits - 6)) & 63];
+      bits -= 6;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE64URL_ALPHABET[(buffer << (6 - bits)) & 63];
+  }
+
+  return output;
+}
+
+/**
+ * Secure random bytes; pass randomBytes to use a specific source (e.g. expo-crypto),
+ * defaults to crypto.getRandomValues when available
+ */
+function getRandomBytes(length: number, randomBytes?: RandomBytesSource): Uint8Array {
+  if (randomBytes) {
+    return randomBytes(length);
+  }
+
+  const cryptoSource = (globalThis as { crypto?: { getRandomValues?: (array: Uint8Array) => Uint8Array } }).crypto;
+  if (!cryptoSource?.getRandomValues) {
+    throw new Error("No secure random source available, pass randomBytes");
+  }
+  return cryptoSource.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * Random URL-safe string for state and nonce parameters
+ */
+export function generateRandomToken(byteLength: number = STATE_BYTES, randomBytes?: RandomBytesSource): string {
+  return base64UrlEncode(getRandomBytes(byteLength, randomBytes));
+}
+
+/**
+ * S256 challenge for a code verifier
+ */
+export function createCodeChallenge(codeVerifier: string): string {
+  // Verifiers only contain unreserved ASCII characters
+  const bytes = new Uint8Array(codeVerifier.length);
+  for (let i = 0; i < codeVerifier.length; i++) {
+    bytes[i] = codeVerifier.charCodeAt(i);
+  }
+  return base64UrlEncode(sha256(bytes));
+}
+
+/**
+ * New code verifier (43 characters) with its S256 challenge
+ */
+export function createPkcePair(randomBytes?: RandomBytesSource): PkcePair {
+  const codeVerifier = generateRandomToken(VERIFIER_BYTES, randomBytes);
+  return { codeVerifier, codeChallenge: createCodeChallenge(codeVerifier) };
+}
@@ -0,0 +1,61 @@
+/**
+ * PIN Hash Utility
+ * Salted, iterated SHA-256 so stored app lock PINs can't be read back
+ */
+
+import { sha256 } from "./oidc/sha256";
+import { base64UrlEncode, generateRandomToken, type RandomBytesSource } from "./oidc/pkce";
+
+export interface PinHash {
+  salt: string;
+  iterations: number;
+  hash: string;
+}
+
+const SALT_BYTES = 16;
+const PIN_HASH_ITERATIONS = 5000;
+
+function toBytes(value: string): Uint8Array {
+  // Salts are base64url and PINs digits, both ASCII
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function derive(pin: string, salt: string, iterations: number): string {
+  const pinBytes = toBytes(pin);
+  let digest = sha256(toBytes(`${salt}:${pin}`));
+
+  for (let i = 1; i < iterations; i++) {
+    const input = new Uint8Array(digest.length + pinBytes.length);
+    input.set(digest);
+    input.set(pinBytes, digest.length);
+    digest = sha256(input);
+  }
+
+  return base64UrlEncode(digest);
+}
+
+/**
+ * Hash a PIN with a new random salt
+ */
+export function hashPin(pin: string, randomBytes?: RandomBytesSource): PinHash {
+  const salt = generateRandomToken(SALT_BYTES, randomBytes);
+  return { salt, iterations: PIN_HASH_ITERATIONS, hash: derive(pin, salt, PIN_HASH_ITERATIONS) };
+}
+
+/**
+ * Compare a PIN against a stored hash without exiting early on the first difference
+ */
+export function verifyPinHash(pin: string, stored: PinHash): boolean {
+  const hash = derive(pin, stored.salt, stored.iterations);
+  if (hash.length !== stored.hash.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < hash.length; i++) {
+    difference |= hash.charCodeAt(i) ^ stored.hash.charCodeAt(i);
+  }
+  return difference === 0;
+}
@@ -0,0 +1,35 @@
+import { base32Decode, base32Encode } from "../base32";
+
+const asciiBytes = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+describe("base32", () => {
+  it.each([
+    ["", ""],
+    ["f", "MY"],
+    ["fo", "MZXQ"],
+    ["foo", "MZXW6"],
+    ["foob", "MZXW6YQ"],
+    ["fooba", "MZXW6YTB"],
+    ["foobar", "MZXW6YTBOI"],
+  ])("encodes %j like RFC 4648, without padding", (text, encoded) => {
+    expect(base32Encode(asciiBytes(text))).toBe(encoded);
+    expect(base32Decode(encoded)).toEqual(asciiBytes(text));
+  });
+
+  it("round-trips every byte value at every length", () => {
+    const allBytes = Uint8Array.from({ length: 256 }, (_, index) => index);
+    for (let length = 0; length <= 40; length++) {
+      const bytes = allBytes.slice(length * 5, length * 5 + length);
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    }
+    expect(base32Decode(base32Encode(allBytes))).toEqual(allBytes);
+  });
+
+  it("ignores case, spaces, dashes and padding when decoding", () => {
+    expect(base32Decode("mzxw 6ytb-oi======")).toEqual(asciiBytes("foobar"));
+  });
+
+  it("throws on characters outside the alphabet", () => {
+    expect(() => base32Decode("MZXW1")).toThrow("Invalid base32 character: 1");
+  });
+});
@@ -0,0 +1,35 @@
+import { hmacSha1, sha1 } from "../sha1";
+
+const asciiBytes = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0));
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+describe("sha1", () => {
+  it.each([
+    ["", "da39a3ee5e6b4b0d3255bfef95601890afd80709"],
+    ["abc", "a9993e364706816aba3e25717850c26c9cd0d89d"],
+    [
+      "abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq",
+      "84983e441c3bd26ebaae4aa1f95129e5e54670f1",
+    ],
+  ])("hashes %j like FIPS 180", (message, digest) => {
+    expect(toHex(sha1(asciiBytes(message)))).toBe(digest);
+  });
+
+  it("pads messages that end exactly on a block boundary", () => {
+    expect(toHex(sha1(asciiBytes("a".repeat(64))))).toBe("0098ba824b5c16427bd7a1122a5a442a25ec644d");
+  });
+});
+
+describe("hmacSha1", () => {
+  it.each([
+    [new Uint8Array(20).fill(0x0b), "Hi There", "b617318655057264e28bc0b6fb378c8ef146be00"],
+    [asciiBytes("Jefe"), "what do ya want for nothing?", "effcdf6ae5eb2fa2d27416d5f184df9c259a7c79"],
+    [
+      new Uint8Array(80).fill(0xaa),
+      "Test Using Larger Than Block-Size Key - Hash Key First",
+      "aa4ae5e15272d00e95705637ce8a3b55ed402112",
+    ],
+  ])("matches RFC 2202 test case %#", (key, message, mac) => {
+    expect(toHex(hmacSha1(key, asciiBytes(message)))).toBe(mac);
+  });
+});
@@ -0,0 +1,100 @@
+import { base32Encode } from "../base32";
+import { generateHotpCode, generateTotpCode, verifyTotpCode } from "../totp";
+
+const asciiBytes = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+/** "12345678901234567890", the SHA-1 seed of RFC 4226 and RFC 6238 */
+const RFC_SECRET = base32Encode(asciiBytes("12345678901234567890"));
+
+describe("generateHotpCode", () => {
+  it("matches the RFC 4226 test values", () => {
+    const expected = [
+      "755224", "287082", "359152", "969429", "338314",
+      "254676", "287922", "162583", "399871", "520489",
+    ];
+    expected.forEach((code, counter) => {
+      expect(generateHotpCode(RFC_SECRET, counter)).toBe(code);
+    });
+  });
+});
+
+describe("generateTotpCode", () => {
+  it.each([
+    [59, "94287082"],
+    [1111111109, "07081804"],
+    [1111111111, "14050471"],
+    [1234567890, "89005924"],
+    [2000000000, "69279037"],
+    [20000000000, "65353130"],
+  ])("matches the RFC 6238 SHA-1 value at %i s", (seconds, code) => {
+    expect(generateTotpCode(RFC_SECRET, { digits: 8, timestamp: seconds * 1000 })).toBe(code);
+  });
+
+  it("defaults to 6 digits, keeping leading zeros", () => {
+    expect(generateTotpCode(RFC_SECRET, { timestamp: 1111111109 * 1000 })).toBe("081804");
+  });
+
+  it("uses the same code for the whole period", () => {
+    const stepStart = 1234567890 * 1000 - ((1234567890 * 1000) % 30000);
+    expect(generateTotpCode(RFC_SECRET, { timestamp: stepStart })).toBe(
+      generateTotpCode(RFC_SECRET, { timestamp: stepStart + 29999 })
+    );
+    expect(generateTotpCode(RFC_SECRET, { timestamp: stepStart })).not.toBe(
+      generateTotpCode(RFC_SECRET, { timestamp: stepStart + 30000 })
+    );
+  });
+});
+
+describe("verifyTotpCode", () => {
+  const now = 1234567890 * 1000;
+  const codeAt = (steps: number) => generateTotpCode(RFC_SECRET, { timestamp: now + steps * 30000 });
+
+  it("accepts the current code", () => {
+    expect(verifyTotpCode(RFC_SECRET, codeAt(0), { timestamp: now })).toBe(true);
+  });
+
+  it("accepts one step of drift either way by default", () => {
+    expect(verifyTotpCode(RFC_SECRET, codeAt(-1), { timestamp: now })).toBe(true);
+    expect(verifyTotpCode(RFC_SECRET, codeAt(1), { timestamp: now })).toBe(true);
+  });
+
+  it("rejects codes outside the window", () => {
+    expect(verifyTotpCode(RFC_SECRET, codeAt(-2), { timestamp: now })).toBe(false);
+    expect(verifyTotpCode(RFC_SECRET, codeAt(2), { timestamp: now })).toBe(false);
+  });
+
+  it("only accepts the current step with window 0", () => {
+    expect(verifyTotpCode(RFC_SECRET, codeAt(0), { timestamp: now, window: 0 })).toBe(true);
+    expect(verifyTotpCode(RFC_SECRET, codeAt(-1), { timestamp: now, window: 0 })).toBe(false);
+    expect(verifyTotpCode(RFC_SECRET, codeAt(1), { timestamp: now, window: 0 })).toBe(false);
+  });
+
+  it("widens with a larger window", () => {
+    expect(verifyTotpCode(RFC_SECRET, codeAt(-2), { timestamp: now, window: 2 })).toBe(true);
+    expect(verifyTotpCode(RFC_SECRET, codeAt(2), { timestamp: now, window: 2 })).toBe(true);
+    expect(verifyTotpCode(RFC_SECRET, codeAt(3), { timestamp: now, window: 2 })).toBe(false);
+  });
+
+  it("skips steps before the epoch", () => {
+    const firstCode = generateTotpCode(RFC_SECRET, { timestamp: 0 });
+    expect(verifyTotpCode(RFC_SECRET, firstCode, { timestamp: 0, window: 3 })).toBe(true);
+  });
+
+  it("ignores spaces in the code", () => {
+    const code = codeAt(0);
+    expect(verifyTotpCode(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, { timestamp: now })).toBe(true);
+  });
+
+  it("rejects codes of the wrong length or with non-digits", () => {
+    const code = codeAt(0);
+    expect(verifyTotpCode(RFC_SECRET, code.slice(1), { timestamp: now })).toBe(false);
+    expect(verifyTotpCode(RFC_SECRET, `${code}0`, { timestamp: now })).toBe(false);
+    expect(verifyTotpCode(RFC_SECRET, `${code.slice(1)}a`, { timestamp: now })).toBe(false);
+    expect(verifyTotpCode(RFC_SECRET, "", { timestamp: now })).toBe(false);
+  });
+
+  it("checks 8 digit codes when configured", () => {
+    expect(verifyTotpCode(RFC_SECRET, "89005924", { digits: 8, timestamp: now })).toBe(true);
+    expect(verifyTotpCode(RFC_SECRET, "005924", { digits: 8, timestamp: now })).toBe(false);
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * TOTP Utilities Index
+ * Centralized exports for the pure TOTP implementation
+ */
+
+export {
+  generateTotpSecret,
+  generateHotpCode,
+  generateTotpCode,
+  verifyTotpCode,
+  buildOtpauthUri,
+} from "./totp";
+export type { TotpOptions, TotpVerifyOptions, OtpauthUriParams } from "./totp";
+export { base32Encode, base32Decode } from "./base32";
@@ -0,0 +1,106 @@
+/**
+ * SHA-1 / HMAC-SHA1
+ * Pure TypeScript implementation for TOTP (RFC 2104, FIPS 180-4)
+ * Avoids native crypto so codes can be computed and tested anywhere
+ */
+
+function rotateLeft(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits));
+}
+
+/**
+ * SHA-1 digest of the given bytes
+ */
+export function sha1(message: Uint8Array): Uint8Array {
+  const bitLength = message.length * 8;
+  // Message + 0x80 + zero padding + 64-bit length, rounded up to 64-byte blocks
+  const paddedLength = Math.ceil((message.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(message);
+  padded[message.length] = 0x80;
+
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  let h0 = 0x67452301;
+  let h1 = 0xefcdab89;
+  let h2 = 0x98badcfe;
+  let h3 = 0x10325476;
+  let h4 = 0xc3d2e1f0;
+
+  const words = new Uint32Array(80);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      words[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 80; i++) {
+      words[i] = rotateLeft(words[i - 3] ^ words[i - 8] ^ words[i - 14] ^ words[i - 16], 1);
+    }
+
+    let a = h0;
+    let b = h1;
+    let c = h2;
+    let d = h3;
+    let e = h4;
+
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+
+      const temp = (rotateLeft(a, 5) + f + e + k + words[i]) >>> 0;
+      e = d;
+      d = c;
+      c = rotateLeft(b, 30) >>> 0;
+      b = a;
+      a = temp;
+    }
+
+    h0 = (h0 + a) >>> 0;
+    h1 = (h1 + b) >>> 0;
+    h2 = (h2 + c) >>> 0;
+    h3 = (h3 + d) >>> 0;
+    h4 = (h4 + e) >>> 0;
+  }
+
+  const digest = new Uint8Array(20);
+  const digestView = new DataView(digest.buffer);
+  [h0, h1, h2, h3, h4].forEach((word, index) => digestView.setUint32(index * 4, word));
+  return digest;
+}
+
+const SHA1_BLOCK_SIZE = 64;
+
+/**
+ * HMAC-SHA1 of the message with the given key
+ */
+export function hmacSha1(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const normalizedKey = key.length > SHA1_BLOCK_SIZE ? sha1(key) : key;
+  const paddedKey = new Uint8Array(SHA1_BLOCK_SIZE);
+  paddedKey.set(normalizedKey);
+
+  const inner = new Uint8Array(SHA1_BLOCK_SIZE + message.length);
+  const outer = new Uint8Array(SHA1_BLOCK_SIZE + 20);
+  for (let i = 0; i < SHA1_BLOCK_SIZE; i++) {
+    inner[i] = paddedKey[i] ^ 0x36;
+    outer[i] = paddedKey[i] ^ 0x5c;
+  }
+  inner.set(message, SHA1_BLOCK_SIZE);
+  outer.set(sha1(inner), SHA1_BLOCK_SIZE);
+
+  return sha1(outer);
+}
@@ -0,0 +1,122 @@
+/**
+ * TOTP Utility
+ * Pure time-based one-time password functions (RFC 6238 / RFC 4226)
+ * No platform crypto or network, so codes can be generated and checked offline
+ */
+
+import { hmacSha1 } from "./sha1";
+import { base32Decode, base32Encode } from "./base32";
+
+export interface TotpOptions {
+  /** Code length (default: 6) */
+  digits?: number;
+  /** Step in seconds (default: 30) */
+  period?: number;
+  /** Unix time in milliseconds (default: Date.now()) */
+  timestamp?: number;
+}
+
+export interface TotpVerifyOptions extends TotpOptions {
+  /** Accepted steps before/after the current one to tolerate clock drift (default: 1) */
+  window?: number;
+}
+
+export interface OtpauthUriParams {
+  /** Base32 secret */
+  secret: string;
+  /** Usually the user's email */
+  accountName: string;
+  issuer: string;
+  digits?: number;
+  period?: number;
+}
+
+const DEFAULT_DIGITS = 6;
+const DEFAULT_PERIOD = 30;
+const DEFAULT_SECRET_BYTES = 20;
+
+/**
+ * Generate a base32 secret. Pass randomBytes to use a specific source
+ * (e.g. expo-crypto); defaults to crypto.getRandomValues when available.
+ */
+export function generateTotpSecret(
+  byteLength: number = DEFAULT_SECRET_BYTES,
+  randomBytes?: (length: number) => Uint8Array
+): string {
+  if (randomBytes) {
+    return base32Encode(randomBytes(byteLength));
+  }
+
+  const cryptoSource = (globalThis as { crypto?: { getRandomValues?: (array: Uint8Array) => Uint8Array } }).crypto;
+  if (!cryptoSource?.getRandomValues) {
+    throw new Error("No secure random source available, pass randomBytes");
+  }
+  return base32Encode(cryptoSource.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * HOTP value for a counter (RFC 4226)
+ */
+export function generateHotpCode(secret: string, counter: number, digits: number = DEFAULT_DIGITS): string {
+  const message = new Uint8Array(8);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, Math.floor(counter / 0x100000000));
+  view.setUint32(4, counter >>> 0);
+
+  const hmac = hmacSha1(base32Decode(secret), message);
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, "0");
+}
+
+/**
+ * TOTP code for the given time (RFC 6238, HMAC-SHA1)
+ */
+export function generateTotpCode(secret: string, options: TotpOptions = {}): string {
+  const { digits = DEFAULT_DIGITS, period = DEFAULT_PERIOD, timestamp = Date.now() } = options;
+  const counter = Math.floor(timestamp / 1000 / period);
+  return generateHotpCode(secret, counter, digits);
+}
+
+/**
+ * Check a code against the current step and the surrounding window
+ */
+export function verifyTotpCode(secret: string, code: string, options: TotpVerifyOptions = {}): boolean {
+  const { digits = DEFAULT_DIGITS, period = DEFAULT_PERIOD, timestamp = Date.now(), window = 1 } = options;
+  const normalizedCode = code.replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalizedCode)) {
+    return false;
+  }
+
+  const counter = Math.floor(timestamp / 1000 / period);
+  for (let step = -window; step <= window; step++) {
+    if (counter + step < 0) continue;
+    if (generateHotpCode(secret, counter + step, digits) === normalizedCode) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * otpauth:// URI understood by authenticator apps, also the QR code payload
+ */
+export function buildOtpauthUri(params: OtpauthUriParams): string {
+  const { secret, accountName, issuer, digits = DEFAULT_DIGITS, period = DEFAULT_PERIOD } = params;
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const query = [
+    `secret=${encodeURIComponent(secret.replace(/[\s=]/g, "").toUpperCase())}`,
+    `issuer=${encodeURIComponent(issuer)}`,
+    "algorithm=SHA1",
+    `digits=${digits}`,
+    `period=${period}`,
+  ].join("&");
+  return `otpauth://totp/${label}?${query}`;
+}
@@ -3,6 +3,8 @@
  * Secure input cleaning for user data
  */
 
+import { PhoneSanitizer } from '../../../shared/validation/sanitizers/PhoneSanitizer';
+
 export const SECURITY_LIMITS = {
   EMAIL_MAX_LENGTH: 254,
   PASSWORD_MIN_LENGTH: 6,
@@ -41,3 +43,12 @@ export const sanitizeName = (name: string): string => {
   const noTags = trimmed.replace(/<[^>]*>/g, '');
   return noTags.substring(0, SECURITY_LIMITS.NAME_MAX_LENGTH);
 };
+
+export const sanitizePhoneNumber = (phone: string, defaultCountryCode?: string): string => {
+  return PhoneSanitizer.sanitize(phone, defaultCountryCode);
+};
+
+export const sanitizeOtpCode = (code: string): string => {
+  if (!code) return '';
+  return code.replace(/\D/g, '');
+};
@@ -26,7 +26,8 @@ export interface AuthInitModuleConfig {
   onRestorePurchases?: () => Promise<void>;
 
   /**
-   * Custom callback when user converts from anonymous to authenticated
+   * Custom callback when an anonymous user is replaced by a different account (new UID).
+   * Upgrades through upgradeAnonymousAccount keep the UID and don't call it.
    */
   onUserConverted?: (anonymousId: string, authenticatedId: string) => Promise<void>;
 
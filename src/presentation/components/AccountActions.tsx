@@ -1,6 +1,6 @@
 /**
  * Account Actions Component
- * Logout and delete account actions
+ * Change password/email, two-factor, logout and delete account actions
  * PERFORMANCE: Memoized with useCallback for stable alert action handlers
  */
 
@@ -10,22 +10,35 @@ import { useAppDesignTokens } from "@umituz/react-native-design-system/theme";
 import { AtomicIcon, AtomicText } from "@umituz/react-native-design-system/atoms";
 import { useAlert, AlertType, AlertMode } from "@umituz/react-native-design-system/molecules";
 import { actionButtonStyle } from "../utils/commonStyles";
+import { useAuthTranslations } from "../hooks/useAuthTranslations";
 
+/**
+ * Texts default to the AuthI18nProvider bundle
+ */
 export interface AccountActionsConfig {
-  logoutText: string;
-  deleteAccountText: string;
+  logoutText?: string;
+  deleteAccountText?: string;
   changePasswordText?: string;
-  logoutConfirmTitle: string;
-  logoutConfirmMessage: string;
-  deleteConfirmTitle: string;
-  deleteConfirmMessage: string;
+  changeEmailText?: string;
+  logoutConfirmTitle?: string;
+  logoutConfirmMessage?: string;
+  deleteConfirmTitle?: string;
+  deleteConfirmMessage?: string;
   deleteErrorTitle?: string;
   deleteErrorMessage?: string;
-  cancelText: string;
+  cancelText?: string;
   onLogout: () => Promise<void>;
   onDeleteAccount: () => Promise<void>;
   onChangePassword?: () => void;
   showChangePassword?: boolean;
+  onChangeEmail?: () => void;
+  showChangeEmail?: boolean;
+  twoFactorText?: string;
+  /** Status label next to twoFactorText, defaults to "On" / "Off" */
+  twoFactorStatusText?: string;
+  isTwoFactorEnabled?: boolean;
+  onManageTwoFactor?: () => void;
+  showTwoFactor?: boolean;
 }
 
 interface AccountActionsProps {
@@ -35,21 +48,30 @@ interface AccountActionsProps {
 export const AccountActions = memo<AccountActionsProps>(({ config }) => {
   const tokens = useAppDesignTokens();
   const alert = useAlert();
+  const { t } = useAuthTranslations();
   const {
-    logoutText,
-    deleteAccountText,
-    changePasswordText,
-    logoutConfirmTitle,
-    logoutConfirmMessage,
-    deleteConfirmTitle,
-    deleteConfirmMessage,
-    deleteErrorTitle = "Error",
-    deleteErrorMessage = "Failed to delete account. Please try again.",
-    cancelText,
+    logoutText = t("auth.account.logout"),
+    deleteAccountText = t("auth.account.deleteAccount"),
+    changePasswordText = t("auth.account.changePassword"),
+    changeEmailText = t("auth.account.changeEmail"),
+    logoutConfirmTitle = t("auth.account.logoutConfirmTitle"),
+    logoutConfirmMessage = t("auth.account.logoutConfirmMessage"),
+    deleteConfirmTitle = t("auth.account.deleteConfirmTitle"),
+    deleteConfirmMessage = t("auth.account.deleteConfirmMessage"),
+    deleteErrorTitle = t("auth.account.deleteErrorTitle"),
+    deleteErrorMessage = t("auth.account.deleteErrorMessage"),
+    cancelText = t("auth.account.cancel"),
     onLogout,
     onDeleteAccount,
     onChangePassword,
     showChangePassword = false,
+    onChangeEmail,
+    showChangeEmail = false,
+    twoFactorText = t("auth.account.twoFactor"),
+    isTwoFactorEnabled = false,
+    twoFactorStatusText = t(isTwoFactorEnabled ? "auth.account.twoFactorOn" : "auth.account.twoFactorOff"),
+    onManageTwoFactor,
+    showTwoFactor = false,
   } = config;
 
   // PERFORMANCE: Stable callback references prevent unnecessary re-renders
@@ -105,6 +127,27 @@ export const AccountActions = memo<AccountActionsProps>(({ config }) => {
         </TouchableOpacity>
       )}
 
+      {showChangeEmail && onChangeEmail && changeEmailText && (
+        <TouchableOpacity style={[actionButtonStyle.container, { borderColor: tokens.colors.border }]} onPress={onChangeEmail} activeOpacity={0.7}>
+          <AtomicIcon name="mail-outline" size="md" color="textPrimary" />
+          <AtomicText style={actionButtonStyle.text} color="textPrimary">{changeEmailText}</AtomicText>
+          <AtomicIcon name="chevron-forward" size="sm" color="textSecondary" />
+        </TouchableOpacity>
+      )}
+
+      {showTwoFactor && onManageTwoFactor && twoFactorText && (
+        <TouchableOpacity style={[actionButtonStyle.container, { borderColor: tokens.colors.border }]} onPress={onManageTwoFactor} activeOpacity={0.7}>
+          <AtomicIcon name={isTwoFactorEnabled ? "shield-checkmark-outline" : "shield-outline"} size="md" color="textPrimary" />
+          <AtomicText style={actionButtonStyle.text} color="textPrimary">{twoFactorText}</AtomicText>
+          {twoFactorStatusText && (
+            <AtomicText type="bodySmall" color={isTwoFactorEnabled ? "success" : "textSecondary"}>
+              {twoFactorStatusText}
+            </AtomicText>
+          )}
+          <AtomicIcon name="chevron-forward" size="sm" color="textSecondary" />
+        </TouchableOpacity>
+      )}
+
       <TouchableOpacity style={[actionButtonStyle.container, { borderColor: tokens.colors.border }]} onPress={handleLogout} activeOpacity={0.7}>
         <AtomicIcon name="log-out-outline" size="md" color="error" />
         <AtomicText style={actionButtonStyle.text} color="error">{logoutText}</AtomicText>
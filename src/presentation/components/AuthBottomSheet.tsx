@@ -7,8 +7,11 @@ import { BottomSheetModal } from "@umituz/react-native-design-system/molecules";
 import { useAuthBottomSheet, type SocialAuthConfiguration } from "../hooks/useAuthBottomSheet";
 import { LoginForm, type LoginFormTranslations } from "./LoginForm";
 import { RegisterForm, type RegisterFormTranslations } from "./RegisterForm";
+import { ForgotPasswordForm, type ForgotPasswordFormTranslations } from "./ForgotPasswordForm";
+import { MfaChallengeForm, type MfaChallengeFormTranslations } from "./MfaChallengeForm";
 import { SocialLoginButtons, type SocialLoginButtonsTranslations } from "./SocialLoginButtons";
 import { styles } from "./AuthBottomSheet.styles";
+import type { LinkCredential } from "../../domain/entities/AccountLink";
 
 export interface AuthBottomSheetTranslations {
   close: string;
@@ -16,8 +19,16 @@ export interface AuthBottomSheetTranslations {
   signInSubtitle: string;
   createAccount: string;
   createAccountSubtitle: string;
+  forgotPassword?: string;
+  forgotPasswordSubtitle?: string;
   loginForm: LoginFormTranslations;
   registerForm: RegisterFormTranslations;
+  /** Enables the "forgot password" mode when provided */
+  forgotPasswordForm?: ForgotPasswordFormTranslations;
+  mfaChallenge?: string;
+  mfaChallengeSubtitle?: string;
+  /** Enables the two-factor step when provided; otherwise the sign-in error is shown */
+  mfaChallengeForm?: MfaChallengeFormTranslations;
   socialButtons: SocialLoginButtonsTranslations;
 }
 
@@ -30,6 +41,8 @@ export interface AuthBottomSheetProps {
   socialConfig?: SocialAuthConfiguration;
   onGoogleSignIn?: () => Promise<void>;
   onAppleSignIn?: () => Promise<void>;
+  /** Lets anonymous users keep their UID when continuing with Google/Apple */
+  getSocialCredential?: (provider: "google.com" | "apple.com") => Promise<LinkCredential | null>;
   onAuthSuccess?: () => void;
 }
 
@@ -42,6 +55,7 @@ export const AuthBottomSheet: React.FC<AuthBottomSheetProps> = ({
   socialConfig,
   onGoogleSignIn,
   onAppleSignIn,
+  getSocialCredential,
   onAuthSuccess,
 }) => {
   const tokens = useAppDesignTokens();
@@ -53,13 +67,23 @@ export const AuthBottomSheet: React.FC<AuthBottomSheetProps> = ({
     appleLoading,
     mode,
     providers,
+    oidcButtons,
     handleDismiss,
     handleClose,
     handleNavigateToRegister,
     handleNavigateToLogin,
+    handleNavigateToForgotPassword,
+    handleMultiFactorRequired,
     handleGoogleSignIn,
     handleAppleSignIn,
-  } = useAuthBottomSheet({ socialConfig, onGoogleSignIn, onAppleSignIn, onAuthSuccess });
+  } = useAuthBottomSheet({
+    socialConfig,
+    onGoogleSignIn,
+    onAppleSignIn,
+    getSocialCredential,
+    onAuthSuccess,
+    multiFactorEnabled: !!translations.mfaChallengeForm,
+  });
 
   const scrollContentStyle = useMemo(() => [
     styles.scrollContent,
@@ -78,6 +102,23 @@ export const AuthBottomSheet: React.FC<AuthBottomSheetProps> = ({
     },
   ], [responsive.verticalPadding, responsive.horizontalPadding]);
 
+  const forgotPasswordForm = translations.forgotPasswordForm;
+  const isForgotMode = mode === "forgot" && !!forgotPasswordForm;
+
+  const mfaChallengeForm = translations.mfaChallengeForm;
+  const isMfaMode = mode === "mfa" && !!mfaChallengeForm;
+
+  const title = isMfaMode
+    ? translations.mfaChallenge ?? translations.signIn
+    : isForgotMode
+      ? translations.forgotPassword ?? translations.signIn
+      : mode === "register" ? translations.createAccount : translations.signIn;
+  const subtitle = isMfaMode
+    ? translations.mfaChallengeSubtitle ?? translations.signInSubtitle
+    : isForgotMode
+      ? translations.forgotPasswordSubtitle ?? translations.signInSubtitle
+      : mode === "register" ? translations.createAccountSubtitle : translations.signInSubtitle;
+
   return (
     <BottomSheetModal
       ref={modalRef}
@@ -105,20 +146,25 @@ export const AuthBottomSheet: React.FC<AuthBottomSheetProps> = ({
         >
           <View style={headerStyle}>
             <AtomicText type="headlineLarge" color="textPrimary" style={styles.title}>
-              {mode === "login" ? translations.signIn : translations.createAccount}
+              {title}
             </AtomicText>
             <AtomicText type="bodyLarge" color="textSecondary" style={styles.subtitle}>
-              {mode === "login" ? translations.signInSubtitle : translations.createAccountSubtitle}
+              {subtitle}
             </AtomicText>
           </View>
 
           <View style={styles.formContainer}>
-            {mode === "login" ? (
-              <LoginForm
-                translations={translations.loginForm}
-                onNavigateToRegister={handleNavigateToRegister}
+            {isMfaMode ? (
+              <MfaChallengeForm
+                translations={mfaChallengeForm}
+                onCancel={handleNavigateToLogin}
               />
-            ) : (
+            ) : isForgotMode ? (
+              <ForgotPasswordForm
+                translations={forgotPasswordForm}
+                onNavigateToLogin={handleNavigateToLogin}
+              />
+            ) : mode === "register" ? (
               <RegisterForm
                 translations={translations.registerForm}
                 onNavigateToLogin={handleNavigateToLogin}
@@ -127,9 +173,16 @@ export const AuthBottomSheet: React.FC<AuthBottomSheetProps> = ({
                 onTermsPress={onTermsPress}
                 onPrivacyPress={onPrivacyPress}
               />
+            ) : (
+              <LoginForm
+                translations={translations.loginForm}
+                onNavigateToRegister={handleNavigateToRegister}
+                onNavigateToForgotPassword={forgotPasswordForm ? handleNavigateToForgotPassword : undefined}
+                onMultiFactorRequired={mfaChallengeForm ? handleMultiFactorRequired : undefined}
+              />
             )}
 
-            {providers.length > 0 && (
+            {!isForgotMode && !isMfaMode && (providers.length > 0 || oidcButtons.length > 0) && (
               <SocialLoginButtons
                 translations={translations.socialButtons}
                 enabledProviders={providers}
@@ -137,6 +190,7 @@ export const AuthBottomSheet: React.FC<AuthBottomSheetProps> = ({
                 onApplePress={() => { void handleAppleSignIn(); }}
                 googleLoading={googleLoading}
                 appleLoading={appleLoading}
+                providers={oidcButtons}
               />
             )}
           </View>
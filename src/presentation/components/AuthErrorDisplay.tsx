@@ -4,20 +4,35 @@
  * PERFORMANCE: Memoized to prevent unnecessary re-renders when parent updates
  */
 
-import React, { memo } from "react";
+import React, { memo, useSyncExternalStore } from "react";
 import { AlertInline, AlertService, AlertMode } from "@umituz/react-native-design-system/molecules";
+import { authErrorRegistry } from "../../shared/error-handling/registry/AuthErrorRegistry";
 
 interface AuthErrorDisplayProps {
-  error: string | null;
+  /**
+   * A message, a localization key or a caught error; keys and errors are
+   * resolved through the auth error registry
+   */
+  error: string | Error | null | undefined;
+  translations?: Record<string, string>;
 }
 
-export const AuthErrorDisplay = memo<AuthErrorDisplayProps>(({ error }) => {
+const subscribe = (listener: () => void) => authErrorRegistry.subscribe(listener);
+const getVersion = () => authErrorRegistry.getVersion();
+
+export const AuthErrorDisplay = memo<AuthErrorDisplayProps>(({ error, translations }) => {
+  // Re-resolve when the locale or the registered messages change
+  const registryVersion = useSyncExternalStore(subscribe, getVersion);
+
   const alert = React.useMemo(() => {
     if (!error) return null;
-    return AlertService.createErrorAlert(error, undefined, {
+    const message = typeof error === "string"
+      ? authErrorRegistry.findMessage(error, translations) ?? error
+      : authErrorRegistry.getErrorMessage(error, translations);
+    return AlertService.createErrorAlert(message, undefined, {
       mode: AlertMode.INLINE,
     });
-  }, [error]);
+  }, [error, translations, registryVersion]);
 
   if (!alert) {
     return null;
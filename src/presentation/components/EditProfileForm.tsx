@@ -7,6 +7,8 @@ interface EditProfileFormProps {
     email: string;
     onChangeDisplayName: (value: string) => void;
     onChangeEmail: (value: string) => void;
+    isEmailEditable?: boolean;
+    displayNameError?: string | null;
     labels: {
         displayNameLabel: string;
         displayNamePlaceholder: string;
@@ -20,6 +22,8 @@ export const EditProfileForm: React.FC<EditProfileFormProps> = ({
     email,
     onChangeDisplayName,
     onChangeEmail,
+    isEmailEditable = true,
+    displayNameError,
     labels,
 }) => {
     return (
@@ -30,6 +34,8 @@ export const EditProfileForm: React.FC<EditProfileFormProps> = ({
                     value={displayName}
                     onChangeText={onChangeDisplayName}
                     placeholder={labels.displayNamePlaceholder}
+                    state={displayNameError ? "error" : "default"}
+                    helperText={displayNameError || undefined}
                 />
             </View>
 
@@ -41,6 +47,7 @@ export const EditProfileForm: React.FC<EditProfileFormProps> = ({
                     placeholder={labels.emailPlaceholder}
                     keyboardType="email-address"
                     autoCapitalize="none"
+                    disabled={!isEmailEditable}
                 />
             </View>
         </View>
@@ -0,0 +1,97 @@
+/**
+ * Email Verification Banner Component
+ * Reminds signed-in users to verify their email with a resend action
+ * PERFORMANCE: Memoized to prevent unnecessary re-renders
+ */
+
+import React, { memo } from "react";
+import { View, StyleSheet } from "react-native";
+import { useAppDesignTokens } from "@umituz/react-native-design-system/theme";
+import { AtomicText, AtomicButton } from "@umituz/react-native-design-system/atoms";
+import {
+  useEmailVerification,
+  type UseEmailVerificationOptions,
+} from "../hooks/useEmailVerification";
+
+export interface EmailVerificationBannerTranslations {
+  message: string;
+  resend: string;
+  sent: string;
+  errors?: Record<string, string>;
+}
+
+export interface EmailVerificationBannerProps
+  extends Omit<UseEmailVerificationOptions, "translations"> {
+  translations: EmailVerificationBannerTranslations;
+}
+
+export const EmailVerificationBanner = memo<EmailVerificationBannerProps>(({
+  translations,
+  ...options
+}) => {
+  const tokens = useAppDesignTokens();
+  const {
+    needsVerification,
+    isSent,
+    isSending,
+    cooldownRemaining,
+    canResend,
+    error,
+    sendVerificationEmail,
+  } = useEmailVerification({
+    ...options,
+    translations: translations.errors ? { errors: translations.errors } : undefined,
+  });
+
+  if (!needsVerification) {
+    return null;
+  }
+
+  const resendLabel = cooldownRemaining > 0
+    ? `${translations.resend} (${cooldownRemaining}s)`
+    : translations.resend;
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: tokens.colors.warningContainer,
+          padding: tokens.spacing.md,
+          borderRadius: tokens.borderRadius.md,
+        },
+      ]}
+    >
+      <View style={styles.textContainer}>
+        <AtomicText type="bodyMedium" color="textPrimary">
+          {isSent ? translations.sent : translations.message}
+        </AtomicText>
+        {error && (
+          <AtomicText type="bodySmall" color="error">
+            {error}
+          </AtomicText>
+        )}
+      </View>
+      <AtomicButton
+        variant="text"
+        onPress={() => { void sendVerificationEmail(); }}
+        disabled={!canResend}
+        loading={isSending}
+      >
+        {resendLabel}
+      </AtomicButton>
+    </View>
+  );
+});
+
+EmailVerificationBanner.displayName = 'EmailVerificationBanner';
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  textContainer: {
+    flex: 1,
+  },
+});
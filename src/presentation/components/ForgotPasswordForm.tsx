@@ -0,0 +1,100 @@
+/**
+ * Forgot Password Form Component
+ * Email input that sends a password reset link
+ * PERFORMANCE: Memoized to prevent unnecessary re-renders
+ */
+
+import React, { memo, useMemo } from "react";
+import { StyleSheet } from "react-native";
+import { AtomicButton } from "@umituz/react-native-design-system/atoms";
+import { AlertInline, AlertService, AlertMode } from "@umituz/react-native-design-system/molecules";
+import { useResponsive } from "@umituz/react-native-design-system/responsive";
+import { useForgotPasswordForm } from "../hooks/useForgotPasswordForm";
+import { AuthErrorDisplay } from "./AuthErrorDisplay";
+import { AuthLink } from "./AuthLink";
+import { FormEmailInput } from "./form/FormEmailInput";
+
+export interface ForgotPasswordFormTranslations {
+  email: string;
+  emailPlaceholder: string;
+  sendResetLink: string;
+  resetLinkSent: string;
+  resendResetLink: string;
+  rememberPassword: string;
+  signIn: string;
+}
+
+interface ForgotPasswordFormProps {
+  translations: ForgotPasswordFormTranslations;
+  onNavigateToLogin: () => void;
+}
+
+export const ForgotPasswordForm = memo<ForgotPasswordFormProps>(({
+  translations,
+  onNavigateToLogin,
+}) => {
+  const responsive = useResponsive();
+  const {
+    email,
+    emailError,
+    loading,
+    isSent,
+    handleEmailChange,
+    handleSendResetEmail,
+    displayError,
+  } = useForgotPasswordForm();
+
+  const sentAlert = useMemo(() => {
+    if (!isSent) return null;
+    return AlertService.createSuccessAlert(translations.resetLinkSent, undefined, {
+      mode: AlertMode.INLINE,
+    });
+  }, [isSent, translations.resetLinkSent]);
+
+  const sendButtonStyle = useMemo(() => [
+    styles.sendButton,
+    { marginBottom: responsive.verticalPadding },
+  ], [responsive.verticalPadding]);
+
+  return (
+    <>
+      <FormEmailInput
+        value={email}
+        onChangeText={handleEmailChange}
+        label={translations.email}
+        placeholder={translations.emailPlaceholder}
+        error={emailError}
+        disabled={loading}
+        onSubmitEditing={() => { void handleSendResetEmail(); }}
+        returnKeyType="done"
+      />
+
+      {sentAlert && <AlertInline alert={sentAlert} />}
+      <AuthErrorDisplay error={displayError} />
+
+      <AtomicButton
+        variant="primary"
+        onPress={() => { void handleSendResetEmail(); }}
+        disabled={loading || !email.trim()}
+        loading={loading}
+        fullWidth
+        style={sendButtonStyle}
+      >
+        {isSent ? translations.resendResetLink : translations.sendResetLink}
+      </AtomicButton>
+
+      <AuthLink
+        text={translations.rememberPassword}
+        linkText={translations.signIn}
+        onPress={onNavigateToLogin}
+        disabled={loading}
+      />
+    </>
+  );
+});
+
+const styles = StyleSheet.create({
+  sendButton: {},
+});
+
+ForgotPasswordForm.displayName = 'ForgotPasswordForm';
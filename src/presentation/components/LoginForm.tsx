@@ -7,6 +7,7 @@ import { AuthErrorDisplay } from "./AuthErrorDisplay";
 import { AuthLink } from "./AuthLink";
 import { FormEmailInput } from "./form/FormEmailInput";
 import { FormPasswordInput } from "./form/FormPasswordInput";
+import type { MultiFactorChallenge } from "../../domain/entities/MultiFactor";
 
 export interface LoginFormTranslations {
   email: string;
@@ -16,16 +17,22 @@ export interface LoginFormTranslations {
   signIn: string;
   dontHaveAccount: string;
   createAccount: string;
+  forgotPassword?: string;
 }
 
 interface LoginFormProps {
   translations: LoginFormTranslations;
   onNavigateToRegister: () => void;
+  onNavigateToForgotPassword?: () => void;
+  /** Continue to the second-factor step instead of showing an error */
+  onMultiFactorRequired?: (challenge: MultiFactorChallenge) => void;
 }
 
 export const LoginForm = memo<LoginFormProps>(({
   translations,
   onNavigateToRegister,
+  onNavigateToForgotPassword,
+  onMultiFactorRequired,
 }) => {
   const passwordRef = useRef<React.ElementRef<typeof TextInput>>(null);
   const responsive = useResponsive();
@@ -39,7 +46,7 @@ export const LoginForm = memo<LoginFormProps>(({
     handlePasswordChange,
     handleSignIn,
     displayError,
-  } = useLoginForm();
+  } = useLoginForm({ onMultiFactorRequired });
 
   const signInButtonStyle = useMemo(() => [
     styles.signInButton,
@@ -71,6 +78,17 @@ export const LoginForm = memo<LoginFormProps>(({
         returnKeyType="done"
       />
 
+      {onNavigateToForgotPassword && translations.forgotPassword && (
+        <AtomicButton
+          variant="text"
+          onPress={onNavigateToForgotPassword}
+          disabled={loading}
+          style={styles.forgotPasswordButton}
+        >
+          {translations.forgotPassword}
+        </AtomicButton>
+      )}
+
       <AuthErrorDisplay error={displayError} />
 
       <AtomicButton
@@ -95,6 +113,9 @@ export const LoginForm = memo<LoginFormProps>(({
 
 const styles = StyleSheet.create({
   signInButton: {},
+  forgotPasswordButton: {
+    alignSelf: "flex-end",
+  },
 });
 
 LoginForm.displayName = 'LoginForm';
@@ -0,0 +1,100 @@
+/**
+ * MFA Challenge Form Component
+ * Authenticator code entry that completes a two-factor sign-in
+ * PERFORMANCE: Memoized to prevent unnecessary re-renders
+ */
+
+import React, { memo, useMemo } from "react";
+import { StyleSheet } from "react-native";
+import { AtomicButton, AtomicText } from "@umituz/react-native-design-system/atoms";
+import { useResponsive } from "@umituz/react-native-design-system/responsive";
+import { useMfaChallengeForm } from "../hooks/useMfaChallengeForm";
+import { AuthErrorDisplay } from "./AuthErrorDisplay";
+import { OtpCodeInput } from "./OtpCodeInput";
+import type { AuthUser } from "../../domain/entities/AuthUser";
+import type { MultiFactorChallenge } from "../../domain/entities/MultiFactor";
+
+export interface MfaChallengeFormTranslations {
+  /** e.g. "Enter the code from your authenticator app" */
+  instructions: string;
+  verify: string;
+  cancel?: string;
+}
+
+export interface MfaChallengeFormProps {
+  translations: MfaChallengeFormTranslations;
+  challenge?: MultiFactorChallenge;
+  onVerified?: (user: AuthUser) => void;
+  onCancel?: () => void;
+}
+
+export const MfaChallengeForm = memo<MfaChallengeFormProps>(({
+  translations,
+  challenge,
+  onVerified,
+  onCancel,
+}) => {
+  const responsive = useResponsive();
+  const {
+    code,
+    codeLength,
+    codeError,
+    loading,
+    handleCodeChange,
+    handleVerify,
+    displayError,
+  } = useMfaChallengeForm({ challenge, onVerified });
+
+  const verifyButtonStyle = useMemo(() => [
+    styles.verifyButton,
+    { marginBottom: responsive.verticalPadding },
+  ], [responsive.verticalPadding]);
+
+  return (
+    <>
+      <AtomicText type="bodyMedium" color="textSecondary" style={styles.instructions}>
+        {translations.instructions}
+      </AtomicText>
+
+      <OtpCodeInput
+        value={code}
+        onChangeText={handleCodeChange}
+        onComplete={(completed) => { void handleVerify(completed); }}
+        length={codeLength}
+        error={codeError}
+        disabled={loading}
+      />
+
+      <AuthErrorDisplay error={displayError} />
+
+      <AtomicButton
+        variant="primary"
+        onPress={() => { void handleVerify(); }}
+        disabled={loading || code.length < codeLength}
+        loading={loading}
+        fullWidth
+        style={verifyButtonStyle}
+      >
+        {translations.verify}
+      </AtomicButton>
+
+      {onCancel && translations.cancel && (
+        <AtomicButton variant="text" onPress={onCancel} disabled={loading} fullWidth>
+          {translations.cancel}
+        </AtomicButton>
+      )}
+    </>
+  );
+});
+
+const styles = StyleSheet.create({
+  instructions: {
+    marginBottom: 16,
+    textAlign: "center",
+  },
+  verifyButton: {
+    marginTop: 8,
+  },
+});
+
+MfaChallengeForm.displayName = 'MfaChallengeForm';
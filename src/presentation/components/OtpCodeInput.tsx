@@ -0,0 +1,131 @@
+/**
+ * OTP Code Input Component
+ * One cell per digit over a single hidden input, so paste and SMS autofill work
+ * PERFORMANCE: Memoized to prevent unnecessary re-renders
+ */
+
+import React, { memo, useRef } from "react";
+import { View, TextInput, Pressable, StyleSheet } from "react-native";
+import { useAppDesignTokens } from "@umituz/react-native-design-system/theme";
+import { AtomicText } from "@umituz/react-native-design-system/atoms";
+
+export interface OtpCodeInputProps {
+  value: string;
+  onChangeText: (text: string) => void;
+  /** Called with the full code once every cell is filled */
+  onComplete?: (code: string) => void;
+  length?: number;
+  error?: string | null;
+  disabled?: boolean;
+  autoFocus?: boolean;
+  /** Show dots instead of digits and skip SMS autofill, e.g. for a PIN */
+  secure?: boolean;
+}
+
+export const OtpCodeInput = memo<OtpCodeInputProps>(({
+  value,
+  onChangeText,
+  onComplete,
+  length = 6,
+  error,
+  disabled = false,
+  autoFocus = true,
+  secure = false,
+}) => {
+  const tokens = useAppDesignTokens();
+  const inputRef = useRef<React.ElementRef<typeof TextInput>>(null);
+
+  const handleChangeText = (text: string) => {
+    const digits = text.replace(/\D/g, "").slice(0, length);
+    onChangeText(digits);
+    if (digits.length === length) {
+      onComplete?.(digits);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Pressable
+        style={styles.cells}
+        onPress={() => inputRef.current?.focus()}
+        disabled={disabled}
+      >
+        {Array.from({ length }, (_, index) => {
+          const isActive = index === Math.min(value.length, length - 1);
+          const borderColor = error
+            ? tokens.colors.error
+            : isActive
+              ? tokens.colors.primary
+              : tokens.colors.border;
+
+          return (
+            <View
+              key={index}
+              style={[
+                styles.cell,
+                {
+                  borderColor,
+                  borderRadius: tokens.borderRadius.md,
+                  backgroundColor: tokens.colors.surface,
+                },
+              ]}
+            >
+              <AtomicText type="headlineSmall" color="textPrimary">
+                {value[index] ? (secure ? "•" : value[index]) : ""}
+              </AtomicText>
+            </View>
+          );
+        })}
+      </Pressable>
+
+      <TextInput
+        ref={inputRef}
+        value={value}
+        onChangeText={handleChangeText}
+        maxLength={length}
+        keyboardType="number-pad"
+        textContentType={secure ? "none" : "oneTimeCode"}
+        autoComplete={secure ? "off" : "sms-otp"}
+        autoFocus={autoFocus}
+        editable={!disabled}
+        caretHidden
+        style={styles.hiddenInput}
+      />
+
+      {error && (
+        <AtomicText type="bodySmall" color="error" style={styles.error}>
+          {error}
+        </AtomicText>
+      )}
+    </View>
+  );
+});
+
+OtpCodeInput.displayName = 'OtpCodeInput';
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 20,
+  },
+  cells: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 8,
+  },
+  cell: {
+    flex: 1,
+    aspectRatio: 0.85,
+    borderWidth: 1.5,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  hiddenInput: {
+    position: "absolute",
+    width: 1,
+    height: 1,
+    opacity: 0,
+  },
+  error: {
+    marginTop: 8,
+  },
+});
@@ -4,15 +4,33 @@ import { useAppDesignTokens } from "@umituz/react-native-design-system/theme";
 import { AtomicText } from "@umituz/react-native-design-system/atoms";
 import type { ColorVariant } from "@umituz/react-native-design-system/typography";
 import type { PasswordRequirements } from "../../infrastructure/utils/AuthValidation";
+import type { PasswordStrengthEstimate } from "../../shared/validation/types";
+import type { AuthTranslationKey } from "../../shared/i18n/types/I18nTypes";
+import { useAuthTranslations } from "../hooks/useAuthTranslations";
 
+/**
+ * Label per requirement id; missing ones come from the active AuthI18nProvider
+ * bundle, custom rules fall back to their own label
+ */
 export interface PasswordStrengthTranslations {
-  minLength: string;
+  minLength?: string;
+  maxLength?: string;
+  uppercase?: string;
+  lowercase?: string;
+  digit?: string;
+  symbol?: string;
+  noRepeats?: string;
+  noSequences?: string;
+  noPersonalInfo?: string;
+  [ruleId: string]: string | undefined;
 }
 
 interface PasswordStrengthIndicatorProps {
-  translations: PasswordStrengthTranslations;
+  translations?: PasswordStrengthTranslations;
   requirements: PasswordRequirements;
   showLabels?: boolean;
+  /** Strength bar from requirements.strength; shown by default when the policy sets minScore */
+  showStrengthMeter?: boolean;
 }
 
 interface RequirementDotProps {
@@ -39,37 +57,100 @@ const RequirementDot = memo<RequirementDotProps>(({ label, isValid, successColor
 
 RequirementDot.displayName = 'RequirementDot';
 
-export const PasswordStrengthIndicator = memo<PasswordStrengthIndicatorProps>(({ translations, requirements, showLabels = true }) => {
+const STRENGTH_COLORS: ColorVariant[] = ["error", "error", "warning", "success", "success"];
+const STRENGTH_BARS = [1, 2, 3, 4];
+
+interface StrengthMeterProps {
+  strength: PasswordStrengthEstimate;
+  showLabel: boolean;
+}
+
+const StrengthMeter = memo<StrengthMeterProps>(({ strength, showLabel }) => {
+  const tokens = useAppDesignTokens();
+  const { t } = useAuthTranslations();
+  const colors = tokens.colors as Record<string, string>;
+  const colorKey = STRENGTH_COLORS[strength.score];
+  const fillColor = colors[colorKey] || tokens.colors.textTertiary;
+  const emptyColor = colors.textDisabled || tokens.colors.textTertiary;
+  // Score 0 still shows one bar so the meter reads as "very weak", not empty
+  const filled = Math.max(strength.score, 1);
+
+  return (
+    <View style={styles.meter}>
+      <View style={styles.meterBars}>
+        {STRENGTH_BARS.map((bar) => (
+          <View key={bar} style={[styles.meterBar, { backgroundColor: bar <= filled ? fillColor : emptyColor }]} />
+        ))}
+      </View>
+      {showLabel ? (
+        <AtomicText type="labelSmall" color={colorKey}>
+          {t(`auth.passwordStrength.score${strength.score}` as AuthTranslationKey)}
+        </AtomicText>
+      ) : null}
+      {showLabel && strength.feedback.warning ? (
+        <AtomicText type="labelSmall" color="textSecondary">
+          {t(strength.feedback.warning as AuthTranslationKey)}
+        </AtomicText>
+      ) : null}
+    </View>
+  );
+});
+
+StrengthMeter.displayName = 'StrengthMeter';
+
+export const PasswordStrengthIndicator = memo<PasswordStrengthIndicatorProps>(({
+  translations,
+  requirements,
+  showLabels = true,
+  showStrengthMeter = requirements.checks.some((check) => check.id === "minScore"),
+}) => {
   const tokens = useAppDesignTokens();
+  const { t } = useAuthTranslations();
   const successColor: ColorVariant = "success";
   const pendingColor: ColorVariant = "textTertiary";
 
   // PERFORMANCE: Memoize items array to prevent recreation on every render
   const items = useMemo(
-    () => [{ key: "minLength" as const, label: translations.minLength, isValid: requirements.hasMinLength }],
-    [translations.minLength, requirements.hasMinLength]
+    () =>
+      requirements.checks.map((check) => ({
+        key: check.id,
+        label:
+          translations?.[check.id] ??
+          (check.custom ? check.label : t(check.label as AuthTranslationKey, check.params)),
+        isValid: check.isValid,
+      })),
+    [translations, requirements.checks, t]
   );
 
+  const meter =
+    showStrengthMeter && requirements.strength ? (
+      <StrengthMeter strength={requirements.strength} showLabel={showLabels} />
+    ) : null;
+
   if (!showLabels) {
     return (
-      <View style={styles.dotsOnly}>
-        {items.map((item) => {
-          const colorKey = item.isValid ? successColor : pendingColor;
-          const dotColor = (tokens.colors as Record<string, string>)[colorKey] || tokens.colors.textTertiary;
-
-          return (
-            <View
-              key={item.key}
-              style={[styles.dotOnly, { backgroundColor: dotColor }]}
-            />
-          );
-        })}
-      </View>
+      <>
+        {meter}
+        <View style={styles.dotsOnly}>
+          {items.map((item) => {
+            const colorKey = item.isValid ? successColor : pendingColor;
+            const dotColor = (tokens.colors as Record<string, string>)[colorKey] || tokens.colors.textTertiary;
+
+            return (
+              <View
+                key={item.key}
+                style={[styles.dotOnly, { backgroundColor: dotColor }]}
+              />
+            );
+          })}
+        </View>
+      </>
     );
   }
 
   return (
     <View style={styles.container}>
+      {meter}
       {items.map((item) => (
         <RequirementDot
           key={item.key}
@@ -106,6 +187,19 @@ const styles = StyleSheet.create({
     height: 6,
     borderRadius: 3,
   },
+  meter: {
+    gap: 4,
+    marginTop: 8,
+  },
+  meterBars: {
+    flexDirection: "row",
+    gap: 4,
+  },
+  meterBar: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+  },
   dotOnly: {
     width: 8,
     height: 8,
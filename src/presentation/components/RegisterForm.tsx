@@ -25,7 +25,7 @@ export interface RegisterFormTranslations {
   signIn: string;
   bySigningUp: string;
   legal: AuthLegalLinksTranslations;
-  passwordStrength: PasswordStrengthTranslations;
+  passwordStrength?: PasswordStrengthTranslations;
   passwordMatch: PasswordMatchTranslations;
 }
 
@@ -20,7 +20,7 @@ export interface RegisterFormTranslations {
   signIn: string;
   bySigningUp: string;
   legal: AuthLegalLinksTranslations;
-  passwordStrength: PasswordStrengthTranslations;
+  passwordStrength?: PasswordStrengthTranslations;
   passwordMatch: PasswordMatchTranslations;
 }
 
@@ -1,6 +1,6 @@
 /**
  * Social Login Buttons Component
- * Google and Apple sign-in buttons
+ * Google and Apple sign-in buttons plus any number of OAuth/OIDC provider buttons
  * PERFORMANCE: Memoized and provider checks memoized to prevent re-renders
  */
 
@@ -17,6 +17,16 @@ export interface SocialLoginButtonsTranslations {
   apple: string;
 }
 
+/**
+ * Extra provider button, e.g. one per configured OIDC provider
+ */
+export interface SocialLoginProviderButton {
+  id: string;
+  label: string;
+  onPress: () => void;
+  loading?: boolean;
+}
+
 interface SocialLoginButtonsProps {
   translations: SocialLoginButtonsTranslations;
   enabledProviders: SocialAuthProvider[];
@@ -24,9 +34,13 @@ interface SocialLoginButtonsProps {
   onApplePress?: () => void;
   googleLoading?: boolean;
   appleLoading?: boolean;
+  /** Rendered after Google and Apple, in order */
+  providers?: SocialLoginProviderButton[];
 }
 
-export const SocialLoginButtons = memo<SocialLoginButtonsProps>(({ translations, enabledProviders, onGooglePress, onApplePress, googleLoading = false, appleLoading = false }) => {
+const NO_PROVIDER_BUTTONS: SocialLoginProviderButton[] = [];
+
+export const SocialLoginButtons = memo<SocialLoginButtonsProps>(({ translations, enabledProviders, onGooglePress, onApplePress, googleLoading = false, appleLoading = false, providers = NO_PROVIDER_BUTTONS }) => {
   const tokens = useAppDesignTokens();
   const responsive = useResponsive();
 
@@ -36,12 +50,18 @@ export const SocialLoginButtons = memo<SocialLoginButtonsProps>(({ translations,
     hasApple: enabledProviders.includes("apple"),
   }), [enabledProviders]);
 
+  // One sign-in at a time: every button is disabled while any of them is loading
+  const anyLoading = useMemo(
+    () => googleLoading || appleLoading || providers.some((provider) => provider.loading),
+    [googleLoading, appleLoading, providers]
+  );
+
   const containerStyle = useMemo(() => [
     styles.container,
     { marginTop: responsive.verticalPadding },
   ], [responsive.verticalPadding]);
 
-  if (!hasGoogle && !hasApple) {
+  if (!hasGoogle && !hasApple && providers.length === 0) {
     return null;
   }
 
@@ -60,7 +80,7 @@ export const SocialLoginButtons = memo<SocialLoginButtonsProps>(({ translations,
           <AtomicButton
             variant="outline"
             onPress={onGooglePress}
-            disabled={googleLoading || appleLoading}
+            disabled={anyLoading}
             loading={googleLoading}
             fullWidth
             style={styles.socialButton}
@@ -73,7 +93,7 @@ export const SocialLoginButtons = memo<SocialLoginButtonsProps>(({ translations,
           <AtomicButton
             variant="outline"
             onPress={onApplePress}
-            disabled={googleLoading || appleLoading}
+            disabled={anyLoading}
             loading={appleLoading}
             fullWidth
             style={styles.socialButton}
@@ -81,6 +101,20 @@ export const SocialLoginButtons = memo<SocialLoginButtonsProps>(({ translations,
             {translations.apple}
           </AtomicButton>
         )}
+
+        {providers.map((provider) => (
+          <AtomicButton
+            key={provider.id}
+            variant="outline"
+            onPress={provider.onPress}
+            disabled={anyLoading}
+            loading={provider.loading ?? false}
+            fullWidth
+            style={styles.socialButton}
+          >
+            {provider.label}
+          </AtomicButton>
+        ))}
       </View>
     </View>
   );
@@ -0,0 +1,93 @@
+import React from "react";
+import { act, fireEvent, render, screen, waitForElementToBeRemoved } from "@testing-library/react-native";
+import { AuthBottomSheet, type AuthBottomSheetTranslations } from "../AuthBottomSheet";
+import { renderWithAuth, type TestAuthEnvironment } from "../../../testing";
+import { useAuthModalStore } from "../../stores/authModalStore";
+import { useAuthStore } from "../../stores/authStore";
+import { selectIsAuthenticated } from "../../stores/auth.selectors";
+
+const USER = { email: "jane@example.com", password: "Secret123!" };
+
+const translations: AuthBottomSheetTranslations = {
+  close: "Close",
+  signIn: "Welcome back",
+  signInSubtitle: "Sign in to continue",
+  createAccount: "Create account",
+  createAccountSubtitle: "Join us",
+  loginForm: {
+    email: "Email",
+    emailPlaceholder: "you@example.com",
+    password: "Password",
+    passwordPlaceholder: "Your password",
+    signIn: "Sign in",
+    dontHaveAccount: "No account?",
+    createAccount: "Sign up",
+  },
+  registerForm: {
+    displayName: "Name",
+    displayNamePlaceholder: "Your name",
+    email: "Email",
+    emailPlaceholder: "you@example.com",
+    password: "Password",
+    passwordPlaceholder: "Your password",
+    confirmPassword: "Confirm password",
+    confirmPasswordPlaceholder: "Repeat your password",
+    signUp: "Sign up",
+    alreadyHaveAccount: "Have an account?",
+    signIn: "Sign in",
+    bySigningUp: "By signing up you accept the",
+    legal: { termsOfService: "Terms", privacyPolicy: "Privacy" },
+    passwordMatch: { match: "Passwords match", noMatch: "Passwords don't match" },
+  },
+  socialButtons: { orContinueWith: "Or continue with", google: "Google", apple: "Apple" },
+};
+
+describe("AuthBottomSheet login flow", () => {
+  let auth: TestAuthEnvironment;
+  const onAuthSuccess = jest.fn();
+
+  beforeEach(async () => {
+    onAuthSuccess.mockClear();
+    ({ auth } = await renderWithAuth(
+      <AuthBottomSheet translations={translations} onAuthSuccess={onAuthSuccess} />,
+      { render, users: [USER] }
+    ));
+    act(() => {
+      useAuthModalStore.getState().showAuthModal();
+    });
+  });
+
+  afterEach(() => {
+    screen.unmount();
+    auth.cleanup();
+  });
+
+  function submit(email: string, password: string) {
+    fireEvent.changeText(screen.getByLabelText("Email"), email);
+    fireEvent.changeText(screen.getByLabelText("Password"), password);
+    fireEvent.press(screen.getByRole("button", { name: "Sign in" }));
+  }
+
+  it("signs in and closes the sheet", async () => {
+    const sheet = screen.getByTestId("bottom-sheet-modal");
+
+    submit(USER.email, USER.password);
+
+    await waitForElementToBeRemoved(() => screen.queryByTestId("bottom-sheet-modal"));
+    expect(sheet).not.toBeOnTheScreen();
+    expect(useAuthModalStore.getState().isVisible).toBe(false);
+    expect(selectIsAuthenticated(useAuthStore.getState())).toBe(true);
+    expect(useAuthStore.getState().user?.email).toBe(USER.email);
+    expect(onAuthSuccess).toHaveBeenCalledTimes(1);
+  });
+
+  it("stays open and shows the error when the password is wrong", async () => {
+    submit(USER.email, "Wrong123!");
+
+    expect(await screen.findByRole("alert")).toBeTruthy();
+    expect(screen.getByTestId("bottom-sheet-modal")).toBeTruthy();
+    expect(useAuthModalStore.getState().isVisible).toBe(true);
+    expect(selectIsAuthenticated(useAuthStore.getState())).toBe(false);
+    expect(onAuthSuccess).not.toHaveBeenCalled();
+  });
+});
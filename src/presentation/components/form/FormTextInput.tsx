@@ -1,6 +1,6 @@
 import React, { forwardRef } from "react";
 import { TextInput, StyleSheet, ViewStyle } from "react-native";
-import { AtomicInput } from "@umituz/react-native-design-system/atoms";
+import { AtomicInput, type AtomicInputProps } from "@umituz/react-native-design-system/atoms";
 
 interface FormTextInputProps {
   value: string;
@@ -10,6 +10,7 @@ interface FormTextInputProps {
   error?: string | null;
   disabled?: boolean;
   autoCapitalize?: "none" | "sentences" | "words" | "characters";
+  keyboardType?: AtomicInputProps["keyboardType"];
   onSubmitEditing?: () => void;
   returnKeyType?: "next" | "done";
   style?: ViewStyle;
@@ -25,6 +26,7 @@ export const FormTextInput = forwardRef<React.ElementRef<typeof TextInput>, Form
       error,
       disabled = false,
       autoCapitalize = "none",
+      keyboardType,
       onSubmitEditing,
       returnKeyType = "next",
       style,
@@ -39,6 +41,7 @@ export const FormTextInput = forwardRef<React.ElementRef<typeof TextInput>, Form
         onChangeText={onChangeText}
         placeholder={placeholder}
         autoCapitalize={autoCapitalize}
+        keyboardType={keyboardType}
         disabled={disabled}
         state={error ? "error" : "default"}
         helperText={error || undefined}
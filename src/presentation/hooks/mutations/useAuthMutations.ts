@@ -5,8 +5,25 @@
 
 import { useMutation } from "@umituz/react-native-design-system/tanstack";
 import { getAuthService } from "../../../infrastructure/services/AuthService";
-import type { AuthCredentials, SignUpCredentials } from "../../../infrastructure/repositories/AuthRepository";
+import type {
+    AuthCredentials,
+    SignUpCredentials,
+    PhoneAuthVerifier,
+    PhoneVerificationSession,
+} from "../../../infrastructure/repositories/AuthRepository";
 import type { AuthUser } from "../../../domain/entities/AuthUser";
+import type { UpdateProfileParams } from "../../../domain/entities/UserProfile";
+import type {
+    LinkCredential,
+    LinkableProviderType,
+    CredentialConflict,
+} from "../../../domain/entities/AccountLink";
+import type {
+    MultiFactorChallenge,
+    MultiFactorInfo,
+    TotpEnrollment,
+} from "../../../domain/entities/MultiFactor";
+import type { ReauthenticationHandlers } from "../../../infrastructure/types/Reauthentication.types";
 
 export const useSignUpMutation = () => {
     return useMutation({
@@ -55,3 +72,249 @@ export const useAnonymousModeMutation = () => {
         },
     });
 };
+
+export const usePasswordResetMutation = () => {
+    return useMutation({
+        mutationFn: async (email: string): Promise<void> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.sendPasswordResetEmail(email);
+        },
+    });
+};
+
+export const useSendEmailVerificationMutation = () => {
+    return useMutation({
+        mutationFn: async (): Promise<void> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.sendEmailVerification();
+        },
+    });
+};
+
+export const useReloadUserMutation = () => {
+    return useMutation({
+        mutationFn: async (): Promise<AuthUser | null> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please restart the app.");
+            }
+            return service.reloadUser();
+        },
+    });
+};
+
+export const useChangePasswordMutation = () => {
+    return useMutation({
+        mutationFn: async (params: { currentPassword: string; newPassword: string }): Promise<void> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.changePassword(params.currentPassword, params.newPassword);
+        },
+    });
+};
+
+export const useChangeEmailMutation = () => {
+    return useMutation({
+        mutationFn: async (params: { newEmail: string; handlers: ReauthenticationHandlers }): Promise<void> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.changeEmail(params.newEmail, params.handlers);
+        },
+    });
+};
+
+/**
+ * Reauthenticates unless the user signed in within maxAgeMs; without maxAgeMs it always asks
+ */
+export const useReauthenticateMutation = () => {
+    return useMutation({
+        mutationFn: async (params: { handlers: ReauthenticationHandlers; maxAgeMs?: number }): Promise<void> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            if (params.maxAgeMs === undefined) {
+                return service.reauthenticate(params.handlers);
+            }
+            return service.requireRecentLogin(params.maxAgeMs, params.handlers);
+        },
+    });
+};
+
+export const useUpdateProfileMutation = () => {
+    return useMutation({
+        mutationFn: async (params: UpdateProfileParams): Promise<AuthUser> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.updateProfile(params);
+        },
+    });
+};
+
+export const useSignInWithPhoneMutation = () => {
+    return useMutation({
+        mutationFn: async (params: { phoneNumber: string; verifier: PhoneAuthVerifier }): Promise<PhoneVerificationSession> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.signInWithPhone(params.phoneNumber, params.verifier);
+        },
+    });
+};
+
+export const useConfirmOtpMutation = () => {
+    return useMutation({
+        mutationFn: async (params: { verificationId: string; code: string }): Promise<AuthUser> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.confirmOtp(params.verificationId, params.code);
+        },
+    });
+};
+
+export const useSendSignInLinkMutation = () => {
+    return useMutation({
+        mutationFn: async (email: string): Promise<void> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.sendSignInLink(email);
+        },
+    });
+};
+
+export const useCompleteSignInFromLinkMutation = () => {
+    return useMutation({
+        mutationFn: async (params: { url: string; email?: string }): Promise<AuthUser | null> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.completeSignInFromLink(params.url, params.email);
+        },
+    });
+};
+
+export const useResolveMultiFactorSignInMutation = () => {
+    return useMutation({
+        mutationFn: async (params: { code: string; challenge?: MultiFactorChallenge; factorUid?: string }): Promise<AuthUser> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.resolveMultiFactorSignIn(params.code, params.challenge, params.factorUid);
+        },
+    });
+};
+
+export const useStartTotpEnrollmentMutation = () => {
+    return useMutation({
+        mutationFn: async (params?: { accountName?: string; issuer?: string }): Promise<TotpEnrollment> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.startTotpEnrollment(params);
+        },
+    });
+};
+
+export const useCompleteTotpEnrollmentMutation = () => {
+    return useMutation({
+        mutationFn: async (params: { enrollment: TotpEnrollment; code: string; displayName?: string }): Promise<MultiFactorInfo[]> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.completeTotpEnrollment(params.enrollment, params.code, params.displayName);
+        },
+    });
+};
+
+export const useUnenrollFactorMutation = () => {
+    return useMutation({
+        mutationFn: async (factorUid: string): Promise<MultiFactorInfo[]> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.unenrollFactor(factorUid);
+        },
+    });
+};
+
+export const useLinkProviderMutation = () => {
+    return useMutation({
+        mutationFn: async (credential: LinkCredential): Promise<AuthUser> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.linkProvider(credential);
+        },
+    });
+};
+
+export const useUnlinkProviderMutation = () => {
+    return useMutation({
+        mutationFn: async (provider: LinkableProviderType): Promise<AuthUser> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.unlinkProvider(provider);
+        },
+    });
+};
+
+export const useOidcSignInMutation = () => {
+    return useMutation({
+        mutationFn: async (providerKey: string): Promise<AuthUser> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.signInWithOidc(providerKey);
+        },
+    });
+};
+
+export const useUpgradeAnonymousAccountMutation = () => {
+    return useMutation({
+        mutationFn: async (params: { credential: LinkCredential; displayName?: string }): Promise<AuthUser> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.upgradeAnonymousAccount(params.credential, { displayName: params.displayName });
+        },
+    });
+};
+
+export const useResolveCredentialConflictMutation = () => {
+    return useMutation({
+        mutationFn: async (conflict: CredentialConflict): Promise<AuthUser> => {
+            const service = getAuthService();
+            if (!service) {
+                throw new Error("Authentication service not available. Please check your internet connection and restart the app.");
+            }
+            return service.resolveCredentialConflict(conflict);
+        },
+    });
+};
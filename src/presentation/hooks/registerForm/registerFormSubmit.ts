@@ -5,7 +5,7 @@
 
 import { useCallback } from "react";
 import { AlertService } from "@umituz/react-native-design-system/molecules";
-import { DEFAULT_PASSWORD_CONFIG } from "../../../domain/value-objects/AuthConfig";
+import type { PasswordConfig } from "../../../domain/value-objects/AuthConfig";
 import {
   validateRegisterForm,
 } from "../../utils/form/validation/formValidators";
@@ -28,6 +28,7 @@ export function useRegisterFormSubmit(
   clearFormErrors: () => void,
   getErrorMessage: (key: string) => string,
   handleAuthError: (error: unknown) => string,
+  passwordConfig: PasswordConfig,
   translations?: RegisterFormTranslations
 ) {
   const handleSignUp = useCallback(async () => {
@@ -45,7 +46,7 @@ export function useRegisterFormSubmit(
         confirmPassword: fields.confirmPassword,
       },
       getErrorMessage,
-      DEFAULT_PASSWORD_CONFIG
+      passwordConfig
     );
 
     if (!validation.isValid) {
@@ -62,7 +63,7 @@ export function useRegisterFormSubmit(
     } catch (err: unknown) {
       setLocalError(handleAuthError(err));
     }
-  }, [fields, signUp, translations, handleAuthError, getErrorMessage, clearFormErrors, setFieldErrors, setLocalError]);
+  }, [fields, signUp, passwordConfig, translations, handleAuthError, getErrorMessage, clearFormErrors, setFieldErrors, setLocalError]);
 
   return { handleSignUp };
 }
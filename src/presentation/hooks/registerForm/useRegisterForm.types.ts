@@ -4,6 +4,7 @@
  */
 
 import type { FieldErrors as GenericFieldErrors } from "../../utils/form/formErrorUtils";
+import type { PasswordRequirements } from "../../../shared/validation/types";
 
 export type RegisterFieldKey = "displayName" | "email" | "password" | "confirmPassword";
 export type FieldErrors = GenericFieldErrors<RegisterFieldKey>;
@@ -26,7 +27,7 @@ export interface UseRegisterFormResult {
   fieldErrors: FieldErrors;
   localError: string | null;
   loading: boolean;
-  passwordRequirements: { hasMinLength: boolean };
+  passwordRequirements: PasswordRequirements;
   passwordsMatch: boolean;
   handleDisplayNameChange: (text: string) => void;
   handleEmailChange: (text: string) => void;
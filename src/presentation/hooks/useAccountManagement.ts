@@ -1,11 +1,19 @@
 /**
  * useAccountManagement Hook
- * Provides account management functionality (logout, delete)
+ * Provides account management functionality (logout, delete, change password/email)
  */
 
-import { useCallback, useState } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { useAuth } from "./useAuth";
 import { deleteCurrentUser } from "@umituz/react-native-firebase";
+import {
+  useChangePasswordMutation,
+  useChangeEmailMutation,
+  useReauthenticateMutation,
+} from "./mutations/useAuthMutations";
+import { authEventService } from "../../infrastructure/services/AuthEventService";
+import { RECENT_LOGIN_MAX_AGE_MS } from "../../infrastructure/services/AuthService";
+import type { ReauthenticationHandlers } from "../../infrastructure/types/Reauthentication.types";
 
 export interface UseAccountManagementOptions {
   /**
@@ -13,6 +21,11 @@ export interface UseAccountManagementOptions {
    * Should return Google ID token or null if cancelled
    */
   onReauthRequired?: () => Promise<string | null>;
+  /**
+   * Callback invoked when Apple reauthentication is required
+   * Should return the identity token of a fresh Apple sign-in or null if cancelled
+   */
+  onAppleReauthRequired?: ReauthenticationHandlers["apple"];
   /**
    * Callback invoked when password reauthentication is required
    * Required for password-based accounts
@@ -23,8 +36,16 @@ export interface UseAccountManagementOptions {
 export interface UseAccountManagementReturn {
   logout: () => Promise<void>;
   deleteAccount: () => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  /**
+   * Request an email change. Skips reauthentication after a recent login, otherwise
+   * uses the password when given, else the callback for the account's sign-in method
+   */
+  changeEmail: (newEmail: string, password?: string) => Promise<void>;
   isLoading: boolean;
   isDeletingAccount: boolean;
+  isChangingPassword: boolean;
+  isChangingEmail: boolean;
 }
 
 export const useAccountManagement = (
@@ -33,7 +54,19 @@ export const useAccountManagement = (
   const { user, loading, signOut } = useAuth();
   const [isDeletingAccount, setIsDeletingAccount] = useState(false);
 
-  const { onReauthRequired, onPasswordRequired } = options;
+  const { onReauthRequired, onAppleReauthRequired, onPasswordRequired } = options;
+  const changePasswordMutation = useChangePasswordMutation();
+  const changeEmailMutation = useChangeEmailMutation();
+  const { mutateAsync: reauthenticate } = useReauthenticateMutation();
+
+  const reauthHandlers = useMemo<ReauthenticationHandlers>(() => ({
+    password: onPasswordRequired,
+    google: onReauthRequired && (async () => {
+      const idToken = await onReauthRequired();
+      return idToken ? { idToken } : null;
+    }),
+    apple: onAppleReauthRequired,
+  }), [onPasswordRequired, onReauthRequired, onAppleReauthRequired]);
 
   const logout = useCallback(async () => {
     await signOut();
@@ -51,24 +84,42 @@ export const useAccountManagement = (
     setIsDeletingAccount(true);
 
     try {
-      const result = await deleteCurrentUser({
-        autoReauthenticate: true,
-        onPasswordRequired,
-        onGoogleReauthRequired: onReauthRequired,
-      });
+      // Skipped when the user signed in, changed their password or reauthenticated moments ago
+      await reauthenticate({ maxAgeMs: RECENT_LOGIN_MAX_AGE_MS, handlers: reauthHandlers });
+
+      const result = await deleteCurrentUser({ autoReauthenticate: false });
 
       if (!result.success) {
         throw new Error(result.error?.message || "Failed to delete account");
       }
+      void authEventService.emit("account-deleted", { userId: user.uid });
+    } catch (error) {
+      authEventService.emitAuthError(error, "deleteAccount");
+      throw error;
     } finally {
       setIsDeletingAccount(false);
     }
-  }, [user, onPasswordRequired, onReauthRequired]);
+  }, [user, reauthenticate, reauthHandlers]);
+
+  const changePassword = useCallback(async (currentPassword: string, newPassword: string) => {
+    await changePasswordMutation.mutateAsync({ currentPassword, newPassword });
+  }, [changePasswordMutation]);
+
+  const changeEmail = useCallback(async (newEmail: string, password?: string) => {
+    const handlers = password === undefined
+      ? reauthHandlers
+      : { ...reauthHandlers, password: () => Promise.resolve(password) };
+    await changeEmailMutation.mutateAsync({ newEmail, handlers });
+  }, [changeEmailMutation, reauthHandlers]);
 
   return {
     logout,
     deleteAccount,
+    changePassword,
+    changeEmail,
     isLoading: loading,
     isDeletingAccount,
+    isChangingPassword: changePasswordMutation.isPending,
+    isChangingEmail: changeEmailMutation.isPending,
   };
 };
@@ -0,0 +1,110 @@
+/**
+ * useAppLock Hook
+ * PIN / biometric app lock state and actions (authConfig.appLock)
+ *
+ * Usage:
+ * ```tsx
+ * const { hasPin, setPin, setBiometricsEnabled, lock } = useAppLock();
+ * ```
+ */
+
+import { useState, useCallback, useEffect, useSyncExternalStore } from "react";
+import { appLockService } from "../../infrastructure/services/AppLockService";
+import { sessionTimeoutService } from "../../infrastructure/services/SessionTimeoutService";
+import { useAuthStore } from "../stores/authStore";
+import type { AppLockState } from "../../infrastructure/types/AppLock.types";
+
+const subscribe = (listener: () => void) => appLockService.subscribe(listener);
+const getState = () => appLockService.getState();
+
+export interface UseAppLockResult extends AppLockState {
+  pinLength: number;
+  isBiometricAvailable: boolean;
+  /** Wrong PINs paused unlocking, see lockedOutUntil */
+  isLockedOut: boolean;
+  setPin: (pin: string) => Promise<void>;
+  changePin: (currentPin: string, newPin: string) => Promise<void>;
+  removePin: (currentPin: string) => Promise<void>;
+  setBiometricsEnabled: (enabled: boolean) => Promise<void>;
+  /** Resolves false for a wrong PIN or while locked out */
+  unlockWithPin: (pin: string) => Promise<boolean>;
+  /** prompt is shown by the system dialog, e.g. "Unlock MyApp" */
+  unlockWithBiometrics: (prompt: string) => Promise<boolean>;
+  lock: () => void;
+}
+
+/**
+ * A session locked by the session timeout is unlocked by the app lock too
+ */
+function unlockSession(): void {
+  const { status, user, transition } = useAuthStore.getState();
+  if (status !== "locked") return;
+  sessionTimeoutService.resume();
+  transition({ type: "sessionUnlocked", user });
+}
+
+export function useAppLock(): UseAppLockResult {
+  const state = useSyncExternalStore(subscribe, getState);
+  const [isBiometricAvailable, setIsBiometricAvailable] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!state.isEnabled) return;
+
+    let cancelled = false;
+    void appLockService.isBiometricAvailable().then((available) => {
+      if (!cancelled) setIsBiometricAvailable(available);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [state.isEnabled]);
+
+  // Re-render when the lockout ends
+  const { lockedOutUntil } = state;
+  useEffect(() => {
+    if (lockedOutUntil === null) return;
+
+    setNow(Date.now());
+    const timeout = setTimeout(() => setNow(Date.now()), Math.max(0, lockedOutUntil - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [lockedOutUntil]);
+
+  const setPin = useCallback((pin: string) => appLockService.setPin(pin), []);
+  const changePin = useCallback(
+    (currentPin: string, newPin: string) => appLockService.changePin(currentPin, newPin),
+    []
+  );
+  const removePin = useCallback((currentPin: string) => appLockService.removePin(currentPin), []);
+  const setBiometricsEnabled = useCallback(
+    (enabled: boolean) => appLockService.setBiometricsEnabled(enabled),
+    []
+  );
+  const lock = useCallback(() => appLockService.lock(), []);
+
+  const unlockWithPin = useCallback(async (pin: string) => {
+    const unlocked = await appLockService.unlockWithPin(pin);
+    if (unlocked) unlockSession();
+    return unlocked;
+  }, []);
+
+  const unlockWithBiometrics = useCallback(async (prompt: string) => {
+    const unlocked = await appLockService.unlockWithBiometrics(prompt);
+    if (unlocked) unlockSession();
+    return unlocked;
+  }, []);
+
+  return {
+    ...state,
+    pinLength: appLockService.getPinLength(),
+    isBiometricAvailable,
+    isLockedOut: lockedOutUntil !== null && lockedOutUntil > now,
+    setPin,
+    changePin,
+    removePin,
+    setBiometricsEnabled,
+    unlockWithPin,
+    unlockWithBiometrics,
+    lock,
+  };
+}
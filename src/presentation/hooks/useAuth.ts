@@ -7,8 +7,10 @@
 import { useCallback } from "react";
 import { useAuthStore } from "../stores/authStore";
 import {
+  selectTransition,
   selectSetLoading,
   selectSetError,
+  selectUpdateUser,
 } from "../stores/auth.selectors";
 import {
   calculateUserId,
@@ -18,19 +20,27 @@ import {
   calculateUserType,
   calculateIsAuthReady,
 } from "../../infrastructure/utils/calculators/authStateCalculator";
-import type { UserType } from "../../types/auth-store.types";
+import type { AuthStatus, UserType } from "../../types/auth-store.types";
+import { MultiFactorRequiredError } from "../../domain/errors/AuthError";
 import {
   useSignInMutation,
   useSignUpMutation,
   useSignOutMutation,
   useAnonymousModeMutation,
+  usePasswordResetMutation,
+  useUpdateProfileMutation,
+  useUpgradeAnonymousAccountMutation,
 } from "./mutations/useAuthMutations";
 import type { AuthUser } from "../../domain/entities/AuthUser";
+import type { UpdateProfileParams } from "../../domain/entities/UserProfile";
+import type { LinkCredential } from "../../domain/entities/AccountLink";
 
 export interface UseAuthResult {
   user: AuthUser | null;
   userId: string | null;
   userType: UserType;
+  /** Auth lifecycle status, loading and isAuthReady derive from it */
+  status: AuthStatus;
   loading: boolean;
   isAuthReady: boolean;
   isAnonymous: boolean;
@@ -41,6 +51,10 @@ export interface UseAuthResult {
   signIn: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
   continueAnonymously: () => Promise<void>;
+  /** Makes the anonymous user permanent, keeping its UID */
+  upgradeAnonymousAccount: (credential: LinkCredential, displayName?: string) => Promise<AuthUser>;
+  sendPasswordResetEmail: (email: string) => Promise<void>;
+  updateProfile: (params: UpdateProfileParams) => Promise<AuthUser>;
   setError: (error: string | null) => void;
 }
 
@@ -48,18 +62,22 @@ export function useAuth(): UseAuthResult {
   // PERFORMANCE: Individual selectors instead of selectAuthState to avoid unstable object references
   // This fixes the 'getSnapshot should be cached' warning in React 19
   const user = useAuthStore((s) => s.user);
+  const status = useAuthStore((s) => s.status);
   const loading = useAuthStore((s) => s.loading);
   const error = useAuthStore((s) => s.error);
-  const firebaseUser = useAuthStore((s) => s.firebaseUser);
-  const initialized = useAuthStore((s) => s.initialized);
 
+  const transition = useAuthStore(selectTransition);
   const setLoading = useAuthStore(selectSetLoading);
   const setError = useAuthStore(selectSetError);
+  const updateUser = useAuthStore(selectUpdateUser);
 
   const signInMutation = useSignInMutation();
   const signUpMutation = useSignUpMutation();
   const signOutMutation = useSignOutMutation();
   const anonymousModeMutation = useAnonymousModeMutation();
+  const passwordResetMutation = usePasswordResetMutation();
+  const updateProfileMutation = useUpdateProfileMutation();
+  const upgradeMutation = useUpgradeAnonymousAccountMutation();
 
   const signUp = useCallback(
     async (email: string, password: string, displayName?: string) => {
@@ -67,7 +85,7 @@ export function useAuth(): UseAuthResult {
         setLoading(true);
         setError(null);
         await signUpMutation.mutateAsync({ email, password, displayName });
-        // isAnonymous is automatically derived from firebaseUser by the auth listener
+        // isAnonymous is automatically derived from the user by the auth listener
       } catch (err: unknown) {
         setError(err instanceof Error ? err.message : "Sign up failed");
         throw err;
@@ -84,9 +102,12 @@ export function useAuth(): UseAuthResult {
         setLoading(true);
         setError(null);
         await signInMutation.mutateAsync({ email, password });
-        // isAnonymous is automatically derived from firebaseUser by the auth listener
+        // isAnonymous is automatically derived from the user by the auth listener
       } catch (err: unknown) {
-        setError(err instanceof Error ? err.message : "Sign in failed");
+        // A second-factor challenge is a step of the flow, not a failure
+        if (!(err instanceof MultiFactorRequiredError)) {
+          setError(err instanceof Error ? err.message : "Sign in failed");
+        }
         throw err;
       } finally {
         setLoading(false);
@@ -97,23 +118,23 @@ export function useAuth(): UseAuthResult {
 
   const signOut = useCallback(async () => {
     try {
-      setLoading(true);
+      transition({ type: "signOutStarted" });
       setError(null);
       await signOutMutation.mutateAsync();
+      // The auth listener resolves the signed-out session
     } catch (err: unknown) {
+      transition({ type: "signOutFailed", user });
       setError(err instanceof Error ? err.message : "Sign out failed");
       throw err;
-    } finally {
-      setLoading(false);
     }
-  }, [setLoading, setError, signOutMutation.mutateAsync]);
+  }, [transition, setError, user, signOutMutation.mutateAsync]);
 
   const continueAnonymously = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
       await anonymousModeMutation.mutateAsync();
-      // isAnonymous is automatically derived from firebaseUser by the auth listener
+      // isAnonymous is automatically derived from the user by the auth listener
     } catch (err: unknown) {
       setError(err instanceof Error ? err.message : "Failed to continue anonymously");
       throw err;
@@ -122,18 +143,56 @@ export function useAuth(): UseAuthResult {
     }
   }, [setLoading, setError, anonymousModeMutation.mutateAsync]);
 
+  const upgradeAnonymousAccount = useCallback(
+    async (credential: LinkCredential, displayName?: string) => {
+      try {
+        setLoading(true);
+        setError(null);
+        const upgradedUser = await upgradeMutation.mutateAsync({ credential, displayName });
+        // Linking keeps the UID; the token listener catches up, push the new providers right away
+        updateUser(upgradedUser);
+        return upgradedUser;
+      } catch (err: unknown) {
+        setError(err instanceof Error ? err.message : "Account upgrade failed");
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [setLoading, setError, updateUser, upgradeMutation.mutateAsync]
+  );
+
+  // Password reset does not change auth state, so it leaves the global loading/error untouched
+  const sendPasswordResetEmail = useCallback(
+    async (email: string) => {
+      await passwordResetMutation.mutateAsync(email);
+    },
+    [passwordResetMutation.mutateAsync]
+  );
+
+  // Profile changes don't trigger the token listener, so push the result into the store directly
+  const updateProfile = useCallback(
+    async (params: UpdateProfileParams) => {
+      const updatedUser = await updateProfileMutation.mutateAsync(params);
+      updateUser(updatedUser);
+      return updatedUser;
+    },
+    [updateProfileMutation.mutateAsync, updateUser]
+  );
+
   // Derive state (same logic as in selectAuthState but stable within this hook)
-  const userId = calculateUserId(firebaseUser);
-  const isAuthenticated = calculateIsAuthenticated(firebaseUser);
-  const isAnonymous = calculateIsAnonymous(firebaseUser);
-  const userType = calculateUserType(firebaseUser);
-  const isAuthReady = calculateIsAuthReady(initialized, loading);
-  const hasFirebaseUser = calculateHasFirebaseUser(firebaseUser);
+  const userId = calculateUserId(user);
+  const isAuthenticated = calculateIsAuthenticated(user);
+  const isAnonymous = calculateIsAnonymous(user);
+  const userType = calculateUserType(user);
+  const isAuthReady = calculateIsAuthReady(status, loading);
+  const hasFirebaseUser = calculateHasFirebaseUser(user);
 
   return {
     user,
     userId,
     userType,
+    status,
     loading,
     isAuthReady,
     isAnonymous,
@@ -144,6 +203,9 @@ export function useAuth(): UseAuthResult {
     signIn,
     signOut,
     continueAnonymously,
+    upgradeAnonymousAccount,
+    sendPasswordResetEmail,
+    updateProfile,
     setError,
   };
 }
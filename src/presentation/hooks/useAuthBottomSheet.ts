@@ -4,12 +4,14 @@ import { useAuthModalStore } from "../stores/authModalStore";
 import { useAuth } from "../hooks/useAuth";
 import { useGoogleAuth, type GoogleAuthConfig } from "./useGoogleAuth";
 import { useAppleAuth } from "./useAppleAuth";
+import { useOidcAuth } from "./useOidcAuth";
 import type { SocialAuthProvider } from "../../domain/value-objects/AuthConfig";
 import {
   useAuthTransitions,
   executeAfterAuth,
 } from "../utils/authTransition.util";
 import { determineEnabledProviders } from "../utils/socialAuthHandler.util";
+import type { LinkCredential } from "../../domain/entities/AccountLink";
 
 export interface SocialAuthConfiguration {
   google?: GoogleAuthConfig;
@@ -20,18 +22,25 @@ interface UseAuthBottomSheetParams {
   socialConfig?: SocialAuthConfiguration;
   onGoogleSignIn?: () => Promise<void>;
   onAppleSignIn?: () => Promise<void>;
+  /**
+   * Provider credential for anonymous users, linked onto the current UID
+   * instead of signing in as a new user. Return null when cancelled.
+   */
+  getSocialCredential?: (provider: "google.com" | "apple.com") => Promise<LinkCredential | null>;
   /** Called when auth completes successfully (login or register) */
   onAuthSuccess?: () => void;
+  /** Switch to the two-factor step when an OIDC sign-in needs a second factor */
+  multiFactorEnabled?: boolean;
 }
 
 export function useAuthBottomSheet(params: UseAuthBottomSheetParams = {}) {
-  const { socialConfig, onGoogleSignIn, onAppleSignIn, onAuthSuccess } = params;
+  const { socialConfig, onGoogleSignIn, onAppleSignIn, getSocialCredential, onAuthSuccess, multiFactorEnabled } = params;
 
   const modalRef = useRef<BottomSheetModalRef>(null);
 
   const { isVisible, mode, hideAuthModal, setMode, executePendingCallback, clearPendingCallback } =
     useAuthModalStore();
-  const { isAuthenticated, isAnonymous } = useAuth();
+  const { isAuthenticated, isAnonymous, upgradeAnonymousAccount } = useAuth();
 
   // Social Auth Hooks
   const { signInWithGoogle, googleConfigured } = useGoogleAuth(socialConfig?.google);
@@ -102,9 +111,40 @@ export function useAuthBottomSheet(params: UseAuthBottomSheetParams = {}) {
     setMode("login");
   }, [setMode]);
 
+  const handleNavigateToForgotPassword = useCallback(() => {
+    setMode("forgot");
+  }, [setMode]);
+
+  // The pending challenge stays on the auth service, the sheet only switches mode
+  const handleMultiFactorRequired = useCallback(() => {
+    setMode("mfa");
+  }, [setMode]);
+
+  // OAuth/OIDC providers come from the auth config passed to initializeAuth
+  const { providerButtons: oidcButtons } = useOidcAuth({
+    onMultiFactorRequired: multiFactorEnabled ? handleMultiFactorRequired : undefined,
+  });
+
+  // Anonymous users keep their UID when the app can hand over the provider credential
+  const upgradeWithSocialCredential = useCallback(async (provider: "google.com" | "apple.com") => {
+    if (!isAnonymous || !getSocialCredential) return false;
+
+    const credential = await getSocialCredential(provider);
+    if (credential) {
+      try {
+        await upgradeAnonymousAccount(credential);
+      } catch {
+        // Already surfaced through the auth store error shown by the forms
+      }
+    }
+    return true;
+  }, [isAnonymous, getSocialCredential, upgradeAnonymousAccount]);
+
   const handleGoogleSignIn = useCallback(async () => {
     setGoogleLoading(true);
     try {
+      if (await upgradeWithSocialCredential("google.com")) return;
+
       if (onGoogleSignIn) {
         await onGoogleSignIn();
       } else if (signInWithGoogle) {
@@ -113,11 +153,13 @@ export function useAuthBottomSheet(params: UseAuthBottomSheetParams = {}) {
     } finally {
       setGoogleLoading(false);
     }
-  }, [onGoogleSignIn, signInWithGoogle]);
+  }, [upgradeWithSocialCredential, onGoogleSignIn, signInWithGoogle]);
 
   const handleAppleSignIn = useCallback(async () => {
     setAppleLoading(true);
     try {
+      if (await upgradeWithSocialCredential("apple.com")) return;
+
       if (onAppleSignIn) {
         await onAppleSignIn();
       } else if (signInWithApple) {
@@ -126,7 +168,7 @@ export function useAuthBottomSheet(params: UseAuthBottomSheetParams = {}) {
     } finally {
       setAppleLoading(false);
     }
-  }, [onAppleSignIn, signInWithApple]);
+  }, [upgradeWithSocialCredential, onAppleSignIn, signInWithApple]);
 
   return useMemo(() => ({
     modalRef,
@@ -134,10 +176,13 @@ export function useAuthBottomSheet(params: UseAuthBottomSheetParams = {}) {
     appleLoading,
     mode,
     providers,
+    oidcButtons,
     handleDismiss,
     handleClose,
     handleNavigateToRegister,
     handleNavigateToLogin,
+    handleNavigateToForgotPassword,
+    handleMultiFactorRequired,
     handleGoogleSignIn,
     handleAppleSignIn,
   }), [
@@ -146,10 +191,13 @@ export function useAuthBottomSheet(params: UseAuthBottomSheetParams = {}) {
     appleLoading,
     mode,
     providers,
+    oidcButtons,
     handleDismiss,
     handleClose,
     handleNavigateToRegister,
     handleNavigateToLogin,
+    handleNavigateToForgotPassword,
+    handleMultiFactorRequired,
     handleGoogleSignIn,
     handleAppleSignIn,
   ]);
@@ -4,9 +4,11 @@
  */
 
 import { useCallback } from "react";
-import { getAuthErrorLocalizationKey, resolveErrorMessage } from "../utils/getAuthErrorMessage";
+import { authErrorRegistry } from "../../shared/error-handling/registry/AuthErrorRegistry";
+import { resolveErrorMessage } from "../utils/getAuthErrorMessage";
 
 export interface UseAuthErrorHandlerConfig {
+  /** Win over the messages registered with initializeAuth({ errorLocalization }) */
   translations?: Record<string, string>;
 }
 
@@ -46,10 +48,9 @@ export function useAuthErrorHandler(
 
   const handleAuthError = useCallback(
     (error: unknown): string => {
-      const localizationKey = getAuthErrorLocalizationKey(error);
-      return getErrorMessage(localizationKey);
+      return authErrorRegistry.getErrorMessage(error, config?.translations);
     },
-    [getErrorMessage]
+    [config?.translations]
   );
 
   return {
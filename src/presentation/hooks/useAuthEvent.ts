@@ -0,0 +1,39 @@
+/**
+ * useAuthEvent Hook
+ * Subscribes a component to auth events for as long as it is mounted
+ *
+ * Usage:
+ * ```tsx
+ * useAuthEvent("user-signed-up", ({ userId, method }) => analytics.track("sign_up", { userId, method }));
+ * useAuthEvent("*", (event) => logger.info(event.type, event));
+ * ```
+ */
+
+import { useEffect, useRef } from "react";
+import { authEventService } from "../../infrastructure/services/AuthEventService";
+import type {
+  AuthEventListener,
+  AuthEventName,
+  AuthEventSubscription,
+  AuthWildcardListener,
+} from "../../infrastructure/types/AuthEvents.types";
+
+export function useAuthEvent<K extends AuthEventName>(eventName: K, handler: AuthEventListener<K>): void;
+export function useAuthEvent(eventName: "*", handler: AuthWildcardListener): void;
+export function useAuthEvent(
+  eventName: AuthEventSubscription,
+  handler: AuthEventListener<AuthEventName> | AuthWildcardListener
+): void {
+  // Keep the latest handler in a ref so inline handlers don't resubscribe every render
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    // Every handler takes the payload of the event it is subscribed to
+    const listener: AuthWildcardListener = (event) =>
+      (handlerRef.current as AuthWildcardListener)(event);
+    return eventName === "*"
+      ? authEventService.on("*", listener)
+      : authEventService.on<AuthEventName>(eventName, listener as AuthEventListener<AuthEventName>);
+  }, [eventName]);
+}
@@ -2,7 +2,7 @@ import { useCallback } from "react";
 import { Linking, Alert } from "react-native";
 import { useAuth } from "./useAuth";
 import { useAuthModalStore } from "../stores/authModalStore";
-import { useAccountManagement } from "./useAccountManagement";
+import { useAccountManagement, type UseAccountManagementOptions } from "./useAccountManagement";
 import { AlertService } from "@umituz/react-native-design-system/molecules";
 import { usePasswordPromptNavigation } from "./usePasswordPromptNavigation";
 
@@ -23,7 +23,16 @@ export interface AuthHandlersTranslations {
   deleteAccountError?: string;
 }
 
-export const useAuthHandlers = (appInfo: AuthHandlersAppInfo, translations?: AuthHandlersTranslations) => {
+/**
+ * Google / Apple accounts confirm deletion with a fresh sign-in instead of the password prompt
+ */
+export type AuthHandlersReauthentication = Pick<UseAccountManagementOptions, "onReauthRequired" | "onAppleReauthRequired">;
+
+export const useAuthHandlers = (
+  appInfo: AuthHandlersAppInfo,
+  translations?: AuthHandlersTranslations,
+  reauthentication?: AuthHandlersReauthentication
+) => {
   const { signOut } = useAuth();
   const { showAuthModal } = useAuthModalStore();
 
@@ -35,6 +44,7 @@ export const useAuthHandlers = (appInfo: AuthHandlersAppInfo, translations?: Aut
   });
 
   const { deleteAccount: deleteAccountFromAuth } = useAccountManagement({
+    ...reauthentication,
     onPasswordRequired: showPasswordPrompt,
   });
 
@@ -18,13 +18,19 @@
 
 import { useCallback } from "react";
 import { useAuthStore } from "../stores/authStore";
-import { selectIsAuthenticated, selectLoading, selectFirebaseUserId } from "../stores/auth.selectors";
+import { selectIsAuthenticated, selectLoading, selectFirebaseUserId, selectUser } from "../stores/auth.selectors";
 import { useAuthModalStore } from "../stores/authModalStore";
 import { selectShowAuthModal } from "../stores/auth.selectors";
+import { getAuthService } from "../../infrastructure/services/AuthService";
 
 interface UseAuthRequiredResult {
-  /** Whether user is authenticated (not anonymous) */
+  /**
+   * Whether user is authenticated (not anonymous)
+   * With AuthConfig.requireEmailVerification, the email must also be verified
+   */
   isAllowed: boolean;
+  /** Whether user is signed in but still has to verify their email */
+  needsEmailVerification: boolean;
   /** Whether auth is still loading */
   isLoading: boolean;
   /** Current user ID (null if not authenticated) */
@@ -39,11 +45,17 @@ interface UseAuthRequiredResult {
  * Hook to check auth requirements and show modal if needed
  */
 export function useAuthRequired(): UseAuthRequiredResult {
-  const isAllowed = useAuthStore(selectIsAuthenticated);
+  const isAuthenticated = useAuthStore(selectIsAuthenticated);
+  const user = useAuthStore(selectUser);
   const isLoading = useAuthStore(selectLoading);
   const userId = useAuthStore(selectFirebaseUserId);
   const showAuthModal = useAuthModalStore(selectShowAuthModal);
 
+  const requireEmailVerification = getAuthService()?.getConfig().requireEmailVerification ?? false;
+  const needsEmailVerification =
+    requireEmailVerification && isAuthenticated && !(user?.emailVerified ?? false);
+  const isAllowed = isAuthenticated && !needsEmailVerification;
+
   const requireAuth = useCallback(() => {
     showAuthModal(undefined, "login");
   }, [showAuthModal]);
@@ -53,16 +65,22 @@ export function useAuthRequired(): UseAuthRequiredResult {
       return false;
     }
 
+    // Signed-in users can't fix verification from the login modal
+    if (needsEmailVerification) {
+      return false;
+    }
+
     if (!isAllowed) {
       showAuthModal(undefined, "login");
       return false;
     }
 
     return true;
-  }, [isAllowed, isLoading, showAuthModal]);
+  }, [isAllowed, isLoading, needsEmailVerification, showAuthModal]);
 
   return {
     isAllowed,
+    needsEmailVerification,
     isLoading,
     userId,
     requireAuth,
@@ -0,0 +1,17 @@
+/**
+ * useAuthTranslations Hook
+ * Built-in translations of the nearest AuthI18nProvider, English without one
+ *
+ * Usage:
+ * ```tsx
+ * const { t } = useAuthTranslations();
+ * <Text>{t("auth.login.title")}</Text>
+ * ```
+ */
+
+import { useContext } from "react";
+import { AuthI18nContext, type AuthI18nContextValue } from "../providers/AuthI18nProvider";
+
+export function useAuthTranslations(): AuthI18nContextValue {
+  return useContext(AuthI18nContext);
+}
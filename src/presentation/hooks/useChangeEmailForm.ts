@@ -0,0 +1,128 @@
+/**
+ * Change Email Form Hook
+ * Validates the new email and requests the change; reauthenticates unless the login
+ * is recent, with the password or, for accounts without one, Google or Apple
+ */
+
+import { useState, useCallback, useMemo } from "react";
+import { useAuthStore } from "../stores/authStore";
+import { selectUser } from "../stores/auth.selectors";
+import { useChangeEmailMutation } from "./mutations/useAuthMutations";
+import { validateChangeEmailForm } from "../utils/form/validation/formValidators";
+import { errorsToFieldErrors } from "../utils/form/validation/formValidation.utils";
+import { clearFieldError, type FieldErrors as GenericFieldErrors } from "../utils/form/formErrorUtils";
+import { useFormFields } from "../utils/form/useFormField.hook";
+import { sanitizeEmail } from "../../infrastructure/utils/validation/sanitization";
+import { getAuthService, RECENT_LOGIN_MAX_AGE_MS } from "../../infrastructure/services/AuthService";
+import type { ReauthenticationHandlers } from "../../infrastructure/types/Reauthentication.types";
+import { useAuthErrorHandler } from "./useAuthErrorHandler";
+import { useLocalError } from "./useLocalError";
+
+export type ChangeEmailFieldKey = "email" | "password";
+type FieldErrors = GenericFieldErrors<ChangeEmailFieldKey>;
+
+interface ChangeEmailFormTranslations {
+  errors: Record<string, string>;
+}
+
+export interface UseChangeEmailFormConfig {
+  translations?: ChangeEmailFormTranslations;
+  onSuccess?: () => void;
+  /** Google and Apple reauthentication for accounts without a password */
+  reauthHandlers?: Omit<ReauthenticationHandlers, "password">;
+}
+
+export interface UseChangeEmailFormResult {
+  currentEmail: string | null;
+  email: string;
+  password: string;
+  /**
+   * False after a recent login, and for accounts without a password, which
+   * confirm with Google or Apple instead
+   */
+  requiresPassword: boolean;
+  fieldErrors: FieldErrors;
+  loading: boolean;
+  /** True once the confirmation link has been sent to the new address */
+  isSent: boolean;
+  handleEmailChange: (text: string) => void;
+  handlePasswordChange: (text: string) => void;
+  handleChangeEmail: () => Promise<void>;
+  displayError: string | null;
+}
+
+export function useChangeEmailForm(config?: UseChangeEmailFormConfig): UseChangeEmailFormResult {
+  const user = useAuthStore(selectUser);
+  const { mutateAsync: changeEmail, isPending } = useChangeEmailMutation();
+  const { handleAuthError, getErrorMessage } = useAuthErrorHandler({ translations: config?.translations?.errors });
+  const { localError, setLocalError, clearLocalError } = useLocalError();
+  const onSuccess = config?.onSuccess;
+  const reauthHandlers = config?.reauthHandlers;
+  const requiresPassword = (user?.providers.includes("password") ?? true)
+    && !getAuthService()?.hasRecentLogin(RECENT_LOGIN_MAX_AGE_MS);
+
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [isSent, setIsSent] = useState(false);
+
+  const { fields, updateField } = useFormFields({ email: "", password: "" }, { clearLocalError });
+
+  const createFieldHandler = useCallback(
+    (field: ChangeEmailFieldKey) => (text: string) => {
+      updateField(field, text);
+      clearFieldError(setFieldErrors, field);
+      setIsSent(false);
+    },
+    [updateField]
+  );
+
+  // PERFORMANCE: Stable handler references for memoized inputs
+  const handlers = useMemo(() => ({
+    handleEmailChange: createFieldHandler("email"),
+    handlePasswordChange: createFieldHandler("password"),
+  }), [createFieldHandler]);
+
+  const handleChangeEmail = useCallback(async () => {
+    setLocalError(null);
+    setFieldErrors({});
+
+    // Sanitize once, use for both validation and the request
+    const sanitizedEmail = sanitizeEmail(fields.email);
+
+    const validation = validateChangeEmailForm(
+      {
+        email: sanitizedEmail,
+        password: requiresPassword ? fields.password : undefined,
+        currentEmail: user?.email,
+      },
+      getErrorMessage
+    );
+    if (!validation.isValid) {
+      setFieldErrors(errorsToFieldErrors(validation.errors));
+      return;
+    }
+
+    try {
+      await changeEmail({
+        newEmail: sanitizedEmail,
+        handlers: { ...reauthHandlers, password: () => Promise.resolve(fields.password) },
+      });
+      setIsSent(true);
+      onSuccess?.();
+    } catch (err: unknown) {
+      setLocalError(handleAuthError(err));
+    }
+  }, [fields, user?.email, requiresPassword, reauthHandlers, changeEmail, getErrorMessage, handleAuthError, setLocalError, onSuccess]);
+
+  return {
+    currentEmail: user?.email ?? null,
+    email: fields.email,
+    password: fields.password,
+    requiresPassword,
+    fieldErrors,
+    loading: isPending,
+    isSent,
+    ...handlers,
+    handleChangeEmail,
+    displayError: localError,
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Change Password Form Hook
+ * Validates current/new password and changes it with reauthentication
+ */
+
+import { useState, useCallback, useMemo } from "react";
+import { DEFAULT_PASSWORD_CONFIG } from "../../domain/value-objects/AuthConfig";
+import { getAuthService } from "../../infrastructure/services/AuthService";
+import type { PasswordRequirements } from "../../shared/validation/types";
+import { useAuthStore } from "../stores/authStore";
+import { selectUser } from "../stores/auth.selectors";
+import { useChangePasswordMutation } from "./mutations/useAuthMutations";
+import { validateChangePasswordForm } from "../utils/form/validation/formValidators";
+import { errorsToFieldErrors } from "../utils/form/validation/formValidation.utils";
+import { clearFieldError, type FieldErrors as GenericFieldErrors } from "../utils/form/formErrorUtils";
+import { useFormFields } from "../utils/form/useFormField.hook";
+import { usePasswordValidation } from "../utils/form/usePasswordValidation.hook";
+import { useAuthErrorHandler } from "./useAuthErrorHandler";
+import { useLocalError } from "./useLocalError";
+
+export type ChangePasswordFieldKey = "currentPassword" | "newPassword" | "confirmPassword";
+type FieldErrors = GenericFieldErrors<ChangePasswordFieldKey>;
+
+interface ChangePasswordFormTranslations {
+  errors: Record<string, string>;
+}
+
+export interface UseChangePasswordFormConfig {
+  translations?: ChangePasswordFormTranslations;
+  onSuccess?: () => void;
+}
+
+export interface UseChangePasswordFormResult {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+  fieldErrors: FieldErrors;
+  loading: boolean;
+  isChanged: boolean;
+  passwordRequirements: PasswordRequirements;
+  passwordsMatch: boolean;
+  handleCurrentPasswordChange: (text: string) => void;
+  handleNewPasswordChange: (text: string) => void;
+  handleConfirmPasswordChange: (text: string) => void;
+  handleChangePassword: () => Promise<void>;
+  displayError: string | null;
+}
+
+export function useChangePasswordForm(config?: UseChangePasswordFormConfig): UseChangePasswordFormResult {
+  const { mutateAsync: changePassword, isPending } = useChangePasswordMutation();
+  const { handleAuthError, getErrorMessage } = useAuthErrorHandler({ translations: config?.translations?.errors });
+  const { localError, setLocalError, clearLocalError } = useLocalError();
+  const user = useAuthStore(selectUser);
+  const onSuccess = config?.onSuccess;
+
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [isChanged, setIsChanged] = useState(false);
+
+  const { fields, updateField, resetFields } = useFormFields(
+    { currentPassword: "", newPassword: "", confirmPassword: "" },
+    { clearLocalError }
+  );
+
+  const passwordConfig = getAuthService()?.getConfig().password ?? DEFAULT_PASSWORD_CONFIG;
+  const policyContext = useMemo(
+    () => ({ email: user?.email, displayName: user?.displayName }),
+    [user?.email, user?.displayName]
+  );
+
+  const { passwordRequirements, passwordsMatch } = usePasswordValidation(
+    fields.newPassword,
+    fields.confirmPassword,
+    { passwordConfig, context: policyContext }
+  );
+
+  const createFieldHandler = useCallback(
+    (field: ChangePasswordFieldKey) => (text: string) => {
+      updateField(field, text);
+      clearFieldError(setFieldErrors, field);
+      setIsChanged(false);
+    },
+    [updateField]
+  );
+
+  // PERFORMANCE: Stable handler references for memoized inputs
+  const handlers = useMemo(() => ({
+    handleCurrentPasswordChange: createFieldHandler("currentPassword"),
+    handleNewPasswordChange: createFieldHandler("newPassword"),
+    handleConfirmPasswordChange: createFieldHandler("confirmPassword"),
+  }), [createFieldHandler]);
+
+  const handleChangePassword = useCallback(async () => {
+    setLocalError(null);
+    setFieldErrors({});
+
+    const validation = validateChangePasswordForm(fields, getErrorMessage, passwordConfig, policyContext);
+    if (!validation.isValid) {
+      setFieldErrors(errorsToFieldErrors(validation.errors));
+      return;
+    }
+
+    try {
+      await changePassword({
+        currentPassword: fields.currentPassword,
+        newPassword: fields.newPassword,
+      });
+      resetFields();
+      setIsChanged(true);
+      onSuccess?.();
+    } catch (err: unknown) {
+      setLocalError(handleAuthError(err));
+    }
+  }, [fields, passwordConfig, policyContext, changePassword, getErrorMessage, handleAuthError, setLocalError, resetFields, onSuccess]);
+
+  return {
+    currentPassword: fields.currentPassword,
+    newPassword: fields.newPassword,
+    confirmPassword: fields.confirmPassword,
+    fieldErrors,
+    loading: isPending,
+    isChanged,
+    passwordRequirements,
+    passwordsMatch,
+    ...handlers,
+    handleChangePassword,
+    displayError: localError,
+  };
+}
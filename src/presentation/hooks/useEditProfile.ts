@@ -0,0 +1,159 @@
+/**
+ * useEditProfile Hook
+ * Profile form state (dirty tracking, validation, save/cancel)
+ * that produces a ready EditProfileScreen config
+ *
+ * Usage:
+ * ```tsx
+ * const { config } = useEditProfile({ labels, onSaved: navigation.goBack });
+ * return <EditProfileScreen config={config} />;
+ * ```
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useForm } from "../../shared/form/builders";
+import { useAuth } from "./useAuth";
+import { useAuthErrorHandler } from "./useAuthErrorHandler";
+import { validateProfileForm } from "../utils/form/validation/formValidators";
+import { extractFieldError } from "../../infrastructure/utils/calculators/formErrorCollection";
+import { sanitizeName } from "../../infrastructure/utils/validation/sanitization";
+import type { AuthUser } from "../../domain/entities/AuthUser";
+import type { UpdateProfileParams } from "../../domain/entities/UserProfile";
+import type { EditProfileConfig, EditProfileLabels } from "../screens/EditProfileScreen";
+
+type EditProfileValues = {
+  displayName: string;
+  photoURL: string;
+};
+
+export interface UseEditProfileOptions {
+  labels: EditProfileLabels;
+  translations?: {
+    errors: Record<string, string>;
+  };
+  /** Called after the profile has been saved */
+  onSaved?: (user: AuthUser) => void;
+  /** Called after cancel has discarded the changes */
+  onCancel?: () => void;
+  onChangePhoto?: () => void;
+}
+
+export interface UseEditProfileResult {
+  /** Ready-made EditProfileScreen config */
+  config: EditProfileConfig;
+  values: EditProfileValues;
+  isDirty: boolean;
+  isSaving: boolean;
+  error: string | null;
+  setPhotoURL: (photoURL: string) => void;
+  save: () => Promise<void>;
+  cancel: () => void;
+}
+
+function toFormValues(user: AuthUser | null): EditProfileValues {
+  return {
+    displayName: user?.displayName ?? "",
+    photoURL: user?.photoURL ?? "",
+  };
+}
+
+export function useEditProfile(options: UseEditProfileOptions): UseEditProfileResult {
+  const { labels, translations, onSaved, onCancel, onChangePhoto } = options;
+  const { user, loading, updateProfile } = useAuth();
+  const { handleAuthError, getErrorMessage } = useAuthErrorHandler({ translations: translations?.errors });
+
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    values,
+    errors,
+    handleChange,
+    setFieldValue,
+    setFieldError,
+    resetForm,
+    clearErrors,
+    isDirty,
+  } = useForm<EditProfileValues>({
+    initialValues: toFormValues(user),
+    onFieldChange: () => setError(null),
+  });
+
+  // Adopt the loaded/refreshed profile as the clean baseline, unless the user is mid-edit
+  // (isDirty is intentionally not a dependency: only profile changes should re-run this)
+  const userDisplayName = user?.displayName;
+  const userPhotoURL = user?.photoURL;
+  useEffect(() => {
+    if (isDirty) return;
+    resetForm({ displayName: userDisplayName ?? "", photoURL: userPhotoURL ?? "" });
+  }, [userDisplayName, userPhotoURL, resetForm]);
+
+  const setPhotoURL = useCallback((photoURL: string) => {
+    setFieldValue("photoURL", photoURL);
+  }, [setFieldValue]);
+
+  const save = useCallback(async () => {
+    clearErrors();
+    setError(null);
+
+    const displayName = sanitizeName(values.displayName);
+    const validation = validateProfileForm({ displayName, email: "" }, getErrorMessage);
+    if (!validation.isValid) {
+      setFieldError("displayName", extractFieldError(validation.errors, "displayName"));
+      return;
+    }
+
+    // Only send what actually changed
+    const params: UpdateProfileParams = {};
+    if (displayName !== (user?.displayName ?? "")) params.displayName = displayName;
+    if (values.photoURL !== (user?.photoURL ?? "")) params.photoURL = values.photoURL;
+
+    setIsSaving(true);
+    try {
+      const updatedUser = await updateProfile(params);
+      resetForm(toFormValues(updatedUser));
+      onSaved?.(updatedUser);
+    } catch (err: unknown) {
+      setError(handleAuthError(err));
+    } finally {
+      setIsSaving(false);
+    }
+  }, [values, user, updateProfile, getErrorMessage, handleAuthError, clearErrors, setFieldError, resetForm, onSaved]);
+
+  const cancel = useCallback(() => {
+    resetForm();
+    setError(null);
+    onCancel?.();
+  }, [resetForm, onCancel]);
+
+  const handleDisplayNameChange = useMemo(() => handleChange("displayName"), [handleChange]);
+
+  const config = useMemo<EditProfileConfig>(() => ({
+    displayName: values.displayName,
+    email: user?.email ?? "",
+    photoURL: values.photoURL || null,
+    isLoading: loading && !user,
+    isSaving,
+    isEmailEditable: false,
+    displayNameError: errors.displayName ?? null,
+    error,
+    onChangeDisplayName: handleDisplayNameChange,
+    // Email changes need reauthentication, see ChangeEmailScreen
+    onChangeEmail: () => {},
+    onChangePhoto,
+    onSave: () => { void save(); },
+    onCancel: cancel,
+    labels,
+  }), [values, user, loading, isSaving, errors.displayName, error, handleDisplayNameChange, onChangePhoto, save, cancel, labels]);
+
+  return {
+    config,
+    values,
+    isDirty,
+    isSaving,
+    error,
+    setPhotoURL,
+    save,
+    cancel,
+  };
+}
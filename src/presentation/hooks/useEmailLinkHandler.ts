@@ -0,0 +1,118 @@
+/**
+ * Email Link Handler Hook
+ * Completes email link sign-in from incoming deep links
+ * (cold start via the initial URL and links opened while running)
+ *
+ * Usage:
+ * ```tsx
+ * // Mount once where the app can receive links, e.g. next to AuthNavigator
+ * useEmailLinkHandler({ onEmailRequired: () => navigation.navigate("MagicLink") });
+ * ```
+ */
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import { Linking } from "react-native";
+import { useCompleteSignInFromLinkMutation } from "./mutations/useAuthMutations";
+import { useAuthErrorHandler } from "./useAuthErrorHandler";
+import { useLocalError } from "./useLocalError";
+import { AuthError } from "../../domain/errors/AuthError";
+import type { AuthUser } from "../../domain/entities/AuthUser";
+
+export interface UseEmailLinkHandlerOptions {
+  /** Listen for links (default: true) */
+  enabled?: boolean;
+  onSignedIn?: (user: AuthUser) => void;
+  /** The link was opened on another device, call completeWithEmail once the user confirms it */
+  onEmailRequired?: (url: string) => void;
+  translations?: {
+    errors: Record<string, string>;
+  };
+}
+
+export interface UseEmailLinkHandlerResult {
+  isCompleting: boolean;
+  /** Sign-in link waiting for the user to confirm their email */
+  pendingLinkUrl: string | null;
+  error: string | null;
+  /** Process a url manually, returns null when it is not a sign-in link */
+  handleUrl: (url: string) => Promise<AuthUser | null>;
+  completeWithEmail: (email: string) => Promise<AuthUser | null>;
+}
+
+export function useEmailLinkHandler(options: UseEmailLinkHandlerOptions = {}): UseEmailLinkHandlerResult {
+  const { enabled = true, translations } = options;
+  const { mutateAsync: completeSignInFromLink, isPending } = useCompleteSignInFromLinkMutation();
+  const { handleAuthError } = useAuthErrorHandler({ translations: translations?.errors });
+  const { localError, setLocalError } = useLocalError();
+  const [pendingLinkUrl, setPendingLinkUrl] = useState<string | null>(null);
+
+  // Keep latest callbacks in refs so the link listener doesn't need to resubscribe
+  const onSignedInRef = useRef(options.onSignedIn);
+  onSignedInRef.current = options.onSignedIn;
+  const onEmailRequiredRef = useRef(options.onEmailRequired);
+  onEmailRequiredRef.current = options.onEmailRequired;
+
+  const complete = useCallback(async (url: string, email?: string): Promise<AuthUser | null> => {
+    setLocalError(null);
+    try {
+      const user = await completeSignInFromLink({ url, email });
+      if (user) {
+        setPendingLinkUrl(null);
+        onSignedInRef.current?.(user);
+      }
+      return user;
+    } catch (err: unknown) {
+      if (err instanceof AuthError && err.code === "AUTH_LINK_EMAIL_REQUIRED") {
+        setPendingLinkUrl(url);
+        onEmailRequiredRef.current?.(url);
+        return null;
+      }
+      setLocalError(handleAuthError(err));
+      return null;
+    }
+  }, [completeSignInFromLink, handleAuthError, setLocalError]);
+
+  const handleUrl = useCallback((url: string) => complete(url), [complete]);
+
+  // The initial URL must only be processed once, so the listener effect reads the latest handler from a ref
+  const completeRef = useRef(complete);
+  completeRef.current = complete;
+
+  const completeWithEmail = useCallback(async (email: string): Promise<AuthUser | null> => {
+    if (!pendingLinkUrl) return null;
+    return complete(pendingLinkUrl, email);
+  }, [pendingLinkUrl, complete]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let isMounted = true;
+
+    Linking.getInitialURL()
+      .then((url) => {
+        if (url && isMounted) void completeRef.current(url);
+      })
+      .catch((error: unknown) => {
+        if (__DEV__) {
+          console.warn("[useEmailLinkHandler] Failed to read initial URL:", error);
+        }
+      });
+
+    const subscription = Linking.addEventListener("url", ({ url }) => {
+      void completeRef.current(url);
+    });
+
+    return () => {
+      isMounted = false;
+      subscription.remove();
+    };
+  }, [enabled]);
+
+  return {
+    isCompleting: isPending,
+    pendingLinkUrl,
+    error: localError,
+    handleUrl,
+    completeWithEmail,
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Email Verification Hook
+ * Sends verification emails with a resend cooldown and keeps
+ * the verified state fresh (foreground refresh and optional polling)
+ */
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import { AppState, type AppStateStatus } from "react-native";
+import { useAuthStore } from "../stores/authStore";
+import { selectUser, selectUpdateUser } from "../stores/auth.selectors";
+import {
+  useSendEmailVerificationMutation,
+  useReloadUserMutation,
+} from "./mutations/useAuthMutations";
+import { useAuthErrorHandler } from "./useAuthErrorHandler";
+import { useLocalError } from "./useLocalError";
+
+const DEFAULT_RESEND_COOLDOWN_SECONDS = 60;
+
+interface EmailVerificationTranslations {
+  errors: Record<string, string>;
+}
+
+export interface UseEmailVerificationOptions {
+  /** Seconds to wait before another email can be sent (default: 60) */
+  resendCooldownSeconds?: number;
+  /** Poll interval in ms while unverified, 0 disables polling (default: 0) */
+  pollIntervalMs?: number;
+  /** Refresh verification state when the app returns to the foreground (default: true) */
+  refreshOnForeground?: boolean;
+  /** Called once when the user becomes verified */
+  onVerified?: () => void;
+  translations?: EmailVerificationTranslations;
+}
+
+export interface UseEmailVerificationResult {
+  email: string | null;
+  isVerified: boolean;
+  /** Signed in with an email address that is not verified yet */
+  needsVerification: boolean;
+  isSending: boolean;
+  isRefreshing: boolean;
+  /** True once a verification email has been sent in this session */
+  isSent: boolean;
+  /** Seconds left before another email can be sent */
+  cooldownRemaining: number;
+  canResend: boolean;
+  error: string | null;
+  sendVerificationEmail: () => Promise<void>;
+  /** Reload the user and return the latest verified state */
+  refresh: () => Promise<boolean>;
+}
+
+export function useEmailVerification(
+  options: UseEmailVerificationOptions = {}
+): UseEmailVerificationResult {
+  const {
+    resendCooldownSeconds = DEFAULT_RESEND_COOLDOWN_SECONDS,
+    pollIntervalMs = 0,
+    refreshOnForeground = true,
+    onVerified,
+    translations,
+  } = options;
+
+  const user = useAuthStore(selectUser);
+  const updateUser = useAuthStore(selectUpdateUser);
+  const sendMutation = useSendEmailVerificationMutation();
+  const reloadMutation = useReloadUserMutation();
+  const { handleAuthError } = useAuthErrorHandler({ translations: translations?.errors });
+  const { localError, setLocalError } = useLocalError();
+
+  const [isSending, setIsSending] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+  const [cooldownRemaining, setCooldownRemaining] = useState(0);
+
+  const isVerified = user?.emailVerified ?? false;
+  const needsVerification = !!user && !user.isAnonymous && !!user.email && !isVerified;
+
+  // Keep latest values in refs so listeners don't need to resubscribe
+  const reloadRef = useRef(reloadMutation.mutateAsync);
+  reloadRef.current = reloadMutation.mutateAsync;
+  const onVerifiedRef = useRef(onVerified);
+  onVerifiedRef.current = onVerified;
+
+  const refresh = useCallback(async (): Promise<boolean> => {
+    setIsRefreshing(true);
+    try {
+      const refreshed = await reloadRef.current();
+      if (refreshed) {
+        updateUser(refreshed);
+      }
+      return refreshed?.emailVerified ?? false;
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [updateUser]);
+
+  // Background refreshes must never surface as unhandled rejections
+  const refreshSilently = useCallback(() => {
+    refresh().catch((error: unknown) => {
+      if (__DEV__) {
+        console.warn("[useEmailVerification] Failed to refresh user:", error);
+      }
+    });
+  }, [refresh]);
+
+  const sendVerificationEmail = useCallback(async () => {
+    if (cooldownRemaining > 0) return;
+
+    setLocalError(null);
+    setIsSending(true);
+    try {
+      await sendMutation.mutateAsync();
+      setIsSent(true);
+      setCooldownRemaining(resendCooldownSeconds);
+    } catch (err: unknown) {
+      setLocalError(handleAuthError(err));
+    } finally {
+      setIsSending(false);
+    }
+  }, [cooldownRemaining, resendCooldownSeconds, sendMutation, handleAuthError, setLocalError]);
+
+  // Count the resend cooldown down once per second
+  const isCoolingDown = cooldownRemaining > 0;
+  useEffect(() => {
+    if (!isCoolingDown) return;
+
+    const interval = setInterval(() => {
+      setCooldownRemaining((remaining) => Math.max(0, remaining - 1));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [isCoolingDown]);
+
+  // Users usually verify in a mail app, so check again when they come back
+  useEffect(() => {
+    if (!refreshOnForeground || !needsVerification) return;
+
+    let currentState: AppStateStatus = AppState.currentState;
+    const subscription = AppState.addEventListener("change", (nextState) => {
+      if (currentState !== "active" && nextState === "active") {
+        refreshSilently();
+      }
+      currentState = nextState;
+    });
+
+    return () => subscription.remove();
+  }, [refreshOnForeground, needsVerification, refreshSilently]);
+
+  useEffect(() => {
+    if (pollIntervalMs <= 0 || !needsVerification) return;
+
+    const interval = setInterval(refreshSilently, pollIntervalMs);
+    return () => clearInterval(interval);
+  }, [pollIntervalMs, needsVerification, refreshSilently]);
+
+  // Notify on the unverified -> verified transition only
+  const wasVerifiedRef = useRef(isVerified);
+  useEffect(() => {
+    if (isVerified && !wasVerifiedRef.current) {
+      onVerifiedRef.current?.();
+    }
+    wasVerifiedRef.current = isVerified;
+  }, [isVerified]);
+
+  return {
+    email: user?.email ?? null,
+    isVerified,
+    needsVerification,
+    isSending,
+    isRefreshing,
+    isSent,
+    cooldownRemaining,
+    canResend: needsVerification && !isSending && cooldownRemaining === 0,
+    error: localError,
+    sendVerificationEmail,
+    refresh,
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Forgot Password Form Hook
+ * Validates the email and sends a password reset link
+ */
+
+import { useState, useCallback } from "react";
+import { useAuth } from "./useAuth";
+import { validateForgotPasswordForm } from "../utils/form/validation/formValidators";
+import { useFormFields } from "../utils/form/useFormField.hook";
+import { sanitizeEmail } from "../../infrastructure/utils/validation/sanitization";
+import { useAuthErrorHandler } from "./useAuthErrorHandler";
+import { useLocalError } from "./useLocalError";
+import { extractFieldError } from "../../infrastructure/utils/calculators/formErrorCollection";
+
+interface ForgotPasswordFormTranslations {
+  errors: Record<string, string>;
+}
+
+export interface UseForgotPasswordFormConfig {
+  translations: ForgotPasswordFormTranslations;
+}
+
+export interface UseForgotPasswordFormResult {
+  email: string;
+  emailError: string | null;
+  localError: string | null;
+  loading: boolean;
+  /** True once the reset email has been sent for the current address */
+  isSent: boolean;
+  handleEmailChange: (text: string) => void;
+  handleSendResetEmail: () => Promise<void>;
+  displayError: string | null;
+}
+
+export function useForgotPasswordForm(config?: UseForgotPasswordFormConfig): UseForgotPasswordFormResult {
+  const { sendPasswordResetEmail } = useAuth();
+  const translations = config?.translations;
+  const { handleAuthError, getErrorMessage } = useAuthErrorHandler({ translations: translations?.errors });
+  const { localError, setLocalError, clearLocalError } = useLocalError();
+
+  const [emailError, setEmailError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+
+  const { fields, updateField } = useFormFields({ email: "" }, { clearLocalError });
+
+  const handleEmailChange = useCallback(
+    (text: string) => {
+      updateField("email", text);
+      setEmailError(null);
+      // A new address needs a new reset email
+      setIsSent(false);
+    },
+    [updateField]
+  );
+
+  const handleSendResetEmail = useCallback(async () => {
+    setEmailError(null);
+    setLocalError(null);
+
+    // Sanitize once, use for both validation and the request
+    const sanitizedEmail = sanitizeEmail(fields.email);
+
+    const validation = validateForgotPasswordForm({ email: sanitizedEmail }, getErrorMessage);
+    if (!validation.isValid) {
+      setEmailError(extractFieldError(validation.errors, "email"));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await sendPasswordResetEmail(sanitizedEmail);
+      setIsSent(true);
+    } catch (err: unknown) {
+      setLocalError(handleAuthError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [fields.email, sendPasswordResetEmail, getErrorMessage, handleAuthError, setLocalError]);
+
+  return {
+    email: fields.email,
+    emailError,
+    localError,
+    loading,
+    isSent,
+    handleEmailChange,
+    handleSendResetEmail,
+    displayError: localError,
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * useLinkedAccounts Hook
+ * Connect and disconnect sign-in methods on the current account,
+ * including the "already used by another account" conflict
+ *
+ * Usage:
+ * ```tsx
+ * const { linkedProviders, link, unlink } = useLinkedAccounts({
+ *   onConflict: (conflict) => promptSwitch(conflict),
+ * });
+ * await link({ provider: "google.com", idToken });
+ * ```
+ */
+
+import { useState, useCallback } from "react";
+import { useAuthStore } from "../stores/authStore";
+import { selectUpdateUser } from "../stores/auth.selectors";
+import {
+  useLinkProviderMutation,
+  useUnlinkProviderMutation,
+  useResolveCredentialConflictMutation,
+} from "./mutations/useAuthMutations";
+import { useAuthErrorHandler } from "./useAuthErrorHandler";
+import { useLocalError } from "./useLocalError";
+import { AuthCredentialAlreadyInUseError } from "../../domain/errors/AuthError";
+import type { AuthUser, AuthProviderType } from "../../domain/entities/AuthUser";
+import type {
+  LinkCredential,
+  LinkableProviderType,
+  CredentialConflict,
+} from "../../domain/entities/AccountLink";
+
+export interface UseLinkedAccountsOptions {
+  /** The credential belongs to another account; switchAccount() or dismissConflict() */
+  onConflict?: (conflict: CredentialConflict) => void;
+  /** Called after switching, with the uid of the account that was left */
+  onSwitchedAccount?: (user: AuthUser, previousUid: string | null) => void;
+  translations?: {
+    errors: Record<string, string>;
+  };
+}
+
+export interface UseLinkedAccountsResult {
+  linkedProviders: AuthProviderType[];
+  isLinked: (provider: LinkableProviderType) => boolean;
+  /** False while only one sign-in method is left */
+  canUnlink: boolean;
+  /** Provider currently being connected or disconnected */
+  pendingProvider: LinkableProviderType | null;
+  conflict: CredentialConflict | null;
+  isSwitching: boolean;
+  error: string | null;
+  link: (credential: LinkCredential) => Promise<boolean>;
+  unlink: (provider: LinkableProviderType) => Promise<boolean>;
+  /** Signs in to the account that owns the conflict (default: the pending one) */
+  switchAccount: (target?: CredentialConflict) => Promise<AuthUser | null>;
+  dismissConflict: () => void;
+}
+
+export function useLinkedAccounts(options: UseLinkedAccountsOptions = {}): UseLinkedAccountsResult {
+  const { onConflict, onSwitchedAccount, translations } = options;
+  const user = useAuthStore((s) => s.user);
+  const updateUser = useAuthStore(selectUpdateUser);
+  const { mutateAsync: linkProvider } = useLinkProviderMutation();
+  const { mutateAsync: unlinkProvider } = useUnlinkProviderMutation();
+  const { mutateAsync: resolveConflict, isPending: isSwitching } = useResolveCredentialConflictMutation();
+  const { handleAuthError } = useAuthErrorHandler({ translations: translations?.errors });
+  const { localError, setLocalError } = useLocalError();
+
+  const [pendingProvider, setPendingProvider] = useState<LinkableProviderType | null>(null);
+  const [conflict, setConflict] = useState<CredentialConflict | null>(null);
+
+  const linkedProviders = user?.providers ?? [];
+
+  const isLinked = useCallback(
+    (provider: LinkableProviderType) => linkedProviders.includes(provider),
+    [linkedProviders]
+  );
+
+  // Linking doesn't trigger the auth listener, so push the result into the store directly
+  const link = useCallback(async (credential: LinkCredential): Promise<boolean> => {
+    setLocalError(null);
+    setPendingProvider(credential.provider);
+    try {
+      updateUser(await linkProvider(credential));
+      return true;
+    } catch (err: unknown) {
+      if (err instanceof AuthCredentialAlreadyInUseError) {
+        setConflict(err.conflict);
+        onConflict?.(err.conflict);
+        return false;
+      }
+      setLocalError(handleAuthError(err));
+      return false;
+    } finally {
+      setPendingProvider(null);
+    }
+  }, [linkProvider, updateUser, onConflict, handleAuthError, setLocalError]);
+
+  const unlink = useCallback(async (provider: LinkableProviderType): Promise<boolean> => {
+    setLocalError(null);
+    setPendingProvider(provider);
+    try {
+      updateUser(await unlinkProvider(provider));
+      return true;
+    } catch (err: unknown) {
+      setLocalError(handleAuthError(err));
+      return false;
+    } finally {
+      setPendingProvider(null);
+    }
+  }, [unlinkProvider, updateUser, handleAuthError, setLocalError]);
+
+  const switchAccount = useCallback(async (target?: CredentialConflict): Promise<AuthUser | null> => {
+    const pendingConflict = target ?? conflict;
+    if (!pendingConflict) return null;
+
+    setLocalError(null);
+    const previousUid = user?.uid ?? null;
+    try {
+      const switchedUser = await resolveConflict(pendingConflict);
+      setConflict(null);
+      onSwitchedAccount?.(switchedUser, previousUid);
+      return switchedUser;
+    } catch (err: unknown) {
+      setLocalError(handleAuthError(err));
+      return null;
+    }
+  }, [conflict, user?.uid, resolveConflict, onSwitchedAccount, handleAuthError, setLocalError]);
+
+  const dismissConflict = useCallback(() => {
+    setConflict(null);
+  }, []);
+
+  return {
+    linkedProviders,
+    isLinked,
+    canUnlink: linkedProviders.length > 1,
+    pendingProvider,
+    conflict,
+    isSwitching,
+    error: localError,
+    link,
+    unlink,
+    switchAccount,
+    dismissConflict,
+  };
+}
@@ -7,6 +7,8 @@ import { sanitizeEmail } from "../../infrastructure/utils/validation/sanitizatio
 import { useAuthErrorHandler } from "./useAuthErrorHandler";
 import { useLocalError } from "./useLocalError";
 import { extractFieldError } from "../../infrastructure/utils/calculators/formErrorCollection";
+import { MultiFactorRequiredError } from "../../domain/errors/AuthError";
+import type { MultiFactorChallenge } from "../../domain/entities/MultiFactor";
 
 interface LoginFormTranslations {
   successTitle: string;
@@ -15,7 +17,9 @@ interface LoginFormTranslations {
 }
 
 export interface UseLoginFormConfig {
-  translations: LoginFormTranslations;
+  translations?: LoginFormTranslations;
+  /** Called instead of showing an error when the account needs a second factor */
+  onMultiFactorRequired?: (challenge: MultiFactorChallenge) => void;
 }
 
 export interface UseLoginFormResult {
@@ -35,6 +39,7 @@ export interface UseLoginFormResult {
 export function useLoginForm(config?: UseLoginFormConfig): UseLoginFormResult {
   const { signIn, loading, error, continueAnonymously } = useAuth();
   const translations = config?.translations;
+  const onMultiFactorRequired = config?.onMultiFactorRequired;
   const { handleAuthError, getErrorMessage } = useAuthErrorHandler({ translations: translations?.errors });
   const { localError, setLocalError, clearLocalError } = useLocalError();
 
@@ -96,6 +101,10 @@ export function useLoginForm(config?: UseLoginFormConfig): UseLoginFormResult {
         );
       }
     } catch (err: unknown) {
+      if (err instanceof MultiFactorRequiredError && onMultiFactorRequired) {
+        onMultiFactorRequired(err.challenge);
+        return;
+      }
       setLocalError(handleAuthError(err));
     }
   }, [
@@ -103,6 +112,7 @@ export function useLoginForm(config?: UseLoginFormConfig): UseLoginFormResult {
     fields.password,
     signIn,
     translations,
+    onMultiFactorRequired,
     handleAuthError,
     getErrorMessage,
     clearFieldErrorsState,
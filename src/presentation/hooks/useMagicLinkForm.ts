@@ -0,0 +1,158 @@
+/**
+ * Magic Link Form Hook
+ * Sends the email sign-in link with a resend cooldown and completes
+ * sign-in when the link comes back as a deep link
+ */
+
+import { useState, useCallback, useEffect } from "react";
+import { useSendSignInLinkMutation } from "./mutations/useAuthMutations";
+import { useEmailLinkHandler } from "./useEmailLinkHandler";
+import { validateMagicLinkForm } from "../utils/form/validation/formValidators";
+import { useFormFields } from "../utils/form/useFormField.hook";
+import { sanitizeEmail } from "../../infrastructure/utils/validation/sanitization";
+import { useAuthErrorHandler } from "./useAuthErrorHandler";
+import { useLocalError } from "./useLocalError";
+import { extractFieldError } from "../../infrastructure/utils/calculators/formErrorCollection";
+import type { AuthUser } from "../../domain/entities/AuthUser";
+
+const DEFAULT_RESEND_COOLDOWN_SECONDS = 60;
+
+interface MagicLinkFormTranslations {
+  errors: Record<string, string>;
+}
+
+export interface UseMagicLinkFormConfig {
+  translations?: MagicLinkFormTranslations;
+  /** Seconds to wait before the link can be resent (default: 60) */
+  resendCooldownSeconds?: number;
+  /** Complete sign-in from incoming links while mounted (default: true) */
+  handleIncomingLinks?: boolean;
+  onSignedIn?: (user: AuthUser) => void;
+}
+
+export interface UseMagicLinkFormResult {
+  email: string;
+  emailError: string | null;
+  loading: boolean;
+  /** True once the link has been sent, i.e. the "check your inbox" state */
+  isSent: boolean;
+  /** A link was opened on another device and the email must be confirmed */
+  needsEmailConfirmation: boolean;
+  cooldownRemaining: number;
+  canResend: boolean;
+  handleEmailChange: (text: string) => void;
+  /** Sends the link, or completes sign-in when an email confirmation is pending */
+  handleSubmit: () => Promise<void>;
+  handleResend: () => Promise<void>;
+  /** Back to the email form to use a different address */
+  reset: () => void;
+  displayError: string | null;
+}
+
+export function useMagicLinkForm(config: UseMagicLinkFormConfig = {}): UseMagicLinkFormResult {
+  const {
+    translations,
+    resendCooldownSeconds = DEFAULT_RESEND_COOLDOWN_SECONDS,
+    handleIncomingLinks = true,
+    onSignedIn,
+  } = config;
+
+  const { mutateAsync: sendSignInLink, isPending } = useSendSignInLinkMutation();
+  const { handleAuthError, getErrorMessage } = useAuthErrorHandler({ translations: translations?.errors });
+  const { localError, setLocalError, clearLocalError } = useLocalError();
+  const {
+    isCompleting,
+    pendingLinkUrl,
+    error: linkError,
+    completeWithEmail,
+  } = useEmailLinkHandler({
+    enabled: handleIncomingLinks,
+    onSignedIn,
+    translations,
+  });
+
+  const [emailError, setEmailError] = useState<string | null>(null);
+  const [isSent, setIsSent] = useState(false);
+  const [cooldownRemaining, setCooldownRemaining] = useState(0);
+
+  const { fields, updateField } = useFormFields({ email: "" }, { clearLocalError });
+
+  const needsEmailConfirmation = !!pendingLinkUrl;
+
+  const handleEmailChange = useCallback(
+    (text: string) => {
+      updateField("email", text);
+      setEmailError(null);
+    },
+    [updateField]
+  );
+
+  const send = useCallback(async (email: string) => {
+    try {
+      await sendSignInLink(email);
+      setIsSent(true);
+      setCooldownRemaining(resendCooldownSeconds);
+    } catch (err: unknown) {
+      setLocalError(handleAuthError(err));
+    }
+  }, [sendSignInLink, resendCooldownSeconds, handleAuthError, setLocalError]);
+
+  const handleSubmit = useCallback(async () => {
+    setEmailError(null);
+    setLocalError(null);
+
+    // Sanitize once, use for both validation and the request
+    const sanitizedEmail = sanitizeEmail(fields.email);
+
+    const validation = validateMagicLinkForm({ email: sanitizedEmail }, getErrorMessage);
+    if (!validation.isValid) {
+      setEmailError(extractFieldError(validation.errors, "email"));
+      return;
+    }
+
+    if (needsEmailConfirmation) {
+      await completeWithEmail(sanitizedEmail);
+      return;
+    }
+
+    await send(sanitizedEmail);
+  }, [fields.email, needsEmailConfirmation, completeWithEmail, send, getErrorMessage, setLocalError]);
+
+  const handleResend = useCallback(async () => {
+    if (cooldownRemaining > 0) return;
+    setLocalError(null);
+    await send(sanitizeEmail(fields.email));
+  }, [cooldownRemaining, fields.email, send, setLocalError]);
+
+  const reset = useCallback(() => {
+    setIsSent(false);
+    setLocalError(null);
+  }, [setLocalError]);
+
+  // Count the resend cooldown down once per second
+  const isCoolingDown = cooldownRemaining > 0;
+  useEffect(() => {
+    if (!isCoolingDown) return;
+
+    const interval = setInterval(() => {
+      setCooldownRemaining((remaining) => Math.max(0, remaining - 1));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [isCoolingDown]);
+
+  return {
+    email: fields.email,
+    emailError,
+    loading: isPending || isCompleting,
+    isSent: isSent && !needsEmailConfirmation,
+    needsEmailConfirmation,
+    cooldownRemaining,
+    canResend: isSent && !isPending && cooldownRemaining === 0,
+    handleEmailChange,
+    handleSubmit,
+    handleResend,
+    reset,
+    displayError: localError ?? linkError,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * MFA Challenge Form Hook
+ * Resolves a sign-in that needs a second factor with the authenticator code
+ */
+
+import { useState, useCallback } from "react";
+import { useResolveMultiFactorSignInMutation } from "./mutations/useAuthMutations";
+import { validateOtpForm } from "../utils/form/validation/formValidators";
+import { sanitizeOtpCode } from "../../infrastructure/utils/validation/sanitization";
+import { useAuthErrorHandler } from "./useAuthErrorHandler";
+import { useLocalError } from "./useLocalError";
+import { extractFieldError } from "../../infrastructure/utils/calculators/formErrorCollection";
+import { getAuthService } from "../../infrastructure/services/AuthService";
+import type { AuthUser } from "../../domain/entities/AuthUser";
+import type { MultiFactorChallenge, MultiFactorInfo } from "../../domain/entities/MultiFactor";
+
+const TOTP_CODE_LENGTH = 6;
+
+interface MfaChallengeFormTranslations {
+  errors: Record<string, string>;
+}
+
+export interface UseMfaChallengeFormConfig {
+  /** Defaults to the challenge from the last sign-in attempt */
+  challenge?: MultiFactorChallenge;
+  translations?: MfaChallengeFormTranslations;
+  onVerified?: (user: AuthUser) => void;
+}
+
+export interface UseMfaChallengeFormResult {
+  code: string;
+  codeLength: number;
+  codeError: string | null;
+  /** Enrolled factors offered for this sign-in */
+  hints: MultiFactorInfo[];
+  loading: boolean;
+  handleCodeChange: (text: string) => void;
+  handleVerify: (codeOverride?: string) => Promise<void>;
+  displayError: string | null;
+}
+
+export function useMfaChallengeForm(config: UseMfaChallengeFormConfig = {}): UseMfaChallengeFormResult {
+  const { translations, onVerified } = config;
+  const challenge = config.challenge ?? getAuthService()?.getPendingMultiFactorChallenge() ?? undefined;
+
+  const { mutateAsync: resolveSignIn, isPending } = useResolveMultiFactorSignInMutation();
+  const { handleAuthError, getErrorMessage } = useAuthErrorHandler({ translations: translations?.errors });
+  const { localError, setLocalError, clearLocalError } = useLocalError();
+
+  const [code, setCode] = useState("");
+  const [codeError, setCodeError] = useState<string | null>(null);
+
+  const handleCodeChange = useCallback((text: string) => {
+    setCode(sanitizeOtpCode(text).slice(0, TOTP_CODE_LENGTH));
+    setCodeError(null);
+    clearLocalError();
+  }, [clearLocalError]);
+
+  const handleVerify = useCallback(async (codeOverride?: string) => {
+    setCodeError(null);
+    setLocalError(null);
+
+    const sanitizedCode = sanitizeOtpCode(codeOverride ?? code);
+
+    const validation = validateOtpForm({ code: sanitizedCode }, getErrorMessage, TOTP_CODE_LENGTH);
+    if (!validation.isValid) {
+      setCodeError(extractFieldError(validation.errors, "code"));
+      return;
+    }
+
+    try {
+      const user = await resolveSignIn({ code: sanitizedCode, challenge });
+      onVerified?.(user);
+    } catch (err: unknown) {
+      setCode("");
+      setLocalError(handleAuthError(err));
+    }
+  }, [code, challenge, resolveSignIn, onVerified, getErrorMessage, handleAuthError, setLocalError]);
+
+  return {
+    code,
+    codeLength: TOTP_CODE_LENGTH,
+    codeError,
+    hints: challenge?.hints ?? [],
+    loading: isPending,
+    handleCodeChange,
+    handleVerify,
+    displayError: localError,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * useOidcAuth Hook
+ * Sign in with the OAuth 2.0 / OIDC providers configured in authConfig.social.oidc
+ * (Microsoft, GitHub, corporate SSO...)
+ *
+ * Usage:
+ * ```tsx
+ * const { providerButtons } = useOidcAuth();
+ * <SocialLoginButtons translations={t} enabledProviders={[]} providers={providerButtons} />
+ *
+ * // or custom buttons
+ * const { providers, signInWithOidc, pendingProviderId } = useOidcAuth();
+ * await signInWithOidc("microsoft");
+ * ```
+ */
+
+import { useState, useCallback, useMemo } from "react";
+import { getAuthService } from "../../infrastructure/services/AuthService";
+import { useAuthStore } from "../stores/authStore";
+import { selectSetError } from "../stores/auth.selectors";
+import { useOidcSignInMutation } from "./mutations/useAuthMutations";
+import { useAuthErrorHandler } from "./useAuthErrorHandler";
+import { useLocalError } from "./useLocalError";
+import { AuthError, MultiFactorRequiredError } from "../../domain/errors/AuthError";
+import type { AuthUser } from "../../domain/entities/AuthUser";
+import type { MultiFactorChallenge } from "../../domain/entities/MultiFactor";
+import type { OidcProviderConfig } from "../../domain/value-objects/AuthConfig";
+import type { SocialLoginProviderButton } from "../components/SocialLoginButtons";
+
+export interface UseOidcAuthOptions {
+  /** Called instead of showing an error when the account needs a second factor */
+  onMultiFactorRequired?: (challenge: MultiFactorChallenge) => void;
+  translations?: {
+    errors: Record<string, string>;
+  };
+}
+
+export interface UseOidcAuthResult {
+  /** Providers from the auth config, in order */
+  providers: OidcProviderConfig[];
+  /** Provider whose sign-in is in progress */
+  pendingProviderId: string | null;
+  error: string | null;
+  /** Resolves with null when the sign-in was cancelled or failed */
+  signInWithOidc: (providerKey: string) => Promise<AuthUser | null>;
+  /** Ready-made buttons for SocialLoginButtons' providers prop */
+  providerButtons: SocialLoginProviderButton[];
+}
+
+const NO_PROVIDERS: OidcProviderConfig[] = [];
+
+export function useOidcAuth(options: UseOidcAuthOptions = {}): UseOidcAuthResult {
+  const { onMultiFactorRequired, translations } = options;
+  const setStoreError = useAuthStore(selectSetError);
+  const { mutateAsync: signIn } = useOidcSignInMutation();
+  const { handleAuthError } = useAuthErrorHandler({ translations: translations?.errors });
+  const { localError, setLocalError } = useLocalError();
+  const [pendingProviderId, setPendingProviderId] = useState<string | null>(null);
+
+  const providers = getAuthService()?.getOidcProviders() ?? NO_PROVIDERS;
+
+  const signInWithOidc = useCallback(async (providerKey: string): Promise<AuthUser | null> => {
+    setLocalError(null);
+    setStoreError(null);
+    setPendingProviderId(providerKey);
+    try {
+      return await signIn(providerKey);
+    } catch (err: unknown) {
+      if (err instanceof MultiFactorRequiredError && onMultiFactorRequired) {
+        onMultiFactorRequired(err.challenge);
+        return null;
+      }
+      // Closing the browser is not an error worth showing
+      if (!(err instanceof AuthError && err.code === "AUTH_OIDC_CANCELLED")) {
+        const message = handleAuthError(err);
+        setLocalError(message);
+        // Auth forms show the store error, so the message appears next to the buttons
+        setStoreError(message);
+      }
+      return null;
+    } finally {
+      setPendingProviderId(null);
+    }
+  }, [signIn, onMultiFactorRequired, handleAuthError, setLocalError, setStoreError]);
+
+  const providerButtons = useMemo<SocialLoginProviderButton[]>(() => providers.map((provider) => ({
+    id: provider.id,
+    label: provider.displayName,
+    loading: pendingProviderId === provider.id,
+    onPress: () => { void signInWithOidc(provider.id); },
+  })), [providers, pendingProviderId, signInWithOidc]);
+
+  return {
+    providers,
+    pendingProviderId,
+    error: localError,
+    signInWithOidc,
+    providerButtons,
+  };
+}
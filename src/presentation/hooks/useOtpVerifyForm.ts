@@ -0,0 +1,138 @@
+/**
+ * OTP Verify Form Hook
+ * Confirms the SMS code and resends it with a cooldown
+ */
+
+import { useState, useCallback, useEffect } from "react";
+import { useConfirmOtpMutation, useSignInWithPhoneMutation } from "./mutations/useAuthMutations";
+import { validateOtpForm } from "../utils/form/validation/formValidators";
+import { sanitizeOtpCode } from "../../infrastructure/utils/validation/sanitization";
+import { useAuthErrorHandler } from "./useAuthErrorHandler";
+import { useLocalError } from "./useLocalError";
+import { extractFieldError } from "../../infrastructure/utils/calculators/formErrorCollection";
+import type { AuthUser } from "../../domain/entities/AuthUser";
+import type { PhoneAuthVerifier } from "../../infrastructure/repositories/AuthRepository";
+
+const OTP_CODE_LENGTH = 6;
+const DEFAULT_RESEND_COOLDOWN_SECONDS = 30;
+
+interface OtpVerifyFormTranslations {
+  errors: Record<string, string>;
+}
+
+export interface UseOtpVerifyFormConfig {
+  verificationId: string;
+  phoneNumber: string;
+  /** Required to resend the code */
+  verifier?: PhoneAuthVerifier;
+  /** Seconds to wait before the code can be resent (default: 30) */
+  resendCooldownSeconds?: number;
+  translations?: OtpVerifyFormTranslations;
+  onVerified?: (user: AuthUser) => void;
+}
+
+export interface UseOtpVerifyFormResult {
+  code: string;
+  codeLength: number;
+  codeError: string | null;
+  loading: boolean;
+  isResending: boolean;
+  /** Seconds left before the code can be resent */
+  cooldownRemaining: number;
+  canResend: boolean;
+  handleCodeChange: (text: string) => void;
+  handleVerify: (codeOverride?: string) => Promise<void>;
+  handleResend: () => Promise<void>;
+  displayError: string | null;
+}
+
+export function useOtpVerifyForm(config: UseOtpVerifyFormConfig): UseOtpVerifyFormResult {
+  const {
+    phoneNumber,
+    verifier,
+    resendCooldownSeconds = DEFAULT_RESEND_COOLDOWN_SECONDS,
+    translations,
+    onVerified,
+  } = config;
+
+  const { mutateAsync: confirmOtp, isPending } = useConfirmOtpMutation();
+  const { mutateAsync: signInWithPhone, isPending: isResending } = useSignInWithPhoneMutation();
+  const { handleAuthError, getErrorMessage } = useAuthErrorHandler({ translations: translations?.errors });
+  const { localError, setLocalError, clearLocalError } = useLocalError();
+
+  // A resend issues a new verification id that replaces the one from navigation
+  const [verificationId, setVerificationId] = useState(config.verificationId);
+  const [code, setCode] = useState("");
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const [cooldownRemaining, setCooldownRemaining] = useState(resendCooldownSeconds);
+
+  useEffect(() => {
+    setVerificationId(config.verificationId);
+  }, [config.verificationId]);
+
+  const handleCodeChange = useCallback((text: string) => {
+    setCode(sanitizeOtpCode(text).slice(0, OTP_CODE_LENGTH));
+    setCodeError(null);
+    clearLocalError();
+  }, [clearLocalError]);
+
+  const handleVerify = useCallback(async (codeOverride?: string) => {
+    setCodeError(null);
+    setLocalError(null);
+
+    const sanitizedCode = sanitizeOtpCode(codeOverride ?? code);
+
+    const validation = validateOtpForm({ code: sanitizedCode }, getErrorMessage, OTP_CODE_LENGTH);
+    if (!validation.isValid) {
+      setCodeError(extractFieldError(validation.errors, "code"));
+      return;
+    }
+
+    try {
+      const user = await confirmOtp({ verificationId, code: sanitizedCode });
+      onVerified?.(user);
+    } catch (err: unknown) {
+      setLocalError(handleAuthError(err));
+    }
+  }, [code, verificationId, confirmOtp, onVerified, getErrorMessage, handleAuthError, setLocalError]);
+
+  const handleResend = useCallback(async () => {
+    if (!verifier || cooldownRemaining > 0) return;
+
+    setLocalError(null);
+    try {
+      const session = await signInWithPhone({ phoneNumber, verifier });
+      setVerificationId(session.verificationId);
+      setCode("");
+      setCooldownRemaining(resendCooldownSeconds);
+    } catch (err: unknown) {
+      setLocalError(handleAuthError(err));
+    }
+  }, [verifier, cooldownRemaining, phoneNumber, resendCooldownSeconds, signInWithPhone, handleAuthError, setLocalError]);
+
+  // Count the resend cooldown down once per second
+  const isCoolingDown = cooldownRemaining > 0;
+  useEffect(() => {
+    if (!isCoolingDown) return;
+
+    const interval = setInterval(() => {
+      setCooldownRemaining((remaining) => Math.max(0, remaining - 1));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [isCoolingDown]);
+
+  return {
+    code,
+    codeLength: OTP_CODE_LENGTH,
+    codeError,
+    loading: isPending,
+    isResending,
+    cooldownRemaining,
+    canResend: !!verifier && !isResending && cooldownRemaining === 0,
+    handleCodeChange,
+    handleVerify,
+    handleResend,
+    displayError: localError,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Phone Login Form Hook
+ * Validates the phone number and sends the SMS verification code
+ */
+
+import { useState, useCallback } from "react";
+import { useSignInWithPhoneMutation } from "./mutations/useAuthMutations";
+import { validatePhoneLoginForm } from "../utils/form/validation/formValidators";
+import { useFormFields } from "../utils/form/useFormField.hook";
+import { sanitizePhoneNumber } from "../../infrastructure/utils/validation/sanitization";
+import { useAuthErrorHandler } from "./useAuthErrorHandler";
+import { useLocalError } from "./useLocalError";
+import { extractFieldError } from "../../infrastructure/utils/calculators/formErrorCollection";
+import type {
+  PhoneAuthVerifier,
+  PhoneVerificationSession,
+} from "../../infrastructure/repositories/AuthRepository";
+
+interface PhoneLoginFormTranslations {
+  errors: Record<string, string>;
+}
+
+export interface UsePhoneLoginFormConfig {
+  verifier: PhoneAuthVerifier;
+  /** Calling code without "+" applied to national numbers (e.g. "90") */
+  defaultCountryCode?: string;
+  translations?: PhoneLoginFormTranslations;
+  /** Called once the SMS has been sent, typically to navigate to the OTP screen */
+  onCodeSent?: (session: PhoneVerificationSession) => void;
+}
+
+export interface UsePhoneLoginFormResult {
+  phoneNumber: string;
+  phoneNumberError: string | null;
+  loading: boolean;
+  handlePhoneNumberChange: (text: string) => void;
+  handleSendCode: () => Promise<PhoneVerificationSession | null>;
+  displayError: string | null;
+}
+
+export function usePhoneLoginForm(config: UsePhoneLoginFormConfig): UsePhoneLoginFormResult {
+  const { verifier, defaultCountryCode, translations, onCodeSent } = config;
+  const { mutateAsync: signInWithPhone, isPending } = useSignInWithPhoneMutation();
+  const { handleAuthError, getErrorMessage } = useAuthErrorHandler({ translations: translations?.errors });
+  const { localError, setLocalError, clearLocalError } = useLocalError();
+
+  const [phoneNumberError, setPhoneNumberError] = useState<string | null>(null);
+
+  const { fields, updateField } = useFormFields({ phoneNumber: "" }, { clearLocalError });
+
+  const handlePhoneNumberChange = useCallback(
+    (text: string) => {
+      updateField("phoneNumber", text);
+      setPhoneNumberError(null);
+    },
+    [updateField]
+  );
+
+  const handleSendCode = useCallback(async (): Promise<PhoneVerificationSession | null> => {
+    setPhoneNumberError(null);
+    setLocalError(null);
+
+    // Sanitize once, use for both validation and the request
+    const sanitizedPhone = sanitizePhoneNumber(fields.phoneNumber, defaultCountryCode);
+
+    const validation = validatePhoneLoginForm({ phoneNumber: sanitizedPhone }, getErrorMessage);
+    if (!validation.isValid) {
+      setPhoneNumberError(extractFieldError(validation.errors, "phoneNumber"));
+      return null;
+    }
+
+    try {
+      const session = await signInWithPhone({ phoneNumber: sanitizedPhone, verifier });
+      onCodeSent?.(session);
+      return session;
+    } catch (err: unknown) {
+      setLocalError(handleAuthError(err));
+      return null;
+    }
+  }, [fields.phoneNumber, defaultCountryCode, verifier, signInWithPhone, onCodeSent, getErrorMessage, handleAuthError, setLocalError]);
+
+  return {
+    phoneNumber: fields.phoneNumber,
+    phoneNumberError,
+    loading: isPending,
+    handlePhoneNumberChange,
+    handleSendCode,
+    displayError: localError,
+  };
+}
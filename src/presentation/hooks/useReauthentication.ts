@@ -0,0 +1,59 @@
+/**
+ * useReauthentication Hook
+ * Confirms the user's identity before sensitive operations with the account's
+ * own sign-in method: PasswordPromptScreen for password accounts, the app's
+ * Google / Apple flow otherwise
+ *
+ * Usage:
+ * ```tsx
+ * const { requireRecentLogin } = useReauthentication({
+ *   google: async () => ({ idToken: await getFreshGoogleIdToken() }),
+ * });
+ * await requireRecentLogin(5 * 60 * 1000);
+ * await exportAccountData();
+ * ```
+ */
+
+import { useCallback, useMemo } from "react";
+import { useReauthenticateMutation } from "./mutations/useAuthMutations";
+import {
+  usePasswordPromptNavigation,
+  type UsePasswordPromptNavigationOptions,
+} from "./usePasswordPromptNavigation";
+import type { ReauthenticationHandlers } from "../../infrastructure/types/Reauthentication.types";
+
+export interface UseReauthenticationOptions extends ReauthenticationHandlers {
+  /** Texts for PasswordPromptScreen, used unless a password handler is given */
+  passwordPrompt?: UsePasswordPromptNavigationOptions;
+}
+
+export interface UseReauthenticationResult {
+  /** Always asks; throws AUTH_REAUTH_CANCELLED when the user dismisses the prompt */
+  reauthenticate: () => Promise<void>;
+  /** Only asks when the last sign-in or reauthentication is older than maxAgeMs */
+  requireRecentLogin: (maxAgeMs: number) => Promise<void>;
+  isReauthenticating: boolean;
+}
+
+export function useReauthentication(options: UseReauthenticationOptions = {}): UseReauthenticationResult {
+  const { passwordPrompt = {}, password, google, apple } = options;
+  const { showPasswordPrompt } = usePasswordPromptNavigation(passwordPrompt);
+  const { mutateAsync, isPending } = useReauthenticateMutation();
+
+  const handlers = useMemo<ReauthenticationHandlers>(
+    () => ({ password: password ?? showPasswordPrompt, google, apple }),
+    [password, showPasswordPrompt, google, apple]
+  );
+
+  const reauthenticate = useCallback(() => mutateAsync({ handlers }), [mutateAsync, handlers]);
+  const requireRecentLogin = useCallback(
+    (maxAgeMs: number) => mutateAsync({ handlers, maxAgeMs }),
+    [mutateAsync, handlers]
+  );
+
+  return {
+    reauthenticate,
+    requireRecentLogin,
+    isReauthenticating: isPending,
+  };
+}
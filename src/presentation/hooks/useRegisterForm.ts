@@ -3,8 +3,9 @@
  * Main hook that combines all register form logic
  */
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import { DEFAULT_PASSWORD_CONFIG } from "../../domain/value-objects/AuthConfig";
+import { getAuthService } from "../../infrastructure/services/AuthService";
 import { useAuth } from "./useAuth";
 import { useFormFields } from "../utils/form/useFormField.hook";
 import { usePasswordValidation } from "../utils/form/usePasswordValidation.hook";
@@ -22,7 +23,7 @@ import type {
 export type { UseRegisterFormConfig, UseRegisterFormResult } from "./registerForm/useRegisterForm.types";
 
 export function useRegisterForm(config?: UseRegisterFormConfig): UseRegisterFormResult {
-  const { signUp, loading, error } = useAuth();
+  const { signUp, upgradeAnonymousAccount, isAnonymous, loading, error } = useAuth();
   const translations = config?.translations;
   const { handleAuthError, getErrorMessage } = useAuthErrorHandler({ translations: translations?.errors });
   const { localError, setLocalError, clearLocalError } = useLocalError();
@@ -44,22 +45,41 @@ export function useRegisterForm(config?: UseRegisterFormConfig): UseRegisterForm
     { clearLocalError }
   );
 
+  const passwordConfig = getAuthService()?.getConfig().password ?? DEFAULT_PASSWORD_CONFIG;
+  const policyContext = useMemo(
+    () => ({ email: fields.email, displayName: fields.displayName }),
+    [fields.email, fields.displayName]
+  );
+
   const { passwordRequirements, passwordsMatch } = usePasswordValidation(
     fields.password,
     fields.confirmPassword,
-    { passwordConfig: DEFAULT_PASSWORD_CONFIG }
+    { passwordConfig, context: policyContext }
+  );
+
+  // Anonymous users keep their UID (and data) by linking the new credentials
+  const register = useCallback(
+    async (email: string, password: string, displayName?: string) => {
+      if (isAnonymous) {
+        await upgradeAnonymousAccount({ provider: "password", email, password }, displayName);
+        return;
+      }
+      await signUp(email, password, displayName);
+    },
+    [isAnonymous, signUp, upgradeAnonymousAccount]
   );
 
   const handlers = useRegisterFormHandlers(updateField, setFieldErrors, clearLocalError);
 
   const { handleSignUp } = useRegisterFormSubmit(
     fields,
-    signUp,
+    register,
     setFieldErrors,
     setLocalError,
     clearFormErrors,
     getErrorMessage,
     handleAuthError,
+    passwordConfig,
     translations
   );
 
@@ -0,0 +1,86 @@
+/**
+ * useSessionTimeout Hook
+ * Remaining session time for a "you'll be signed out" warning and the lock state
+ *
+ * Usage:
+ * ```tsx
+ * const { isWarning, remainingMs, extendSession } = useSessionTimeout({ warningMs: 60000 });
+ * <Dialog visible={isWarning} onConfirm={extendSession}>Signing out in {Math.ceil(remainingMs / 1000)}s</Dialog>
+ * ```
+ */
+
+import { useState, useCallback, useEffect } from "react";
+import { sessionTimeoutService } from "../../infrastructure/services/SessionTimeoutService";
+import { useAuthStore } from "../stores/authStore";
+import { selectStatus, selectTransition } from "../stores/auth.selectors";
+
+const DEFAULT_WARNING_MS = 60000;
+const TICK_MS = 1000;
+
+export interface UseSessionTimeoutOptions {
+  /** How long before expiry isWarning turns true in ms (default: 60000) */
+  warningMs?: number;
+}
+
+export interface UseSessionTimeoutResult {
+  /** authConfig.session is configured */
+  isEnabled: boolean;
+  /** Time until the session expires, null while there is no timed session (signed out, anonymous) */
+  remainingMs: number | null;
+  /** The session expires within warningMs */
+  isWarning: boolean;
+  isExpired: boolean;
+  /** The session expired with the "lock" action */
+  isLocked: boolean;
+  /** Counts as activity, e.g. the warning's "Stay signed in" button */
+  extendSession: () => void;
+  /** Unlocks the store once the app verified the user again (e.g. password re-entry) */
+  unlock: () => void;
+}
+
+export function useSessionTimeout(options: UseSessionTimeoutOptions = {}): UseSessionTimeoutResult {
+  const { warningMs = DEFAULT_WARNING_MS } = options;
+  const status = useAuthStore(selectStatus);
+  const transition = useAuthStore(selectTransition);
+  const [isEnabled, setIsEnabled] = useState(() => sessionTimeoutService.isEnabled());
+  const [remainingMs, setRemainingMs] = useState(() => sessionTimeoutService.getRemainingMs());
+
+  const refresh = useCallback(() => {
+    setIsEnabled(sessionTimeoutService.isEnabled());
+    setRemainingMs(sessionTimeoutService.getRemainingMs());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return sessionTimeoutService.subscribe(refresh);
+  }, [refresh]);
+
+  // Count down once per second while a session is running
+  const isCounting = remainingMs !== null && remainingMs > 0;
+  useEffect(() => {
+    if (!isCounting) return;
+
+    const interval = setInterval(refresh, TICK_MS);
+    return () => clearInterval(interval);
+  }, [isCounting, refresh]);
+
+  const extendSession = useCallback(() => {
+    sessionTimeoutService.recordActivity();
+    refresh();
+  }, [refresh]);
+
+  const unlock = useCallback(() => {
+    sessionTimeoutService.resume();
+    transition({ type: "sessionUnlocked", user: useAuthStore.getState().user });
+  }, [transition]);
+
+  return {
+    isEnabled,
+    remainingMs,
+    isWarning: remainingMs !== null && remainingMs > 0 && remainingMs <= warningMs,
+    isExpired: remainingMs !== null && remainingMs <= 0,
+    isLocked: status === "locked",
+    extendSession,
+    unlock,
+  };
+}
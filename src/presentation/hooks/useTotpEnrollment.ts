@@ -0,0 +1,137 @@
+/**
+ * TOTP Enrollment Hook
+ * Authenticator app (TOTP) enrollment, status and removal for the signed-in user
+ *
+ * Usage:
+ * ```tsx
+ * const { enrollment, start, confirm } = useTotpEnrollment();
+ * // Render enrollment.otpauthUri as a QR code, then confirm(codeFromApp)
+ * ```
+ */
+
+import { useState, useCallback } from "react";
+import {
+  useStartTotpEnrollmentMutation,
+  useCompleteTotpEnrollmentMutation,
+  useUnenrollFactorMutation,
+} from "./mutations/useAuthMutations";
+import { useAuthErrorHandler } from "./useAuthErrorHandler";
+import { useLocalError } from "./useLocalError";
+import { getAuthService } from "../../infrastructure/services/AuthService";
+import { sanitizeOtpCode } from "../../infrastructure/utils/validation/sanitization";
+import type { MultiFactorInfo, TotpEnrollment } from "../../domain/entities/MultiFactor";
+
+export interface UseTotpEnrollmentOptions {
+  /** Label in the authenticator app (default: the user's email) */
+  accountName?: string;
+  /** Issuer in the authenticator app (default: mfa.totpIssuer from the auth config) */
+  issuer?: string;
+  /** Name of the factor shown in the account settings */
+  factorDisplayName?: string;
+  onEnrolled?: (factors: MultiFactorInfo[]) => void;
+  translations?: {
+    errors: Record<string, string>;
+  };
+}
+
+export interface UseTotpEnrollmentResult {
+  enrolledFactors: MultiFactorInfo[];
+  /** True when an authenticator app is enrolled */
+  isEnrolled: boolean;
+  /** Secret and QR payload while an enrollment is in progress */
+  enrollment: TotpEnrollment | null;
+  isStarting: boolean;
+  isConfirming: boolean;
+  isRemoving: boolean;
+  error: string | null;
+  start: () => Promise<TotpEnrollment | null>;
+  confirm: (code: string) => Promise<boolean>;
+  /** Removes the given factor, or every TOTP factor when omitted */
+  unenroll: (factorUid?: string) => Promise<void>;
+  cancel: () => void;
+}
+
+function readEnrolledFactors(): MultiFactorInfo[] {
+  return getAuthService()?.getEnrolledFactors() ?? [];
+}
+
+export function useTotpEnrollment(options: UseTotpEnrollmentOptions = {}): UseTotpEnrollmentResult {
+  const { accountName, issuer, factorDisplayName, onEnrolled, translations } = options;
+  const startMutation = useStartTotpEnrollmentMutation();
+  const completeMutation = useCompleteTotpEnrollmentMutation();
+  const unenrollMutation = useUnenrollFactorMutation();
+  const { handleAuthError } = useAuthErrorHandler({ translations: translations?.errors });
+  const { localError, setLocalError } = useLocalError();
+
+  const [enrolledFactors, setEnrolledFactors] = useState<MultiFactorInfo[]>(readEnrolledFactors);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+
+  const start = useCallback(async (): Promise<TotpEnrollment | null> => {
+    setLocalError(null);
+    try {
+      const next = await startMutation.mutateAsync({ accountName, issuer });
+      setEnrollment(next);
+      return next;
+    } catch (err: unknown) {
+      setLocalError(handleAuthError(err));
+      return null;
+    }
+  }, [accountName, issuer, startMutation, handleAuthError, setLocalError]);
+
+  const confirm = useCallback(async (code: string): Promise<boolean> => {
+    if (!enrollment) return false;
+
+    setLocalError(null);
+    try {
+      const factors = await completeMutation.mutateAsync({
+        enrollment,
+        code: sanitizeOtpCode(code),
+        displayName: factorDisplayName,
+      });
+      setEnrolledFactors(factors);
+      setEnrollment(null);
+      onEnrolled?.(factors);
+      return true;
+    } catch (err: unknown) {
+      setLocalError(handleAuthError(err));
+      return false;
+    }
+  }, [enrollment, factorDisplayName, completeMutation, onEnrolled, handleAuthError, setLocalError]);
+
+  const unenroll = useCallback(async (factorUid?: string) => {
+    setLocalError(null);
+    const targets = factorUid
+      ? [factorUid]
+      : enrolledFactors.filter((factor) => factor.factorId === "totp").map((factor) => factor.uid);
+
+    try {
+      let factors = enrolledFactors;
+      for (const uid of targets) {
+        factors = await unenrollMutation.mutateAsync(uid);
+      }
+      setEnrolledFactors(factors);
+    } catch (err: unknown) {
+      setEnrolledFactors(readEnrolledFactors());
+      setLocalError(handleAuthError(err));
+    }
+  }, [enrolledFactors, unenrollMutation, handleAuthError, setLocalError]);
+
+  const cancel = useCallback(() => {
+    setEnrollment(null);
+    setLocalError(null);
+  }, [setLocalError]);
+
+  return {
+    enrolledFactors,
+    isEnrolled: enrolledFactors.some((factor) => factor.factorId === "totp"),
+    enrollment,
+    isStarting: startMutation.isPending,
+    isConfirming: completeMutation.isPending,
+    isRemoving: unenrollMutation.isPending,
+    error: localError,
+    start,
+    confirm,
+    unenroll,
+    cancel,
+  };
+}
@@ -5,22 +5,51 @@ import { storageRepository, unwrap } from "@umituz/react-native-design-system/st
 import type { SocialAuthConfiguration } from "../hooks/useAuthBottomSheet";
 import { LoginScreen, type LoginScreenTranslations } from "../screens/LoginScreen";
 import { RegisterScreen, type RegisterScreenTranslations } from "../screens/RegisterScreen";
+import { ForgotPasswordScreen, type ForgotPasswordScreenTranslations } from "../screens/ForgotPasswordScreen";
+import { PhoneLoginScreen, type PhoneLoginScreenTranslations } from "../screens/PhoneLoginScreen";
+import { OtpVerifyScreen, type OtpVerifyScreenTranslations } from "../screens/OtpVerifyScreen";
+import { MagicLinkScreen, type MagicLinkScreenTranslations } from "../screens/MagicLinkScreen";
+import { MfaChallengeScreen, type MfaChallengeScreenTranslations } from "../screens/MfaChallengeScreen";
+import { getAuthService } from "../../infrastructure/services/AuthService";
+import type { PhoneAuthVerifier } from "../../infrastructure/repositories/AuthRepository";
 
 export type AuthStackParamList = {
   Login: undefined;
   Register: undefined;
+  ForgotPassword: undefined;
+  PhoneLogin: undefined;
+  OtpVerify: { verificationId: string; phoneNumber: string };
+  MagicLink: undefined;
+  MfaChallenge: undefined;
 };
 
 // Storage key for persisting initial route preference across navigation
 const SHOW_REGISTER_KEY = "auth_show_register";
 
 export interface AuthNavigatorTranslations {
-  login: LoginScreenTranslations;
-  register: RegisterScreenTranslations;
+  /** Defaults to the AuthI18nProvider bundle */
+  login?: LoginScreenTranslations;
+  /** Defaults to the AuthI18nProvider bundle */
+  register?: RegisterScreenTranslations;
+  /** Registers the ForgotPassword screen when provided */
+  forgotPassword?: ForgotPasswordScreenTranslations;
+  phoneLogin?: PhoneLoginScreenTranslations;
+  otpVerify?: OtpVerifyScreenTranslations;
+  /** Registers the MagicLink screen when provided and passwordless.emailLink is enabled */
+  magicLink?: MagicLinkScreenTranslations;
+  /** Registers the MfaChallenge screen for accounts with two-factor authentication */
+  mfaChallenge?: MfaChallengeScreenTranslations;
+}
+
+export interface PhoneAuthConfiguration {
+  verifier: PhoneAuthVerifier;
+  /** Calling code without "+" applied to national numbers (e.g. "90") */
+  defaultCountryCode?: string;
 }
 
 export interface AuthNavigatorProps {
-  translations: AuthNavigatorTranslations;
+  /** Login and Register fall back to the AuthI18nProvider bundle, the other screens are only registered with translations */
+  translations?: AuthNavigatorTranslations;
   termsUrl?: string;
   privacyUrl?: string;
   onTermsPress?: () => void;
@@ -29,10 +58,12 @@ export interface AuthNavigatorProps {
   onGoogleSignIn?: () => Promise<void>;
   onAppleSignIn?: () => Promise<void>;
   renderLogo?: () => React.ReactNode;
+  /** Registers the PhoneLogin and OtpVerify screens together with the phoneLogin/otpVerify translations */
+  phoneAuth?: PhoneAuthConfiguration;
 }
 
 export const AuthNavigator: React.FC<AuthNavigatorProps> = (props) => {
-  const { translations, termsUrl, privacyUrl, onTermsPress, onPrivacyPress, socialConfig, onGoogleSignIn, onAppleSignIn, renderLogo } = props;
+  const { translations, termsUrl, privacyUrl, onTermsPress, onPrivacyPress, socialConfig, onGoogleSignIn, onAppleSignIn, renderLogo, phoneAuth } = props;
   const tokens = useAppDesignTokens();
   const [initialRouteName, setInitialRouteName] = useState<
     "Login" | "Register" | undefined
@@ -75,8 +106,16 @@ export const AuthNavigator: React.FC<AuthNavigatorProps> = (props) => {
   }, []);
 
   // Memoize nested translation objects to prevent screen wrapper recreation
-  const loginTranslations = useMemo(() => translations.login, [translations.login]);
-  const registerTranslations = useMemo(() => translations.register, [translations.register]);
+  const loginTranslations = useMemo(() => translations?.login, [translations?.login]);
+  const registerTranslations = useMemo(() => translations?.register, [translations?.register]);
+  const forgotPasswordTranslations = useMemo(() => translations?.forgotPassword, [translations?.forgotPassword]);
+  const phoneLoginTranslations = useMemo(() => translations?.phoneLogin, [translations?.phoneLogin]);
+  const otpVerifyTranslations = useMemo(() => translations?.otpVerify, [translations?.otpVerify]);
+  const isPhoneAuthEnabled = !!(phoneAuth && phoneLoginTranslations && otpVerifyTranslations);
+  const magicLinkTranslations = useMemo(() => translations?.magicLink, [translations?.magicLink]);
+  const isEmailLinkEnabled = getAuthService()?.getConfig().passwordless?.emailLink?.enabled ?? false;
+  const isMagicLinkEnabled = !!magicLinkTranslations && isEmailLinkEnabled;
+  const mfaChallengeTranslations = useMemo(() => translations?.mfaChallenge, [translations?.mfaChallenge]);
 
   // Memoize social auth props
   const socialAuthProps = useMemo(() => ({
@@ -93,11 +132,15 @@ export const AuthNavigator: React.FC<AuthNavigatorProps> = (props) => {
       <LoginScreen
         {...(props as StackScreenProps<AuthStackParamList, 'Login'>)}
         translations={loginTranslations}
+        enableForgotPassword={!!forgotPasswordTranslations}
+        enablePhoneLogin={isPhoneAuthEnabled}
+        enableMagicLink={isMagicLinkEnabled}
+        enableMfaChallenge={!!mfaChallengeTranslations}
         {...socialAuthProps}
       />
     );
     return React.memo(LoginScreenWrapper);
-  }, [loginTranslations, socialAuthProps]);
+  }, [loginTranslations, forgotPasswordTranslations, isPhoneAuthEnabled, isMagicLinkEnabled, mfaChallengeTranslations, socialAuthProps]);
 
   const RegisterScreenComponent = useMemo(() => {
     // Use FC with generic props to satisfy StackNavigator type, then cast for internal use
@@ -115,6 +158,73 @@ export const AuthNavigator: React.FC<AuthNavigatorProps> = (props) => {
     return React.memo(RegisterScreenWrapper);
   }, [registerTranslations, termsUrl, privacyUrl, onTermsPress, onPrivacyPress, socialAuthProps]);
 
+  const ForgotPasswordScreenComponent = useMemo(() => {
+    if (!forgotPasswordTranslations) return null;
+    const ForgotPasswordScreenWrapper: React.FC<{ navigation: unknown; route: unknown }> = (props) => (
+      <ForgotPasswordScreen
+        {...(props as StackScreenProps<AuthStackParamList, 'ForgotPassword'>)}
+        translations={forgotPasswordTranslations}
+        renderLogo={renderLogo}
+      />
+    );
+    return React.memo(ForgotPasswordScreenWrapper);
+  }, [forgotPasswordTranslations, renderLogo]);
+
+  const PhoneLoginScreenComponent = useMemo(() => {
+    if (!phoneAuth || !phoneLoginTranslations || !otpVerifyTranslations) return null;
+    const PhoneLoginScreenWrapper: React.FC<{ navigation: unknown; route: unknown }> = (props) => (
+      <PhoneLoginScreen
+        {...(props as StackScreenProps<AuthStackParamList, 'PhoneLogin'>)}
+        translations={phoneLoginTranslations}
+        verifier={phoneAuth.verifier}
+        defaultCountryCode={phoneAuth.defaultCountryCode}
+        renderLogo={renderLogo}
+      />
+    );
+    return React.memo(PhoneLoginScreenWrapper);
+  }, [phoneAuth, phoneLoginTranslations, otpVerifyTranslations, renderLogo]);
+
+  const OtpVerifyScreenComponent = useMemo(() => {
+    if (!phoneAuth || !phoneLoginTranslations || !otpVerifyTranslations) return null;
+    const OtpVerifyScreenWrapper: React.FC<{ navigation: unknown; route: unknown }> = (props) => {
+      const { navigation, route } = props as StackScreenProps<AuthStackParamList, 'OtpVerify'>;
+      return (
+        <OtpVerifyScreen
+          translations={otpVerifyTranslations}
+          verificationId={route.params.verificationId}
+          phoneNumber={route.params.phoneNumber}
+          verifier={phoneAuth.verifier}
+          onChangeNumber={() => navigation.goBack()}
+        />
+      );
+    };
+    return React.memo(OtpVerifyScreenWrapper);
+  }, [phoneAuth, phoneLoginTranslations, otpVerifyTranslations]);
+
+  const MagicLinkScreenComponent = useMemo(() => {
+    if (!magicLinkTranslations || !isEmailLinkEnabled) return null;
+    const MagicLinkScreenWrapper: React.FC<{ navigation: unknown; route: unknown }> = (props) => (
+      <MagicLinkScreen
+        {...(props as StackScreenProps<AuthStackParamList, 'MagicLink'>)}
+        translations={magicLinkTranslations}
+        renderLogo={renderLogo}
+      />
+    );
+    return React.memo(MagicLinkScreenWrapper);
+  }, [magicLinkTranslations, isEmailLinkEnabled, renderLogo]);
+
+  const MfaChallengeScreenComponent = useMemo(() => {
+    if (!mfaChallengeTranslations) return null;
+    const MfaChallengeScreenWrapper: React.FC<{ navigation: unknown; route: unknown }> = (props) => (
+      <MfaChallengeScreen
+        {...(props as StackScreenProps<AuthStackParamList, 'MfaChallenge'>)}
+        translations={mfaChallengeTranslations}
+        renderLogo={renderLogo}
+      />
+    );
+    return React.memo(MfaChallengeScreenWrapper);
+  }, [mfaChallengeTranslations, renderLogo]);
+
   if (initialRouteName === undefined) {
     return null;
   }
@@ -128,6 +238,21 @@ export const AuthNavigator: React.FC<AuthNavigatorProps> = (props) => {
     screens: [
       { name: "Login", component: LoginScreenComponent },
       { name: "Register", component: RegisterScreenComponent },
+      ...(ForgotPasswordScreenComponent
+        ? [{ name: "ForgotPassword" as const, component: ForgotPasswordScreenComponent }]
+        : []),
+      ...(PhoneLoginScreenComponent && OtpVerifyScreenComponent
+        ? [
+            { name: "PhoneLogin" as const, component: PhoneLoginScreenComponent },
+            { name: "OtpVerify" as const, component: OtpVerifyScreenComponent },
+          ]
+        : []),
+      ...(MagicLinkScreenComponent
+        ? [{ name: "MagicLink" as const, component: MagicLinkScreenComponent }]
+        : []),
+      ...(MfaChallengeScreenComponent
+        ? [{ name: "MfaChallenge" as const, component: MfaChallengeScreenComponent }]
+        : []),
     ],
   };
 
@@ -0,0 +1,61 @@
+/**
+ * AuthI18nProvider
+ * Picks the built-in translation bundle screens fall back to when they get no
+ * translations, and the locale auth errors are shown in
+ *
+ * Usage:
+ * ```tsx
+ * <AuthI18nProvider locale="de" translations={{ "auth.login.title": "Hallo" }}>
+ *   <AuthNavigator />
+ * </AuthI18nProvider>
+ * ```
+ */
+
+import { createContext, useEffect, useMemo, type ReactNode } from "react";
+import { authErrorRegistry } from "../../shared/error-handling/registry/AuthErrorRegistry";
+import { DEFAULT_AUTH_LOCALE } from "../../shared/i18n/bundles/AuthTranslations";
+import type { AuthTranslationOverrides } from "../../shared/i18n/types/I18nTypes";
+import { createAuthTranslator, type AuthTranslate } from "../utils/authTranslator";
+
+export interface AuthI18nContextValue {
+  locale: string;
+  t: AuthTranslate;
+}
+
+export const AuthI18nContext = createContext<AuthI18nContextValue>({
+  locale: DEFAULT_AUTH_LOCALE,
+  t: createAuthTranslator(DEFAULT_AUTH_LOCALE),
+});
+
+export interface AuthI18nProviderProps {
+  /** Language tag, e.g. "tr" or "de-AT"; locales without a bundle use fallbackLocale */
+  locale: string;
+  /** Defaults to "en" */
+  fallbackLocale?: string;
+  /** Win over the bundle, error and validation keys included */
+  translations?: AuthTranslationOverrides;
+  children: ReactNode;
+}
+
+export function AuthI18nProvider({
+  locale,
+  fallbackLocale = DEFAULT_AUTH_LOCALE,
+  translations,
+  children,
+}: AuthI18nProviderProps) {
+  const value = useMemo<AuthI18nContextValue>(
+    () => ({ locale, t: createAuthTranslator(locale, translations, fallbackLocale) }),
+    [locale, fallbackLocale, translations]
+  );
+
+  // Errors are resolved outside React, through the registry
+  useEffect(() => {
+    authErrorRegistry.configure({
+      locale,
+      fallbackLocale,
+      messages: translations ? { [locale]: translations as Record<string, string> } : undefined,
+    });
+  }, [locale, fallbackLocale, translations]);
+
+  return <AuthI18nContext.Provider value={value}>{children}</AuthI18nContext.Provider>;
+}
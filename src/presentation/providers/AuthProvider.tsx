@@ -13,6 +13,8 @@
 import { useEffect, useState, type ReactNode } from "react";
 import { View, Text } from "react-native";
 import { initializeAuthListener } from "../stores/initializeAuthListener";
+import { sessionTimeoutService } from "../../infrastructure/services/SessionTimeoutService";
+import { useAppLock } from "../hooks/useAppLock";
 
 interface AuthProviderProps {
   children: ReactNode;
@@ -20,6 +22,16 @@ interface AuthProviderProps {
    * Custom error component to display when auth initialization fails
    */
   ErrorFallback?: React.ComponentType<{ error: Error; retry: () => void }>;
+  /**
+   * Count touches as activity for authConfig.session's idle timeout.
+   * Wraps children in a full-size View.
+   */
+  trackSessionActivity?: boolean;
+  /**
+   * Rendered instead of children while authConfig.appLock is locked, usually <AppLockScreen />.
+   * Children aren't rendered while locked or while the lock state loads.
+   */
+  renderAppLock?: () => ReactNode;
 }
 
 export interface ErrorFallbackProps {
@@ -55,8 +67,14 @@ function DefaultErrorFallback({ error, retry }: { error: Error; retry: () => voi
  * Must wrap the app root
  * Includes error boundary for graceful error handling
  */
-export function AuthProvider({ children, ErrorFallback = DefaultErrorFallback }: AuthProviderProps): ReactNode {
+export function AuthProvider({
+  children,
+  ErrorFallback = DefaultErrorFallback,
+  trackSessionActivity = false,
+  renderAppLock,
+}: AuthProviderProps): ReactNode {
   const [error, setError] = useState<Error | null>(null);
+  const appLock = useAppLock();
   const [retryCount, setRetryCount] = useState(0);
 
   useEffect(() => {
@@ -90,5 +108,17 @@ export function AuthProvider({ children, ErrorFallback = DefaultErrorFallback }:
     }} />;
   }
 
+  if (appLock.isEnabled && (!appLock.isReady || appLock.isLocked)) {
+    return appLock.isReady ? renderAppLock?.() ?? null : null;
+  }
+
+  if (trackSessionActivity) {
+    return (
+      <View style={{ flex: 1 }} onTouchStart={() => sessionTimeoutService.recordActivity()}>
+        {children}
+      </View>
+    );
+  }
+
   return <>{children}</>;
 }
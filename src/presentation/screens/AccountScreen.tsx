@@ -11,6 +11,7 @@ import { useAppDesignTokens } from "@umituz/react-native-design-system/theme";
 import { AtomicIcon, AtomicText } from "@umituz/react-native-design-system/atoms";
 import { ScreenLayout } from "@umituz/react-native-design-system/layouts";
 import { actionButtonStyle } from "../utils/commonStyles";
+import { useAuthTranslations } from "../hooks/useAuthTranslations";
 
 import { ProfileSection, type ProfileSectionConfig } from "../components/ProfileSection";
 import { AccountActions, type AccountActionsConfig } from "../components/AccountActions";
@@ -22,6 +23,8 @@ export interface AccountScreenConfig {
     editProfileText?: string;
     onEditProfile?: () => void;
     onSignIn?: () => void;
+    /** Defaults to the AuthI18nProvider bundle */
+    signInText?: string;
     title?: string;
     PasswordPromptComponent?: React.ReactNode;
 }
@@ -32,6 +35,7 @@ export interface AccountScreenProps {
 
 export const AccountScreen = memo<AccountScreenProps>(({ config }) => {
     const tokens = useAppDesignTokens();
+    const { t } = useAuthTranslations();
 
     return (
         <>
@@ -44,7 +48,7 @@ export const AccountScreen = memo<AccountScreenProps>(({ config }) => {
                 <ProfileSection
                     profile={config.profile}
                     onSignIn={config.isAnonymous ? config.onSignIn : undefined}
-                    signInText="Sign In"
+                    signInText={config.signInText ?? t("auth.account.signIn")}
                 />
 
                 {/* Edit Profile Option */}
@@ -0,0 +1,157 @@
+/**
+ * App Lock Screen Component
+ * PIN / biometric unlock shown by AuthProvider while the app is locked
+ * PERFORMANCE: Memoized to prevent unnecessary re-renders
+ */
+
+import React, { memo, useCallback, useEffect, useRef, useState } from "react";
+import { View, StyleSheet } from "react-native";
+import { useAppDesignTokens } from "@umituz/react-native-design-system/theme";
+import { AtomicCard, AtomicButton } from "@umituz/react-native-design-system/atoms";
+import { ScreenLayout } from "@umituz/react-native-design-system/layouts";
+import { useResponsive } from "@umituz/react-native-design-system/responsive";
+import { AuthHeader } from "../components/AuthHeader";
+import { OtpCodeInput } from "../components/OtpCodeInput";
+import { useAppLock } from "../hooks/useAppLock";
+import { getAuthService } from "../../infrastructure/services/AuthService";
+
+export interface AppLockScreenTranslations {
+  title: string;
+  subtitle?: string;
+  /** e.g. "Wrong PIN" */
+  wrongPin: string;
+  /** e.g. "Too many attempts, try again later" */
+  lockedOut: string;
+  /** Biometric button label and system prompt, e.g. "Unlock with Face ID" */
+  useBiometrics?: string;
+  /** "Forgot PIN?" way out; signing out removes the PIN */
+  signOut?: string;
+}
+
+export interface AppLockScreenProps {
+  translations: AppLockScreenTranslations;
+  /** Defaults to AuthService.signOut */
+  onSignOut?: () => void;
+  renderLogo?: () => React.ReactNode;
+}
+
+export const AppLockScreen = memo<AppLockScreenProps>(({
+  translations,
+  onSignOut,
+  renderLogo,
+}) => {
+  const tokens = useAppDesignTokens();
+  const responsive = useResponsive();
+  const {
+    pinLength,
+    biometricsEnabled,
+    isBiometricAvailable,
+    isLockedOut,
+    unlockWithPin,
+    unlockWithBiometrics,
+  } = useAppLock();
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  const canUseBiometrics = biometricsEnabled && isBiometricAvailable && !!translations.useBiometrics;
+
+  const handleBiometrics = useCallback(async () => {
+    if (!translations.useBiometrics) return;
+    await unlockWithBiometrics(translations.useBiometrics);
+  }, [translations.useBiometrics, unlockWithBiometrics]);
+
+  // Offer biometrics right away, once
+  const promptedRef = useRef(false);
+  useEffect(() => {
+    if (!canUseBiometrics || isLockedOut || promptedRef.current) return;
+    promptedRef.current = true;
+    void handleBiometrics();
+  }, [canUseBiometrics, isLockedOut, handleBiometrics]);
+
+  const handlePinChange = useCallback((text: string) => {
+    setPin(text);
+    setError(null);
+  }, []);
+
+  const handleComplete = useCallback(async (completed: string) => {
+    setVerifying(true);
+    const unlocked = await unlockWithPin(completed);
+    setVerifying(false);
+    if (!unlocked) {
+      setPin("");
+      setError(translations.wrongPin);
+    }
+  }, [unlockWithPin, translations.wrongPin]);
+
+  const handleSignOut = useCallback(() => {
+    if (onSignOut) {
+      onSignOut();
+      return;
+    }
+    getAuthService()?.signOut().catch((err: unknown) => {
+      if (__DEV__) {
+        console.warn("[AppLockScreen] Sign out failed:", err);
+      }
+    });
+  }, [onSignOut]);
+
+  return (
+    <ScreenLayout
+      scrollable
+      keyboardAvoiding
+      maxWidth={responsive.maxContentWidth}
+      contentContainerStyle={{ justifyContent: "center" }}
+      backgroundColor={tokens.colors.backgroundPrimary}
+    >
+      {/* Optional Logo/Illustration */}
+      {renderLogo && (
+        <View style={styles.logoContainer}>{renderLogo()}</View>
+      )}
+
+      <AuthHeader title={translations.title} subtitle={translations.subtitle} />
+
+      <AtomicCard variant="elevated" padding="lg">
+        <OtpCodeInput
+          value={pin}
+          onChangeText={handlePinChange}
+          onComplete={(completed) => { void handleComplete(completed); }}
+          length={pinLength}
+          error={isLockedOut ? translations.lockedOut : error}
+          disabled={verifying || isLockedOut}
+          secure
+        />
+
+        {canUseBiometrics && (
+          <AtomicButton
+            variant="secondary"
+            onPress={() => { void handleBiometrics(); }}
+            disabled={isLockedOut}
+            fullWidth
+          >
+            {translations.useBiometrics}
+          </AtomicButton>
+        )}
+
+        {translations.signOut && (
+          <AtomicButton
+            variant="text"
+            onPress={handleSignOut}
+            style={{ marginTop: tokens.spacing.sm }}
+          >
+            {translations.signOut}
+          </AtomicButton>
+        )}
+      </AtomicCard>
+    </ScreenLayout>
+  );
+});
+
+AppLockScreen.displayName = 'AppLockScreen';
+
+const styles = StyleSheet.create({
+  logoContainer: {
+    alignItems: "center",
+    marginBottom: 24,
+  },
+});
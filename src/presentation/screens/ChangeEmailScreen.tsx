@@ -0,0 +1,158 @@
+/**
+ * Change Email Screen Component
+ * New email + current password form; the change completes from the confirmation link.
+ * Accounts without a password confirm through reauthHandlers instead
+ * PERFORMANCE: Memoized to prevent unnecessary re-renders
+ */
+
+import React, { memo, useMemo, useRef } from "react";
+import { StyleSheet, TextInput } from "react-native";
+import { useAppDesignTokens } from "@umituz/react-native-design-system/theme";
+import { AtomicCard, AtomicButton, AtomicText } from "@umituz/react-native-design-system/atoms";
+import { AlertInline, AlertService, AlertMode } from "@umituz/react-native-design-system/molecules";
+import { ScreenLayout } from "@umituz/react-native-design-system/layouts";
+import { useResponsive } from "@umituz/react-native-design-system/responsive";
+import { AuthHeader } from "../components/AuthHeader";
+import { AuthErrorDisplay } from "../components/AuthErrorDisplay";
+import { FormEmailInput } from "../components/form/FormEmailInput";
+import { FormPasswordInput } from "../components/form/FormPasswordInput";
+import { useChangeEmailForm } from "../hooks/useChangeEmailForm";
+import type { ReauthenticationHandlers } from "../../infrastructure/types/Reauthentication.types";
+
+export interface ChangeEmailScreenTranslations {
+  title: string;
+  subtitle?: string;
+  currentEmail?: string;
+  newEmail: string;
+  newEmailPlaceholder: string;
+  password: string;
+  passwordPlaceholder: string;
+  submit: string;
+  confirmationSent: string;
+  cancel?: string;
+  errors?: Record<string, string>;
+}
+
+export interface ChangeEmailScreenProps {
+  translations: ChangeEmailScreenTranslations;
+  onSuccess?: () => void;
+  onCancel?: () => void;
+  /** Google and Apple reauthentication for accounts without a password */
+  reauthHandlers?: Omit<ReauthenticationHandlers, "password">;
+}
+
+export const ChangeEmailScreen = memo<ChangeEmailScreenProps>(({
+  translations,
+  onSuccess,
+  onCancel,
+  reauthHandlers,
+}) => {
+  const tokens = useAppDesignTokens();
+  const responsive = useResponsive();
+  const passwordRef = useRef<React.ElementRef<typeof TextInput>>(null);
+
+  const {
+    currentEmail,
+    email,
+    password,
+    requiresPassword,
+    fieldErrors,
+    loading,
+    isSent,
+    handleEmailChange,
+    handlePasswordChange,
+    handleChangeEmail,
+    displayError,
+  } = useChangeEmailForm({
+    translations: translations.errors ? { errors: translations.errors } : undefined,
+    onSuccess,
+    reauthHandlers,
+  });
+
+  const sentAlert = useMemo(() => {
+    if (!isSent) return null;
+    return AlertService.createSuccessAlert(translations.confirmationSent, undefined, {
+      mode: AlertMode.INLINE,
+    });
+  }, [isSent, translations.confirmationSent]);
+
+  return (
+    <ScreenLayout
+      scrollable
+      keyboardAvoiding
+      maxWidth={responsive.maxContentWidth}
+      contentContainerStyle={{ justifyContent: "center" }}
+      backgroundColor={tokens.colors.backgroundPrimary}
+    >
+      <AuthHeader title={translations.title} subtitle={translations.subtitle} />
+
+      <AtomicCard variant="elevated" padding="lg">
+        {translations.currentEmail && currentEmail && (
+          <AtomicText type="bodyMedium" color="textSecondary" style={styles.currentEmail}>
+            {translations.currentEmail} {currentEmail}
+          </AtomicText>
+        )}
+
+        <FormEmailInput
+          value={email}
+          onChangeText={handleEmailChange}
+          label={translations.newEmail}
+          placeholder={translations.newEmailPlaceholder}
+          error={fieldErrors.email}
+          disabled={loading}
+          onSubmitEditing={() => {
+            if (requiresPassword) passwordRef.current?.focus();
+            else void handleChangeEmail();
+          }}
+          returnKeyType={requiresPassword ? "next" : "done"}
+        />
+
+        {requiresPassword && (
+          <FormPasswordInput
+            ref={passwordRef}
+            value={password}
+            onChangeText={handlePasswordChange}
+            label={translations.password}
+            placeholder={translations.passwordPlaceholder}
+            error={fieldErrors.password}
+            disabled={loading}
+            onSubmitEditing={() => { void handleChangeEmail(); }}
+            returnKeyType="done"
+          />
+        )}
+
+        {sentAlert && <AlertInline alert={sentAlert} />}
+        <AuthErrorDisplay error={displayError} />
+
+        <AtomicButton
+          variant="primary"
+          onPress={() => { void handleChangeEmail(); }}
+          disabled={loading || !email.trim() || (requiresPassword && !password)}
+          loading={loading}
+          fullWidth
+          style={styles.submitButton}
+        >
+          {translations.submit}
+        </AtomicButton>
+
+        {onCancel && translations.cancel && (
+          <AtomicButton variant="text" onPress={onCancel} disabled={loading} fullWidth>
+            {translations.cancel}
+          </AtomicButton>
+        )}
+      </AtomicCard>
+    </ScreenLayout>
+  );
+});
+
+ChangeEmailScreen.displayName = 'ChangeEmailScreen';
+
+const styles = StyleSheet.create({
+  currentEmail: {
+    marginBottom: 16,
+  },
+  submitButton: {
+    marginTop: 8,
+    marginBottom: 8,
+  },
+});
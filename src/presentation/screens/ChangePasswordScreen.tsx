@@ -0,0 +1,168 @@
+/**
+ * Change Password Screen Component
+ * Current/new password form with reauthentication
+ * PERFORMANCE: Memoized to prevent unnecessary re-renders
+ */
+
+import React, { memo, useMemo, useRef } from "react";
+import { StyleSheet, TextInput } from "react-native";
+import { useAppDesignTokens } from "@umituz/react-native-design-system/theme";
+import { AtomicCard, AtomicButton } from "@umituz/react-native-design-system/atoms";
+import { AlertInline, AlertService, AlertMode } from "@umituz/react-native-design-system/molecules";
+import { ScreenLayout } from "@umituz/react-native-design-system/layouts";
+import { useResponsive } from "@umituz/react-native-design-system/responsive";
+import { AuthHeader } from "../components/AuthHeader";
+import { AuthErrorDisplay } from "../components/AuthErrorDisplay";
+import { FormPasswordInput } from "../components/form/FormPasswordInput";
+import { PasswordStrengthIndicator, type PasswordStrengthTranslations } from "../components/PasswordStrengthIndicator";
+import { PasswordMatchIndicator, type PasswordMatchTranslations } from "../components/PasswordMatchIndicator";
+import { useChangePasswordForm } from "../hooks/useChangePasswordForm";
+
+export interface ChangePasswordScreenTranslations {
+  title: string;
+  subtitle?: string;
+  currentPassword: string;
+  currentPasswordPlaceholder: string;
+  newPassword: string;
+  newPasswordPlaceholder: string;
+  confirmPassword: string;
+  confirmPasswordPlaceholder: string;
+  submit: string;
+  success: string;
+  cancel?: string;
+  passwordStrength?: PasswordStrengthTranslations;
+  passwordMatch: PasswordMatchTranslations;
+  errors?: Record<string, string>;
+}
+
+export interface ChangePasswordScreenProps {
+  translations: ChangePasswordScreenTranslations;
+  onSuccess?: () => void;
+  onCancel?: () => void;
+}
+
+export const ChangePasswordScreen = memo<ChangePasswordScreenProps>(({
+  translations,
+  onSuccess,
+  onCancel,
+}) => {
+  const tokens = useAppDesignTokens();
+  const responsive = useResponsive();
+  const newPasswordRef = useRef<React.ElementRef<typeof TextInput>>(null);
+  const confirmPasswordRef = useRef<React.ElementRef<typeof TextInput>>(null);
+
+  const {
+    currentPassword,
+    newPassword,
+    confirmPassword,
+    fieldErrors,
+    loading,
+    isChanged,
+    passwordRequirements,
+    passwordsMatch,
+    handleCurrentPasswordChange,
+    handleNewPasswordChange,
+    handleConfirmPasswordChange,
+    handleChangePassword,
+    displayError,
+  } = useChangePasswordForm({
+    translations: translations.errors ? { errors: translations.errors } : undefined,
+    onSuccess,
+  });
+
+  const successAlert = useMemo(() => {
+    if (!isChanged) return null;
+    return AlertService.createSuccessAlert(translations.success, undefined, {
+      mode: AlertMode.INLINE,
+    });
+  }, [isChanged, translations.success]);
+
+  return (
+    <ScreenLayout
+      scrollable
+      keyboardAvoiding
+      maxWidth={responsive.maxContentWidth}
+      contentContainerStyle={{ justifyContent: "center" }}
+      backgroundColor={tokens.colors.backgroundPrimary}
+    >
+      <AuthHeader title={translations.title} subtitle={translations.subtitle} />
+
+      <AtomicCard variant="elevated" padding="lg">
+        <FormPasswordInput
+          value={currentPassword}
+          onChangeText={handleCurrentPasswordChange}
+          label={translations.currentPassword}
+          placeholder={translations.currentPasswordPlaceholder}
+          error={fieldErrors.currentPassword}
+          disabled={loading}
+          onSubmitEditing={() => newPasswordRef.current?.focus()}
+          returnKeyType="next"
+        />
+
+        <FormPasswordInput
+          ref={newPasswordRef}
+          value={newPassword}
+          onChangeText={handleNewPasswordChange}
+          label={translations.newPassword}
+          placeholder={translations.newPasswordPlaceholder}
+          error={fieldErrors.newPassword}
+          disabled={loading}
+          onSubmitEditing={() => confirmPasswordRef.current?.focus()}
+          returnKeyType="next"
+          style={styles.passwordInput}
+        />
+        {newPassword.length > 0 && (
+          <PasswordStrengthIndicator translations={translations.passwordStrength} requirements={passwordRequirements} />
+        )}
+
+        <FormPasswordInput
+          ref={confirmPasswordRef}
+          value={confirmPassword}
+          onChangeText={handleConfirmPasswordChange}
+          label={translations.confirmPassword}
+          placeholder={translations.confirmPasswordPlaceholder}
+          error={fieldErrors.confirmPassword}
+          disabled={loading}
+          onSubmitEditing={() => { void handleChangePassword(); }}
+          returnKeyType="done"
+          style={styles.passwordInput}
+        />
+        {confirmPassword.length > 0 && (
+          <PasswordMatchIndicator translations={translations.passwordMatch} isMatch={passwordsMatch} />
+        )}
+
+        {successAlert && <AlertInline alert={successAlert} />}
+        <AuthErrorDisplay error={displayError} />
+
+        <AtomicButton
+          variant="primary"
+          onPress={() => { void handleChangePassword(); }}
+          disabled={loading || !currentPassword || !newPassword || !confirmPassword}
+          loading={loading}
+          fullWidth
+          style={styles.submitButton}
+        >
+          {translations.submit}
+        </AtomicButton>
+
+        {onCancel && translations.cancel && (
+          <AtomicButton variant="text" onPress={onCancel} disabled={loading} fullWidth>
+            {translations.cancel}
+          </AtomicButton>
+        )}
+      </AtomicCard>
+    </ScreenLayout>
+  );
+});
+
+ChangePasswordScreen.displayName = 'ChangePasswordScreen';
+
+const styles = StyleSheet.create({
+  passwordInput: {
+    marginBottom: 4,
+  },
+  submitButton: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+});
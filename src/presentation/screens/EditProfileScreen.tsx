@@ -11,8 +11,9 @@ import { ScreenLayout } from "@umituz/react-native-design-system/layouts";
 import { EditProfileAvatar } from "../components/EditProfileAvatar";
 import { EditProfileForm } from "../components/EditProfileForm";
 import { EditProfileActions } from "../components/EditProfileActions";
+import { AuthErrorDisplay } from "../components/AuthErrorDisplay";
 
-interface EditProfileLabels {
+export interface EditProfileLabels {
     title: string;
     displayNameLabel: string;
     displayNamePlaceholder: string;
@@ -24,12 +25,16 @@ interface EditProfileLabels {
     cancelButton: string;
 }
 
-interface EditProfileConfig {
+export interface EditProfileConfig {
     displayName: string;
     email: string;
     photoURL: string | null;
     isLoading?: boolean;
     isSaving?: boolean;
+    /** Email is managed elsewhere (e.g. ChangeEmailScreen) when false */
+    isEmailEditable?: boolean;
+    displayNameError?: string | null;
+    error?: string | null;
     onChangeDisplayName: (value: string) => void;
     onChangeEmail: (value: string) => void;
     onChangePhoto?: () => void;
@@ -76,9 +81,13 @@ export const EditProfileScreen: React.FC<EditProfileScreenProps> = ({ config })
                 email={config.email}
                 onChangeDisplayName={config.onChangeDisplayName}
                 onChangeEmail={config.onChangeEmail}
+                isEmailEditable={config.isEmailEditable}
+                displayNameError={config.displayNameError}
                 labels={config.labels}
             />
 
+            <AuthErrorDisplay error={config.error ?? null} />
+
             <EditProfileActions
                 isSaving={config.isSaving}
                 onSave={config.onSave}
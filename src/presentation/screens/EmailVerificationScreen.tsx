@@ -0,0 +1,168 @@
+/**
+ * Email Verification Screen Component
+ * Asks the user to verify their email, with resend and "I've verified" actions
+ * PERFORMANCE: Memoized to prevent unnecessary re-renders
+ */
+
+import React, { memo, useCallback, useState } from "react";
+import { View, StyleSheet } from "react-native";
+import { useAppDesignTokens } from "@umituz/react-native-design-system/theme";
+import { AtomicCard, AtomicText, AtomicButton } from "@umituz/react-native-design-system/atoms";
+import { ScreenLayout } from "@umituz/react-native-design-system/layouts";
+import { useResponsive } from "@umituz/react-native-design-system/responsive";
+import { AuthHeader } from "../components/AuthHeader";
+import { AuthErrorDisplay } from "../components/AuthErrorDisplay";
+import { useAuth } from "../hooks/useAuth";
+import {
+  useEmailVerification,
+  type UseEmailVerificationOptions,
+} from "../hooks/useEmailVerification";
+
+export interface EmailVerificationScreenTranslations {
+  title: string;
+  subtitle?: string;
+  sendEmail: string;
+  resendEmail: string;
+  emailSent: string;
+  checkVerification: string;
+  notVerifiedYet: string;
+  signOut?: string;
+  errors?: Record<string, string>;
+}
+
+export interface EmailVerificationScreenProps
+  extends Omit<UseEmailVerificationOptions, "translations"> {
+  translations: EmailVerificationScreenTranslations;
+  renderLogo?: () => React.ReactNode;
+}
+
+export const EmailVerificationScreen = memo<EmailVerificationScreenProps>(({
+  translations,
+  renderLogo,
+  ...options
+}) => {
+  const tokens = useAppDesignTokens();
+  const responsive = useResponsive();
+  const { signOut } = useAuth();
+  const [notVerified, setNotVerified] = useState(false);
+
+  const {
+    email,
+    isSent,
+    isSending,
+    isRefreshing,
+    cooldownRemaining,
+    canResend,
+    error,
+    sendVerificationEmail,
+    refresh,
+  } = useEmailVerification({
+    ...options,
+    translations: translations.errors ? { errors: translations.errors } : undefined,
+  });
+
+  const handleCheckVerification = useCallback(async () => {
+    setNotVerified(false);
+    try {
+      const verified = await refresh();
+      setNotVerified(!verified);
+    } catch (err) {
+      if (__DEV__) {
+        console.warn("[EmailVerificationScreen] Failed to check verification:", err);
+      }
+    }
+  }, [refresh]);
+
+  const handleSignOut = useCallback(() => {
+    void signOut();
+  }, [signOut]);
+
+  const sendLabel = isSent ? translations.resendEmail : translations.sendEmail;
+  const resendLabel = cooldownRemaining > 0 ? `${sendLabel} (${cooldownRemaining}s)` : sendLabel;
+
+  return (
+    <ScreenLayout
+      scrollable
+      maxWidth={responsive.maxContentWidth}
+      contentContainerStyle={{ justifyContent: "center" }}
+      backgroundColor={tokens.colors.backgroundPrimary}
+    >
+      {/* Optional Logo/Illustration */}
+      {renderLogo && (
+        <View style={styles.logoContainer}>{renderLogo()}</View>
+      )}
+
+      <AuthHeader title={translations.title} subtitle={translations.subtitle} />
+
+      <AtomicCard variant="elevated" padding="lg">
+        {email && (
+          <AtomicText type="titleMedium" color="textPrimary" style={styles.email}>
+            {email}
+          </AtomicText>
+        )}
+
+        {isSent && (
+          <AtomicText type="bodyMedium" color="textSecondary" style={styles.message}>
+            {translations.emailSent}
+          </AtomicText>
+        )}
+
+        {notVerified && (
+          <AtomicText type="bodyMedium" color="textSecondary" style={styles.message}>
+            {translations.notVerifiedYet}
+          </AtomicText>
+        )}
+
+        <AuthErrorDisplay error={error} />
+
+        <AtomicButton
+          variant="primary"
+          onPress={() => { void handleCheckVerification(); }}
+          loading={isRefreshing}
+          disabled={isRefreshing}
+          fullWidth
+          style={{ marginBottom: tokens.spacing.sm }}
+        >
+          {translations.checkVerification}
+        </AtomicButton>
+
+        <AtomicButton
+          variant="secondary"
+          onPress={() => { void sendVerificationEmail(); }}
+          loading={isSending}
+          disabled={!canResend}
+          fullWidth
+        >
+          {resendLabel}
+        </AtomicButton>
+
+        {translations.signOut && (
+          <AtomicButton
+            variant="text"
+            onPress={handleSignOut}
+            style={{ marginTop: tokens.spacing.sm }}
+          >
+            {translations.signOut}
+          </AtomicButton>
+        )}
+      </AtomicCard>
+    </ScreenLayout>
+  );
+});
+
+EmailVerificationScreen.displayName = 'EmailVerificationScreen';
+
+const styles = StyleSheet.create({
+  logoContainer: {
+    alignItems: "center",
+    marginBottom: 24,
+  },
+  email: {
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  message: {
+    textAlign: "center",
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,73 @@
+/**
+ * Forgot Password Screen Component
+ * Password reset request screen with navigation back to login
+ * PERFORMANCE: Memoized to prevent unnecessary re-renders
+ */
+
+import React, { memo, useCallback } from "react";
+import { View, StyleSheet } from "react-native";
+import { useAppDesignTokens } from "@umituz/react-native-design-system/theme";
+import { AtomicCard } from "@umituz/react-native-design-system/atoms";
+import { useAppNavigation } from "@umituz/react-native-design-system/molecules";
+import { ScreenLayout } from "@umituz/react-native-design-system/layouts";
+import { useResponsive } from "@umituz/react-native-design-system/responsive";
+import { AuthHeader } from "../components/AuthHeader";
+import { ForgotPasswordForm, type ForgotPasswordFormTranslations } from "../components/ForgotPasswordForm";
+
+export interface ForgotPasswordScreenTranslations {
+  title: string;
+  subtitle?: string;
+  form: ForgotPasswordFormTranslations;
+}
+
+export interface ForgotPasswordScreenProps {
+  translations: ForgotPasswordScreenTranslations;
+  renderLogo?: () => React.ReactNode;
+}
+
+export const ForgotPasswordScreen = memo<ForgotPasswordScreenProps>(({
+  translations,
+  renderLogo,
+}) => {
+  const navigation = useAppNavigation();
+  const tokens = useAppDesignTokens();
+  const responsive = useResponsive();
+
+  // PERFORMANCE: Stable callback reference
+  const handleNavigateToLogin = useCallback(() => {
+    navigation.navigate("Login");
+  }, [navigation]);
+
+  return (
+    <ScreenLayout
+      scrollable
+      keyboardAvoiding
+      maxWidth={responsive.maxContentWidth}
+      contentContainerStyle={{ justifyContent: "center" }}
+      backgroundColor={tokens.colors.backgroundPrimary}
+    >
+      {/* Optional Logo/Illustration */}
+      {renderLogo && (
+        <View style={styles.logoContainer}>{renderLogo()}</View>
+      )}
+
+      <AuthHeader title={translations.title} subtitle={translations.subtitle} />
+
+      <AtomicCard variant="elevated" padding="lg">
+        <ForgotPasswordForm
+          translations={translations.form}
+          onNavigateToLogin={handleNavigateToLogin}
+        />
+      </AtomicCard>
+    </ScreenLayout>
+  );
+});
+
+ForgotPasswordScreen.displayName = 'ForgotPasswordScreen';
+
+const styles = StyleSheet.create({
+  logoContainer: {
+    alignItems: "center",
+    marginBottom: 24,
+  },
+});
@@ -0,0 +1,191 @@
+/**
+ * Linked Accounts Screen
+ * Lists the sign-in methods of the current account with connect/disconnect actions
+ * Credentials come from the app (Google/Apple SDKs, a password prompt) via getCredential
+ * PERFORMANCE: Memoized to prevent unnecessary re-renders
+ */
+
+import React, { memo, useCallback, useEffect } from "react";
+import { View, StyleSheet } from "react-native";
+import { useAppDesignTokens } from "@umituz/react-native-design-system/theme";
+import { AtomicButton, AtomicIcon, AtomicText } from "@umituz/react-native-design-system/atoms";
+import { useAlert, AlertType, AlertMode } from "@umituz/react-native-design-system/molecules";
+import { ScreenLayout } from "@umituz/react-native-design-system/layouts";
+import { AuthErrorDisplay } from "../components/AuthErrorDisplay";
+import { useLinkedAccounts } from "../hooks/useLinkedAccounts";
+import { useAuthStore } from "../stores/authStore";
+import { actionButtonStyle } from "../utils/commonStyles";
+import type { AuthUser } from "../../domain/entities/AuthUser";
+import type { LinkCredential, LinkableProviderType } from "../../domain/entities/AccountLink";
+
+const DEFAULT_PROVIDERS: LinkableProviderType[] = ["google.com", "apple.com", "password"];
+
+const PROVIDER_ICONS: Record<LinkableProviderType, string> = {
+  "google.com": "logo-google",
+  "apple.com": "logo-apple",
+  password: "key-outline",
+};
+
+export interface LinkedAccountsScreenTranslations {
+  title: string;
+  subtitle?: string;
+  /** Display name per provider, providers without a label are hidden */
+  providers: Partial<Record<LinkableProviderType, string>>;
+  connected: string;
+  connect: string;
+  disconnect: string;
+  conflictTitle: string;
+  conflictMessage: string;
+  switchAccount: string;
+  /** Shown only when onMergeAccounts is provided */
+  mergeAccounts?: string;
+  cancel: string;
+  errors?: Record<string, string>;
+}
+
+export interface LinkedAccountsScreenProps {
+  translations: LinkedAccountsScreenTranslations;
+  /** Providers to list (default: Google, Apple, password) */
+  providers?: LinkableProviderType[];
+  /** Obtains a credential from the provider, return null when the user cancels */
+  getCredential: (provider: LinkableProviderType) => Promise<LinkCredential | null>;
+  onSwitchedAccount?: (user: AuthUser, previousUid: string | null) => void;
+  /** Moves app data from the account that was left into the account switched to */
+  onMergeAccounts?: (previousUid: string | null, user: AuthUser) => Promise<void> | void;
+}
+
+export const LinkedAccountsScreen = memo<LinkedAccountsScreenProps>(({
+  translations,
+  providers = DEFAULT_PROVIDERS,
+  getCredential,
+  onSwitchedAccount,
+  onMergeAccounts,
+}) => {
+  const tokens = useAppDesignTokens();
+  const alert = useAlert();
+  const currentUid = useAuthStore((s) => s.user?.uid ?? null);
+
+  const {
+    isLinked,
+    canUnlink,
+    pendingProvider,
+    conflict,
+    isSwitching,
+    error,
+    link,
+    unlink,
+    switchAccount,
+    dismissConflict,
+  } = useLinkedAccounts({
+    onSwitchedAccount,
+    translations: translations.errors ? { errors: translations.errors } : undefined,
+  });
+
+  // PERFORMANCE: Stable callback references prevent unnecessary re-renders
+  const handleConnect = useCallback(async (provider: LinkableProviderType) => {
+    const credential = await getCredential(provider);
+    if (credential) await link(credential);
+  }, [getCredential, link]);
+
+  // Ask whether to switch (or merge) when the method belongs to another account
+  useEffect(() => {
+    if (!conflict) return;
+
+    // The session ends when switching, so remember which account is being left
+    const previousUid = currentUid;
+    const actions = [
+      { id: "cancel", label: translations.cancel, style: "secondary" as const, onPress: dismissConflict },
+      {
+        id: "switch",
+        label: translations.switchAccount,
+        style: "primary" as const,
+        onPress: () => { void switchAccount(); },
+      },
+    ];
+
+    if (onMergeAccounts && translations.mergeAccounts) {
+      actions.push({
+        id: "merge",
+        label: translations.mergeAccounts,
+        style: "primary" as const,
+        onPress: () => {
+          void switchAccount().then((user) => (user ? onMergeAccounts(previousUid, user) : undefined));
+        },
+      });
+    }
+
+    alert.show(AlertType.WARNING, AlertMode.MODAL, translations.conflictTitle, translations.conflictMessage, { actions });
+    // Only a new conflict should open the prompt
+  }, [conflict]);
+
+  const isBusy = pendingProvider !== null || isSwitching;
+
+  return (
+    <ScreenLayout
+      scrollable
+      edges={["top", "bottom"]}
+      backgroundColor={tokens.colors.backgroundPrimary}
+      contentContainerStyle={styles.content}
+    >
+      <AtomicText type="headlineSmall" style={styles.title}>
+        {translations.title}
+      </AtomicText>
+      {translations.subtitle && (
+        <AtomicText type="bodyMedium" color="textSecondary" style={styles.subtitle}>
+          {translations.subtitle}
+        </AtomicText>
+      )}
+
+      <AuthErrorDisplay error={error} />
+
+      <View style={styles.list}>
+        {providers.map((provider) => {
+          const label = translations.providers[provider];
+          if (!label) return null;
+
+          const linked = isLinked(provider);
+          return (
+            <View key={provider} style={[actionButtonStyle.container, { borderColor: tokens.colors.border }]}>
+              <AtomicIcon name={PROVIDER_ICONS[provider]} size="md" color="textPrimary" />
+              <View style={styles.providerText}>
+                <AtomicText color="textPrimary">{label}</AtomicText>
+                {linked && (
+                  <AtomicText type="bodySmall" color="success">{translations.connected}</AtomicText>
+                )}
+              </View>
+              <AtomicButton
+                variant={linked ? "text" : "outline"}
+                size="sm"
+                onPress={() => { void (linked ? unlink(provider) : handleConnect(provider)); }}
+                disabled={isBusy || (linked && !canUnlink)}
+                loading={pendingProvider === provider}
+              >
+                {linked ? translations.disconnect : translations.connect}
+              </AtomicButton>
+            </View>
+          );
+        })}
+      </View>
+    </ScreenLayout>
+  );
+});
+
+LinkedAccountsScreen.displayName = "LinkedAccountsScreen";
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+  },
+  title: {
+    marginBottom: 8,
+  },
+  subtitle: {
+    marginBottom: 16,
+  },
+  list: {
+    gap: 12,
+  },
+  providerText: {
+    flex: 1,
+  },
+});
@@ -7,7 +7,7 @@
 import React, { memo, useCallback, useMemo } from "react";
 import { View, StyleSheet } from "react-native";
 import { useAppDesignTokens } from "@umituz/react-native-design-system/theme";
-import { AtomicCard } from "@umituz/react-native-design-system/atoms";
+import { AtomicCard, AtomicButton } from "@umituz/react-native-design-system/atoms";
 import { useAppNavigation } from "@umituz/react-native-design-system/molecules";
 import { ScreenLayout } from "@umituz/react-native-design-system/layouts";
 import { useResponsive } from "@umituz/react-native-design-system/responsive";
@@ -16,38 +16,79 @@ import type { SocialAuthProvider } from "../../domain/value-objects/AuthConfig";
 import { AuthHeader } from "../components/AuthHeader";
 import { LoginForm, type LoginFormTranslations } from "../components/LoginForm";
 import { SocialLoginButtons, type SocialLoginButtonsTranslations } from "../components/SocialLoginButtons";
+import { useOidcAuth } from "../hooks/useOidcAuth";
+import { useAuthTranslations } from "../hooks/useAuthTranslations";
+import { getDefaultLoginScreenTranslations } from "../utils/defaultAuthTranslations";
 
 export interface LoginScreenTranslations {
   title: string;
   subtitle?: string;
   form: LoginFormTranslations;
   socialButtons?: SocialLoginButtonsTranslations;
+  /** Label of the "sign in with phone" button, required by enablePhoneLogin */
+  phoneSignIn?: string;
+  /** Label of the "email me a sign-in link" button, required by enableMagicLink */
+  magicLinkSignIn?: string;
 }
 
 export interface LoginScreenProps {
-  translations: LoginScreenTranslations;
+  /** Defaults to the AuthI18nProvider bundle */
+  translations?: LoginScreenTranslations;
   socialConfig?: SocialAuthConfiguration;
   onGoogleSignIn?: () => Promise<void>;
   onAppleSignIn?: () => Promise<void>;
   renderLogo?: () => React.ReactNode;
+  /** Shows the "forgot password" link, navigating to the ForgotPassword route */
+  enableForgotPassword?: boolean;
+  /** Shows the "sign in with phone" button, navigating to the PhoneLogin route */
+  enablePhoneLogin?: boolean;
+  /** Shows the "email me a sign-in link" button, navigating to the MagicLink route */
+  enableMagicLink?: boolean;
+  /** Continues to the MfaChallenge route when the account has two-factor authentication */
+  enableMfaChallenge?: boolean;
 }
 
 export const LoginScreen = memo<LoginScreenProps>(({
-  translations,
+  translations: customTranslations,
   socialConfig,
   onGoogleSignIn,
   onAppleSignIn,
   renderLogo,
+  enableForgotPassword = false,
+  enablePhoneLogin = false,
+  enableMagicLink = false,
+  enableMfaChallenge = false,
 }) => {
   const navigation = useAppNavigation();
   const tokens = useAppDesignTokens();
   const responsive = useResponsive();
+  const { t } = useAuthTranslations();
+  const translations = useMemo(
+    () => customTranslations ?? getDefaultLoginScreenTranslations(t),
+    [customTranslations, t]
+  );
 
   // PERFORMANCE: Stable callback reference
   const handleNavigateToRegister = useCallback(() => {
     navigation.navigate("Register");
   }, [navigation]);
 
+  const handleNavigateToForgotPassword = useCallback(() => {
+    navigation.navigate("ForgotPassword");
+  }, [navigation]);
+
+  const handleNavigateToPhoneLogin = useCallback(() => {
+    navigation.navigate("PhoneLogin");
+  }, [navigation]);
+
+  const handleNavigateToMagicLink = useCallback(() => {
+    navigation.navigate("MagicLink");
+  }, [navigation]);
+
+  const handleMultiFactorRequired = useCallback(() => {
+    navigation.navigate("MfaChallenge");
+  }, [navigation]);
+
   // Determine enabled social providers
   const enabledProviders = useMemo<SocialAuthProvider[]>(() => {
     if (!socialConfig) return [];
@@ -59,11 +100,16 @@ export const LoginScreen = memo<LoginScreenProps>(({
     return providers;
   }, [socialConfig]);
 
-  const hasSocialAuth = enabledProviders.length > 0 && translations.socialButtons;
+  // OAuth/OIDC providers come from the auth config passed to initializeAuth
+  const { providerButtons } = useOidcAuth({
+    onMultiFactorRequired: enableMfaChallenge ? handleMultiFactorRequired : undefined,
+  });
+
+  const hasSocialAuth = (enabledProviders.length > 0 || providerButtons.length > 0) && translations.socialButtons;
   // Check if required handlers exist for enabled providers (only need handler if provider is enabled)
   const hasGoogle = enabledProviders.includes("google") && onGoogleSignIn;
   const hasApple = enabledProviders.includes("apple") && onAppleSignIn;
-  const showSocialButtons = hasSocialAuth && (hasGoogle || hasApple);
+  const showSocialButtons = hasSocialAuth && (hasGoogle || hasApple || providerButtons.length > 0);
 
   // Store social buttons translations in const to satisfy type checker (safe because we check hasSocialAuth first)
   const socialButtonsTranslations = translations.socialButtons!;
@@ -96,8 +142,32 @@ export const LoginScreen = memo<LoginScreenProps>(({
         <LoginForm
           translations={translations.form}
           onNavigateToRegister={handleNavigateToRegister}
+          onNavigateToForgotPassword={enableForgotPassword ? handleNavigateToForgotPassword : undefined}
+          onMultiFactorRequired={enableMfaChallenge ? handleMultiFactorRequired : undefined}
         />
 
+        {enablePhoneLogin && translations.phoneSignIn && (
+          <AtomicButton
+            variant="outline"
+            onPress={handleNavigateToPhoneLogin}
+            fullWidth
+            style={styles.alternativeButton}
+          >
+            {translations.phoneSignIn}
+          </AtomicButton>
+        )}
+
+        {enableMagicLink && translations.magicLinkSignIn && (
+          <AtomicButton
+            variant="outline"
+            onPress={handleNavigateToMagicLink}
+            fullWidth
+            style={styles.alternativeButton}
+          >
+            {translations.magicLinkSignIn}
+          </AtomicButton>
+        )}
+
         {/* Social Login Buttons */}
         {showSocialButtons && (
           <SocialLoginButtons
@@ -105,6 +175,7 @@ export const LoginScreen = memo<LoginScreenProps>(({
             enabledProviders={enabledProviders}
             onGooglePress={hasGoogle ? handleGooglePress : undefined}
             onApplePress={hasApple ? handleApplePress : undefined}
+            providers={providerButtons}
           />
         )}
       </AtomicCard>
@@ -119,4 +190,7 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginBottom: 24,
   },
+  alternativeButton: {
+    marginTop: 16,
+  },
 });
@@ -0,0 +1,187 @@
+/**
+ * Magic Link Screen Component
+ * Passwordless email sign-in: request the link, then "check your inbox"
+ * PERFORMANCE: Memoized to prevent unnecessary re-renders
+ */
+
+import React, { memo, useCallback } from "react";
+import { View, StyleSheet } from "react-native";
+import { useAppDesignTokens } from "@umituz/react-native-design-system/theme";
+import { AtomicCard, AtomicButton, AtomicText } from "@umituz/react-native-design-system/atoms";
+import { useAppNavigation } from "@umituz/react-native-design-system/molecules";
+import { ScreenLayout } from "@umituz/react-native-design-system/layouts";
+import { useResponsive } from "@umituz/react-native-design-system/responsive";
+import { AuthHeader } from "../components/AuthHeader";
+import { AuthErrorDisplay } from "../components/AuthErrorDisplay";
+import { FormEmailInput } from "../components/form/FormEmailInput";
+import { useMagicLinkForm } from "../hooks/useMagicLinkForm";
+import type { AuthUser } from "../../domain/entities/AuthUser";
+
+export interface MagicLinkScreenTranslations {
+  title: string;
+  subtitle?: string;
+  email: string;
+  emailPlaceholder: string;
+  sendLink: string;
+  checkInboxTitle: string;
+  /** Followed by the email address */
+  checkInboxMessage: string;
+  resend: string;
+  useDifferentEmail: string;
+  /** Shown when the link was opened on another device */
+  confirmEmailMessage?: string;
+  confirmEmail?: string;
+  backToLogin?: string;
+  errors?: Record<string, string>;
+}
+
+export interface MagicLinkScreenProps {
+  translations: MagicLinkScreenTranslations;
+  resendCooldownSeconds?: number;
+  onSignedIn?: (user: AuthUser) => void;
+  renderLogo?: () => React.ReactNode;
+}
+
+export const MagicLinkScreen = memo<MagicLinkScreenProps>(({
+  translations,
+  resendCooldownSeconds,
+  onSignedIn,
+  renderLogo,
+}) => {
+  const navigation = useAppNavigation();
+  const tokens = useAppDesignTokens();
+  const responsive = useResponsive();
+
+  const {
+    email,
+    emailError,
+    loading,
+    isSent,
+    needsEmailConfirmation,
+    cooldownRemaining,
+    canResend,
+    handleEmailChange,
+    handleSubmit,
+    handleResend,
+    reset,
+    displayError,
+  } = useMagicLinkForm({
+    translations: translations.errors ? { errors: translations.errors } : undefined,
+    resendCooldownSeconds,
+    onSignedIn,
+  });
+
+  // PERFORMANCE: Stable callback reference
+  const handleNavigateToLogin = useCallback(() => {
+    navigation.navigate("Login");
+  }, [navigation]);
+
+  const resendLabel = cooldownRemaining > 0
+    ? `${translations.resend} (${cooldownRemaining}s)`
+    : translations.resend;
+
+  const submitLabel = needsEmailConfirmation && translations.confirmEmail
+    ? translations.confirmEmail
+    : translations.sendLink;
+
+  return (
+    <ScreenLayout
+      scrollable
+      keyboardAvoiding
+      maxWidth={responsive.maxContentWidth}
+      contentContainerStyle={{ justifyContent: "center" }}
+      backgroundColor={tokens.colors.backgroundPrimary}
+    >
+      {/* Optional Logo/Illustration */}
+      {renderLogo && (
+        <View style={styles.logoContainer}>{renderLogo()}</View>
+      )}
+
+      <AuthHeader
+        title={isSent ? translations.checkInboxTitle : translations.title}
+        subtitle={isSent ? undefined : translations.subtitle}
+      />
+
+      <AtomicCard variant="elevated" padding="lg">
+        {isSent ? (
+          <>
+            <AtomicText type="bodyMedium" color="textSecondary" style={styles.message}>
+              {translations.checkInboxMessage} {email}
+            </AtomicText>
+
+            <AuthErrorDisplay error={displayError} />
+
+            <AtomicButton
+              variant="primary"
+              onPress={() => { void handleResend(); }}
+              disabled={!canResend}
+              loading={loading}
+              fullWidth
+              style={styles.submitButton}
+            >
+              {resendLabel}
+            </AtomicButton>
+
+            <AtomicButton variant="text" onPress={reset} disabled={loading} fullWidth>
+              {translations.useDifferentEmail}
+            </AtomicButton>
+          </>
+        ) : (
+          <>
+            {needsEmailConfirmation && translations.confirmEmailMessage && (
+              <AtomicText type="bodyMedium" color="textSecondary" style={styles.message}>
+                {translations.confirmEmailMessage}
+              </AtomicText>
+            )}
+
+            <FormEmailInput
+              value={email}
+              onChangeText={handleEmailChange}
+              label={translations.email}
+              placeholder={translations.emailPlaceholder}
+              error={emailError}
+              disabled={loading}
+              onSubmitEditing={() => { void handleSubmit(); }}
+              returnKeyType="done"
+            />
+
+            <AuthErrorDisplay error={displayError} />
+
+            <AtomicButton
+              variant="primary"
+              onPress={() => { void handleSubmit(); }}
+              disabled={loading || !email.trim()}
+              loading={loading}
+              fullWidth
+              style={styles.submitButton}
+            >
+              {submitLabel}
+            </AtomicButton>
+
+            {translations.backToLogin && (
+              <AtomicButton variant="text" onPress={handleNavigateToLogin} disabled={loading} fullWidth>
+                {translations.backToLogin}
+              </AtomicButton>
+            )}
+          </>
+        )}
+      </AtomicCard>
+    </ScreenLayout>
+  );
+});
+
+MagicLinkScreen.displayName = 'MagicLinkScreen';
+
+const styles = StyleSheet.create({
+  logoContainer: {
+    alignItems: "center",
+    marginBottom: 24,
+  },
+  message: {
+    marginBottom: 16,
+  },
+  submitButton: {
+    marginTop: 8,
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,82 @@
+/**
+ * MFA Challenge Screen Component
+ * Second sign-in step for accounts with two-factor authentication
+ * PERFORMANCE: Memoized to prevent unnecessary re-renders
+ */
+
+import React, { memo, useCallback } from "react";
+import { View, StyleSheet } from "react-native";
+import { useAppDesignTokens } from "@umituz/react-native-design-system/theme";
+import { AtomicCard } from "@umituz/react-native-design-system/atoms";
+import { useAppNavigation } from "@umituz/react-native-design-system/molecules";
+import { ScreenLayout } from "@umituz/react-native-design-system/layouts";
+import { useResponsive } from "@umituz/react-native-design-system/responsive";
+import { AuthHeader } from "../components/AuthHeader";
+import { MfaChallengeForm, type MfaChallengeFormTranslations } from "../components/MfaChallengeForm";
+import type { AuthUser } from "../../domain/entities/AuthUser";
+import type { MultiFactorChallenge } from "../../domain/entities/MultiFactor";
+
+export interface MfaChallengeScreenTranslations {
+  title: string;
+  subtitle?: string;
+  form: MfaChallengeFormTranslations;
+}
+
+export interface MfaChallengeScreenProps {
+  translations: MfaChallengeScreenTranslations;
+  /** Defaults to the challenge from the last sign-in attempt */
+  challenge?: MultiFactorChallenge;
+  onVerified?: (user: AuthUser) => void;
+  renderLogo?: () => React.ReactNode;
+}
+
+export const MfaChallengeScreen = memo<MfaChallengeScreenProps>(({
+  translations,
+  challenge,
+  onVerified,
+  renderLogo,
+}) => {
+  const navigation = useAppNavigation();
+  const tokens = useAppDesignTokens();
+  const responsive = useResponsive();
+
+  // PERFORMANCE: Stable callback reference
+  const handleCancel = useCallback(() => {
+    navigation.navigate("Login");
+  }, [navigation]);
+
+  return (
+    <ScreenLayout
+      scrollable
+      keyboardAvoiding
+      maxWidth={responsive.maxContentWidth}
+      contentContainerStyle={{ justifyContent: "center" }}
+      backgroundColor={tokens.colors.backgroundPrimary}
+    >
+      {/* Optional Logo/Illustration */}
+      {renderLogo && (
+        <View style={styles.logoContainer}>{renderLogo()}</View>
+      )}
+
+      <AuthHeader title={translations.title} subtitle={translations.subtitle} />
+
+      <AtomicCard variant="elevated" padding="lg">
+        <MfaChallengeForm
+          translations={translations.form}
+          challenge={challenge}
+          onVerified={onVerified}
+          onCancel={handleCancel}
+        />
+      </AtomicCard>
+    </ScreenLayout>
+  );
+});
+
+MfaChallengeScreen.displayName = 'MfaChallengeScreen';
+
+const styles = StyleSheet.create({
+  logoContainer: {
+    alignItems: "center",
+    marginBottom: 24,
+  },
+});
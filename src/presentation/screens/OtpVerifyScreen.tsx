@@ -0,0 +1,148 @@
+/**
+ * OTP Verify Screen Component
+ * SMS code entry with resend cooldown; signs the user in on success
+ * PERFORMANCE: Memoized to prevent unnecessary re-renders
+ */
+
+import React, { memo } from "react";
+import { StyleSheet } from "react-native";
+import { useAppDesignTokens } from "@umituz/react-native-design-system/theme";
+import { AtomicCard, AtomicButton, AtomicText } from "@umituz/react-native-design-system/atoms";
+import { ScreenLayout } from "@umituz/react-native-design-system/layouts";
+import { useResponsive } from "@umituz/react-native-design-system/responsive";
+import { AuthHeader } from "../components/AuthHeader";
+import { AuthErrorDisplay } from "../components/AuthErrorDisplay";
+import { OtpCodeInput } from "../components/OtpCodeInput";
+import { useOtpVerifyForm } from "../hooks/useOtpVerifyForm";
+import type { AuthUser } from "../../domain/entities/AuthUser";
+import type { PhoneAuthVerifier } from "../../infrastructure/repositories/AuthRepository";
+
+export interface OtpVerifyScreenTranslations {
+  title: string;
+  /** Shown above the code cells, followed by the phone number */
+  codeSentTo?: string;
+  verify: string;
+  resend: string;
+  changeNumber?: string;
+  errors?: Record<string, string>;
+}
+
+export interface OtpVerifyScreenProps {
+  translations: OtpVerifyScreenTranslations;
+  verificationId: string;
+  phoneNumber: string;
+  /** Required to resend the code */
+  verifier?: PhoneAuthVerifier;
+  resendCooldownSeconds?: number;
+  onVerified?: (user: AuthUser) => void;
+  onChangeNumber?: () => void;
+}
+
+export const OtpVerifyScreen = memo<OtpVerifyScreenProps>(({
+  translations,
+  verificationId,
+  phoneNumber,
+  verifier,
+  resendCooldownSeconds,
+  onVerified,
+  onChangeNumber,
+}) => {
+  const tokens = useAppDesignTokens();
+  const responsive = useResponsive();
+
+  const {
+    code,
+    codeLength,
+    codeError,
+    loading,
+    isResending,
+    cooldownRemaining,
+    canResend,
+    handleCodeChange,
+    handleVerify,
+    handleResend,
+    displayError,
+  } = useOtpVerifyForm({
+    verificationId,
+    phoneNumber,
+    verifier,
+    resendCooldownSeconds,
+    translations: translations.errors ? { errors: translations.errors } : undefined,
+    onVerified,
+  });
+
+  const resendLabel = cooldownRemaining > 0
+    ? `${translations.resend} (${cooldownRemaining}s)`
+    : translations.resend;
+
+  return (
+    <ScreenLayout
+      scrollable
+      keyboardAvoiding
+      maxWidth={responsive.maxContentWidth}
+      contentContainerStyle={{ justifyContent: "center" }}
+      backgroundColor={tokens.colors.backgroundPrimary}
+    >
+      <AuthHeader title={translations.title} />
+
+      <AtomicCard variant="elevated" padding="lg">
+        <AtomicText type="bodyMedium" color="textSecondary" style={styles.codeSentTo}>
+          {translations.codeSentTo ? `${translations.codeSentTo} ${phoneNumber}` : phoneNumber}
+        </AtomicText>
+
+        <OtpCodeInput
+          value={code}
+          onChangeText={handleCodeChange}
+          onComplete={(completed) => { void handleVerify(completed); }}
+          length={codeLength}
+          error={codeError}
+          disabled={loading}
+        />
+
+        <AuthErrorDisplay error={displayError} />
+
+        <AtomicButton
+          variant="primary"
+          onPress={() => { void handleVerify(); }}
+          disabled={loading || code.length < codeLength}
+          loading={loading}
+          fullWidth
+          style={styles.submitButton}
+        >
+          {translations.verify}
+        </AtomicButton>
+
+        {verifier && (
+          <AtomicButton
+            variant="text"
+            onPress={() => { void handleResend(); }}
+            disabled={!canResend || loading}
+            loading={isResending}
+            fullWidth
+          >
+            {resendLabel}
+          </AtomicButton>
+        )}
+
+        {onChangeNumber && translations.changeNumber && (
+          <AtomicButton variant="text" onPress={onChangeNumber} disabled={loading} fullWidth>
+            {translations.changeNumber}
+          </AtomicButton>
+        )}
+      </AtomicCard>
+    </ScreenLayout>
+  );
+});
+
+OtpVerifyScreen.displayName = 'OtpVerifyScreen';
+
+const styles = StyleSheet.create({
+  codeSentTo: {
+    marginBottom: 16,
+    textAlign: "center",
+  },
+  submitButton: {
+    marginTop: 8,
+    marginBottom: 8,
+  },
+});
@@ -4,9 +4,11 @@ import { useAppDesignTokens } from '@umituz/react-native-design-system/theme';
 import { AtomicInput, AtomicButton, AtomicText, AtomicIcon } from '@umituz/react-native-design-system/atoms';
 import { SafeAreaView } from '@umituz/react-native-design-system/safe-area';
 import { resolvePasswordPrompt } from '../utils/passwordPromptCallback';
+import { useAuthTranslations } from '../hooks/useAuthTranslations';
 
 export interface PasswordPromptScreenProps {
   route: {
+    /** Texts default to the AuthI18nProvider bundle */
     params: {
       title?: string;
       message?: string;
@@ -24,19 +26,20 @@ export const PasswordPromptScreen: React.FC<PasswordPromptScreenProps> = ({
   navigation,
 }) => {
   const tokens = useAppDesignTokens();
+  const { t } = useAuthTranslations();
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
 
   const {
-    title = 'Password Required',
-    message = 'Enter your password to continue',
-    confirmText = 'Confirm',
-    cancelText = 'Cancel',
+    title = t('auth.passwordPrompt.title'),
+    message = t('auth.passwordPrompt.message'),
+    confirmText = t('auth.passwordPrompt.confirm'),
+    cancelText = t('auth.passwordPrompt.cancel'),
   } = route.params;
 
   const handleConfirm = () => {
     if (!password) {
-      setError('Password is required');
+      setError(t('auth.passwordPrompt.required'));
       return;
     }
     resolvePasswordPrompt(password);
@@ -78,7 +81,7 @@ export const PasswordPromptScreen: React.FC<PasswordPromptScreenProps> = ({
                 setPassword(text);
                 setError('');
               }}
-              placeholder="Password"
+              placeholder={t('auth.passwordPrompt.placeholder')}
               secureTextEntry
               state={error ? 'error' : 'default'}
               helperText={error}
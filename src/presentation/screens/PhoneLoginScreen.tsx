@@ -0,0 +1,143 @@
+/**
+ * Phone Login Screen Component
+ * Phone number entry that sends the SMS code and opens the OtpVerify route
+ * PERFORMANCE: Memoized to prevent unnecessary re-renders
+ */
+
+import React, { memo, useCallback } from "react";
+import { View, StyleSheet } from "react-native";
+import { useAppDesignTokens } from "@umituz/react-native-design-system/theme";
+import { AtomicCard, AtomicButton } from "@umituz/react-native-design-system/atoms";
+import { useAppNavigation } from "@umituz/react-native-design-system/molecules";
+import { ScreenLayout } from "@umituz/react-native-design-system/layouts";
+import { useResponsive } from "@umituz/react-native-design-system/responsive";
+import { AuthHeader } from "../components/AuthHeader";
+import { AuthErrorDisplay } from "../components/AuthErrorDisplay";
+import { FormTextInput } from "../components/form/FormTextInput";
+import { usePhoneLoginForm } from "../hooks/usePhoneLoginForm";
+import type {
+  PhoneAuthVerifier,
+  PhoneVerificationSession,
+} from "../../infrastructure/repositories/AuthRepository";
+
+export interface PhoneLoginScreenTranslations {
+  title: string;
+  subtitle?: string;
+  phoneNumber: string;
+  phoneNumberPlaceholder: string;
+  sendCode: string;
+  backToLogin?: string;
+  errors?: Record<string, string>;
+}
+
+export interface PhoneLoginScreenProps {
+  translations: PhoneLoginScreenTranslations;
+  verifier: PhoneAuthVerifier;
+  /** Calling code without "+" applied to national numbers (e.g. "90") */
+  defaultCountryCode?: string;
+  /** Overrides the default navigation to the OtpVerify route */
+  onCodeSent?: (session: PhoneVerificationSession) => void;
+  renderLogo?: () => React.ReactNode;
+}
+
+export const PhoneLoginScreen = memo<PhoneLoginScreenProps>(({
+  translations,
+  verifier,
+  defaultCountryCode,
+  onCodeSent,
+  renderLogo,
+}) => {
+  const navigation = useAppNavigation();
+  const tokens = useAppDesignTokens();
+  const responsive = useResponsive();
+
+  // PERFORMANCE: Stable callback references
+  const handleCodeSent = useCallback((session: PhoneVerificationSession) => {
+    if (onCodeSent) {
+      onCodeSent(session);
+      return;
+    }
+    navigation.navigate("OtpVerify", { ...session });
+  }, [onCodeSent, navigation]);
+
+  const handleNavigateToLogin = useCallback(() => {
+    navigation.navigate("Login");
+  }, [navigation]);
+
+  const {
+    phoneNumber,
+    phoneNumberError,
+    loading,
+    handlePhoneNumberChange,
+    handleSendCode,
+    displayError,
+  } = usePhoneLoginForm({
+    verifier,
+    defaultCountryCode,
+    translations: translations.errors ? { errors: translations.errors } : undefined,
+    onCodeSent: handleCodeSent,
+  });
+
+  return (
+    <ScreenLayout
+      scrollable
+      keyboardAvoiding
+      maxWidth={responsive.maxContentWidth}
+      contentContainerStyle={{ justifyContent: "center" }}
+      backgroundColor={tokens.colors.backgroundPrimary}
+    >
+      {/* Optional Logo/Illustration */}
+      {renderLogo && (
+        <View style={styles.logoContainer}>{renderLogo()}</View>
+      )}
+
+      <AuthHeader title={translations.title} subtitle={translations.subtitle} />
+
+      <AtomicCard variant="elevated" padding="lg">
+        <FormTextInput
+          value={phoneNumber}
+          onChangeText={handlePhoneNumberChange}
+          label={translations.phoneNumber}
+          placeholder={translations.phoneNumberPlaceholder}
+          error={phoneNumberError}
+          disabled={loading}
+          keyboardType="phone-pad"
+          onSubmitEditing={() => { void handleSendCode(); }}
+          returnKeyType="done"
+        />
+
+        <AuthErrorDisplay error={displayError} />
+
+        <AtomicButton
+          variant="primary"
+          onPress={() => { void handleSendCode(); }}
+          disabled={loading || !phoneNumber.trim()}
+          loading={loading}
+          fullWidth
+          style={styles.submitButton}
+        >
+          {translations.sendCode}
+        </AtomicButton>
+
+        {translations.backToLogin && (
+          <AtomicButton variant="text" onPress={handleNavigateToLogin} disabled={loading} fullWidth>
+            {translations.backToLogin}
+          </AtomicButton>
+        )}
+      </AtomicCard>
+    </ScreenLayout>
+  );
+});
+
+PhoneLoginScreen.displayName = 'PhoneLoginScreen';
+
+const styles = StyleSheet.create({
+  logoContainer: {
+    alignItems: "center",
+    marginBottom: 24,
+  },
+  submitButton: {
+    marginTop: 8,
+    marginBottom: 8,
+  },
+});
@@ -16,6 +16,9 @@ import type { SocialAuthProvider } from "../../domain/value-objects/AuthConfig";
 import { AuthHeader } from "../components/AuthHeader";
 import { RegisterForm, type RegisterFormTranslations } from "../components/RegisterForm";
 import { SocialLoginButtons, type SocialLoginButtonsTranslations } from "../components/SocialLoginButtons";
+import { useOidcAuth } from "../hooks/useOidcAuth";
+import { useAuthTranslations } from "../hooks/useAuthTranslations";
+import { getDefaultRegisterScreenTranslations } from "../utils/defaultAuthTranslations";
 
 export interface RegisterScreenTranslations {
   title: string;
@@ -25,7 +28,8 @@ export interface RegisterScreenTranslations {
 }
 
 export interface RegisterScreenProps {
-  translations: RegisterScreenTranslations;
+  /** Defaults to the AuthI18nProvider bundle */
+  translations?: RegisterScreenTranslations;
   termsUrl?: string;
   privacyUrl?: string;
   onTermsPress?: () => void;
@@ -37,7 +41,7 @@ export interface RegisterScreenProps {
 }
 
 export const RegisterScreen = memo<RegisterScreenProps>(({
-  translations,
+  translations: customTranslations,
   termsUrl,
   privacyUrl,
   onTermsPress,
@@ -50,6 +54,11 @@ export const RegisterScreen = memo<RegisterScreenProps>(({
   const navigation = useAppNavigation();
   const tokens = useAppDesignTokens();
   const responsive = useResponsive();
+  const { t } = useAuthTranslations();
+  const translations = useMemo(
+    () => customTranslations ?? getDefaultRegisterScreenTranslations(t),
+    [customTranslations, t]
+  );
 
   // PERFORMANCE: Stable callback reference
   const handleNavigateToLogin = useCallback(() => {
@@ -67,11 +76,14 @@ export const RegisterScreen = memo<RegisterScreenProps>(({
     return providers;
   }, [socialConfig]);
 
-  const hasSocialAuth = enabledProviders.length > 0 && translations.socialButtons;
+  // OAuth/OIDC providers come from the auth config passed to initializeAuth
+  const { providerButtons } = useOidcAuth();
+
+  const hasSocialAuth = (enabledProviders.length > 0 || providerButtons.length > 0) && translations.socialButtons;
   // Check if required handlers exist for enabled providers (only need handler if provider is enabled)
   const hasGoogle = enabledProviders.includes("google") && onGoogleSignIn;
   const hasApple = enabledProviders.includes("apple") && onAppleSignIn;
-  const showSocialButtons = hasSocialAuth && (hasGoogle || hasApple);
+  const showSocialButtons = hasSocialAuth && (hasGoogle || hasApple || providerButtons.length > 0);
 
   // Store social buttons translations in const to satisfy type checker (safe because we check hasSocialAuth first)
   const socialButtonsTranslations = translations.socialButtons!;
@@ -117,6 +129,7 @@ export const RegisterScreen = memo<RegisterScreenProps>(({
             enabledProviders={enabledProviders}
             onGooglePress={hasGoogle ? handleGooglePress : undefined}
             onApplePress={hasApple ? handleApplePress : undefined}
+            providers={providerButtons}
           />
         )}
       </AtomicCard>
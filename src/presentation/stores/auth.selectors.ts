@@ -4,7 +4,7 @@
  * Uses authStateCalculator for derived state calculations
  */
 
-import type { AuthState, AuthActions, UserType } from "../../types/auth-store.types";
+import type { AuthState, AuthActions, AuthStatus, UserType } from "../../types/auth-store.types";
 import type { AuthUser } from "../../domain/entities/AuthUser";
 import {
   calculateUserId,
@@ -28,6 +28,11 @@ type AuthStore = AuthState & AuthActions;
  */
 export const selectUser = (state: AuthStore): AuthUser | null => state.user;
 
+/**
+ * Select auth lifecycle status
+ */
+export const selectStatus = (state: AuthStore): AuthStatus => state.status;
+
 /**
  * Select loading state
  */
@@ -48,6 +53,11 @@ export const selectFirebaseUserId = (state: AuthStore): string | null =>
 // ACTION SELECTORS
 // =============================================================================
 
+/**
+ * Select transition action
+ */
+export const selectTransition = (state: AuthStore) => state.transition;
+
 /**
  * Select setLoading action
  */
@@ -63,10 +73,15 @@ export const selectSetError = (state: AuthStore) => state.setError;
  */
 export const selectSetIsAnonymous = (state: AuthStore) => state.setIsAnonymous;
 
+/**
+ * Select updateUser action
+ */
+export const selectUpdateUser = (state: AuthStore) => state.updateUser;
+
 /**
  * Select showAuthModal action (from authModalStore)
  */
-export type AuthModalMode = "login" | "register";
+export type AuthModalMode = "login" | "register" | "forgot" | "mfa";
 export const selectShowAuthModal = (state: { showAuthModal: (callback?: () => void | Promise<void>, mode?: AuthModalMode) => void }) =>
   state.showAuthModal;
 
@@ -78,45 +93,45 @@ export const selectShowAuthModal = (state: { showAuthModal: (callback?: () => vo
 
 /**
  * Get current user ID
- * Uses firebaseUser as single source of truth
+ * Uses the session user as single source of truth
  */
 export const selectUserId = (state: AuthStore): string | null => {
-  return calculateUserId(state.firebaseUser);
+  return calculateUserId(state.user);
 };
 
 /**
- * Check if user is authenticated (has a valid Firebase user, not anonymous)
- * Uses firebaseUser as single source of truth
+ * Check if user is authenticated (has a session user, not anonymous)
+ * Uses the session user as single source of truth
  */
 export const selectIsAuthenticated = (state: AuthStore): boolean => {
-  return calculateIsAuthenticated(state.firebaseUser);
+  return calculateIsAuthenticated(state.user);
 };
 
 export const selectHasFirebaseUser = (state: AuthStore): boolean => {
-  return calculateHasFirebaseUser(state.firebaseUser);
+  return calculateHasFirebaseUser(state.user);
 };
 
 /**
  * Check if user is anonymous
- * Uses firebaseUser as single source of truth
+ * Uses the session user as single source of truth
  */
 export const selectIsAnonymous = (state: AuthStore): boolean => {
-  return calculateIsAnonymous(state.firebaseUser);
+  return calculateIsAnonymous(state.user);
 };
 
 /**
  * Get current user type
- * Derived from firebaseUser state
+ * Derived from the session user
  */
 export const selectUserType = (state: AuthStore): UserType => {
-  return calculateUserType(state.firebaseUser);
+  return calculateUserType(state.user);
 };
 
 /**
- * Check if auth is ready (initialized and not loading)
+ * Check if auth is ready (session settled and not loading)
  */
 export const selectIsAuthReady = (state: AuthStore): boolean => {
-  return calculateIsAuthReady(state.initialized, state.loading);
+  return calculateIsAuthReady(state.status, state.loading);
 };
 
 /**
@@ -127,6 +142,7 @@ export const selectAuthState = (state: AuthStore): {
   user: AuthUser | null;
   userId: string | null;
   userType: UserType;
+  status: AuthStatus;
   loading: boolean;
   isAuthReady: boolean;
   isAnonymous: boolean;
@@ -138,13 +154,14 @@ export const selectAuthState = (state: AuthStore): {
   const derivedState = calculateDerivedAuthState({
     firebaseUser: state.firebaseUser,
     user: state.user,
+    status: state.status,
     loading: state.loading,
-    initialized: state.initialized,
     error: state.error,
   });
 
   return {
     user: selectUser(state),
+    status: selectStatus(state),
     loading: selectLoading(state),
     error: selectError(state),
     ...derivedState,
@@ -19,7 +19,7 @@
 
 import { createStore } from "@umituz/react-native-design-system/storage";
 
-type AuthModalMode = "login" | "register";
+type AuthModalMode = "login" | "register" | "forgot" | "mfa";
 
 interface AuthModalState {
   isVisible: boolean;
@@ -1,79 +1,110 @@
 /**
  * Auth Store
- * Centralized auth state management using Zustand with persistence
+ * Centralized auth state management using Zustand, driven by the auth status machine
  *
  * Single source of truth for auth state across the app.
  * Firebase auth changes are synced via initializeAuthListener().
  *
  * IMPORTANT: user is ALWAYS set when firebaseUser exists (anonymous or not).
  * The isAnonymous flag indicates the user type, not whether user is null.
+ * status is the source of truth, loading/initialized/isAnonymous are derived.
  */
 
-import { createStore, storageService } from "@umituz/react-native-design-system/storage";
+import { createStore } from "@umituz/react-native-design-system/storage";
 import { mapToAuthUser } from "../../infrastructure/utils/UserMapper";
-import type { AuthState, AuthActions } from "../../types/auth-store.types";
+import {
+  deriveAuthStatusFlags,
+  isSettledAuthStatus,
+  transitionAuthStatus,
+} from "../../infrastructure/utils/authStateMachine";
+import type { AuthState, AuthActions, AuthStateEvent } from "../../types/auth-store.types";
 import { initialAuthState } from "../../types/auth-store.types";
 
 // =============================================================================
 // STORE
 // =============================================================================
 
+// Not persisted: the status always starts at booting, so a persisted
+// initialized/loading can't report ready before the session is restored
 export const useAuthStore = createStore<AuthState, AuthActions>({
   name: "auth-store",
   initialState: initialAuthState,
-  persist: true,
-  storage: {
-    getItem: (name) => storageService.getItem(name),
-    setItem: (name, value) => storageService.setItem(name, value),
-    removeItem: (name) => storageService.removeItem(name),
-  },
-  version: 2,
-  // PERFORMANCE: Only persist essential flags
-  // Firebase handles user persistence, we only need anonymous mode and initialized state
-  partialize: (state) => ({
-    isAnonymous: state.isAnonymous,
-    initialized: state.initialized,
-    loading: false, // Always restore as false to prevent loading state on app restart
-  }),
-  migrate: (persistedState: unknown) => {
-    const state = (persistedState && typeof persistedState === "object" ? persistedState : {}) as Partial<AuthState>;
-    return {
-      ...initialAuthState,
-      isAnonymous: state.isAnonymous ?? false,
-      initialized: state.initialized ?? false,
+  persist: false,
+  actions: (set, get) => {
+    /**
+     * Apply event to the status machine, with the user it resolved to
+     * Returns false when the current status doesn't accept the event
+     */
+    const transition = (event: AuthStateEvent, update: Partial<AuthState> = {}): boolean => {
+      const current = get();
+      const status = transitionAuthStatus(current.status, event);
+
+      if (!status) {
+        if (__DEV__) {
+          console.warn(`[AuthStateMachine] Ignored "${event.type}" in "${current.status}"`);
+        }
+        return false;
+      }
+
+      const user = "user" in update ? update.user ?? null : current.user;
+      set({
+        ...update,
+        ...deriveAuthStatusFlags(status, current.initialized),
+        status,
+        isAnonymous: user?.isAnonymous ?? false,
+        ...(event.type === "listenerFailed" || event.type === "anonymousSignInFailed"
+          ? { error: event.error ?? current.error }
+          : {}),
+      });
+      return true;
     };
-  },
-  actions: (set, get) => ({
-    setFirebaseUser: (firebaseUser) => {
-      const user = firebaseUser ? mapToAuthUser(firebaseUser) : null;
-      const isAnonymous = firebaseUser?.isAnonymous ?? false;
-      set({ firebaseUser, user, loading: false, isAnonymous });
-    },
 
-    setLoading: (loading) => {
-      set({ loading });
-    },
+    return {
+      transition: (event) => {
+        // No session while signed out or while an anonymous one is being created
+        const clearsSession =
+          event.type === "anonymousSignInStarted" || (event.type === "sessionResolved" && !event.user);
+        transition(event, clearsSession ? { user: null, firebaseUser: null } : {});
+      },
 
-    setIsAnonymous: (isAnonymous) => {
-      const currentState = get();
-      // When firebaseUser exists, always derive from it to stay consistent
-      const resolved = currentState.firebaseUser
-        ? currentState.firebaseUser.isAnonymous
-        : isAnonymous;
-      set({ isAnonymous: resolved });
-    },
+      setFirebaseUser: (firebaseUser) => {
+        const user = firebaseUser ? mapToAuthUser(firebaseUser) : null;
+        transition({ type: "sessionResolved", user }, { firebaseUser, user });
+      },
 
-    setError: (error) => {
-      set({ error });
-    },
+      setUser: (user, firebaseUser = null) => {
+        transition({ type: "sessionResolved", user }, { firebaseUser, user });
+      },
 
-    setInitialized: (initialized) => {
-      set({ initialized });
-    },
+      updateUser: (user) => {
+        // Ignore stale snapshots that belong to a previous session
+        if (get().user?.uid !== user.uid) return;
+        set({ user, isAnonymous: user.isAnonymous });
+      },
 
-    reset: () => {
-      set(initialAuthState);
-    },
-  }),
-});
+      setLoading: (loading) => {
+        // Operations can't end the loading of a status that is still busy
+        set({ loading: loading || !isSettledAuthStatus(get().status) });
+      },
 
+      setIsAnonymous: () => {
+        // Derived from the session user
+      },
+
+      setError: (error) => {
+        set({ error });
+      },
+
+      setInitialized: (initialized) => {
+        const { status } = get();
+        if (initialized && (status === "booting" || status === "restoring")) {
+          transition({ type: "listenerTimedOut" });
+        }
+      },
+
+      reset: () => {
+        set(initialAuthState);
+      },
+    };
+  },
+});
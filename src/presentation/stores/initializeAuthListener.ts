@@ -1,10 +1,10 @@
 /**
  * Auth Listener Initialization
- * Sets up Firebase auth token listener with optional auto anonymous sign-in
- * Uses onIdTokenChanged for profile updates (displayName, email)
+ * Subscribes to the auth repository with optional auto anonymous sign-in
+ * The Firebase repository uses onIdTokenChanged for profile updates (displayName, email)
  */
 
-import { getFirebaseAuth } from "@umituz/react-native-firebase";
+import { getAuthService } from "../../infrastructure/services/AuthService";
 import { useAuthStore } from "./authStore";
 import type { AuthListenerOptions } from "../../types/auth-store.types";
 import {
@@ -13,7 +13,7 @@ import {
 } from "../../infrastructure/utils/listener/cleanupHandlers";
 import { setupAuthListener } from "../../infrastructure/utils/listener/setupListener";
 import {
-  handleNoFirebaseAuth,
+  handleNoAuthService,
   completeListenerSetup,
 } from "../../infrastructure/utils/listener/initializationHandlers";
 import {
@@ -24,7 +24,7 @@ import {
 } from "../../infrastructure/utils/listener/listenerState.util";
 
 /**
- * Initialize Firebase auth listener
+ * Initialize auth listener
  * Call once in app root, returns unsubscribe function
  */
 export function initializeAuthListener(
@@ -41,21 +41,17 @@ export function initializeAuthListener(
     return handleInitializationInProgress();
   }
 
-  const auth = getFirebaseAuth();
+  const service = getAuthService();
   const store = useAuthStore.getState();
 
-  if (!auth) {
+  if (!service) {
     // Reset initialization state since we can't proceed
     completeListenerSetup();
-    return handleNoFirebaseAuth(store);
+    return handleNoAuthService(store);
   }
 
-  // Pass a getter function for isAnonymous to avoid stale snapshot reads.
-  // store.getState() returns a snapshot, but isAnonymous can change over time.
-  const getIsAnonymous = () => useAuthStore.getState().isAnonymous;
-
   // Setup the listener
-  setupAuthListener(auth, store, autoAnonymousSignIn, onAuthStateChange, getIsAnonymous);
+  setupAuthListener(service, store, autoAnonymousSignIn, onAuthStateChange);
   completeListenerSetup();
 
   // Return cleanup function
@@ -0,0 +1,30 @@
+/**
+ * Auth Translator
+ * Looks keys up in overrides, then the locale's bundle, then English
+ */
+
+import {
+  AUTH_TRANSLATIONS,
+  DEFAULT_AUTH_LOCALE,
+  getAuthTranslationBundle,
+} from "../../shared/i18n/bundles/AuthTranslations";
+import { interpolateErrorMessage } from "../../shared/error-handling/registry/AuthErrorRegistry";
+import type { AuthTranslationKey, AuthTranslationOverrides } from "../../shared/i18n/types/I18nTypes";
+import type { ErrorMessageParams } from "../../shared/error-handling/types/ErrorTypes";
+
+export type AuthTranslate = (key: AuthTranslationKey, params?: ErrorMessageParams) => string;
+
+export function createAuthTranslator(
+  locale: string,
+  overrides?: AuthTranslationOverrides,
+  fallbackLocale: string = DEFAULT_AUTH_LOCALE
+): AuthTranslate {
+  const bundle = getAuthTranslationBundle(locale);
+  const fallback = getAuthTranslationBundle(fallbackLocale);
+
+  return (key, params) => {
+    const message =
+      overrides?.[key] ?? bundle?.[key] ?? fallback?.[key] ?? AUTH_TRANSLATIONS[DEFAULT_AUTH_LOCALE][key];
+    return interpolateErrorMessage(message, params);
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Default Auth Translations
+ * Screen translations built from the bundles, used when a screen gets none
+ */
+
+import type { AuthTranslate } from "./authTranslator";
+import type { LoginScreenTranslations } from "../screens/LoginScreen";
+import type { RegisterScreenTranslations } from "../screens/RegisterScreen";
+import type { SocialLoginButtonsTranslations } from "../components/SocialLoginButtons";
+
+export function getDefaultSocialButtonsTranslations(t: AuthTranslate): SocialLoginButtonsTranslations {
+  return {
+    orContinueWith: t("auth.social.orContinueWith"),
+    google: t("auth.social.google"),
+    apple: t("auth.social.apple"),
+  };
+}
+
+export function getDefaultLoginScreenTranslations(t: AuthTranslate): LoginScreenTranslations {
+  return {
+    title: t("auth.login.title"),
+    subtitle: t("auth.login.subtitle"),
+    form: {
+      email: t("auth.login.email"),
+      emailPlaceholder: t("auth.login.emailPlaceholder"),
+      password: t("auth.login.password"),
+      passwordPlaceholder: t("auth.login.passwordPlaceholder"),
+      signIn: t("auth.login.signIn"),
+      dontHaveAccount: t("auth.login.dontHaveAccount"),
+      createAccount: t("auth.login.createAccount"),
+      forgotPassword: t("auth.login.forgotPassword"),
+    },
+    socialButtons: getDefaultSocialButtonsTranslations(t),
+    phoneSignIn: t("auth.login.phoneSignIn"),
+    magicLinkSignIn: t("auth.login.magicLinkSignIn"),
+  };
+}
+
+export function getDefaultRegisterScreenTranslations(t: AuthTranslate): RegisterScreenTranslations {
+  return {
+    title: t("auth.register.title"),
+    subtitle: t("auth.register.subtitle"),
+    form: {
+      displayName: t("auth.register.displayName"),
+      displayNamePlaceholder: t("auth.register.displayNamePlaceholder"),
+      email: t("auth.register.email"),
+      emailPlaceholder: t("auth.register.emailPlaceholder"),
+      password: t("auth.register.password"),
+      passwordPlaceholder: t("auth.register.passwordPlaceholder"),
+      confirmPassword: t("auth.register.confirmPassword"),
+      confirmPasswordPlaceholder: t("auth.register.confirmPasswordPlaceholder"),
+      signUp: t("auth.register.signUp"),
+      alreadyHaveAccount: t("auth.register.alreadyHaveAccount"),
+      signIn: t("auth.register.signIn"),
+      bySigningUp: t("auth.register.bySigningUp"),
+      legal: {
+        termsOfService: t("auth.register.termsOfService"),
+        privacyPolicy: t("auth.register.privacyPolicy"),
+      },
+      passwordMatch: {
+        match: t("auth.register.passwordsMatch"),
+        noMatch: t("auth.register.passwordsDoNotMatch"),
+      },
+    },
+    socialButtons: getDefaultSocialButtonsTranslations(t),
+  };
+}
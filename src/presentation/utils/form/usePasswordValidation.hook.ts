@@ -6,7 +6,7 @@
 
 import { useMemo } from "react";
 import type { PasswordRequirements } from "../../../infrastructure/utils/calculators/passwordStrengthCalculator";
-import type { PasswordConfig } from "../../../domain/value-objects/AuthConfig";
+import type { PasswordConfig, PasswordPolicyContext } from "../../../domain/value-objects/AuthConfig";
 import { calculatePasswordValidation } from "../../../infrastructure/utils/calculators/passwordStrengthCalculator";
 
 interface UsePasswordValidationResult {
@@ -18,6 +18,8 @@ interface UsePasswordValidationResult {
 
 interface UsePasswordValidationOptions {
   passwordConfig?: PasswordConfig;
+  /** Email and name checked by PasswordConfig.disallowPersonalInfo and custom rules */
+  context?: PasswordPolicyContext;
 }
 
 /**
@@ -38,6 +40,7 @@ export function usePasswordValidation(
       password,
       confirmPassword,
       config: options?.passwordConfig,
+      context: options?.context,
     });
 
     // Map to expected return type
@@ -47,7 +50,7 @@ export function usePasswordValidation(
       isValid: validation.isValid,
       confirmationError: validation.confirmationError,
     };
-  }, [password, confirmPassword, options?.passwordConfig]);
+  }, [password, confirmPassword, options?.passwordConfig, options?.context?.email, options?.context?.displayName]);
 
   return result;
 }
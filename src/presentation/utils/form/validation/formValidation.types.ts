@@ -14,6 +14,35 @@ export interface LoginFormValues {
   password: string;
 }
 
+export interface ForgotPasswordFormValues {
+  email: string;
+}
+
+export interface MagicLinkFormValues {
+  email: string;
+}
+
+export interface PhoneLoginFormValues {
+  phoneNumber: string;
+}
+
+export interface OtpFormValues {
+  code: string;
+}
+
+export interface ChangePasswordFormValues {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+export interface ChangeEmailFormValues {
+  email: string;
+  /** Left out for accounts without a password */
+  password?: string;
+  currentEmail?: string | null;
+}
+
 export interface RegisterFormValues {
   displayName?: string;
   email: string;
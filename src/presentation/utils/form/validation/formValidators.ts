@@ -8,11 +8,19 @@ import {
   validatePasswordForLogin,
   validatePasswordForRegister,
   validatePasswordConfirmation,
+  validatePhoneNumber,
+  validateOtpCode,
 } from "../../../../infrastructure/utils/AuthValidation";
-import type { PasswordConfig } from "../../../../domain/value-objects/AuthConfig";
+import type { PasswordConfig, PasswordPolicyContext } from "../../../../domain/value-objects/AuthConfig";
 import type {
   FormValidationResult,
   LoginFormValues,
+  ForgotPasswordFormValues,
+  MagicLinkFormValues,
+  ChangePasswordFormValues,
+  ChangeEmailFormValues,
+  PhoneLoginFormValues,
+  OtpFormValues,
   RegisterFormValues,
   ProfileFormValues,
   FormValidationError,
@@ -42,6 +50,138 @@ export function validateLoginForm(
   return { isValid: errors.length === 0, errors };
 }
 
+/**
+ * Validate forgot password form values.
+ * IMPORTANT: Callers must sanitize email before passing to this function.
+ */
+export function validateForgotPasswordForm(
+  values: ForgotPasswordFormValues,
+  getErrorMessage: (key: string) => string
+): FormValidationResult {
+  const errors: FormValidationError[] = [];
+
+  const emailResult = validateEmail(values.email);
+  if (!emailResult.isValid && emailResult.error) {
+    errors.push({ field: "email", message: getErrorMessage(emailResult.error) });
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Validate magic link form values.
+ * IMPORTANT: Callers must sanitize email before passing to this function.
+ */
+export function validateMagicLinkForm(
+  values: MagicLinkFormValues,
+  getErrorMessage: (key: string) => string
+): FormValidationResult {
+  const errors: FormValidationError[] = [];
+
+  const emailResult = validateEmail(values.email);
+  if (!emailResult.isValid && emailResult.error) {
+    errors.push({ field: "email", message: getErrorMessage(emailResult.error) });
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Validate phone login form values.
+ * IMPORTANT: Callers must sanitize the phone number before passing to this function.
+ */
+export function validatePhoneLoginForm(
+  values: PhoneLoginFormValues,
+  getErrorMessage: (key: string) => string
+): FormValidationResult {
+  const errors: FormValidationError[] = [];
+
+  const phoneResult = validatePhoneNumber(values.phoneNumber);
+  if (!phoneResult.isValid && phoneResult.error) {
+    errors.push({ field: "phoneNumber", message: getErrorMessage(phoneResult.error) });
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Validate OTP form values.
+ * IMPORTANT: Callers must sanitize the code before passing to this function.
+ */
+export function validateOtpForm(
+  values: OtpFormValues,
+  getErrorMessage: (key: string) => string,
+  codeLength?: number
+): FormValidationResult {
+  const errors: FormValidationError[] = [];
+
+  const codeResult = validateOtpCode(values.code, codeLength);
+  if (!codeResult.isValid && codeResult.error) {
+    errors.push({ field: "code", message: getErrorMessage(codeResult.error) });
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Validate change password form values.
+ * The new password follows the same rules as registration.
+ */
+export function validateChangePasswordForm(
+  values: ChangePasswordFormValues,
+  getErrorMessage: (key: string) => string,
+  passwordConfig: PasswordConfig,
+  context?: PasswordPolicyContext
+): FormValidationResult {
+  const errors: FormValidationError[] = [];
+
+  const currentResult = validatePasswordForLogin(values.currentPassword);
+  if (!currentResult.isValid && currentResult.error) {
+    errors.push({ field: "currentPassword", message: getErrorMessage(currentResult.error) });
+  }
+
+  const newResult = validatePasswordForRegister(values.newPassword, passwordConfig, context);
+  if (!newResult.isValid && newResult.error) {
+    errors.push({ field: "newPassword", message: getErrorMessage(newResult.error) });
+  } else if (values.newPassword === values.currentPassword) {
+    errors.push({ field: "newPassword", message: getErrorMessage("auth.validation.passwordUnchanged") });
+  }
+
+  const confirmResult = validatePasswordConfirmation(values.newPassword, values.confirmPassword);
+  if (!confirmResult.isValid && confirmResult.error) {
+    errors.push({ field: "confirmPassword", message: getErrorMessage(confirmResult.error) });
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Validate change email form values.
+ * IMPORTANT: Callers must sanitize email before passing to this function.
+ */
+export function validateChangeEmailForm(
+  values: ChangeEmailFormValues,
+  getErrorMessage: (key: string) => string
+): FormValidationResult {
+  const errors: FormValidationError[] = [];
+
+  const emailResult = validateEmail(values.email);
+  if (!emailResult.isValid && emailResult.error) {
+    errors.push({ field: "email", message: getErrorMessage(emailResult.error) });
+  } else if (values.currentEmail && values.currentEmail.toLowerCase() === values.email) {
+    errors.push({ field: "email", message: getErrorMessage("auth.validation.emailUnchanged") });
+  }
+
+  if (values.password !== undefined) {
+    const passwordResult = validatePasswordForLogin(values.password);
+    if (!passwordResult.isValid && passwordResult.error) {
+      errors.push({ field: "password", message: getErrorMessage(passwordResult.error) });
+    }
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
 /**
  * Validate register form values.
  * IMPORTANT: Callers must sanitize email before passing to this function.
@@ -58,7 +198,10 @@ export function validateRegisterForm(
     errors.push({ field: "email", message: getErrorMessage(emailResult.error) });
   }
 
-  const passwordResult = validatePasswordForRegister(values.password, passwordConfig);
+  const passwordResult = validatePasswordForRegister(values.password, passwordConfig, {
+    email: values.email,
+    displayName: values.displayName,
+  });
   if (!passwordResult.isValid && passwordResult.error) {
     errors.push({ field: "password", message: getErrorMessage(passwordResult.error) });
   }
@@ -1,17 +1,20 @@
 /**
  * Error Handler
- * Centralized error handling logic
+ * Centralized error handling logic on top of the auth error registry
  */
 
-import type { ErrorMap } from '../types/ErrorTypes';
-import { ErrorMapper, DEFAULT_AUTH_ERROR_MAPPINGS } from '../mappers/ErrorMapper';
+import type { ErrorMap, ErrorMappingConfig } from '../types/ErrorTypes';
+import { authErrorRegistry } from '../registry/AuthErrorRegistry';
 
 export class ErrorHandler {
-  private mapper: ErrorMapper;
+  private mappings: ErrorMappingConfig;
   private translations?: ErrorMap;
 
-  constructor(translations?: ErrorMap, config?: typeof DEFAULT_AUTH_ERROR_MAPPINGS) {
-    this.mapper = new ErrorMapper(config || DEFAULT_AUTH_ERROR_MAPPINGS);
+  /**
+   * config overrides the registry's mappings for this handler only
+   */
+  constructor(translations?: ErrorMap, config?: ErrorMappingConfig) {
+    this.mappings = { ...config };
     this.translations = translations;
   }
 
@@ -19,15 +22,14 @@ export class ErrorHandler {
    * Handle error and return user-friendly message
    */
   handle(error: unknown): string {
-    const key = this.mapper.getLocalizationKey(error);
-    return this.mapper.resolveMessage(key, this.translations);
+    return authErrorRegistry.getErrorMessage(error, this.translations, undefined, this.mappings);
   }
 
   /**
    * Get localization key for error
    */
   getErrorKey(error: unknown): string {
-    return this.mapper.getLocalizationKey(error);
+    return authErrorRegistry.getLocalizationKey(error, this.mappings);
   }
 
   /**
@@ -38,10 +40,14 @@ export class ErrorHandler {
   }
 
   /**
-   * Set error mappings
+   * Set error mappings for this handler, use authErrorRegistry for app-wide ones
    */
-  setMappings(config: Partial<typeof DEFAULT_AUTH_ERROR_MAPPINGS>): void {
-    this.mapper.setMappings(config);
+  setMappings(config: Partial<ErrorMappingConfig>): void {
+    this.mappings = {
+      errorCodeMap: { ...this.mappings.errorCodeMap, ...config.errorCodeMap },
+      errorNameMap: { ...this.mappings.errorNameMap, ...config.errorNameMap },
+      defaultKey: config.defaultKey ?? this.mappings.defaultKey,
+    };
   }
 
   /**
@@ -78,7 +78,7 @@ export class ErrorMapper {
 }
 
 /**
- * Default auth error mappings
+ * Default auth error mappings, the built-in table authErrorRegistry starts from
  */
 export const DEFAULT_AUTH_ERROR_MAPPINGS: ErrorMappingConfig = {
   errorCodeMap: {
@@ -93,6 +93,41 @@ export const DEFAULT_AUTH_ERROR_MAPPINGS: ErrorMappingConfig = {
     AUTH_USER_DISABLED: 'auth.errors.userDisabled',
     AUTH_NOT_INITIALIZED: 'auth.errors.authNotInitialized',
     AUTH_INVALID_CREDENTIAL: 'auth.errors.invalidCredential',
+    AUTH_NO_USER: 'auth.errors.noUser',
+    AUTH_INVALID_PHONE: 'auth.errors.invalidPhone',
+    AUTH_INVALID_OTP: 'auth.errors.invalidOtp',
+    AUTH_OTP_EXPIRED: 'auth.errors.otpExpired',
+    AUTH_PASSWORDLESS_DISABLED: 'auth.errors.passwordlessDisabled',
+    AUTH_LINK_INVALID: 'auth.errors.linkInvalid',
+    AUTH_LINK_EXPIRED: 'auth.errors.linkExpired',
+    AUTH_LINK_EMAIL_REQUIRED: 'auth.errors.linkEmailRequired',
+    AUTH_MFA_REQUIRED: 'auth.errors.mfaRequired',
+    AUTH_MFA_UNAVAILABLE: 'auth.errors.mfaUnavailable',
+    AUTH_MFA_FACTOR_NOT_FOUND: 'auth.errors.mfaFactorNotFound',
+    AUTH_MFA_NO_CHALLENGE: 'auth.errors.mfaNoChallenge',
+    AUTH_MFA_ENROLLMENT_INVALID: 'auth.errors.mfaEnrollmentInvalid',
+    AUTH_REQUIRES_RECENT_LOGIN: 'auth.errors.requiresRecentLogin',
+    AUTH_CREDENTIAL_ALREADY_IN_USE: 'auth.errors.credentialAlreadyInUse',
+    AUTH_PROVIDER_ALREADY_LINKED: 'auth.errors.providerAlreadyLinked',
+    AUTH_PROVIDER_NOT_LINKED: 'auth.errors.providerNotLinked',
+    AUTH_LAST_PROVIDER: 'auth.errors.lastProvider',
+    AUTH_SESSION_EXPIRED: 'auth.errors.sessionExpired',
+    AUTH_OPERATION_NOT_SUPPORTED: 'auth.errors.operationNotSupported',
+    AUTH_OIDC_CANCELLED: 'auth.errors.oidcCancelled',
+    AUTH_OIDC_PROVIDER_ERROR: 'auth.errors.oidcProviderError',
+    AUTH_OIDC_INVALID_RESPONSE: 'auth.errors.oidcInvalidResponse',
+    AUTH_OIDC_PROVIDER_NOT_FOUND: 'auth.errors.oidcProviderNotFound',
+    AUTH_APP_LOCK_DISABLED: 'auth.errors.appLockDisabled',
+    AUTH_APP_LOCK_INVALID_PIN: 'auth.errors.appLockInvalidPin',
+    AUTH_APP_LOCK_WRONG_PIN: 'auth.errors.appLockWrongPin',
+    AUTH_APP_LOCK_LOCKED_OUT: 'auth.errors.appLockLockedOut',
+    AUTH_APP_LOCK_BIOMETRICS_UNAVAILABLE: 'auth.errors.appLockBiometricsUnavailable',
+    AUTH_USER_MISMATCH: 'auth.errors.userMismatch',
+    AUTH_REAUTH_CANCELLED: 'auth.errors.reauthCancelled',
+    AUTH_REAUTH_UNAVAILABLE: 'auth.errors.reauthUnavailable',
+    AUTH_OPERATION_NOT_ALLOWED: 'auth.errors.operationNotAllowed',
+    AUTH_VALIDATION_ERROR: 'auth.errors.validationError',
+    AUTH_INVALID_RESPONSE: 'auth.errors.invalidResponse',
     // Firebase error codes
     'auth/invalid-email': 'auth.errors.invalidEmail',
     'auth/weak-password': 'auth.errors.weakPassword',
@@ -110,10 +145,17 @@ export const DEFAULT_AUTH_ERROR_MAPPINGS: ErrorMappingConfig = {
     AuthWeakPasswordError: 'auth.errors.weakPassword',
     AuthUserNotFoundError: 'auth.errors.userNotFound',
     AuthWrongPasswordError: 'auth.errors.wrongPassword',
+    AuthInvalidCredentialError: 'auth.errors.invalidCredential',
     AuthEmailAlreadyInUseError: 'auth.errors.emailAlreadyInUse',
     AuthNetworkError: 'auth.errors.networkError',
     AuthConfigurationError: 'auth.errors.configurationError',
     AuthInitializationError: 'auth.errors.authNotInitialized',
+    AuthTooManyRequestsError: 'auth.errors.tooManyRequests',
+    AuthUserDisabledError: 'auth.errors.userDisabled',
+    AuthRequiresRecentLoginError: 'auth.errors.requiresRecentLogin',
+    AuthSessionExpiredError: 'auth.errors.sessionExpired',
+    AuthOperationNotAllowedError: 'auth.errors.operationNotAllowed',
+    AuthValidationError: 'auth.errors.validationError',
   },
   defaultKey: 'auth.errors.unknownError',
 };
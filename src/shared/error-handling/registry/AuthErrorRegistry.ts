@@ -0,0 +1,207 @@
+/**
+ * Auth Error Registry
+ * Single error code → localization key → message table used by
+ * getAuthErrorLocalizationKey, ErrorHandler, useAuthErrorHandler and AuthErrorDisplay,
+ * falling back to the built-in translation bundles of the locale.
+ * Apps extend it once through initializeAuth({ errorLocalization }).
+ */
+
+import type {
+  AuthErrorLocalizationConfig,
+  ErrorMap,
+  ErrorMappingConfig,
+  ErrorMessageParams,
+} from '../types/ErrorTypes';
+import { DEFAULT_AUTH_ERROR_MAPPINGS } from '../mappers/ErrorMapper';
+import { getAuthTranslationBundle } from '../../i18n/bundles/AuthTranslations';
+import type { AuthTranslationKey } from '../../i18n/types/I18nTypes';
+
+const DEFAULT_KEY = DEFAULT_AUTH_ERROR_MAPPINGS.defaultKey ?? 'auth.errors.unknownError';
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+/** Validation errors carry their key as the message, e.g. auth.validation.emailUnchanged */
+const MESSAGE_KEY_PATTERN = /^auth\.[\w.]+$/;
+
+interface ErrorWithCode extends Error {
+  code?: unknown;
+  retryAfterMs?: unknown;
+}
+
+/**
+ * Replace {{name}} with params.name, unknown placeholders are left as they are
+ */
+export function interpolateErrorMessage(message: string, params?: ErrorMessageParams): string {
+  if (!params) return message;
+  return message.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+class AuthErrorRegistry {
+  private static instance: AuthErrorRegistry;
+  private codes: ErrorMap = {};
+  private names: ErrorMap = {};
+  private messages: Record<string, ErrorMap> = {};
+  private locale: string | null = null;
+  private fallbackLocale: string | null = null;
+  private defaultKey = DEFAULT_KEY;
+  private fallbackMessage: string | null = null;
+  private version = 0;
+  private listeners = new Set<() => void>();
+
+  private constructor() {
+    this.reset();
+  }
+
+  static getInstance(): AuthErrorRegistry {
+    if (!AuthErrorRegistry.instance) {
+      AuthErrorRegistry.instance = new AuthErrorRegistry();
+    }
+    return AuthErrorRegistry.instance;
+  }
+
+  /**
+   * Merge codes, names and messages into the table and set locale and fallbacks
+   */
+  configure(config: AuthErrorLocalizationConfig): void {
+    if (config.codes) this.codes = { ...this.codes, ...config.codes };
+    if (config.names) this.names = { ...this.names, ...config.names };
+    if (config.messages) {
+      Object.entries(config.messages).forEach(([locale, messages]) => {
+        this.messages[locale] = { ...this.messages[locale], ...messages };
+      });
+    }
+    if (config.locale !== undefined) this.locale = config.locale;
+    if (config.fallbackLocale !== undefined) this.fallbackLocale = config.fallbackLocale;
+    if (config.defaultKey !== undefined) this.defaultKey = config.defaultKey;
+    if (config.fallbackMessage !== undefined) this.fallbackMessage = config.fallbackMessage;
+    this.notify();
+  }
+
+  /**
+   * Map custom error codes, e.g. { PAYMENT_REQUIRED: 'auth.errors.paymentRequired' }
+   */
+  registerCodes(codes: ErrorMap): void {
+    this.configure({ codes });
+  }
+
+  registerMessages(locale: string, messages: ErrorMap): void {
+    this.configure({ messages: { [locale]: messages } });
+  }
+
+  setLocale(locale: string): void {
+    this.configure({ locale });
+  }
+
+  getLocale(): string | null {
+    return this.locale;
+  }
+
+  /**
+   * Back to the built-in codes without messages or locale
+   */
+  reset(): void {
+    this.codes = { ...DEFAULT_AUTH_ERROR_MAPPINGS.errorCodeMap };
+    this.names = { ...DEFAULT_AUTH_ERROR_MAPPINGS.errorNameMap };
+    this.messages = {};
+    this.locale = null;
+    this.fallbackLocale = null;
+    this.defaultKey = DEFAULT_KEY;
+    this.fallbackMessage = null;
+    this.notify();
+  }
+
+  /**
+   * Notified when codes, messages or the locale change
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Changes on every update, a snapshot for useSyncExternalStore
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * The key of a validation error's message, then the error name (most specific),
+   * then its code; overrides win over the registry
+   */
+  getLocalizationKey(error: unknown, overrides?: ErrorMappingConfig): string {
+    // Don't leak system information through messages of unknown errors
+    if (!(error instanceof Error)) {
+      return overrides?.defaultKey ?? this.defaultKey;
+    }
+
+    if (error.name === 'AuthValidationError' && MESSAGE_KEY_PATTERN.test(error.message)) {
+      return error.message;
+    }
+
+    const byName = overrides?.errorNameMap?.[error.name] ?? this.names[error.name];
+    if (byName) return byName;
+
+    const { code } = error as ErrorWithCode;
+    if (typeof code === 'string') {
+      const byCode = overrides?.errorCodeMap?.[code] ?? this.codes[code];
+      if (byCode) return byCode;
+    }
+
+    return overrides?.defaultKey ?? this.defaultKey;
+  }
+
+  /**
+   * Placeholder values an error carries, e.g. retryAfterSeconds of a rate limit
+   */
+  getErrorParams(error: unknown): ErrorMessageParams {
+    const params: ErrorMessageParams = {};
+    if (!(error instanceof Error)) return params;
+
+    const { code, retryAfterMs } = error as ErrorWithCode;
+    if (typeof code === 'string') params.code = code;
+    if (typeof retryAfterMs === 'number') params.retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+    return params;
+  }
+
+  /**
+   * Message for a key from the translations passed in, then the current locale,
+   * then the fallback locale; undefined when none has it.
+   * Registered messages win over the built-in bundle of the same locale.
+   */
+  findMessage(key: string, translations?: ErrorMap): string | undefined {
+    return translations?.[key] || this.findLocaleMessage(this.locale, key) || this.findLocaleMessage(this.fallbackLocale, key);
+  }
+
+  /**
+   * Like findMessage, falling back to fallbackMessage and then the key itself
+   */
+  resolveMessage(key: string, translations?: ErrorMap, params?: ErrorMessageParams): string {
+    const message = this.findMessage(key, translations) || this.fallbackMessage || key;
+    return interpolateErrorMessage(message, params);
+  }
+
+  getErrorMessage(
+    error: unknown,
+    translations?: ErrorMap,
+    params?: ErrorMessageParams,
+    overrides?: ErrorMappingConfig
+  ): string {
+    const key = this.getLocalizationKey(error, overrides);
+    return this.resolveMessage(key, translations, { ...this.getErrorParams(error), ...params });
+  }
+
+  private findLocaleMessage(locale: string | null, key: string): string | undefined {
+    if (locale === null) return undefined;
+    return this.messages[locale]?.[key] || getAuthTranslationBundle(locale)?.[key as AuthTranslationKey];
+  }
+
+  private notify(): void {
+    this.version++;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const authErrorRegistry = AuthErrorRegistry.getInstance();
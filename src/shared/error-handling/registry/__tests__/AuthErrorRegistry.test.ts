@@ -0,0 +1,35 @@
+import { authErrorRegistry } from '../AuthErrorRegistry';
+import { AuthError, AuthValidationError } from '../../../../domain/errors/AuthError';
+
+describe('authErrorRegistry validation errors', () => {
+  afterEach(() => {
+    authErrorRegistry.reset();
+  });
+
+  it.each([
+    'auth.validation.emailUnchanged',
+    'auth.validation.passwordUnchanged',
+    'auth.validation.invalidPhotoURL',
+  ])('uses the %s message as the key', (key) => {
+    expect(authErrorRegistry.getLocalizationKey(new AuthValidationError(key))).toBe(key);
+  });
+
+  it('falls back to the generic validation key for plain messages', () => {
+    expect(authErrorRegistry.getLocalizationKey(new AuthValidationError('Password is required'))).toBe(
+      'auth.errors.validationError'
+    );
+  });
+
+  it('only takes the message of validation errors', () => {
+    expect(authErrorRegistry.getLocalizationKey(new AuthError('auth.errors.noUser', 'AUTH_NETWORK_ERROR'))).toBe(
+      'auth.errors.networkError'
+    );
+  });
+
+  it('maps invalid server responses', () => {
+    authErrorRegistry.setLocale('en');
+    expect(authErrorRegistry.getErrorMessage(new AuthError('Response has no user id', 'AUTH_INVALID_RESPONSE'))).toBe(
+      'The server sent an invalid response'
+    );
+  });
+});
@@ -0,0 +1,5 @@
+/**
+ * Error Registry Public API
+ */
+
+export { authErrorRegistry, interpolateErrorMessage } from './AuthErrorRegistry';
@@ -26,3 +26,27 @@ export interface FormErrorHandlerConfig {
   translations?: ErrorMap;
   errorMappings?: Record<string, string>;
 }
+
+/**
+ * Values for {{placeholders}} in error messages, e.g. { retryAfterSeconds: 30 }
+ */
+export interface ErrorMessageParams {
+  [name: string]: string | number;
+}
+
+export interface AuthErrorLocalizationConfig {
+  /** Extra or overriding error code → localization key entries, e.g. your backend's codes */
+  codes?: ErrorMap;
+  /** Extra or overriding error class name → localization key entries */
+  names?: ErrorMap;
+  /** Localization key → message per locale, messages may use {{placeholders}} */
+  messages?: Record<string, ErrorMap>;
+  /** Locale messages are resolved in */
+  locale?: string;
+  /** Locale used when the current one has no message for a key */
+  fallbackLocale?: string;
+  /** Key for errors no code or name matches, defaults to auth.errors.unknownError */
+  defaultKey?: string;
+  /** Shown when no locale has a message for the key, instead of the key itself */
+  fallbackMessage?: string;
+}
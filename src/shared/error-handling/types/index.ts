@@ -8,4 +8,6 @@ export type {
   ErrorMap,
   ErrorMappingConfig,
   FormErrorHandlerConfig,
+  ErrorMessageParams,
+  AuthErrorLocalizationConfig,
 } from './ErrorTypes';
@@ -20,7 +20,8 @@ export interface UseFormResult<T extends Record<string, string>> {
   setFieldValue: (field: keyof T, value: string) => void;
   setFieldError: (field: keyof T, error: string | null) => void;
   setFieldTouched: (field: keyof T, touched: boolean) => void;
-  resetForm: () => void;
+  /** Reset to the initial values, or adopt new ones as the clean baseline */
+  resetForm: (nextInitialValues?: T) => void;
   clearErrors: () => void;
   clearFieldError: (field: keyof T) => void;
   isDirty: boolean;
@@ -85,7 +86,10 @@ export function useForm<T extends Record<string, string>>(
     setTouched((prev) => ({ ...prev, [field]: isTouched }));
   }, []);
 
-  const resetForm = useCallback(() => {
+  const resetForm = useCallback((nextInitialValues?: T) => {
+    if (nextInitialValues) {
+      initialValuesRef.current = nextInitialValues;
+    }
     setValues(initialValuesRef.current);
     setErrors({} as Record<FieldKey, string | null>);
     setTouched({} as Record<FieldKey, boolean>);
@@ -0,0 +1,39 @@
+/**
+ * Auth Translations
+ * Built-in bundles covering every AuthTranslationKey
+ */
+
+import type { AuthLocale, AuthTranslationBundle } from '../types/I18nTypes';
+import { en } from '../locales/en';
+import { tr } from '../locales/tr';
+import { de } from '../locales/de';
+import { es } from '../locales/es';
+import { fr } from '../locales/fr';
+
+export const AUTH_TRANSLATIONS: Readonly<Record<AuthLocale, AuthTranslationBundle>> = {
+  en,
+  tr,
+  de,
+  es,
+  fr,
+};
+
+export const AUTH_LOCALES = Object.keys(AUTH_TRANSLATIONS) as AuthLocale[];
+
+export const DEFAULT_AUTH_LOCALE: AuthLocale = 'en';
+
+/**
+ * Built-in locale for a language tag, e.g. 'de-AT' or 'de_AT' → 'de'
+ */
+export function resolveAuthLocale(locale: string): AuthLocale | null {
+  const language = locale.split(/[-_]/)[0].toLowerCase();
+  return language in AUTH_TRANSLATIONS ? (language as AuthLocale) : null;
+}
+
+/**
+ * Bundle for a language tag, undefined when there's no built-in one
+ */
+export function getAuthTranslationBundle(locale: string): AuthTranslationBundle | undefined {
+  const resolved = resolveAuthLocale(locale);
+  return resolved ? AUTH_TRANSLATIONS[resolved] : undefined;
+}
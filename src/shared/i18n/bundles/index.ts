@@ -0,0 +1,11 @@
+/**
+ * Auth Translations Public API
+ */
+
+export {
+  AUTH_TRANSLATIONS,
+  AUTH_LOCALES,
+  DEFAULT_AUTH_LOCALE,
+  resolveAuthLocale,
+  getAuthTranslationBundle,
+} from './AuthTranslations';
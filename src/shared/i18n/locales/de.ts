@@ -0,0 +1,196 @@
+/**
+ * German Auth Translations
+ */
+
+import type { AuthTranslationBundle } from "../types/I18nTypes";
+
+export const de: AuthTranslationBundle = {
+  // Login
+  "auth.login.title": "Willkommen zurück",
+  "auth.login.subtitle": "Melde dich an, um fortzufahren",
+  "auth.login.email": "E-Mail",
+  "auth.login.emailPlaceholder": "du@beispiel.de",
+  "auth.login.password": "Passwort",
+  "auth.login.passwordPlaceholder": "Passwort eingeben",
+  "auth.login.signIn": "Anmelden",
+  "auth.login.dontHaveAccount": "Noch kein Konto?",
+  "auth.login.createAccount": "Konto erstellen",
+  "auth.login.forgotPassword": "Passwort vergessen?",
+  "auth.login.phoneSignIn": "Mit Telefon anmelden",
+  "auth.login.magicLinkSignIn": "Anmeldelink per E-Mail senden",
+
+  // Register
+  "auth.register.title": "Konto erstellen",
+  "auth.register.subtitle": "Registriere dich, um loszulegen",
+  "auth.register.displayName": "Name",
+  "auth.register.displayNamePlaceholder": "Dein Name",
+  "auth.register.email": "E-Mail",
+  "auth.register.emailPlaceholder": "du@beispiel.de",
+  "auth.register.password": "Passwort",
+  "auth.register.passwordPlaceholder": "Passwort erstellen",
+  "auth.register.confirmPassword": "Passwort bestätigen",
+  "auth.register.confirmPasswordPlaceholder": "Passwort wiederholen",
+  "auth.register.signUp": "Registrieren",
+  "auth.register.alreadyHaveAccount": "Bereits ein Konto?",
+  "auth.register.signIn": "Anmelden",
+  "auth.register.bySigningUp": "Mit der Registrierung akzeptierst du unsere",
+  "auth.register.termsOfService": "Nutzungsbedingungen",
+  "auth.register.privacyPolicy": "Datenschutzerklärung",
+  "auth.register.passwordMinLength": "Mindestens {{minLength}} Zeichen",
+  "auth.register.passwordMaxLength": "Höchstens {{maxLength}} Zeichen",
+  "auth.register.passwordUppercase": "Ein Großbuchstabe",
+  "auth.register.passwordLowercase": "Ein Kleinbuchstabe",
+  "auth.register.passwordDigit": "Eine Ziffer",
+  "auth.register.passwordSymbol": "Ein Sonderzeichen",
+  "auth.register.passwordNoRepeats": "Höchstens {{maxRepeatedChars}} gleiche Zeichen hintereinander",
+  "auth.register.passwordNoSequences": "Keine Folgen wie abc oder 123 mit mehr als {{maxSequenceLength}} Zeichen",
+  "auth.register.passwordNoPersonalInfo": "Enthält weder deinen Namen noch deine E-Mail",
+  "auth.register.passwordMinScore": "Schwer zu erraten",
+  "auth.register.passwordsMatch": "Passwörter stimmen überein",
+  "auth.register.passwordsDoNotMatch": "Passwörter stimmen nicht überein",
+
+  // Social sign-in
+  "auth.social.orContinueWith": "Oder weiter mit",
+  "auth.social.google": "Google",
+  "auth.social.apple": "Apple",
+
+  // Account
+  "auth.account.signIn": "Anmelden",
+  "auth.account.logout": "Abmelden",
+  "auth.account.deleteAccount": "Konto löschen",
+  "auth.account.changePassword": "Passwort ändern",
+  "auth.account.changeEmail": "E-Mail ändern",
+  "auth.account.twoFactor": "Zwei-Faktor-Authentifizierung",
+  "auth.account.twoFactorOn": "An",
+  "auth.account.twoFactorOff": "Aus",
+  "auth.account.logoutConfirmTitle": "Abmelden",
+  "auth.account.logoutConfirmMessage": "Möchtest du dich wirklich abmelden?",
+  "auth.account.deleteConfirmTitle": "Konto löschen",
+  "auth.account.deleteConfirmMessage": "Dein Konto und deine Daten werden dauerhaft gelöscht. Das kann nicht rückgängig gemacht werden.",
+  "auth.account.deleteErrorTitle": "Fehler",
+  "auth.account.deleteErrorMessage": "Konto konnte nicht gelöscht werden. Bitte versuche es erneut.",
+  "auth.account.cancel": "Abbrechen",
+
+  // Password prompt
+  "auth.passwordPrompt.title": "Passwort erforderlich",
+  "auth.passwordPrompt.message": "Gib dein Passwort ein, um fortzufahren",
+  "auth.passwordPrompt.placeholder": "Passwort",
+  "auth.passwordPrompt.confirm": "Bestätigen",
+  "auth.passwordPrompt.cancel": "Abbrechen",
+  "auth.passwordPrompt.required": "Passwort ist erforderlich",
+
+  // Password strength
+  "auth.passwordStrength.score0": "Sehr schwach",
+  "auth.passwordStrength.score1": "Schwach",
+  "auth.passwordStrength.score2": "Mittel",
+  "auth.passwordStrength.score3": "Stark",
+  "auth.passwordStrength.score4": "Sehr stark",
+  "auth.passwordStrength.warning.commonPassword": "Das ist ein sehr häufiges Passwort",
+  "auth.passwordStrength.warning.similarToCommon": "Das ähnelt einem häufig verwendeten Passwort",
+  "auth.passwordStrength.warning.commonWord": "Ein einzelnes Wort ist leicht zu erraten",
+  "auth.passwordStrength.warning.personalInfo": "Dein Name oder deine E-Mail ist leicht zu erraten",
+  "auth.passwordStrength.warning.keyboardPattern": "Tastaturmuster wie qwertz sind leicht zu erraten",
+  "auth.passwordStrength.warning.sequence": "Folgen wie abc oder 1234 sind leicht zu erraten",
+  "auth.passwordStrength.warning.repeat": "Wiederholungen wie aaa oder abcabc sind leicht zu erraten",
+  "auth.passwordStrength.warning.date": "Daten und Jahreszahlen sind leicht zu erraten",
+  "auth.passwordStrength.suggestion.addWords": "Füge ein oder zwei Wörter hinzu, ungewöhnliche Wörter sind besser",
+  "auth.passwordStrength.suggestion.useFewWords": "Nutze mehrere Wörter und vermeide gängige Redewendungen",
+  "auth.passwordStrength.suggestion.capitalization": "Großschreibung hilft kaum",
+  "auth.passwordStrength.suggestion.reversedWords": "Rückwärts geschriebene Wörter sind kaum schwerer zu erraten",
+  "auth.passwordStrength.suggestion.predictableSubstitutions": "Vorhersehbare Ersetzungen wie @ statt a helfen kaum",
+  "auth.passwordStrength.suggestion.avoidKeyboard": "Vermeide Tastaturmuster",
+  "auth.passwordStrength.suggestion.avoidRepeats": "Vermeide wiederholte Wörter und Zeichen",
+  "auth.passwordStrength.suggestion.avoidSequences": "Vermeide Folgen",
+  "auth.passwordStrength.suggestion.avoidDates": "Vermeide Daten und Jahreszahlen, die mit dir zu tun haben",
+  "auth.passwordStrength.crackTime.instant": "Sofort geknackt",
+  "auth.passwordStrength.crackTime.second": "In 1 Sekunde geknackt",
+  "auth.passwordStrength.crackTime.seconds": "In {{count}} Sekunden geknackt",
+  "auth.passwordStrength.crackTime.minute": "In 1 Minute geknackt",
+  "auth.passwordStrength.crackTime.minutes": "In {{count}} Minuten geknackt",
+  "auth.passwordStrength.crackTime.hour": "In 1 Stunde geknackt",
+  "auth.passwordStrength.crackTime.hours": "In {{count}} Stunden geknackt",
+  "auth.passwordStrength.crackTime.day": "In 1 Tag geknackt",
+  "auth.passwordStrength.crackTime.days": "In {{count}} Tagen geknackt",
+  "auth.passwordStrength.crackTime.month": "In 1 Monat geknackt",
+  "auth.passwordStrength.crackTime.months": "In {{count}} Monaten geknackt",
+  "auth.passwordStrength.crackTime.year": "In 1 Jahr geknackt",
+  "auth.passwordStrength.crackTime.years": "In {{count}} Jahren geknackt",
+  "auth.passwordStrength.crackTime.centuries": "Jahrhunderte zum Knacken",
+
+  // Validation
+  "auth.validation.emailRequired": "E-Mail ist erforderlich",
+  "auth.validation.invalidEmail": "Bitte gib eine gültige E-Mail-Adresse ein",
+  "auth.validation.emailUnchanged": "Die neue E-Mail ist identisch mit der aktuellen",
+  "auth.validation.passwordRequired": "Passwort ist erforderlich",
+  "auth.validation.passwordTooShort": "Passwort ist zu kurz",
+  "auth.validation.passwordTooLong": "Passwort ist zu lang",
+  "auth.validation.passwordMissingUppercase": "Passwort braucht einen Großbuchstaben",
+  "auth.validation.passwordMissingLowercase": "Passwort braucht einen Kleinbuchstaben",
+  "auth.validation.passwordMissingDigit": "Passwort braucht eine Ziffer",
+  "auth.validation.passwordMissingSymbol": "Passwort braucht ein Sonderzeichen",
+  "auth.validation.passwordRepeatedChars": "Passwort wiederholt dasselbe Zeichen zu oft",
+  "auth.validation.passwordSequence": "Passwort enthält eine leicht zu erratende Folge",
+  "auth.validation.passwordContainsPersonalInfo": "Passwort darf weder deinen Namen noch deine E-Mail enthalten",
+  "auth.validation.passwordTooWeak": "Passwort ist zu leicht zu erraten",
+  "auth.validation.passwordRuleFailed": "Passwort erfüllt die Anforderungen nicht",
+  "auth.validation.passwordUnchanged": "Das neue Passwort muss sich vom aktuellen unterscheiden",
+  "auth.validation.confirmPasswordRequired": "Bitte bestätige dein Passwort",
+  "auth.validation.passwordsDoNotMatch": "Passwörter stimmen nicht überein",
+  "auth.validation.nameRequired": "Name ist erforderlich",
+  "auth.validation.nameTooShort": "Name ist zu kurz",
+  "auth.validation.displayNameRequired": "Name ist erforderlich",
+  "auth.validation.invalidPhotoURL": "Bitte gib eine gültige Foto-URL ein",
+  "auth.validation.phoneRequired": "Telefonnummer ist erforderlich",
+  "auth.validation.invalidPhone": "Bitte gib eine gültige Telefonnummer ein",
+  "auth.validation.otpRequired": "Bestätigungscode ist erforderlich",
+  "auth.validation.invalidOtp": "Bitte gib den vollständigen Bestätigungscode ein",
+
+  // Errors
+  "auth.errors.unknownError": "Etwas ist schiefgelaufen. Bitte versuche es erneut.",
+  "auth.errors.invalidEmail": "Bitte gib eine gültige E-Mail-Adresse ein",
+  "auth.errors.weakPassword": "Das Passwort ist zu schwach",
+  "auth.errors.userNotFound": "Kein Konto mit dieser E-Mail gefunden",
+  "auth.errors.wrongPassword": "Falsches Passwort",
+  "auth.errors.invalidCredential": "E-Mail oder Passwort ist falsch",
+  "auth.errors.emailAlreadyInUse": "Es gibt bereits ein Konto mit dieser E-Mail",
+  "auth.errors.networkError": "Keine Verbindung. Prüfe dein Internet und versuche es erneut.",
+  "auth.errors.configurationError": "Die Anmeldung ist nicht richtig eingerichtet",
+  "auth.errors.authNotInitialized": "Die Anmeldung ist gerade nicht verfügbar",
+  "auth.errors.tooManyRequests": "Zu viele Versuche. Bitte versuche es später erneut.",
+  "auth.errors.userDisabled": "Dieses Konto wurde deaktiviert",
+  "auth.errors.noUser": "Du bist nicht angemeldet",
+  "auth.errors.invalidPhone": "Bitte gib eine gültige Telefonnummer ein",
+  "auth.errors.invalidOtp": "Der Bestätigungscode ist falsch",
+  "auth.errors.otpExpired": "Der Bestätigungscode ist abgelaufen",
+  "auth.errors.passwordlessDisabled": "Die Anmeldung ohne Passwort ist nicht aktiviert",
+  "auth.errors.linkInvalid": "Dieser Anmeldelink ist ungültig",
+  "auth.errors.linkExpired": "Dieser Anmeldelink ist abgelaufen",
+  "auth.errors.linkEmailRequired": "Gib deine E-Mail ein, um die Anmeldung abzuschließen",
+  "auth.errors.mfaRequired": "Gib deinen Bestätigungscode ein, um fortzufahren",
+  "auth.errors.mfaUnavailable": "Zwei-Faktor-Authentifizierung ist nicht verfügbar",
+  "auth.errors.mfaFactorNotFound": "Diese Bestätigungsmethode wurde nicht gefunden",
+  "auth.errors.mfaNoChallenge": "Die Bestätigung ist abgelaufen, bitte melde dich erneut an",
+  "auth.errors.mfaEnrollmentInvalid": "Einrichtung der Zwei-Faktor-Authentifizierung fehlgeschlagen, bitte beginne von vorn",
+  "auth.errors.requiresRecentLogin": "Bitte melde dich erneut an, um fortzufahren",
+  "auth.errors.credentialAlreadyInUse": "Dieses Konto ist bereits mit einem anderen Benutzer verknüpft",
+  "auth.errors.providerAlreadyLinked": "Diese Anmeldemethode ist bereits verknüpft",
+  "auth.errors.providerNotLinked": "Diese Anmeldemethode ist nicht verknüpft",
+  "auth.errors.lastProvider": "Du kannst deine einzige Anmeldemethode nicht entfernen",
+  "auth.errors.sessionExpired": "Deine Sitzung ist abgelaufen, bitte melde dich erneut an",
+  "auth.errors.operationNotSupported": "Diese Aktion wird nicht unterstützt",
+  "auth.errors.operationNotAllowed": "Diese Anmeldemethode ist nicht aktiviert",
+  "auth.errors.oidcCancelled": "Die Anmeldung wurde abgebrochen",
+  "auth.errors.oidcProviderError": "Der Anmeldeanbieter hat einen Fehler gemeldet",
+  "auth.errors.oidcInvalidResponse": "Der Anmeldeanbieter hat eine ungültige Antwort gesendet",
+  "auth.errors.oidcProviderNotFound": "Dieser Anmeldeanbieter ist nicht eingerichtet",
+  "auth.errors.appLockDisabled": "Die App-Sperre ist nicht aktiviert",
+  "auth.errors.appLockInvalidPin": "Bitte gib eine gültige PIN ein",
+  "auth.errors.appLockWrongPin": "Falsche PIN",
+  "auth.errors.appLockLockedOut": "Zu viele falsche PINs, versuche es später erneut",
+  "auth.errors.appLockBiometricsUnavailable": "Biometrisches Entsperren ist auf diesem Gerät nicht verfügbar",
+  "auth.errors.userMismatch": "Bitte melde dich mit demselben Konto an",
+  "auth.errors.reauthCancelled": "Die Bestätigung wurde abgebrochen",
+  "auth.errors.reauthUnavailable": "Deine Anmeldung kann auf diesem Gerät nicht bestätigt werden",
+  "auth.errors.validationError": "Bitte überprüfe deine Eingaben",
+  "auth.errors.invalidResponse": "Der Server hat eine ungültige Antwort gesendet",
+};
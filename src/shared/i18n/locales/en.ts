@@ -0,0 +1,195 @@
+/**
+ * English Auth Translations
+ * Reference bundle, AuthTranslationKey is generated from its keys
+ */
+
+export const en = {
+  // Login
+  "auth.login.title": "Welcome Back",
+  "auth.login.subtitle": "Sign in to continue",
+  "auth.login.email": "Email",
+  "auth.login.emailPlaceholder": "you@example.com",
+  "auth.login.password": "Password",
+  "auth.login.passwordPlaceholder": "Enter your password",
+  "auth.login.signIn": "Sign In",
+  "auth.login.dontHaveAccount": "Don't have an account?",
+  "auth.login.createAccount": "Create Account",
+  "auth.login.forgotPassword": "Forgot password?",
+  "auth.login.phoneSignIn": "Sign in with phone",
+  "auth.login.magicLinkSignIn": "Email me a sign-in link",
+
+  // Register
+  "auth.register.title": "Create Account",
+  "auth.register.subtitle": "Sign up to get started",
+  "auth.register.displayName": "Name",
+  "auth.register.displayNamePlaceholder": "Your name",
+  "auth.register.email": "Email",
+  "auth.register.emailPlaceholder": "you@example.com",
+  "auth.register.password": "Password",
+  "auth.register.passwordPlaceholder": "Create a password",
+  "auth.register.confirmPassword": "Confirm Password",
+  "auth.register.confirmPasswordPlaceholder": "Repeat your password",
+  "auth.register.signUp": "Sign Up",
+  "auth.register.alreadyHaveAccount": "Already have an account?",
+  "auth.register.signIn": "Sign In",
+  "auth.register.bySigningUp": "By signing up, you agree to our",
+  "auth.register.termsOfService": "Terms of Service",
+  "auth.register.privacyPolicy": "Privacy Policy",
+  "auth.register.passwordMinLength": "At least {{minLength}} characters",
+  "auth.register.passwordMaxLength": "At most {{maxLength}} characters",
+  "auth.register.passwordUppercase": "An uppercase letter",
+  "auth.register.passwordLowercase": "A lowercase letter",
+  "auth.register.passwordDigit": "A number",
+  "auth.register.passwordSymbol": "A symbol",
+  "auth.register.passwordNoRepeats": "No more than {{maxRepeatedChars}} identical characters in a row",
+  "auth.register.passwordNoSequences": "No runs like abc or 123 longer than {{maxSequenceLength}} characters",
+  "auth.register.passwordNoPersonalInfo": "Doesn't contain your name or email",
+  "auth.register.passwordMinScore": "Hard to guess",
+  "auth.register.passwordsMatch": "Passwords match",
+  "auth.register.passwordsDoNotMatch": "Passwords don't match",
+
+  // Social sign-in
+  "auth.social.orContinueWith": "Or continue with",
+  "auth.social.google": "Google",
+  "auth.social.apple": "Apple",
+
+  // Account
+  "auth.account.signIn": "Sign In",
+  "auth.account.logout": "Log Out",
+  "auth.account.deleteAccount": "Delete Account",
+  "auth.account.changePassword": "Change Password",
+  "auth.account.changeEmail": "Change Email",
+  "auth.account.twoFactor": "Two-Factor Authentication",
+  "auth.account.twoFactorOn": "On",
+  "auth.account.twoFactorOff": "Off",
+  "auth.account.logoutConfirmTitle": "Log Out",
+  "auth.account.logoutConfirmMessage": "Are you sure you want to log out?",
+  "auth.account.deleteConfirmTitle": "Delete Account",
+  "auth.account.deleteConfirmMessage": "This permanently deletes your account and data. This can't be undone.",
+  "auth.account.deleteErrorTitle": "Error",
+  "auth.account.deleteErrorMessage": "Failed to delete account. Please try again.",
+  "auth.account.cancel": "Cancel",
+
+  // Password prompt
+  "auth.passwordPrompt.title": "Password Required",
+  "auth.passwordPrompt.message": "Enter your password to continue",
+  "auth.passwordPrompt.placeholder": "Password",
+  "auth.passwordPrompt.confirm": "Confirm",
+  "auth.passwordPrompt.cancel": "Cancel",
+  "auth.passwordPrompt.required": "Password is required",
+
+  // Password strength
+  "auth.passwordStrength.score0": "Very weak",
+  "auth.passwordStrength.score1": "Weak",
+  "auth.passwordStrength.score2": "Fair",
+  "auth.passwordStrength.score3": "Strong",
+  "auth.passwordStrength.score4": "Very strong",
+  "auth.passwordStrength.warning.commonPassword": "This is a very common password",
+  "auth.passwordStrength.warning.similarToCommon": "This is similar to a commonly used password",
+  "auth.passwordStrength.warning.commonWord": "A single word is easy to guess",
+  "auth.passwordStrength.warning.personalInfo": "Your name or email is easy to guess",
+  "auth.passwordStrength.warning.keyboardPattern": "Keyboard patterns like qwerty are easy to guess",
+  "auth.passwordStrength.warning.sequence": "Sequences like abc or 1234 are easy to guess",
+  "auth.passwordStrength.warning.repeat": "Repeats like aaa or abcabc are easy to guess",
+  "auth.passwordStrength.warning.date": "Dates and years are easy to guess",
+  "auth.passwordStrength.suggestion.addWords": "Add another word or two, uncommon words are better",
+  "auth.passwordStrength.suggestion.useFewWords": "Use a few words and avoid common phrases",
+  "auth.passwordStrength.suggestion.capitalization": "Capitalization doesn't help very much",
+  "auth.passwordStrength.suggestion.reversedWords": "Reversed words aren't much harder to guess",
+  "auth.passwordStrength.suggestion.predictableSubstitutions": "Predictable substitutions like @ for a don't help very much",
+  "auth.passwordStrength.suggestion.avoidKeyboard": "Avoid keyboard patterns",
+  "auth.passwordStrength.suggestion.avoidRepeats": "Avoid repeated words and characters",
+  "auth.passwordStrength.suggestion.avoidSequences": "Avoid sequences",
+  "auth.passwordStrength.suggestion.avoidDates": "Avoid dates and years that are associated with you",
+  "auth.passwordStrength.crackTime.instant": "Cracked instantly",
+  "auth.passwordStrength.crackTime.second": "1 second to crack",
+  "auth.passwordStrength.crackTime.seconds": "{{count}} seconds to crack",
+  "auth.passwordStrength.crackTime.minute": "1 minute to crack",
+  "auth.passwordStrength.crackTime.minutes": "{{count}} minutes to crack",
+  "auth.passwordStrength.crackTime.hour": "1 hour to crack",
+  "auth.passwordStrength.crackTime.hours": "{{count}} hours to crack",
+  "auth.passwordStrength.crackTime.day": "1 day to crack",
+  "auth.passwordStrength.crackTime.days": "{{count}} days to crack",
+  "auth.passwordStrength.crackTime.month": "1 month to crack",
+  "auth.passwordStrength.crackTime.months": "{{count}} months to crack",
+  "auth.passwordStrength.crackTime.year": "1 year to crack",
+  "auth.passwordStrength.crackTime.years": "{{count}} years to crack",
+  "auth.passwordStrength.crackTime.centuries": "Centuries to crack",
+
+  // Validation
+  "auth.validation.emailRequired": "Email is required",
+  "auth.validation.invalidEmail": "Please enter a valid email address",
+  "auth.validation.emailUnchanged": "The new email is the same as the current one",
+  "auth.validation.passwordRequired": "Password is required",
+  "auth.validation.passwordTooShort": "Password is too short",
+  "auth.validation.passwordTooLong": "Password is too long",
+  "auth.validation.passwordMissingUppercase": "Password needs an uppercase letter",
+  "auth.validation.passwordMissingLowercase": "Password needs a lowercase letter",
+  "auth.validation.passwordMissingDigit": "Password needs a number",
+  "auth.validation.passwordMissingSymbol": "Password needs a symbol",
+  "auth.validation.passwordRepeatedChars": "Password repeats the same character too many times",
+  "auth.validation.passwordSequence": "Password contains an easy-to-guess sequence",
+  "auth.validation.passwordContainsPersonalInfo": "Password must not contain your name or email",
+  "auth.validation.passwordTooWeak": "Password is too easy to guess",
+  "auth.validation.passwordRuleFailed": "Password doesn't meet the requirements",
+  "auth.validation.passwordUnchanged": "The new password must be different from the current one",
+  "auth.validation.confirmPasswordRequired": "Please confirm your password",
+  "auth.validation.passwordsDoNotMatch": "Passwords don't match",
+  "auth.validation.nameRequired": "Name is required",
+  "auth.validation.nameTooShort": "Name is too short",
+  "auth.validation.displayNameRequired": "Name is required",
+  "auth.validation.invalidPhotoURL": "Please enter a valid photo URL",
+  "auth.validation.phoneRequired": "Phone number is required",
+  "auth.validation.invalidPhone": "Please enter a valid phone number",
+  "auth.validation.otpRequired": "Verification code is required",
+  "auth.validation.invalidOtp": "Please enter the full verification code",
+
+  // Errors
+  "auth.errors.unknownError": "Something went wrong. Please try again.",
+  "auth.errors.invalidEmail": "Please enter a valid email address",
+  "auth.errors.weakPassword": "Password is too weak",
+  "auth.errors.userNotFound": "No account found with this email",
+  "auth.errors.wrongPassword": "Incorrect password",
+  "auth.errors.invalidCredential": "Incorrect email or password",
+  "auth.errors.emailAlreadyInUse": "An account with this email already exists",
+  "auth.errors.networkError": "No connection. Check your internet and try again.",
+  "auth.errors.configurationError": "Sign-in is not set up correctly",
+  "auth.errors.authNotInitialized": "Sign-in is not available right now",
+  "auth.errors.tooManyRequests": "Too many attempts. Please try again later.",
+  "auth.errors.userDisabled": "This account has been disabled",
+  "auth.errors.noUser": "You're not signed in",
+  "auth.errors.invalidPhone": "Please enter a valid phone number",
+  "auth.errors.invalidOtp": "The verification code is incorrect",
+  "auth.errors.otpExpired": "The verification code has expired",
+  "auth.errors.passwordlessDisabled": "Passwordless sign-in is not enabled",
+  "auth.errors.linkInvalid": "This sign-in link is invalid",
+  "auth.errors.linkExpired": "This sign-in link has expired",
+  "auth.errors.linkEmailRequired": "Enter your email to finish signing in",
+  "auth.errors.mfaRequired": "Enter your verification code to continue",
+  "auth.errors.mfaUnavailable": "Two-factor authentication is not available",
+  "auth.errors.mfaFactorNotFound": "This verification method was not found",
+  "auth.errors.mfaNoChallenge": "The verification has expired, please sign in again",
+  "auth.errors.mfaEnrollmentInvalid": "Two-factor setup failed, please start again",
+  "auth.errors.requiresRecentLogin": "Please sign in again to continue",
+  "auth.errors.credentialAlreadyInUse": "This account is already linked to another user",
+  "auth.errors.providerAlreadyLinked": "This sign-in method is already linked",
+  "auth.errors.providerNotLinked": "This sign-in method is not linked",
+  "auth.errors.lastProvider": "You can't remove your only sign-in method",
+  "auth.errors.sessionExpired": "Your session has expired, please sign in again",
+  "auth.errors.operationNotSupported": "This action is not supported",
+  "auth.errors.operationNotAllowed": "This sign-in method is not enabled",
+  "auth.errors.oidcCancelled": "Sign-in was cancelled",
+  "auth.errors.oidcProviderError": "The sign-in provider returned an error",
+  "auth.errors.oidcInvalidResponse": "The sign-in provider sent an invalid response",
+  "auth.errors.oidcProviderNotFound": "This sign-in provider is not configured",
+  "auth.errors.appLockDisabled": "App lock is not enabled",
+  "auth.errors.appLockInvalidPin": "Please enter a valid PIN",
+  "auth.errors.appLockWrongPin": "Wrong PIN",
+  "auth.errors.appLockLockedOut": "Too many wrong PINs, try again later",
+  "auth.errors.appLockBiometricsUnavailable": "Biometric unlock is not available on this device",
+  "auth.errors.userMismatch": "Please sign in with the same account",
+  "auth.errors.reauthCancelled": "Confirmation was cancelled",
+  "auth.errors.reauthUnavailable": "Your sign-in can't be confirmed on this device",
+  "auth.errors.validationError": "Please check your input",
+  "auth.errors.invalidResponse": "The server sent an invalid response",
+};
@@ -0,0 +1,196 @@
+/**
+ * Spanish Auth Translations
+ */
+
+import type { AuthTranslationBundle } from "../types/I18nTypes";
+
+export const es: AuthTranslationBundle = {
+  // Login
+  "auth.login.title": "Bienvenido de nuevo",
+  "auth.login.subtitle": "Inicia sesión para continuar",
+  "auth.login.email": "Correo electrónico",
+  "auth.login.emailPlaceholder": "tu@ejemplo.com",
+  "auth.login.password": "Contraseña",
+  "auth.login.passwordPlaceholder": "Introduce tu contraseña",
+  "auth.login.signIn": "Iniciar sesión",
+  "auth.login.dontHaveAccount": "¿No tienes una cuenta?",
+  "auth.login.createAccount": "Crear cuenta",
+  "auth.login.forgotPassword": "¿Olvidaste tu contraseña?",
+  "auth.login.phoneSignIn": "Iniciar sesión con teléfono",
+  "auth.login.magicLinkSignIn": "Envíame un enlace de acceso",
+
+  // Register
+  "auth.register.title": "Crear cuenta",
+  "auth.register.subtitle": "Regístrate para empezar",
+  "auth.register.displayName": "Nombre",
+  "auth.register.displayNamePlaceholder": "Tu nombre",
+  "auth.register.email": "Correo electrónico",
+  "auth.register.emailPlaceholder": "tu@ejemplo.com",
+  "auth.register.password": "Contraseña",
+  "auth.register.passwordPlaceholder": "Crea una contraseña",
+  "auth.register.confirmPassword": "Confirmar contraseña",
+  "auth.register.confirmPasswordPlaceholder": "Repite tu contraseña",
+  "auth.register.signUp": "Registrarse",
+  "auth.register.alreadyHaveAccount": "¿Ya tienes una cuenta?",
+  "auth.register.signIn": "Iniciar sesión",
+  "auth.register.bySigningUp": "Al registrarte, aceptas nuestros",
+  "auth.register.termsOfService": "Términos del servicio",
+  "auth.register.privacyPolicy": "Política de privacidad",
+  "auth.register.passwordMinLength": "Al menos {{minLength}} caracteres",
+  "auth.register.passwordMaxLength": "Como máximo {{maxLength}} caracteres",
+  "auth.register.passwordUppercase": "Una letra mayúscula",
+  "auth.register.passwordLowercase": "Una letra minúscula",
+  "auth.register.passwordDigit": "Un número",
+  "auth.register.passwordSymbol": "Un símbolo",
+  "auth.register.passwordNoRepeats": "No más de {{maxRepeatedChars}} caracteres iguales seguidos",
+  "auth.register.passwordNoSequences": "Sin secuencias como abc o 123 de más de {{maxSequenceLength}} caracteres",
+  "auth.register.passwordNoPersonalInfo": "No contiene tu nombre ni tu correo",
+  "auth.register.passwordMinScore": "Difícil de adivinar",
+  "auth.register.passwordsMatch": "Las contraseñas coinciden",
+  "auth.register.passwordsDoNotMatch": "Las contraseñas no coinciden",
+
+  // Social sign-in
+  "auth.social.orContinueWith": "O continúa con",
+  "auth.social.google": "Google",
+  "auth.social.apple": "Apple",
+
+  // Account
+  "auth.account.signIn": "Iniciar sesión",
+  "auth.account.logout": "Cerrar sesión",
+  "auth.account.deleteAccount": "Eliminar cuenta",
+  "auth.account.changePassword": "Cambiar contraseña",
+  "auth.account.changeEmail": "Cambiar correo electrónico",
+  "auth.account.twoFactor": "Autenticación en dos pasos",
+  "auth.account.twoFactorOn": "Activada",
+  "auth.account.twoFactorOff": "Desactivada",
+  "auth.account.logoutConfirmTitle": "Cerrar sesión",
+  "auth.account.logoutConfirmMessage": "¿Seguro que quieres cerrar sesión?",
+  "auth.account.deleteConfirmTitle": "Eliminar cuenta",
+  "auth.account.deleteConfirmMessage": "Tu cuenta y tus datos se eliminarán de forma permanente. Esta acción no se puede deshacer.",
+  "auth.account.deleteErrorTitle": "Error",
+  "auth.account.deleteErrorMessage": "No se pudo eliminar la cuenta. Inténtalo de nuevo.",
+  "auth.account.cancel": "Cancelar",
+
+  // Password prompt
+  "auth.passwordPrompt.title": "Contraseña requerida",
+  "auth.passwordPrompt.message": "Introduce tu contraseña para continuar",
+  "auth.passwordPrompt.placeholder": "Contraseña",
+  "auth.passwordPrompt.confirm": "Confirmar",
+  "auth.passwordPrompt.cancel": "Cancelar",
+  "auth.passwordPrompt.required": "La contraseña es obligatoria",
+
+  // Password strength
+  "auth.passwordStrength.score0": "Muy débil",
+  "auth.passwordStrength.score1": "Débil",
+  "auth.passwordStrength.score2": "Aceptable",
+  "auth.passwordStrength.score3": "Fuerte",
+  "auth.passwordStrength.score4": "Muy fuerte",
+  "auth.passwordStrength.warning.commonPassword": "Es una contraseña muy común",
+  "auth.passwordStrength.warning.similarToCommon": "Se parece a una contraseña muy usada",
+  "auth.passwordStrength.warning.commonWord": "Una sola palabra es fácil de adivinar",
+  "auth.passwordStrength.warning.personalInfo": "Tu nombre o tu correo son fáciles de adivinar",
+  "auth.passwordStrength.warning.keyboardPattern": "Los patrones de teclado como qwerty son fáciles de adivinar",
+  "auth.passwordStrength.warning.sequence": "Las secuencias como abc o 1234 son fáciles de adivinar",
+  "auth.passwordStrength.warning.repeat": "Las repeticiones como aaa o abcabc son fáciles de adivinar",
+  "auth.passwordStrength.warning.date": "Las fechas y los años son fáciles de adivinar",
+  "auth.passwordStrength.suggestion.addWords": "Añade una o dos palabras más, mejor si son poco comunes",
+  "auth.passwordStrength.suggestion.useFewWords": "Usa varias palabras y evita frases comunes",
+  "auth.passwordStrength.suggestion.capitalization": "Las mayúsculas no ayudan mucho",
+  "auth.passwordStrength.suggestion.reversedWords": "Las palabras al revés no son mucho más difíciles de adivinar",
+  "auth.passwordStrength.suggestion.predictableSubstitutions": "Los cambios previsibles como @ en lugar de a no ayudan mucho",
+  "auth.passwordStrength.suggestion.avoidKeyboard": "Evita los patrones de teclado",
+  "auth.passwordStrength.suggestion.avoidRepeats": "Evita repetir palabras y caracteres",
+  "auth.passwordStrength.suggestion.avoidSequences": "Evita las secuencias",
+  "auth.passwordStrength.suggestion.avoidDates": "Evita fechas y años relacionados contigo",
+  "auth.passwordStrength.crackTime.instant": "Se descifra al instante",
+  "auth.passwordStrength.crackTime.second": "1 segundo para descifrarla",
+  "auth.passwordStrength.crackTime.seconds": "{{count}} segundos para descifrarla",
+  "auth.passwordStrength.crackTime.minute": "1 minuto para descifrarla",
+  "auth.passwordStrength.crackTime.minutes": "{{count}} minutos para descifrarla",
+  "auth.passwordStrength.crackTime.hour": "1 hora para descifrarla",
+  "auth.passwordStrength.crackTime.hours": "{{count}} horas para descifrarla",
+  "auth.passwordStrength.crackTime.day": "1 día para descifrarla",
+  "auth.passwordStrength.crackTime.days": "{{count}} días para descifrarla",
+  "auth.passwordStrength.crackTime.month": "1 mes para descifrarla",
+  "auth.passwordStrength.crackTime.months": "{{count}} meses para descifrarla",
+  "auth.passwordStrength.crackTime.year": "1 año para descifrarla",
+  "auth.passwordStrength.crackTime.years": "{{count}} años para descifrarla",
+  "auth.passwordStrength.crackTime.centuries": "Siglos para descifrarla",
+
+  // Validation
+  "auth.validation.emailRequired": "El correo electrónico es obligatorio",
+  "auth.validation.invalidEmail": "Introduce un correo electrónico válido",
+  "auth.validation.emailUnchanged": "El nuevo correo es igual al actual",
+  "auth.validation.passwordRequired": "La contraseña es obligatoria",
+  "auth.validation.passwordTooShort": "La contraseña es demasiado corta",
+  "auth.validation.passwordTooLong": "La contraseña es demasiado larga",
+  "auth.validation.passwordMissingUppercase": "La contraseña necesita una letra mayúscula",
+  "auth.validation.passwordMissingLowercase": "La contraseña necesita una letra minúscula",
+  "auth.validation.passwordMissingDigit": "La contraseña necesita un número",
+  "auth.validation.passwordMissingSymbol": "La contraseña necesita un símbolo",
+  "auth.validation.passwordRepeatedChars": "La contraseña repite demasiadas veces el mismo carácter",
+  "auth.validation.passwordSequence": "La contraseña contiene una secuencia fácil de adivinar",
+  "auth.validation.passwordContainsPersonalInfo": "La contraseña no puede contener tu nombre ni tu correo",
+  "auth.validation.passwordTooWeak": "La contraseña es demasiado fácil de adivinar",
+  "auth.validation.passwordRuleFailed": "La contraseña no cumple los requisitos",
+  "auth.validation.passwordUnchanged": "La nueva contraseña debe ser distinta de la actual",
+  "auth.validation.confirmPasswordRequired": "Confirma tu contraseña",
+  "auth.validation.passwordsDoNotMatch": "Las contraseñas no coinciden",
+  "auth.validation.nameRequired": "El nombre es obligatorio",
+  "auth.validation.nameTooShort": "El nombre es demasiado corto",
+  "auth.validation.displayNameRequired": "El nombre es obligatorio",
+  "auth.validation.invalidPhotoURL": "Introduce una URL de foto válida",
+  "auth.validation.phoneRequired": "El número de teléfono es obligatorio",
+  "auth.validation.invalidPhone": "Introduce un número de teléfono válido",
+  "auth.validation.otpRequired": "El código de verificación es obligatorio",
+  "auth.validation.invalidOtp": "Introduce el código de verificación completo",
+
+  // Errors
+  "auth.errors.unknownError": "Algo salió mal. Inténtalo de nuevo.",
+  "auth.errors.invalidEmail": "Introduce un correo electrónico válido",
+  "auth.errors.weakPassword": "La contraseña es demasiado débil",
+  "auth.errors.userNotFound": "No existe ninguna cuenta con este correo",
+  "auth.errors.wrongPassword": "Contraseña incorrecta",
+  "auth.errors.invalidCredential": "Correo o contraseña incorrectos",
+  "auth.errors.emailAlreadyInUse": "Ya existe una cuenta con este correo",
+  "auth.errors.networkError": "Sin conexión. Revisa tu internet e inténtalo de nuevo.",
+  "auth.errors.configurationError": "El inicio de sesión no está configurado correctamente",
+  "auth.errors.authNotInitialized": "El inicio de sesión no está disponible ahora",
+  "auth.errors.tooManyRequests": "Demasiados intentos. Inténtalo más tarde.",
+  "auth.errors.userDisabled": "Esta cuenta ha sido desactivada",
+  "auth.errors.noUser": "No has iniciado sesión",
+  "auth.errors.invalidPhone": "Introduce un número de teléfono válido",
+  "auth.errors.invalidOtp": "El código de verificación es incorrecto",
+  "auth.errors.otpExpired": "El código de verificación ha caducado",
+  "auth.errors.passwordlessDisabled": "El inicio de sesión sin contraseña no está activado",
+  "auth.errors.linkInvalid": "Este enlace de acceso no es válido",
+  "auth.errors.linkExpired": "Este enlace de acceso ha caducado",
+  "auth.errors.linkEmailRequired": "Introduce tu correo para terminar de iniciar sesión",
+  "auth.errors.mfaRequired": "Introduce tu código de verificación para continuar",
+  "auth.errors.mfaUnavailable": "La autenticación en dos pasos no está disponible",
+  "auth.errors.mfaFactorNotFound": "No se encontró este método de verificación",
+  "auth.errors.mfaNoChallenge": "La verificación ha caducado, inicia sesión de nuevo",
+  "auth.errors.mfaEnrollmentInvalid": "No se pudo configurar la autenticación en dos pasos, empieza de nuevo",
+  "auth.errors.requiresRecentLogin": "Inicia sesión de nuevo para continuar",
+  "auth.errors.credentialAlreadyInUse": "Esta cuenta ya está vinculada a otro usuario",
+  "auth.errors.providerAlreadyLinked": "Este método de acceso ya está vinculado",
+  "auth.errors.providerNotLinked": "Este método de acceso no está vinculado",
+  "auth.errors.lastProvider": "No puedes quitar tu único método de acceso",
+  "auth.errors.sessionExpired": "Tu sesión ha caducado, inicia sesión de nuevo",
+  "auth.errors.operationNotSupported": "Esta acción no es compatible",
+  "auth.errors.operationNotAllowed": "Este método de acceso no está activado",
+  "auth.errors.oidcCancelled": "Se canceló el inicio de sesión",
+  "auth.errors.oidcProviderError": "El proveedor de acceso devolvió un error",
+  "auth.errors.oidcInvalidResponse": "El proveedor de acceso envió una respuesta no válida",
+  "auth.errors.oidcProviderNotFound": "Este proveedor de acceso no está configurado",
+  "auth.errors.appLockDisabled": "El bloqueo de la app no está activado",
+  "auth.errors.appLockInvalidPin": "Introduce un PIN válido",
+  "auth.errors.appLockWrongPin": "PIN incorrecto",
+  "auth.errors.appLockLockedOut": "Demasiados PIN incorrectos, inténtalo más tarde",
+  "auth.errors.appLockBiometricsUnavailable": "El desbloqueo biométrico no está disponible en este dispositivo",
+  "auth.errors.userMismatch": "Inicia sesión con la misma cuenta",
+  "auth.errors.reauthCancelled": "Se canceló la confirmación",
+  "auth.errors.reauthUnavailable": "No se puede confirmar tu sesión en este dispositivo",
+  "auth.errors.validationError": "Revisa los datos introducidos",
+  "auth.errors.invalidResponse": "El servidor envió una respuesta no válida",
+};
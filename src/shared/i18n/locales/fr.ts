@@ -0,0 +1,196 @@
+/**
+ * French Auth Translations
+ */
+
+import type { AuthTranslationBundle } from "../types/I18nTypes";
+
+export const fr: AuthTranslationBundle = {
+  // Login
+  "auth.login.title": "Bon retour",
+  "auth.login.subtitle": "Connectez-vous pour continuer",
+  "auth.login.email": "E-mail",
+  "auth.login.emailPlaceholder": "vous@exemple.fr",
+  "auth.login.password": "Mot de passe",
+  "auth.login.passwordPlaceholder": "Saisissez votre mot de passe",
+  "auth.login.signIn": "Se connecter",
+  "auth.login.dontHaveAccount": "Vous n'avez pas de compte ?",
+  "auth.login.createAccount": "Créer un compte",
+  "auth.login.forgotPassword": "Mot de passe oublié ?",
+  "auth.login.phoneSignIn": "Se connecter par téléphone",
+  "auth.login.magicLinkSignIn": "Recevoir un lien de connexion",
+
+  // Register
+  "auth.register.title": "Créer un compte",
+  "auth.register.subtitle": "Inscrivez-vous pour commencer",
+  "auth.register.displayName": "Nom",
+  "auth.register.displayNamePlaceholder": "Votre nom",
+  "auth.register.email": "E-mail",
+  "auth.register.emailPlaceholder": "vous@exemple.fr",
+  "auth.register.password": "Mot de passe",
+  "auth.register.passwordPlaceholder": "Créez un mot de passe",
+  "auth.register.confirmPassword": "Confirmer le mot de passe",
+  "auth.register.confirmPasswordPlaceholder": "Répétez votre mot de passe",
+  "auth.register.signUp": "S'inscrire",
+  "auth.register.alreadyHaveAccount": "Vous avez déjà un compte ?",
+  "auth.register.signIn": "Se connecter",
+  "auth.register.bySigningUp": "En vous inscrivant, vous acceptez nos",
+  "auth.register.termsOfService": "Conditions d'utilisation",
+  "auth.register.privacyPolicy": "Politique de confidentialité",
+  "auth.register.passwordMinLength": "Au moins {{minLength}} caractères",
+  "auth.register.passwordMaxLength": "Au plus {{maxLength}} caractères",
+  "auth.register.passwordUppercase": "Une lettre majuscule",
+  "auth.register.passwordLowercase": "Une lettre minuscule",
+  "auth.register.passwordDigit": "Un chiffre",
+  "auth.register.passwordSymbol": "Un symbole",
+  "auth.register.passwordNoRepeats": "Pas plus de {{maxRepeatedChars}} caractères identiques à la suite",
+  "auth.register.passwordNoSequences": "Pas de suites comme abc ou 123 de plus de {{maxSequenceLength}} caractères",
+  "auth.register.passwordNoPersonalInfo": "Ne contient ni votre nom ni votre e-mail",
+  "auth.register.passwordMinScore": "Difficile à deviner",
+  "auth.register.passwordsMatch": "Les mots de passe correspondent",
+  "auth.register.passwordsDoNotMatch": "Les mots de passe ne correspondent pas",
+
+  // Social sign-in
+  "auth.social.orContinueWith": "Ou continuer avec",
+  "auth.social.google": "Google",
+  "auth.social.apple": "Apple",
+
+  // Account
+  "auth.account.signIn": "Se connecter",
+  "auth.account.logout": "Se déconnecter",
+  "auth.account.deleteAccount": "Supprimer le compte",
+  "auth.account.changePassword": "Changer le mot de passe",
+  "auth.account.changeEmail": "Changer l'e-mail",
+  "auth.account.twoFactor": "Authentification à deux facteurs",
+  "auth.account.twoFactorOn": "Activée",
+  "auth.account.twoFactorOff": "Désactivée",
+  "auth.account.logoutConfirmTitle": "Se déconnecter",
+  "auth.account.logoutConfirmMessage": "Voulez-vous vraiment vous déconnecter ?",
+  "auth.account.deleteConfirmTitle": "Supprimer le compte",
+  "auth.account.deleteConfirmMessage": "Votre compte et vos données seront définitivement supprimés. Cette action est irréversible.",
+  "auth.account.deleteErrorTitle": "Erreur",
+  "auth.account.deleteErrorMessage": "Impossible de supprimer le compte. Veuillez réessayer.",
+  "auth.account.cancel": "Annuler",
+
+  // Password prompt
+  "auth.passwordPrompt.title": "Mot de passe requis",
+  "auth.passwordPrompt.message": "Saisissez votre mot de passe pour continuer",
+  "auth.passwordPrompt.placeholder": "Mot de passe",
+  "auth.passwordPrompt.confirm": "Confirmer",
+  "auth.passwordPrompt.cancel": "Annuler",
+  "auth.passwordPrompt.required": "Le mot de passe est obligatoire",
+
+  // Password strength
+  "auth.passwordStrength.score0": "Très faible",
+  "auth.passwordStrength.score1": "Faible",
+  "auth.passwordStrength.score2": "Moyen",
+  "auth.passwordStrength.score3": "Fort",
+  "auth.passwordStrength.score4": "Très fort",
+  "auth.passwordStrength.warning.commonPassword": "C'est un mot de passe très courant",
+  "auth.passwordStrength.warning.similarToCommon": "Cela ressemble à un mot de passe très utilisé",
+  "auth.passwordStrength.warning.commonWord": "Un seul mot est facile à deviner",
+  "auth.passwordStrength.warning.personalInfo": "Votre nom ou votre e-mail est facile à deviner",
+  "auth.passwordStrength.warning.keyboardPattern": "Les suites de touches comme azerty sont faciles à deviner",
+  "auth.passwordStrength.warning.sequence": "Les suites comme abc ou 1234 sont faciles à deviner",
+  "auth.passwordStrength.warning.repeat": "Les répétitions comme aaa ou abcabc sont faciles à deviner",
+  "auth.passwordStrength.warning.date": "Les dates et les années sont faciles à deviner",
+  "auth.passwordStrength.suggestion.addWords": "Ajoutez un ou deux mots, de préférence peu courants",
+  "auth.passwordStrength.suggestion.useFewWords": "Utilisez plusieurs mots et évitez les expressions courantes",
+  "auth.passwordStrength.suggestion.capitalization": "Les majuscules n'aident pas beaucoup",
+  "auth.passwordStrength.suggestion.reversedWords": "Les mots à l'envers ne sont guère plus difficiles à deviner",
+  "auth.passwordStrength.suggestion.predictableSubstitutions": "Les substitutions prévisibles comme @ pour a n'aident pas beaucoup",
+  "auth.passwordStrength.suggestion.avoidKeyboard": "Évitez les suites de touches du clavier",
+  "auth.passwordStrength.suggestion.avoidRepeats": "Évitez de répéter des mots et des caractères",
+  "auth.passwordStrength.suggestion.avoidSequences": "Évitez les suites",
+  "auth.passwordStrength.suggestion.avoidDates": "Évitez les dates et les années qui vous concernent",
+  "auth.passwordStrength.crackTime.instant": "Trouvé instantanément",
+  "auth.passwordStrength.crackTime.second": "Trouvé en 1 seconde",
+  "auth.passwordStrength.crackTime.seconds": "Trouvé en {{count}} secondes",
+  "auth.passwordStrength.crackTime.minute": "Trouvé en 1 minute",
+  "auth.passwordStrength.crackTime.minutes": "Trouvé en {{count}} minutes",
+  "auth.passwordStrength.crackTime.hour": "Trouvé en 1 heure",
+  "auth.passwordStrength.crackTime.hours": "Trouvé en {{count}} heures",
+  "auth.passwordStrength.crackTime.day": "Trouvé en 1 jour",
+  "auth.passwordStrength.crackTime.days": "Trouvé en {{count}} jours",
+  "auth.passwordStrength.crackTime.month": "Trouvé en 1 mois",
+  "auth.passwordStrength.crackTime.months": "Trouvé en {{count}} mois",
+  "auth.passwordStrength.crackTime.year": "Trouvé en 1 an",
+  "auth.passwordStrength.crackTime.years": "Trouvé en {{count}} ans",
+  "auth.passwordStrength.crackTime.centuries": "Des siècles pour le trouver",
+
+  // Validation
+  "auth.validation.emailRequired": "L'e-mail est obligatoire",
+  "auth.validation.invalidEmail": "Veuillez saisir une adresse e-mail valide",
+  "auth.validation.emailUnchanged": "Le nouvel e-mail est identique à l'actuel",
+  "auth.validation.passwordRequired": "Le mot de passe est obligatoire",
+  "auth.validation.passwordTooShort": "Le mot de passe est trop court",
+  "auth.validation.passwordTooLong": "Le mot de passe est trop long",
+  "auth.validation.passwordMissingUppercase": "Le mot de passe doit contenir une majuscule",
+  "auth.validation.passwordMissingLowercase": "Le mot de passe doit contenir une minuscule",
+  "auth.validation.passwordMissingDigit": "Le mot de passe doit contenir un chiffre",
+  "auth.validation.passwordMissingSymbol": "Le mot de passe doit contenir un symbole",
+  "auth.validation.passwordRepeatedChars": "Le mot de passe répète trop le même caractère",
+  "auth.validation.passwordSequence": "Le mot de passe contient une suite facile à deviner",
+  "auth.validation.passwordContainsPersonalInfo": "Le mot de passe ne doit contenir ni votre nom ni votre e-mail",
+  "auth.validation.passwordTooWeak": "Le mot de passe est trop facile à deviner",
+  "auth.validation.passwordRuleFailed": "Le mot de passe ne respecte pas les exigences",
+  "auth.validation.passwordUnchanged": "Le nouveau mot de passe doit être différent de l'actuel",
+  "auth.validation.confirmPasswordRequired": "Veuillez confirmer votre mot de passe",
+  "auth.validation.passwordsDoNotMatch": "Les mots de passe ne correspondent pas",
+  "auth.validation.nameRequired": "Le nom est obligatoire",
+  "auth.validation.nameTooShort": "Le nom est trop court",
+  "auth.validation.displayNameRequired": "Le nom est obligatoire",
+  "auth.validation.invalidPhotoURL": "Veuillez saisir une URL de photo valide",
+  "auth.validation.phoneRequired": "Le numéro de téléphone est obligatoire",
+  "auth.validation.invalidPhone": "Veuillez saisir un numéro de téléphone valide",
+  "auth.validation.otpRequired": "Le code de vérification est obligatoire",
+  "auth.validation.invalidOtp": "Veuillez saisir le code de vérification complet",
+
+  // Errors
+  "auth.errors.unknownError": "Une erreur s'est produite. Veuillez réessayer.",
+  "auth.errors.invalidEmail": "Veuillez saisir une adresse e-mail valide",
+  "auth.errors.weakPassword": "Le mot de passe est trop faible",
+  "auth.errors.userNotFound": "Aucun compte trouvé avec cet e-mail",
+  "auth.errors.wrongPassword": "Mot de passe incorrect",
+  "auth.errors.invalidCredential": "E-mail ou mot de passe incorrect",
+  "auth.errors.emailAlreadyInUse": "Un compte existe déjà avec cet e-mail",
+  "auth.errors.networkError": "Pas de connexion. Vérifiez votre connexion internet et réessayez.",
+  "auth.errors.configurationError": "La connexion n'est pas correctement configurée",
+  "auth.errors.authNotInitialized": "La connexion n'est pas disponible pour le moment",
+  "auth.errors.tooManyRequests": "Trop de tentatives. Veuillez réessayer plus tard.",
+  "auth.errors.userDisabled": "Ce compte a été désactivé",
+  "auth.errors.noUser": "Vous n'êtes pas connecté",
+  "auth.errors.invalidPhone": "Veuillez saisir un numéro de téléphone valide",
+  "auth.errors.invalidOtp": "Le code de vérification est incorrect",
+  "auth.errors.otpExpired": "Le code de vérification a expiré",
+  "auth.errors.passwordlessDisabled": "La connexion sans mot de passe n'est pas activée",
+  "auth.errors.linkInvalid": "Ce lien de connexion n'est pas valide",
+  "auth.errors.linkExpired": "Ce lien de connexion a expiré",
+  "auth.errors.linkEmailRequired": "Saisissez votre e-mail pour terminer la connexion",
+  "auth.errors.mfaRequired": "Saisissez votre code de vérification pour continuer",
+  "auth.errors.mfaUnavailable": "L'authentification à deux facteurs n'est pas disponible",
+  "auth.errors.mfaFactorNotFound": "Cette méthode de vérification est introuvable",
+  "auth.errors.mfaNoChallenge": "La vérification a expiré, veuillez vous reconnecter",
+  "auth.errors.mfaEnrollmentInvalid": "La configuration de la double authentification a échoué, veuillez recommencer",
+  "auth.errors.requiresRecentLogin": "Veuillez vous reconnecter pour continuer",
+  "auth.errors.credentialAlreadyInUse": "Ce compte est déjà associé à un autre utilisateur",
+  "auth.errors.providerAlreadyLinked": "Cette méthode de connexion est déjà associée",
+  "auth.errors.providerNotLinked": "Cette méthode de connexion n'est pas associée",
+  "auth.errors.lastProvider": "Vous ne pouvez pas supprimer votre seule méthode de connexion",
+  "auth.errors.sessionExpired": "Votre session a expiré, veuillez vous reconnecter",
+  "auth.errors.operationNotSupported": "Cette action n'est pas prise en charge",
+  "auth.errors.operationNotAllowed": "Cette méthode de connexion n'est pas activée",
+  "auth.errors.oidcCancelled": "La connexion a été annulée",
+  "auth.errors.oidcProviderError": "Le fournisseur de connexion a renvoyé une erreur",
+  "auth.errors.oidcInvalidResponse": "Le fournisseur de connexion a envoyé une réponse non valide",
+  "auth.errors.oidcProviderNotFound": "Ce fournisseur de connexion n'est pas configuré",
+  "auth.errors.appLockDisabled": "Le verrouillage de l'app n'est pas activé",
+  "auth.errors.appLockInvalidPin": "Veuillez saisir un code PIN valide",
+  "auth.errors.appLockWrongPin": "Code PIN incorrect",
+  "auth.errors.appLockLockedOut": "Trop de codes PIN incorrects, réessayez plus tard",
+  "auth.errors.appLockBiometricsUnavailable": "Le déverrouillage biométrique n'est pas disponible sur cet appareil",
+  "auth.errors.userMismatch": "Veuillez vous connecter avec le même compte",
+  "auth.errors.reauthCancelled": "La confirmation a été annulée",
+  "auth.errors.reauthUnavailable": "Votre connexion ne peut pas être confirmée sur cet appareil",
+  "auth.errors.validationError": "Veuillez vérifier votre saisie",
+  "auth.errors.invalidResponse": "Le serveur a envoyé une réponse non valide",
+};
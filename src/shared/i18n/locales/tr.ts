@@ -0,0 +1,196 @@
+/**
+ * Turkish Auth Translations
+ */
+
+import type { AuthTranslationBundle } from "../types/I18nTypes";
+
+export const tr: AuthTranslationBundle = {
+  // Login
+  "auth.login.title": "Tekrar Hoş Geldiniz",
+  "auth.login.subtitle": "Devam etmek için giriş yapın",
+  "auth.login.email": "E-posta",
+  "auth.login.emailPlaceholder": "ornek@eposta.com",
+  "auth.login.password": "Şifre",
+  "auth.login.passwordPlaceholder": "Şifrenizi girin",
+  "auth.login.signIn": "Giriş Yap",
+  "auth.login.dontHaveAccount": "Hesabınız yok mu?",
+  "auth.login.createAccount": "Hesap Oluştur",
+  "auth.login.forgotPassword": "Şifremi unuttum",
+  "auth.login.phoneSignIn": "Telefonla giriş yap",
+  "auth.login.magicLinkSignIn": "Bana giriş bağlantısı gönder",
+
+  // Register
+  "auth.register.title": "Hesap Oluştur",
+  "auth.register.subtitle": "Başlamak için kaydolun",
+  "auth.register.displayName": "Ad",
+  "auth.register.displayNamePlaceholder": "Adınız",
+  "auth.register.email": "E-posta",
+  "auth.register.emailPlaceholder": "ornek@eposta.com",
+  "auth.register.password": "Şifre",
+  "auth.register.passwordPlaceholder": "Bir şifre oluşturun",
+  "auth.register.confirmPassword": "Şifreyi Onayla",
+  "auth.register.confirmPasswordPlaceholder": "Şifrenizi tekrar girin",
+  "auth.register.signUp": "Kaydol",
+  "auth.register.alreadyHaveAccount": "Zaten hesabınız var mı?",
+  "auth.register.signIn": "Giriş Yap",
+  "auth.register.bySigningUp": "Kaydolarak şunları kabul etmiş olursunuz:",
+  "auth.register.termsOfService": "Kullanım Koşulları",
+  "auth.register.privacyPolicy": "Gizlilik Politikası",
+  "auth.register.passwordMinLength": "En az {{minLength}} karakter",
+  "auth.register.passwordMaxLength": "En fazla {{maxLength}} karakter",
+  "auth.register.passwordUppercase": "Bir büyük harf",
+  "auth.register.passwordLowercase": "Bir küçük harf",
+  "auth.register.passwordDigit": "Bir rakam",
+  "auth.register.passwordSymbol": "Bir sembol",
+  "auth.register.passwordNoRepeats": "Art arda en fazla {{maxRepeatedChars}} aynı karakter",
+  "auth.register.passwordNoSequences": "abc veya 123 gibi {{maxSequenceLength}} karakterden uzun diziler yok",
+  "auth.register.passwordNoPersonalInfo": "Adınızı veya e-postanızı içermiyor",
+  "auth.register.passwordMinScore": "Tahmin edilmesi zor",
+  "auth.register.passwordsMatch": "Şifreler eşleşiyor",
+  "auth.register.passwordsDoNotMatch": "Şifreler eşleşmiyor",
+
+  // Social sign-in
+  "auth.social.orContinueWith": "Veya şununla devam edin",
+  "auth.social.google": "Google",
+  "auth.social.apple": "Apple",
+
+  // Account
+  "auth.account.signIn": "Giriş Yap",
+  "auth.account.logout": "Çıkış Yap",
+  "auth.account.deleteAccount": "Hesabı Sil",
+  "auth.account.changePassword": "Şifreyi Değiştir",
+  "auth.account.changeEmail": "E-postayı Değiştir",
+  "auth.account.twoFactor": "İki Adımlı Doğrulama",
+  "auth.account.twoFactorOn": "Açık",
+  "auth.account.twoFactorOff": "Kapalı",
+  "auth.account.logoutConfirmTitle": "Çıkış Yap",
+  "auth.account.logoutConfirmMessage": "Çıkış yapmak istediğinizden emin misiniz?",
+  "auth.account.deleteConfirmTitle": "Hesabı Sil",
+  "auth.account.deleteConfirmMessage": "Hesabınız ve verileriniz kalıcı olarak silinecek. Bu işlem geri alınamaz.",
+  "auth.account.deleteErrorTitle": "Hata",
+  "auth.account.deleteErrorMessage": "Hesap silinemedi. Lütfen tekrar deneyin.",
+  "auth.account.cancel": "İptal",
+
+  // Password prompt
+  "auth.passwordPrompt.title": "Şifre Gerekli",
+  "auth.passwordPrompt.message": "Devam etmek için şifrenizi girin",
+  "auth.passwordPrompt.placeholder": "Şifre",
+  "auth.passwordPrompt.confirm": "Onayla",
+  "auth.passwordPrompt.cancel": "İptal",
+  "auth.passwordPrompt.required": "Şifre gerekli",
+
+  // Password strength
+  "auth.passwordStrength.score0": "Çok zayıf",
+  "auth.passwordStrength.score1": "Zayıf",
+  "auth.passwordStrength.score2": "Orta",
+  "auth.passwordStrength.score3": "Güçlü",
+  "auth.passwordStrength.score4": "Çok güçlü",
+  "auth.passwordStrength.warning.commonPassword": "Bu çok yaygın bir şifre",
+  "auth.passwordStrength.warning.similarToCommon": "Bu, yaygın kullanılan bir şifreye benziyor",
+  "auth.passwordStrength.warning.commonWord": "Tek bir kelime kolay tahmin edilir",
+  "auth.passwordStrength.warning.personalInfo": "Adınız veya e-postanız kolay tahmin edilir",
+  "auth.passwordStrength.warning.keyboardPattern": "qwerty gibi klavye dizileri kolay tahmin edilir",
+  "auth.passwordStrength.warning.sequence": "abc veya 1234 gibi diziler kolay tahmin edilir",
+  "auth.passwordStrength.warning.repeat": "aaa veya abcabc gibi tekrarlar kolay tahmin edilir",
+  "auth.passwordStrength.warning.date": "Tarihler ve yıllar kolay tahmin edilir",
+  "auth.passwordStrength.suggestion.addWords": "Bir iki kelime daha ekleyin, yaygın olmayan kelimeler daha iyidir",
+  "auth.passwordStrength.suggestion.useFewWords": "Birkaç kelime kullanın ve yaygın ifadelerden kaçının",
+  "auth.passwordStrength.suggestion.capitalization": "Büyük harf kullanmak pek işe yaramaz",
+  "auth.passwordStrength.suggestion.reversedWords": "Ters yazılmış kelimeleri tahmin etmek pek zor değildir",
+  "auth.passwordStrength.suggestion.predictableSubstitutions": "a yerine @ gibi tahmin edilebilir değişiklikler pek işe yaramaz",
+  "auth.passwordStrength.suggestion.avoidKeyboard": "Klavye dizilerinden kaçının",
+  "auth.passwordStrength.suggestion.avoidRepeats": "Tekrarlanan kelime ve karakterlerden kaçının",
+  "auth.passwordStrength.suggestion.avoidSequences": "Dizilerden kaçının",
+  "auth.passwordStrength.suggestion.avoidDates": "Sizinle ilişkili tarih ve yıllardan kaçının",
+  "auth.passwordStrength.crackTime.instant": "Anında kırılır",
+  "auth.passwordStrength.crackTime.second": "Kırılması 1 saniye sürer",
+  "auth.passwordStrength.crackTime.seconds": "Kırılması {{count}} saniye sürer",
+  "auth.passwordStrength.crackTime.minute": "Kırılması 1 dakika sürer",
+  "auth.passwordStrength.crackTime.minutes": "Kırılması {{count}} dakika sürer",
+  "auth.passwordStrength.crackTime.hour": "Kırılması 1 saat sürer",
+  "auth.passwordStrength.crackTime.hours": "Kırılması {{count}} saat sürer",
+  "auth.passwordStrength.crackTime.day": "Kırılması 1 gün sürer",
+  "auth.passwordStrength.crackTime.days": "Kırılması {{count}} gün sürer",
+  "auth.passwordStrength.crackTime.month": "Kırılması 1 ay sürer",
+  "auth.passwordStrength.crackTime.months": "Kırılması {{count}} ay sürer",
+  "auth.passwordStrength.crackTime.year": "Kırılması 1 yıl sürer",
+  "auth.passwordStrength.crackTime.years": "Kırılması {{count}} yıl sürer",
+  "auth.passwordStrength.crackTime.centuries": "Kırılması yüzyıllar sürer",
+
+  // Validation
+  "auth.validation.emailRequired": "E-posta gerekli",
+  "auth.validation.invalidEmail": "Lütfen geçerli bir e-posta adresi girin",
+  "auth.validation.emailUnchanged": "Yeni e-posta mevcut e-posta ile aynı",
+  "auth.validation.passwordRequired": "Şifre gerekli",
+  "auth.validation.passwordTooShort": "Şifre çok kısa",
+  "auth.validation.passwordTooLong": "Şifre çok uzun",
+  "auth.validation.passwordMissingUppercase": "Şifre bir büyük harf içermeli",
+  "auth.validation.passwordMissingLowercase": "Şifre bir küçük harf içermeli",
+  "auth.validation.passwordMissingDigit": "Şifre bir rakam içermeli",
+  "auth.validation.passwordMissingSymbol": "Şifre bir sembol içermeli",
+  "auth.validation.passwordRepeatedChars": "Şifre aynı karakteri çok fazla tekrar ediyor",
+  "auth.validation.passwordSequence": "Şifre kolay tahmin edilebilir bir dizi içeriyor",
+  "auth.validation.passwordContainsPersonalInfo": "Şifre adınızı veya e-postanızı içermemeli",
+  "auth.validation.passwordTooWeak": "Şifre çok kolay tahmin edilebilir",
+  "auth.validation.passwordRuleFailed": "Şifre gereksinimleri karşılamıyor",
+  "auth.validation.passwordUnchanged": "Yeni şifre mevcut şifreden farklı olmalı",
+  "auth.validation.confirmPasswordRequired": "Lütfen şifrenizi onaylayın",
+  "auth.validation.passwordsDoNotMatch": "Şifreler eşleşmiyor",
+  "auth.validation.nameRequired": "Ad gerekli",
+  "auth.validation.nameTooShort": "Ad çok kısa",
+  "auth.validation.displayNameRequired": "Ad gerekli",
+  "auth.validation.invalidPhotoURL": "Lütfen geçerli bir fotoğraf bağlantısı girin",
+  "auth.validation.phoneRequired": "Telefon numarası gerekli",
+  "auth.validation.invalidPhone": "Lütfen geçerli bir telefon numarası girin",
+  "auth.validation.otpRequired": "Doğrulama kodu gerekli",
+  "auth.validation.invalidOtp": "Lütfen doğrulama kodunun tamamını girin",
+
+  // Errors
+  "auth.errors.unknownError": "Bir şeyler ters gitti. Lütfen tekrar deneyin.",
+  "auth.errors.invalidEmail": "Lütfen geçerli bir e-posta adresi girin",
+  "auth.errors.weakPassword": "Şifre çok zayıf",
+  "auth.errors.userNotFound": "Bu e-posta ile kayıtlı hesap bulunamadı",
+  "auth.errors.wrongPassword": "Şifre yanlış",
+  "auth.errors.invalidCredential": "E-posta veya şifre yanlış",
+  "auth.errors.emailAlreadyInUse": "Bu e-posta ile kayıtlı bir hesap zaten var",
+  "auth.errors.networkError": "Bağlantı yok. İnternetinizi kontrol edip tekrar deneyin.",
+  "auth.errors.configurationError": "Giriş doğru yapılandırılmamış",
+  "auth.errors.authNotInitialized": "Giriş şu anda kullanılamıyor",
+  "auth.errors.tooManyRequests": "Çok fazla deneme yapıldı. Lütfen daha sonra tekrar deneyin.",
+  "auth.errors.userDisabled": "Bu hesap devre dışı bırakıldı",
+  "auth.errors.noUser": "Giriş yapmadınız",
+  "auth.errors.invalidPhone": "Lütfen geçerli bir telefon numarası girin",
+  "auth.errors.invalidOtp": "Doğrulama kodu yanlış",
+  "auth.errors.otpExpired": "Doğrulama kodunun süresi doldu",
+  "auth.errors.passwordlessDisabled": "Şifresiz giriş etkin değil",
+  "auth.errors.linkInvalid": "Bu giriş bağlantısı geçersiz",
+  "auth.errors.linkExpired": "Bu giriş bağlantısının süresi doldu",
+  "auth.errors.linkEmailRequired": "Girişi tamamlamak için e-postanızı girin",
+  "auth.errors.mfaRequired": "Devam etmek için doğrulama kodunuzu girin",
+  "auth.errors.mfaUnavailable": "İki adımlı doğrulama kullanılamıyor",
+  "auth.errors.mfaFactorNotFound": "Bu doğrulama yöntemi bulunamadı",
+  "auth.errors.mfaNoChallenge": "Doğrulamanın süresi doldu, lütfen tekrar giriş yapın",
+  "auth.errors.mfaEnrollmentInvalid": "İki adımlı doğrulama kurulumu başarısız oldu, lütfen baştan başlayın",
+  "auth.errors.requiresRecentLogin": "Devam etmek için lütfen tekrar giriş yapın",
+  "auth.errors.credentialAlreadyInUse": "Bu hesap başka bir kullanıcıya bağlı",
+  "auth.errors.providerAlreadyLinked": "Bu giriş yöntemi zaten bağlı",
+  "auth.errors.providerNotLinked": "Bu giriş yöntemi bağlı değil",
+  "auth.errors.lastProvider": "Tek giriş yönteminizi kaldıramazsınız",
+  "auth.errors.sessionExpired": "Oturumunuzun süresi doldu, lütfen tekrar giriş yapın",
+  "auth.errors.operationNotSupported": "Bu işlem desteklenmiyor",
+  "auth.errors.operationNotAllowed": "Bu giriş yöntemi etkin değil",
+  "auth.errors.oidcCancelled": "Giriş iptal edildi",
+  "auth.errors.oidcProviderError": "Giriş sağlayıcısı bir hata döndürdü",
+  "auth.errors.oidcInvalidResponse": "Giriş sağlayıcısı geçersiz bir yanıt gönderdi",
+  "auth.errors.oidcProviderNotFound": "Bu giriş sağlayıcısı yapılandırılmamış",
+  "auth.errors.appLockDisabled": "Uygulama kilidi etkin değil",
+  "auth.errors.appLockInvalidPin": "Lütfen geçerli bir PIN girin",
+  "auth.errors.appLockWrongPin": "PIN yanlış",
+  "auth.errors.appLockLockedOut": "Çok fazla yanlış PIN girildi, daha sonra tekrar deneyin",
+  "auth.errors.appLockBiometricsUnavailable": "Bu cihazda biyometrik kilit açma kullanılamıyor",
+  "auth.errors.userMismatch": "Lütfen aynı hesapla giriş yapın",
+  "auth.errors.reauthCancelled": "Doğrulama iptal edildi",
+  "auth.errors.reauthUnavailable": "Girişiniz bu cihazda doğrulanamıyor",
+  "auth.errors.validationError": "Lütfen girdiğiniz bilgileri kontrol edin",
+  "auth.errors.invalidResponse": "Sunucu geçersiz bir yanıt gönderdi",
+};
@@ -0,0 +1,23 @@
+/**
+ * I18n Types
+ * Translation key catalog and bundle shapes for the built-in auth translations
+ */
+
+import type { en } from '../locales/en';
+
+/**
+ * Every key the package translates, e.g. 'auth.login.title' or 'auth.errors.wrongPassword'
+ */
+export type AuthTranslationKey = keyof typeof en;
+
+export type AuthTranslationBundle = Record<AuthTranslationKey, string>;
+
+/**
+ * Locales with a built-in bundle
+ */
+export type AuthLocale = 'en' | 'tr' | 'de' | 'es' | 'fr';
+
+/**
+ * Per-key overrides on top of a bundle
+ */
+export type AuthTranslationOverrides = Partial<AuthTranslationBundle>;
@@ -0,0 +1,10 @@
+/**
+ * I18n Types Public API
+ */
+
+export type {
+  AuthTranslationKey,
+  AuthTranslationBundle,
+  AuthLocale,
+  AuthTranslationOverrides,
+} from './I18nTypes';
@@ -0,0 +1,193 @@
+/**
+ * Password Policy
+ * Evaluates a password against every requirement of a PasswordConfig
+ */
+
+import type {
+  PasswordConfig,
+  PasswordPolicyContext,
+} from '../../../domain/value-objects/AuthConfig';
+import type { PasswordRequirementCheck } from '../types';
+import { estimatePasswordStrength } from '../strength/PasswordStrengthEstimator';
+
+const PERSONAL_INFO_MIN_LENGTH = 3;
+
+function longestRepeatedRun(password: string): number {
+  let longest = 0;
+  let run = 0;
+  for (let i = 0; i < password.length; i++) {
+    run = i > 0 && password[i] === password[i - 1] ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+  return longest;
+}
+
+function charClass(char: string): 'letter' | 'digit' | null {
+  if (/[a-z]/.test(char)) return 'letter';
+  if (/[0-9]/.test(char)) return 'digit';
+  return null;
+}
+
+/**
+ * Longest run of consecutive letters or digits, ascending ("abc", "123") or descending ("cba", "321")
+ */
+function longestSequence(password: string): number {
+  const chars = password.toLowerCase();
+  let longest = Math.min(chars.length, 1);
+  let run = 1;
+  let step = 0;
+
+  for (let i = 1; i < chars.length; i++) {
+    const kind = charClass(chars[i]);
+    const diff = chars.charCodeAt(i) - chars.charCodeAt(i - 1);
+
+    if (kind && kind === charClass(chars[i - 1]) && (diff === 1 || diff === -1)) {
+      run = diff === step ? run + 1 : 2;
+      step = diff;
+    } else {
+      run = 1;
+      step = 0;
+    }
+    longest = Math.max(longest, run);
+  }
+  return longest;
+}
+
+function getPersonalInfoParts(context: PasswordPolicyContext): string[] {
+  const emailName = context.email?.split('@')[0] ?? '';
+  const parts = [...emailName.split(/[._+-]/), ...(context.displayName ?? '').split(/\s+/)];
+  return parts
+    .map((part) => part.trim().toLowerCase())
+    .filter((part) => part.length >= PERSONAL_INFO_MIN_LENGTH);
+}
+
+/**
+ * Check every requirement the config enables, in a stable order: length,
+ * character classes, patterns, personal info, estimated strength, then custom rules
+ * @param password - Password to check, not trimmed
+ * @param config - Password policy
+ * @param context - Email and name the password must not contain
+ * @returns One check per requirement
+ */
+export function evaluatePasswordPolicy(
+  password: string,
+  config: PasswordConfig,
+  context: PasswordPolicyContext = {}
+): PasswordRequirementCheck[] {
+  const checks: PasswordRequirementCheck[] = [
+    {
+      id: 'minLength',
+      label: 'auth.register.passwordMinLength',
+      params: { minLength: config.minLength },
+      error: 'auth.validation.passwordTooShort',
+      isValid: password.length >= config.minLength,
+    },
+  ];
+
+  if (config.maxLength !== undefined) {
+    checks.push({
+      id: 'maxLength',
+      label: 'auth.register.passwordMaxLength',
+      params: { maxLength: config.maxLength },
+      error: 'auth.validation.passwordTooLong',
+      isValid: password.length <= config.maxLength,
+    });
+  }
+
+  if (config.requireUppercase) {
+    checks.push({
+      id: 'uppercase',
+      label: 'auth.register.passwordUppercase',
+      error: 'auth.validation.passwordMissingUppercase',
+      isValid: /\p{Lu}/u.test(password),
+    });
+  }
+
+  if (config.requireLowercase) {
+    checks.push({
+      id: 'lowercase',
+      label: 'auth.register.passwordLowercase',
+      error: 'auth.validation.passwordMissingLowercase',
+      isValid: /\p{Ll}/u.test(password),
+    });
+  }
+
+  if (config.requireDigit) {
+    checks.push({
+      id: 'digit',
+      label: 'auth.register.passwordDigit',
+      error: 'auth.validation.passwordMissingDigit',
+      isValid: /\p{Nd}/u.test(password),
+    });
+  }
+
+  if (config.requireSymbol) {
+    checks.push({
+      id: 'symbol',
+      label: 'auth.register.passwordSymbol',
+      error: 'auth.validation.passwordMissingSymbol',
+      isValid: /[^\p{L}\p{N}]/u.test(password),
+    });
+  }
+
+  if (config.maxRepeatedChars !== undefined) {
+    checks.push({
+      id: 'noRepeats',
+      label: 'auth.register.passwordNoRepeats',
+      params: { maxRepeatedChars: config.maxRepeatedChars },
+      error: 'auth.validation.passwordRepeatedChars',
+      isValid: password.length > 0 && longestRepeatedRun(password) <= config.maxRepeatedChars,
+    });
+  }
+
+  if (config.maxSequenceLength !== undefined) {
+    checks.push({
+      id: 'noSequences',
+      label: 'auth.register.passwordNoSequences',
+      params: { maxSequenceLength: config.maxSequenceLength },
+      error: 'auth.validation.passwordSequence',
+      isValid: password.length > 0 && longestSequence(password) <= config.maxSequenceLength,
+    });
+  }
+
+  if (config.disallowPersonalInfo) {
+    const lowered = password.toLowerCase();
+    checks.push({
+      id: 'noPersonalInfo',
+      label: 'auth.register.passwordNoPersonalInfo',
+      error: 'auth.validation.passwordContainsPersonalInfo',
+      isValid:
+        password.length > 0 && !getPersonalInfoParts(context).some((part) => lowered.includes(part)),
+    });
+  }
+
+  if (config.minScore !== undefined) {
+    checks.push({
+      id: 'minScore',
+      label: 'auth.register.passwordMinScore',
+      error: 'auth.validation.passwordTooWeak',
+      isValid: password.length > 0 && estimatePasswordStrength(password, context).score >= config.minScore,
+    });
+  }
+
+  for (const rule of config.customRules ?? []) {
+    checks.push({
+      id: rule.id,
+      label: rule.label,
+      error: rule.error ?? 'auth.validation.passwordRuleFailed',
+      isValid: password.length > 0 && rule.test(password, context),
+      custom: true,
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * First failing check, whose error describes why the password is rejected
+ */
+export function getFailedPasswordCheck(
+  checks: PasswordRequirementCheck[]
+): PasswordRequirementCheck | undefined {
+  return checks.find((check) => !check.isValid);
+}
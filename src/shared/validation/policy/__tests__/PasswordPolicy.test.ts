@@ -0,0 +1,214 @@
+import { evaluatePasswordPolicy, getFailedPasswordCheck } from '../PasswordPolicy';
+import type { PasswordConfig, PasswordPolicyContext } from '../../../../domain/value-objects/AuthConfig';
+
+const BASE_CONFIG: PasswordConfig = { minLength: 1 };
+
+function checkFor(id: string, password: string, config: Partial<PasswordConfig>, context?: PasswordPolicyContext) {
+  const check = evaluatePasswordPolicy(password, { ...BASE_CONFIG, ...config }, context).find(
+    (candidate) => candidate.id === id
+  );
+  if (!check) throw new Error(`No "${id}" check`);
+  return check;
+}
+
+describe('evaluatePasswordPolicy', () => {
+  it.each<{
+    id: string;
+    config: Partial<PasswordConfig>;
+    passing: string;
+    failing: string;
+    label: string;
+    error: string;
+    params?: Record<string, number>;
+  }>([
+    {
+      id: 'minLength',
+      config: { minLength: 8 },
+      passing: 'longenough',
+      failing: 'short',
+      label: 'auth.register.passwordMinLength',
+      error: 'auth.validation.passwordTooShort',
+      params: { minLength: 8 },
+    },
+    {
+      id: 'maxLength',
+      config: { maxLength: 8 },
+      passing: 'fits',
+      failing: 'much too long',
+      label: 'auth.register.passwordMaxLength',
+      error: 'auth.validation.passwordTooLong',
+      params: { maxLength: 8 },
+    },
+    {
+      id: 'uppercase',
+      config: { requireUppercase: true },
+      passing: 'Ärger',
+      failing: 'lowercase',
+      label: 'auth.register.passwordUppercase',
+      error: 'auth.validation.passwordMissingUppercase',
+    },
+    {
+      id: 'lowercase',
+      config: { requireLowercase: true },
+      passing: 'UPPERß',
+      failing: 'UPPER',
+      label: 'auth.register.passwordLowercase',
+      error: 'auth.validation.passwordMissingLowercase',
+    },
+    {
+      id: 'digit',
+      config: { requireDigit: true },
+      passing: 'abc1',
+      failing: 'abc',
+      label: 'auth.register.passwordDigit',
+      error: 'auth.validation.passwordMissingDigit',
+    },
+    {
+      id: 'symbol',
+      config: { requireSymbol: true },
+      passing: 'abc 1',
+      failing: 'abc1',
+      label: 'auth.register.passwordSymbol',
+      error: 'auth.validation.passwordMissingSymbol',
+    },
+    {
+      id: 'noRepeats',
+      config: { maxRepeatedChars: 2 },
+      passing: 'aabbaa',
+      failing: 'abaaab',
+      label: 'auth.register.passwordNoRepeats',
+      error: 'auth.validation.passwordRepeatedChars',
+      params: { maxRepeatedChars: 2 },
+    },
+    {
+      id: 'noSequences',
+      config: { maxSequenceLength: 3 },
+      passing: 'abc-321',
+      failing: 'xAbCd',
+      label: 'auth.register.passwordNoSequences',
+      error: 'auth.validation.passwordSequence',
+      params: { maxSequenceLength: 3 },
+    },
+  ])('checks $id', ({ id, config, passing, failing, label, error, params }) => {
+    const expected = params ? { id, label, error, params } : { id, label, error };
+
+    expect(checkFor(id, passing, config)).toEqual({ ...expected, isValid: true });
+    expect(checkFor(id, failing, config)).toEqual({ ...expected, isValid: false });
+  });
+
+  it('only adds the checks the config enables', () => {
+    expect(evaluatePasswordPolicy('secret', { minLength: 6 }).map((check) => check.id)).toEqual(['minLength']);
+  });
+
+  it('keeps a stable order', () => {
+    const checks = evaluatePasswordPolicy('secret', {
+      minLength: 6,
+      maxLength: 64,
+      requireUppercase: true,
+      requireLowercase: true,
+      requireDigit: true,
+      requireSymbol: true,
+      maxRepeatedChars: 2,
+      maxSequenceLength: 3,
+      disallowPersonalInfo: true,
+      minScore: 2,
+      customRules: [{ id: 'custom', label: 'Custom', test: () => true }],
+    });
+
+    expect(checks.map((check) => check.id)).toEqual([
+      'minLength', 'maxLength', 'uppercase', 'lowercase', 'digit', 'symbol',
+      'noRepeats', 'noSequences', 'noPersonalInfo', 'minScore', 'custom',
+    ]);
+  });
+
+  it('finds descending digit runs and ignores runs that change direction', () => {
+    expect(checkFor('noSequences', 'pin4321', { maxSequenceLength: 3 }).isValid).toBe(false);
+    expect(checkFor('noSequences', 'abcba', { maxSequenceLength: 3 }).isValid).toBe(true);
+  });
+
+  describe('noPersonalInfo', () => {
+    const context = { email: 'jane.doe+shop@example.com', displayName: 'Jane Marie Doe' };
+    const config = { disallowPersonalInfo: true };
+
+    it('labels the requirement', () => {
+      expect(checkFor('noPersonalInfo', 'unrelated', config, context)).toEqual({
+        id: 'noPersonalInfo',
+        label: 'auth.register.passwordNoPersonalInfo',
+        error: 'auth.validation.passwordContainsPersonalInfo',
+        isValid: true,
+      });
+    });
+
+    it.each(['JANE2024', 'mydoe!', 'shopping', 'mariemarie'])('rejects %s, which contains a name or email part', (password) => {
+      expect(checkFor('noPersonalInfo', password, config, context).isValid).toBe(false);
+    });
+
+    it('ignores parts shorter than 3 characters', () => {
+      const shortName = { email: 'al@example.com', displayName: 'Al Bo' };
+      expect(checkFor('noPersonalInfo', 'al-bo-password', config, shortName).isValid).toBe(true);
+    });
+
+    it('passes without context', () => {
+      expect(checkFor('noPersonalInfo', 'jane', config).isValid).toBe(true);
+    });
+  });
+
+  describe('custom rules', () => {
+    const noCompanyName = {
+      id: 'noCompanyName',
+      label: 'Must not contain the company name',
+      test: (password: string) => !password.toLowerCase().includes('acme'),
+    };
+
+    it('uses the rule\'s label and the default error', () => {
+      const config = { customRules: [noCompanyName] };
+
+      expect(checkFor('noCompanyName', 'rocket', config)).toEqual({
+        id: 'noCompanyName',
+        label: 'Must not contain the company name',
+        error: 'auth.validation.passwordRuleFailed',
+        isValid: true,
+        custom: true,
+      });
+      expect(checkFor('noCompanyName', 'AcmeRocket', config).isValid).toBe(false);
+    });
+
+    it('uses the rule\'s own error and passes the context', () => {
+      const test = jest.fn(() => false);
+      const context = { email: 'jane@example.com' };
+      const config = { customRules: [{ ...noCompanyName, error: 'app.validation.companyName', test }] };
+
+      expect(checkFor('noCompanyName', 'rocket', config, context).error).toBe('app.validation.companyName');
+      expect(test).toHaveBeenCalledWith('rocket', context);
+    });
+  });
+
+  it('fails the pattern, personal info, strength and custom checks for an empty password', () => {
+    const checks = evaluatePasswordPolicy('', {
+      minLength: 0,
+      maxRepeatedChars: 2,
+      maxSequenceLength: 3,
+      disallowPersonalInfo: true,
+      minScore: 0,
+      customRules: [{ id: 'anything', label: 'Anything', test: () => true }],
+    });
+
+    expect(checks.filter((check) => !check.isValid).map((check) => check.id)).toEqual([
+      'noRepeats', 'noSequences', 'noPersonalInfo', 'minScore', 'anything',
+    ]);
+  });
+});
+
+describe('getFailedPasswordCheck', () => {
+  it('returns the first failing check', () => {
+    const checks = evaluatePasswordPolicy('short', { minLength: 8, requireDigit: true });
+
+    expect(getFailedPasswordCheck(checks)?.id).toBe('minLength');
+  });
+
+  it('returns undefined when every requirement is met', () => {
+    const checks = evaluatePasswordPolicy('longenough1', { minLength: 8, requireDigit: true });
+
+    expect(getFailedPasswordCheck(checks)).toBeUndefined();
+  });
+});
@@ -0,0 +1,5 @@
+/**
+ * Password Policy Public API
+ */
+
+export { evaluatePasswordPolicy, getFailedPasswordCheck } from './PasswordPolicy';
@@ -0,0 +1,39 @@
+/**
+ * Phone Sanitizer
+ * Normalizes phone number input towards E.164 (+<country><number>)
+ */
+
+export class PhoneSanitizer {
+  /**
+   * Sanitize phone input
+   * Strips formatting characters, converts a leading 00 to +, and prefixes
+   * the default country calling code for national numbers
+   * @param phone - Raw phone input
+   * @param defaultCountryCode - Calling code without "+" (e.g. "90"), used when input has no "+"
+   */
+  static sanitize(phone: string | null | undefined, defaultCountryCode?: string): string {
+    if (!phone) return '';
+
+    const trimmed = phone.trim();
+    const hasPlus = trimmed.startsWith('+');
+    let digits = trimmed.replace(/\D/g, '');
+
+    if (hasPlus) return `+${digits}`;
+    if (digits.startsWith('00')) return `+${digits.slice(2)}`;
+
+    if (defaultCountryCode && digits) {
+      // Drop the national trunk prefix (e.g. 0532... -> 532...)
+      digits = digits.replace(/^0+/, '');
+      return `+${defaultCountryCode.replace(/\D/g, '')}${digits}`;
+    }
+
+    return digits;
+  }
+
+  /**
+   * Check if phone is empty
+   */
+  static isEmpty(phone: string | null | undefined): boolean {
+    return !phone || phone.trim() === '';
+  }
+}
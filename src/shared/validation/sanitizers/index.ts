@@ -5,3 +5,4 @@
 export { EmailSanitizer } from './EmailSanitizer';
 export { PasswordSanitizer } from './PasswordSanitizer';
 export { NameSanitizer } from './NameSanitizer';
+export { PhoneSanitizer } from './PhoneSanitizer';
@@ -0,0 +1,235 @@
+/**
+ * Password Strength Estimator
+ * Estimates how many guesses an attacker needs, knowing common passwords,
+ * words, keyboard walks, sequences, repeats, dates and l33t spellings
+ *
+ * Usage:
+ * ```ts
+ * const { score, feedback } = estimatePasswordStrength('Password1!');
+ * // score 1, feedback.warning 'auth.passwordStrength.warning.similarToCommon'
+ * ```
+ */
+
+import type {
+  PasswordPolicyContext,
+  PasswordStrengthScore,
+} from '../../../domain/value-objects/AuthConfig';
+import type { PasswordStrengthEstimate, PasswordStrengthMatch } from '../types';
+import { getRankedPasswords, getRankedUserInputs, getRankedWords } from './dictionaries';
+import {
+  dateMatches,
+  dictionaryMatches,
+  repeatMatches,
+  sequenceMatches,
+  spatialMatches,
+  type RankedDictionaries,
+} from './patternMatchers';
+
+/** Keeps the estimate cheap; anything past this is not needed to reach score 4 */
+const MAX_ANALYZED_LENGTH = 100;
+const MIN_SINGLE_CHAR_GUESSES = 10;
+const MIN_MULTI_CHAR_GUESSES = 50;
+const OFFLINE_SLOW_HASH_GUESSES_PER_SECOND = 1e4;
+
+/** Upper bounds of log10(guesses) for scores 0-3 */
+const SCORE_THRESHOLDS = [3, 6, 8, 10];
+
+const CENTURY_SECONDS = 100 * 365 * 24 * 3600;
+const CRACK_TIME_UNITS: [unit: string, seconds: number][] = [
+  ['year', 365 * 24 * 3600],
+  ['month', 31 * 24 * 3600],
+  ['day', 24 * 3600],
+  ['hour', 3600],
+  ['minute', 60],
+  ['second', 1],
+];
+
+function bruteforceCardinality(password: string): number {
+  let cardinality = 0;
+  if (/[a-z]/.test(password)) cardinality += 26;
+  if (/[A-Z]/.test(password)) cardinality += 26;
+  if (/[0-9]/.test(password)) cardinality += 10;
+  if (/[^a-zA-Z0-9]/.test(password)) cardinality += 33;
+  return Math.max(cardinality, 10);
+}
+
+function findMatches(password: string, dictionaries: RankedDictionaries): PasswordStrengthMatch[] {
+  return [
+    ...dictionaryMatches(password, dictionaries),
+    ...spatialMatches(password),
+    ...sequenceMatches(password),
+    ...repeatMatches(password, (base) => 10 ** cheapestSequence(base, dictionaries).guessesLog10),
+    ...dateMatches(password),
+  ];
+}
+
+/**
+ * Cover the password left to right with the matches (or brute-forced
+ * characters) that multiply to the fewest guesses
+ */
+function cheapestSequence(
+  password: string,
+  dictionaries: RankedDictionaries
+): { guessesLog10: number; sequence: PasswordStrengthMatch[] } {
+  const cardinality = bruteforceCardinality(password);
+  const charLog10 = Math.log10(cardinality);
+  const matchesByEnd = new Map<number, PasswordStrengthMatch[]>();
+
+  findMatches(password, dictionaries).forEach((match) => {
+    const minimum = match.token.length === 1 ? MIN_SINGLE_CHAR_GUESSES : MIN_MULTI_CHAR_GUESSES;
+    const priced = { ...match, guesses: Math.max(match.guesses, minimum) };
+    matchesByEnd.set(match.j, [...(matchesByEnd.get(match.j) ?? []), priced]);
+  });
+
+  // best[k]: cheapest cover of password.slice(0, k)
+  const best: { log10: number; match: PasswordStrengthMatch | null }[] = [{ log10: 0, match: null }];
+  for (let k = 1; k <= password.length; k++) {
+    best[k] = { log10: best[k - 1].log10 + charLog10, match: null };
+    (matchesByEnd.get(k - 1) ?? []).forEach((match) => {
+      const log10 = best[match.i].log10 + Math.log10(match.guesses);
+      if (log10 < best[k].log10) best[k] = { log10, match };
+    });
+  }
+
+  // Walk back, merging adjacent brute-forced characters into one token
+  const sequence: PasswordStrengthMatch[] = [];
+  let k = password.length;
+  while (k > 0) {
+    const { match } = best[k];
+    if (match) {
+      sequence.unshift(match);
+      k = match.i;
+      continue;
+    }
+
+    let start = k - 1;
+    while (start > 0 && !best[start].match) start--;
+    const token = password.slice(start, k);
+    sequence.unshift({
+      pattern: 'bruteforce',
+      token,
+      i: start,
+      j: k - 1,
+      guesses: cardinality ** token.length,
+    });
+    k = start;
+  }
+
+  return { guessesLog10: best[password.length].log10, sequence };
+}
+
+function toScore(guessesLog10: number): PasswordStrengthScore {
+  const score = SCORE_THRESHOLDS.findIndex((threshold) => guessesLog10 < threshold);
+  return (score === -1 ? 4 : score) as PasswordStrengthScore;
+}
+
+function toCrackTime(seconds: number): PasswordStrengthEstimate['crackTime'] {
+  if (seconds < 1) return { key: 'auth.passwordStrength.crackTime.instant' };
+  if (seconds >= CENTURY_SECONDS) return { key: 'auth.passwordStrength.crackTime.centuries' };
+
+  const [unit, unitSeconds] =
+    CRACK_TIME_UNITS.find(([, size]) => seconds >= size) ?? CRACK_TIME_UNITS[CRACK_TIME_UNITS.length - 1];
+  const count = Math.round(seconds / unitSeconds);
+  return count === 1
+    ? { key: `auth.passwordStrength.crackTime.${unit}` }
+    : { key: `auth.passwordStrength.crackTime.${unit}s`, params: { count } };
+}
+
+function dictionaryFeedback(match: PasswordStrengthMatch, isSoleMatch: boolean): PasswordStrengthEstimate['feedback'] {
+  const suggestions = ['auth.passwordStrength.suggestion.addWords'];
+  if (/^[A-Z][^A-Z]+$/.test(match.token) || /^[^a-z]+$/.test(match.token)) {
+    suggestions.push('auth.passwordStrength.suggestion.capitalization');
+  }
+  if (match.reversed) suggestions.push('auth.passwordStrength.suggestion.reversedWords');
+  if (match.l33t) suggestions.push('auth.passwordStrength.suggestion.predictableSubstitutions');
+
+  let warning: string | undefined;
+  if (match.dictionary === 'userInputs') {
+    warning = 'auth.passwordStrength.warning.personalInfo';
+  } else if (match.dictionary === 'passwords') {
+    warning = isSoleMatch && !match.l33t && !match.reversed
+      ? 'auth.passwordStrength.warning.commonPassword'
+      : 'auth.passwordStrength.warning.similarToCommon';
+  } else if (isSoleMatch) {
+    warning = 'auth.passwordStrength.warning.commonWord';
+  }
+  return { warning, suggestions };
+}
+
+function getFeedback(
+  score: PasswordStrengthScore,
+  sequence: PasswordStrengthMatch[]
+): PasswordStrengthEstimate['feedback'] {
+  if (sequence.length === 0) {
+    return { suggestions: ['auth.passwordStrength.suggestion.useFewWords'] };
+  }
+  if (score > 2) return { suggestions: [] };
+
+  // The longest guessable part says most about why the password is weak
+  const longest = sequence
+    .filter((match) => match.pattern !== 'bruteforce')
+    .reduce<PasswordStrengthMatch | null>((found, match) =>
+      !found || match.token.length > found.token.length ? match : found, null);
+
+  if (!longest) {
+    return { suggestions: ['auth.passwordStrength.suggestion.addWords'] };
+  }
+
+  switch (longest.pattern) {
+    case 'dictionary':
+      return dictionaryFeedback(longest, sequence.length === 1);
+    case 'spatial':
+      return {
+        warning: 'auth.passwordStrength.warning.keyboardPattern',
+        suggestions: ['auth.passwordStrength.suggestion.addWords', 'auth.passwordStrength.suggestion.avoidKeyboard'],
+      };
+    case 'repeat':
+      return {
+        warning: 'auth.passwordStrength.warning.repeat',
+        suggestions: ['auth.passwordStrength.suggestion.addWords', 'auth.passwordStrength.suggestion.avoidRepeats'],
+      };
+    case 'sequence':
+      return {
+        warning: 'auth.passwordStrength.warning.sequence',
+        suggestions: ['auth.passwordStrength.suggestion.addWords', 'auth.passwordStrength.suggestion.avoidSequences'],
+      };
+    default:
+      return {
+        warning: 'auth.passwordStrength.warning.date',
+        suggestions: ['auth.passwordStrength.suggestion.addWords', 'auth.passwordStrength.suggestion.avoidDates'],
+      };
+  }
+}
+
+/**
+ * Estimate how hard a password is to guess
+ * @param password - Password to check, not trimmed
+ * @param context - Email and name, guessed first by an attacker who targets the user
+ * @returns 0-4 score, guesses, crack time and feedback translation keys
+ */
+export function estimatePasswordStrength(
+  password: string,
+  context: PasswordPolicyContext = {}
+): PasswordStrengthEstimate {
+  const dictionaries: RankedDictionaries = {
+    passwords: getRankedPasswords(),
+    words: getRankedWords(),
+    userInputs: getRankedUserInputs([context.email, context.displayName]),
+  };
+
+  const { guessesLog10, sequence } = cheapestSequence(password.slice(0, MAX_ANALYZED_LENGTH), dictionaries);
+
+  const score = toScore(guessesLog10);
+  const guesses = 10 ** guessesLog10;
+  const crackTimeSeconds = guesses / OFFLINE_SLOW_HASH_GUESSES_PER_SECOND;
+
+  return {
+    score,
+    guesses,
+    guessesLog10,
+    crackTimeSeconds,
+    crackTime: toCrackTime(crackTimeSeconds),
+    feedback: getFeedback(score, sequence),
+    sequence,
+  };
+}
@@ -0,0 +1,78 @@
+import { estimatePasswordStrength } from '../PasswordStrengthEstimator';
+import { validatePasswordForRegister } from '../../../../infrastructure/utils/AuthValidation';
+
+const STRONG_PASSPHRASE = 'correct horse battery staple';
+
+describe('estimatePasswordStrength', () => {
+  it('scores a capitalized common password with a suffix as weak', () => {
+    const estimate = estimatePasswordStrength('Password1!');
+
+    expect(estimate.score).toBeLessThanOrEqual(1);
+    expect(estimate.feedback.warning).toBe('auth.passwordStrength.warning.similarToCommon');
+  });
+
+  it('recognizes a keyboard walk', () => {
+    const estimate = estimatePasswordStrength('asdfghjkl;');
+
+    expect(estimate.score).toBeLessThanOrEqual(1);
+    expect(estimate.sequence).toEqual([expect.objectContaining({ pattern: 'spatial', token: 'asdfghjkl;' })]);
+    expect(estimate.feedback.warning).toBe('auth.passwordStrength.warning.keyboardPattern');
+    expect(estimate.feedback.suggestions).toContain('auth.passwordStrength.suggestion.avoidKeyboard');
+  });
+
+  it.each(['19/07/1995', '1995-07-19'])('recognizes the date %s', (password) => {
+    const estimate = estimatePasswordStrength(password);
+
+    expect(estimate.score).toBeLessThanOrEqual(1);
+    expect(estimate.sequence).toEqual([expect.objectContaining({ pattern: 'date', token: password })]);
+    expect(estimate.feedback.warning).toBe('auth.passwordStrength.warning.date');
+  });
+
+  it.each(['aaaaaaaaaa', 'abcabcabcabc'])('recognizes the repeat %s', (password) => {
+    const estimate = estimatePasswordStrength(password);
+
+    expect(estimate.score).toBe(0);
+    expect(estimate.sequence).toEqual([expect.objectContaining({ pattern: 'repeat', token: password })]);
+    expect(estimate.feedback.warning).toBe('auth.passwordStrength.warning.repeat');
+  });
+
+  it('sees through l33t substitutions', () => {
+    const estimate = estimatePasswordStrength('p@ssw0rd');
+
+    expect(estimate.score).toBe(0);
+    expect(estimate.sequence).toEqual([
+      expect.objectContaining({ pattern: 'dictionary', dictionary: 'passwords', l33t: true }),
+    ]);
+    expect(estimate.feedback.warning).toBe('auth.passwordStrength.warning.similarToCommon');
+    expect(estimate.feedback.suggestions).toContain('auth.passwordStrength.suggestion.predictableSubstitutions');
+  });
+
+  it('scores a long passphrase 4 without feedback', () => {
+    const estimate = estimatePasswordStrength(STRONG_PASSPHRASE);
+
+    expect(estimate.score).toBe(4);
+    expect(estimate.feedback).toEqual({ suggestions: [] });
+    expect(estimate.crackTime.key).toBe('auth.passwordStrength.crackTime.centuries');
+  });
+
+  it('warns about the user\'s own email or name', () => {
+    const estimate = estimatePasswordStrength('jsmith', { email: 'jsmith@example.com' });
+
+    expect(estimate.feedback.warning).toBe('auth.passwordStrength.warning.personalInfo');
+  });
+});
+
+describe('validatePasswordForRegister with minScore', () => {
+  const config = { minLength: 8, minScore: 3 as const };
+
+  it('rejects a password below minScore', () => {
+    expect(validatePasswordForRegister('Password1!', config)).toMatchObject({
+      isValid: false,
+      error: 'auth.validation.passwordTooWeak',
+    });
+  });
+
+  it('accepts a password that reaches minScore', () => {
+    expect(validatePasswordForRegister(STRONG_PASSPHRASE, config)).toMatchObject({ isValid: true });
+  });
+});
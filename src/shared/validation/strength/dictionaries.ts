@@ -0,0 +1,98 @@
+/**
+ * Password Dictionaries
+ * Compact ranked lists, most common first; a word's rank is its guess count
+ */
+
+const COMMON_PASSWORDS =
+  '123456 password 12345678 qwerty 123456789 12345 1234 111111 1234567 dragon ' +
+  '123123 baseball abc123 football monkey letmein 696969 shadow master 666666 ' +
+  'qwertyuiop 123321 mustang 1234567890 michael 654321 superman 1qaz2wsx 7777777 121212 ' +
+  '000000 qazwsx 123qwe killer trustno1 jordan jennifer zxcvbnm asdfgh hunter ' +
+  'buster soccer harley batman andrew tigger sunshine iloveyou 2000 charlie ' +
+  'robert thomas hockey ranger daniel starwars klaster 112233 george computer ' +
+  'michelle jessica pepper 1111 zxcvbn 555555 11111111 131313 freedom 777777 ' +
+  'pass maggie 159753 aaaaaa ginger princess joshua cheese amanda summer ' +
+  'love ashley nicole chelsea biteme matthew access yankees 987654321 dallas ' +
+  'austin thunder taylor matrix william corvette hello martin heather secret ' +
+  'merlin diamond 1234qwer gfhjkm hammer silver 222222 88888888 anthony justin ' +
+  'test bailey q1w2e3r4t5 patrick internet scooter orange 11111 golfer cookie ' +
+  'richard samantha bigdog guitar jackson whatever mickey chicken sparky snoopy ' +
+  'maverick phoenix camaro peanut morgan welcome falcon cowboy ferrari samsung ' +
+  'andrea smokey steelers joseph mercedes dakota arsenal eagles melissa boomer ' +
+  'booboo spider nascar monster tigers yellow xxxxxx 123123123 gateway marina ' +
+  'diablo bulldog qwer1234 compaq purple hardcore banana junior hannah 123654 ' +
+  'porsche lakers iceman money cowboys 987654 london tennis 999999 ncc1701 ' +
+  'coffee scooby 0000 miller boston q1w2e3r4 brandon yamaha chester ' +
+  'mother forever johnny edward 333333 oliver redsox player nikita knight ' +
+  'fender barney midnight please brandy chicago badboy slayer rangers charles ' +
+  'angel flower bigdaddy rabbit wizard jasper enter rachel chris steven winner ' +
+  'adidas victoria natasha 1q2w3e4r jasmine winter prince marine ghbdtn ' +
+  'fishing cocacola casper james 232323 raiders 888888 marlboro gandalf asdfasdf ' +
+  'crystal 87654321 12344321 golden 8675309 lovers qwerty123 password1 admin ' +
+  'welcome1 passw0rd p@ssw0rd abc123456 admin123 root toor changeme default ' +
+  'letmein1 iloveyou1 monkey1 dragon1 master1 sunshine1 princess1 football1 ' +
+  'qwerty1 1q2w3e 1qazxsw2 zaq12wsx qweasd qweasdzxc asdf1234 azerty 123abc ' +
+  'abcd1234 aa123456 a123456 123456a 1password password123 pass123 test123 ' +
+  'login guest user hello123 lovely flower1 trustme secret1 love123 iloveu';
+
+const COMMON_WORDS =
+  'you the and that have this with what your for not are all was just but like ' +
+  'know can get there here they out right about now come yes well one see think ' +
+  'how good want time when going look back why who okay really tell would ' +
+  'love make could something then man take over let from need them some sure ' +
+  'thing more life people girl home baby world first day night little never ' +
+  'money family friend house heart school water music happy dream light dark ' +
+  'blue green black white red gold star moon sun sky fire ice rain snow ' +
+  'summer winter spring autumn angel devil king queen prince princess lord ' +
+  'god jesus christ magic dragon tiger lion wolf bear eagle shark horse dog ' +
+  'cat fish bird mouse apple orange lemon cherry peach sugar honey candy ' +
+  'chocolate coffee pizza cookie butter cheese beer wine party game play ' +
+  'player soccer football baseball hockey tennis golf ninja pirate zombie ' +
+  'monster hero power super secret hidden freedom liberty peace faith hope ' +
+  'forever always together sweet pretty beauty lovely crazy cool hot big ' +
+  'small little new old young rock metal punk jazz blues soul crystal silver ' +
+  'diamond pearl ruby jade rose lily daisy flower garden forest river ocean ' +
+  'mountain island city country london paris berlin tokyo america ' +
+  'computer internet welcome hello login admin user test guest access ' +
+  'system server master network mobile phone iphone android google apple ' +
+  'facebook twitter letmein whatever nothing anything everything someone ' +
+  'michael john david james robert william mary maria anna sarah jessica ' +
+  'daniel thomas chris alex mike mark paul peter jack harry charlie oliver ' +
+  'sophie emma olivia emily ashley jennifer michelle nicole amanda samantha';
+
+function toRankedMap(list: string): Map<string, number> {
+  const ranked = new Map<string, number>();
+  list.split(' ').filter(Boolean).forEach((word) => {
+    if (!ranked.has(word)) {
+      ranked.set(word, ranked.size + 1);
+    }
+  });
+  return ranked;
+}
+
+let rankedPasswords: Map<string, number> | null = null;
+let rankedWords: Map<string, number> | null = null;
+
+export function getRankedPasswords(): Map<string, number> {
+  rankedPasswords ??= toRankedMap(COMMON_PASSWORDS);
+  return rankedPasswords;
+}
+
+export function getRankedWords(): Map<string, number> {
+  rankedWords ??= toRankedMap(COMMON_WORDS);
+  return rankedWords;
+}
+
+/**
+ * Email name part and name words, ranked as if they were the most common
+ * passwords since an attacker who targets the user knows them
+ */
+export function getRankedUserInputs(inputs: (string | null | undefined)[]): Map<string, number> {
+  const words = inputs
+    .flatMap((input) => (input ?? '').toLowerCase().split(/[\s@._+-]+/))
+    .filter((word) => word.length >= 3);
+  return toRankedMap(words.join(' '));
+}
+
+/** Longest word worth looking up, caps the substring scan */
+export const MAX_DICTIONARY_WORD_LENGTH = 16;
@@ -0,0 +1,5 @@
+/**
+ * Password Strength Public API
+ */
+
+export { estimatePasswordStrength } from './PasswordStrengthEstimator';
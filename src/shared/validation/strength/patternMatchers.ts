@@ -0,0 +1,434 @@
+/**
+ * Password Pattern Matchers
+ * Find the parts of a password an attacker would try before brute force,
+ * each with the number of guesses needed to hit it
+ */
+
+import type { PasswordStrengthMatch } from '../types';
+import { MAX_DICTIONARY_WORD_LENGTH } from './dictionaries';
+
+export interface RankedDictionaries {
+  passwords: Map<string, number>;
+  words: Map<string, number>;
+  userInputs: Map<string, number>;
+}
+
+const MIN_YEAR_SPACE = 20;
+const REFERENCE_YEAR = new Date().getFullYear();
+
+function binomial(n: number, k: number): number {
+  if (k > n) return 0;
+  let result = 1;
+  for (let d = 1; d <= k; d++) {
+    result = (result * (n - k + d)) / d;
+  }
+  return result;
+}
+
+/**
+ * "password" 1, "Password" and "PASSWORD" 2, "pAsSwOrD" every placement of the capitals
+ */
+function uppercaseVariations(token: string): number {
+  if (token === token.toLowerCase()) return 1;
+  if (/^[A-Z][^A-Z]+$/.test(token) || /^[^A-Z]+[A-Z]$/.test(token) || /^[^a-z]+$/.test(token)) return 2;
+
+  const upper = token.split('').filter((char) => /[A-Z]/.test(char)).length;
+  const lower = token.split('').filter((char) => /[a-z]/.test(char)).length;
+  let variations = 0;
+  for (let k = 1; k <= Math.min(upper, lower); k++) {
+    variations += binomial(upper + lower, k);
+  }
+  return variations;
+}
+
+// ---------------------------------------------------------------------------
+// Dictionary
+// ---------------------------------------------------------------------------
+
+const L33T_TABLE: Record<string, string[]> = {
+  '4': ['a'],
+  '@': ['a'],
+  '8': ['b'],
+  '(': ['c'],
+  '3': ['e'],
+  '6': ['g'],
+  '1': ['i', 'l'],
+  '!': ['i', 'l'],
+  '|': ['i', 'l'],
+  '0': ['o'],
+  '$': ['s'],
+  '5': ['s'],
+  '7': ['t'],
+  '+': ['t'],
+  '2': ['z'],
+};
+
+/**
+ * Spellings of a token with its l33t characters undone; "1" is tried as both "i" and "l"
+ */
+function unl33t(token: string): string[] {
+  if (!token.split('').some((char) => L33T_TABLE[char])) return [];
+
+  const primary = token.replace(/./g, (char) => L33T_TABLE[char]?.[0] ?? char);
+  const alternate = token.replace(/./g, (char) => L33T_TABLE[char]?.[1] ?? L33T_TABLE[char]?.[0] ?? char);
+  return primary === alternate ? [primary] : [primary, alternate];
+}
+
+function l33tVariations(token: string, word: string): number {
+  let variations = 1;
+  const substituted = new Set<string>();
+
+  token.split('').forEach((char, index) => {
+    if (char !== word[index]) substituted.add(word[index]);
+  });
+
+  substituted.forEach((letter) => {
+    const subs = word.split('').filter((char, index) => char === letter && token[index] !== letter).length;
+    const unsubs = word.split('').filter((char, index) => char === letter && token[index] === letter).length;
+    if (subs === 0 || unsubs === 0) {
+      variations *= 2;
+      return;
+    }
+    let possibilities = 0;
+    for (let k = 1; k <= Math.min(subs, unsubs); k++) {
+      possibilities += binomial(subs + unsubs, k);
+    }
+    variations *= possibilities;
+  });
+
+  return variations;
+}
+
+function lookup(
+  word: string,
+  dictionaries: RankedDictionaries
+): { dictionary: 'passwords' | 'words' | 'userInputs'; rank: number } | null {
+  const ranks = (['userInputs', 'passwords', 'words'] as const)
+    .map((dictionary) => ({ dictionary, rank: dictionaries[dictionary].get(word) }))
+    .filter((entry): entry is { dictionary: 'passwords' | 'words' | 'userInputs'; rank: number } => entry.rank !== undefined);
+
+  if (ranks.length === 0) return null;
+  return ranks.reduce((best, entry) => (entry.rank < best.rank ? entry : best));
+}
+
+export function dictionaryMatches(password: string, dictionaries: RankedDictionaries): PasswordStrengthMatch[] {
+  const matches: PasswordStrengthMatch[] = [];
+  const lowered = password.toLowerCase();
+
+  for (let i = 0; i < password.length; i++) {
+    const last = Math.min(password.length, i + MAX_DICTIONARY_WORD_LENGTH) - 1;
+    for (let j = i + 2; j <= last; j++) {
+      const token = password.slice(i, j + 1);
+      const candidate = lowered.slice(i, j + 1);
+      const caseVariations = uppercaseVariations(token);
+
+      const direct = lookup(candidate, dictionaries);
+      if (direct) {
+        matches.push({ pattern: 'dictionary', token, i, j, ...direct, guesses: direct.rank * caseVariations });
+      }
+
+      const reversed = lookup(candidate.split('').reverse().join(''), dictionaries);
+      if (reversed && !direct) {
+        matches.push({
+          pattern: 'dictionary',
+          token,
+          i,
+          j,
+          ...reversed,
+          reversed: true,
+          guesses: reversed.rank * caseVariations * 2,
+        });
+      }
+
+      unl33t(candidate).forEach((word) => {
+        const found = lookup(word, dictionaries);
+        if (found) {
+          matches.push({
+            pattern: 'dictionary',
+            token,
+            i,
+            j,
+            ...found,
+            l33t: true,
+            guesses: found.rank * caseVariations * l33tVariations(candidate, word),
+          });
+        }
+      });
+    }
+  }
+
+  return matches;
+}
+
+// ---------------------------------------------------------------------------
+// Keyboard walks
+// ---------------------------------------------------------------------------
+
+const KEYBOARD_ROWS = ['1234567890-=', 'qwertyuiop[]', "asdfghjkl;'", 'zxcvbnm,./'];
+const SHIFTED_KEYS: Record<string, string> = {
+  '!': '1', '@': '2', '#': '3', '$': '4', '%': '5', '^': '6', '&': '7', '*': '8', '(': '9', ')': '0',
+  '_': '-', '+': '=', '{': '[', '}': ']', ':': ';', '"': "'", '<': ',', '>': '.', '?': '/',
+};
+const KEYBOARD_STARTING_POSITIONS = KEYBOARD_ROWS.join('').length;
+const KEYBOARD_AVERAGE_DEGREE = 4.6;
+
+function keyPosition(char: string): [number, number] | null {
+  const key = SHIFTED_KEYS[char] ?? char.toLowerCase();
+  for (let row = 0; row < KEYBOARD_ROWS.length; row++) {
+    const col = KEYBOARD_ROWS[row].indexOf(key);
+    if (col >= 0) return [row, col];
+  }
+  return null;
+}
+
+/**
+ * Direction from one key to a neighbouring one on a staggered QWERTY layout, null when not adjacent
+ */
+function keyDirection(from: string, to: string): string | null {
+  const a = keyPosition(from);
+  const b = keyPosition(to);
+  if (!a || !b) return null;
+
+  const rowDelta = b[0] - a[0];
+  const colDelta = b[1] - a[1];
+  if (rowDelta === 0 && Math.abs(colDelta) === 1) return `0:${colDelta}`;
+  if (rowDelta === -1 && (colDelta === 0 || colDelta === 1)) return `-1:${colDelta}`;
+  if (rowDelta === 1 && (colDelta === 0 || colDelta === -1)) return `1:${colDelta}`;
+  return null;
+}
+
+function spatialGuesses(token: string, turns: number, shifted: number): number {
+  let guesses = 0;
+  for (let length = 2; length <= token.length; length++) {
+    for (let turn = 1; turn <= Math.min(turns, length - 1); turn++) {
+      guesses += binomial(length - 1, turn - 1) * KEYBOARD_STARTING_POSITIONS * KEYBOARD_AVERAGE_DEGREE ** turn;
+    }
+  }
+
+  if (shifted > 0) {
+    const unshifted = token.length - shifted;
+    if (unshifted === 0) return guesses * 2;
+    let variations = 0;
+    for (let k = 1; k <= Math.min(shifted, unshifted); k++) {
+      variations += binomial(shifted + unshifted, k);
+    }
+    guesses *= variations;
+  }
+  return guesses;
+}
+
+function isShifted(char: string): boolean {
+  return char in SHIFTED_KEYS || /[A-Z]/.test(char);
+}
+
+export function spatialMatches(password: string): PasswordStrengthMatch[] {
+  const matches: PasswordStrengthMatch[] = [];
+  let i = 0;
+
+  while (i < password.length - 2) {
+    let j = i;
+    let turns = 0;
+    let previousDirection: string | null = null;
+
+    while (j + 1 < password.length) {
+      const direction = keyDirection(password[j], password[j + 1]);
+      if (!direction) break;
+      if (direction !== previousDirection) turns++;
+      previousDirection = direction;
+      j++;
+    }
+
+    if (j - i >= 2) {
+      const token = password.slice(i, j + 1);
+      const shifted = token.split('').filter(isShifted).length;
+      matches.push({ pattern: 'spatial', token, i, j, guesses: spatialGuesses(token, turns, shifted) });
+      i = j;
+    } else {
+      i++;
+    }
+  }
+
+  return matches;
+}
+
+// ---------------------------------------------------------------------------
+// Sequences
+// ---------------------------------------------------------------------------
+
+function sequenceClass(char: string): 'lower' | 'upper' | 'digit' | null {
+  if (/[a-z]/.test(char)) return 'lower';
+  if (/[A-Z]/.test(char)) return 'upper';
+  if (/[0-9]/.test(char)) return 'digit';
+  return null;
+}
+
+function sequenceGuesses(token: string, ascending: boolean): number {
+  const first = token[0];
+  let base: number;
+  if (['a', 'A', 'z', 'Z', '0', '1', '9'].includes(first)) {
+    base = 4;
+  } else if (/[0-9]/.test(first)) {
+    base = 10;
+  } else {
+    base = 26;
+  }
+  return base * token.length * (ascending ? 1 : 2);
+}
+
+export function sequenceMatches(password: string): PasswordStrengthMatch[] {
+  const matches: PasswordStrengthMatch[] = [];
+  let i = 0;
+
+  while (i < password.length - 2) {
+    const kind = sequenceClass(password[i]);
+    const delta = password.charCodeAt(i + 1) - password.charCodeAt(i);
+    let j = i;
+
+    if (kind && (delta === 1 || delta === -1)) {
+      while (
+        j + 1 < password.length &&
+        sequenceClass(password[j + 1]) === kind &&
+        password.charCodeAt(j + 1) - password.charCodeAt(j) === delta
+      ) {
+        j++;
+      }
+    }
+
+    if (j - i >= 2) {
+      const token = password.slice(i, j + 1);
+      matches.push({ pattern: 'sequence', token, i, j, guesses: sequenceGuesses(token, delta === 1) });
+      i = j;
+    } else {
+      i++;
+    }
+  }
+
+  return matches;
+}
+
+// ---------------------------------------------------------------------------
+// Repeats
+// ---------------------------------------------------------------------------
+
+/**
+ * "aaa" or "abcabc"; base tokens are priced by the caller, which knows the full estimator
+ */
+export function repeatMatches(
+  password: string,
+  estimateGuesses: (base: string) => number
+): PasswordStrengthMatch[] {
+  const matches: PasswordStrengthMatch[] = [];
+  const greedy = /(.+)\1+/y;
+  const lazy = /(.+?)\1+/y;
+  let i = 0;
+
+  while (i < password.length - 1) {
+    greedy.lastIndex = i;
+    lazy.lastIndex = i;
+    const greedyMatch = greedy.exec(password);
+    const lazyMatch = lazy.exec(password);
+
+    if (!greedyMatch || !lazyMatch) {
+      i++;
+      continue;
+    }
+
+    // "abcabcabc": greedy finds the whole run, lazy the shortest repeated unit
+    const match = greedyMatch[0].length > lazyMatch[0].length ? greedyMatch : lazyMatch;
+    const base = /^(.+?)\1+$/.exec(match[0])?.[1] ?? match[1];
+    const token = match[0];
+    const repeatCount = token.length / base.length;
+
+    if (token.length >= 3) {
+      matches.push({
+        pattern: 'repeat',
+        token,
+        i,
+        j: i + token.length - 1,
+        guesses: estimateGuesses(base) * repeatCount,
+      });
+    }
+    i += token.length;
+  }
+
+  return matches;
+}
+
+// ---------------------------------------------------------------------------
+// Dates
+// ---------------------------------------------------------------------------
+
+function toFullYear(year: number, digits: number): number {
+  if (digits === 4) return year;
+  return year > 50 ? 1900 + year : 2000 + year;
+}
+
+function isValidDate(day: number, month: number, year: number): boolean {
+  return day >= 1 && day <= 31 && month >= 1 && month <= 12 && year >= 1000 && year <= 2050;
+}
+
+function dateGuesses(year: number, separated: boolean): number {
+  return Math.max(Math.abs(year - REFERENCE_YEAR), MIN_YEAR_SPACE) * 365 * (separated ? 4 : 1);
+}
+
+/**
+ * Year of a day-month-year split of the digits, in any common order, or null
+ */
+function parseDigits(parts: string[]): number | null {
+  const values = parts.map(Number);
+  const orders: [number, number, number][] = [
+    [0, 1, 2], // day month year
+    [1, 0, 2], // month day year
+    [2, 1, 0], // year month day
+    [2, 0, 1], // year day month
+  ];
+
+  for (const [day, month, year] of orders) {
+    const yearDigits = parts[year].length;
+    if (yearDigits !== 2 && yearDigits !== 4) continue;
+    if (parts[day].length > 2 || parts[month].length > 2) continue;
+
+    const fullYear = toFullYear(values[year], yearDigits);
+    if (isValidDate(values[day], values[month], fullYear)) return fullYear;
+  }
+  return null;
+}
+
+export function dateMatches(password: string): PasswordStrengthMatch[] {
+  const matches: PasswordStrengthMatch[] = [];
+
+  for (let i = 0; i < password.length - 3; i++) {
+    for (let j = i + 3; j < Math.min(password.length, i + 10); j++) {
+      const token = password.slice(i, j + 1);
+
+      if (/^\d+$/.test(token) && token.length <= 8) {
+        if (token.length === 4 && Number(token) >= 1900 && Number(token) <= 2039) {
+          const year = Number(token);
+          matches.push({ pattern: 'date', token, i, j, guesses: Math.max(Math.abs(year - REFERENCE_YEAR), MIN_YEAR_SPACE) });
+          continue;
+        }
+
+        let year: number | null = null;
+        for (let a = 1; a < token.length - 1 && year === null; a++) {
+          for (let b = a + 1; b < token.length && year === null; b++) {
+            year = parseDigits([token.slice(0, a), token.slice(a, b), token.slice(b)]);
+          }
+        }
+        if (year !== null) {
+          matches.push({ pattern: 'date', token, i, j, guesses: dateGuesses(year, false) });
+        }
+        continue;
+      }
+
+      const separated = /^(\d{1,4})([\s/\\_.-])(\d{1,2})\2(\d{1,4})$/.exec(token);
+      if (separated) {
+        const year = parseDigits([separated[1], separated[3], separated[4]]);
+        if (year !== null) {
+          matches.push({ pattern: 'date', token, i, j, guesses: dateGuesses(year, true) });
+        }
+      }
+    }
+  }
+
+  return matches;
+}
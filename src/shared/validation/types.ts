@@ -3,13 +3,79 @@
  * Core types for validation system
  */
 
+import type { PasswordStrengthScore } from '../../domain/value-objects/AuthConfig';
+
 export interface ValidationResult {
   isValid: boolean;
   error?: string;
 }
 
+/**
+ * One requirement of the password policy and whether the password meets it
+ */
+export interface PasswordRequirementCheck {
+  /** "minLength", "uppercase", ... or the custom rule id */
+  id: string;
+  /** Translation key for built-in requirements, the rule's own text for custom ones */
+  label: string;
+  /** Values interpolated into the label, e.g. { minLength: 8 } */
+  params?: Record<string, string | number>;
+  /** Validation key reported when this is the first unmet requirement */
+  error: string;
+  isValid: boolean;
+  /** Set for PasswordConfig.customRules, whose label is not a translation key */
+  custom?: boolean;
+}
+
 export interface PasswordRequirements {
   hasMinLength: boolean;
+  /** Every requirement of the policy, in display order */
+  checks: PasswordRequirementCheck[];
+  /** Set by calculatePasswordRequirements once something is typed */
+  strength?: PasswordStrengthEstimate;
+}
+
+export type PasswordPatternType =
+  | 'dictionary'
+  | 'spatial'
+  | 'sequence'
+  | 'repeat'
+  | 'date'
+  | 'bruteforce';
+
+/**
+ * Part of the password an attacker would guess as one unit
+ */
+export interface PasswordStrengthMatch {
+  pattern: PasswordPatternType;
+  token: string;
+  /** First and last index in the password, inclusive */
+  i: number;
+  j: number;
+  guesses: number;
+  /** Dictionary matches only */
+  dictionary?: 'passwords' | 'words' | 'userInputs';
+  rank?: number;
+  l33t?: boolean;
+  reversed?: boolean;
+}
+
+export interface PasswordStrengthEstimate {
+  score: PasswordStrengthScore;
+  guesses: number;
+  guessesLog10: number;
+  /** Offline attack on a slow hash, 10k guesses per second */
+  crackTimeSeconds: number;
+  /** Translation key and params, e.g. auth.passwordStrength.crackTime.hours { count: 3 } */
+  crackTime: { key: string; params?: Record<string, string | number> };
+  feedback: {
+    /** Translation key of the main weakness */
+    warning?: string;
+    /** Translation keys */
+    suggestions: string[];
+  };
+  /** Cheapest way to guess the password, left to right */
+  sequence: PasswordStrengthMatch[];
 }
 
 export interface PasswordStrengthResult extends ValidationResult {
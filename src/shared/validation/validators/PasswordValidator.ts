@@ -4,12 +4,15 @@
  */
 
 import type { PasswordStrengthResult, ValidationResult } from '../types';
+import type {
+  PasswordConfig,
+  PasswordPolicyContext,
+} from '../../../domain/value-objects/AuthConfig';
 import { RequiredRule } from '../rules/ValidationRule';
 import { PasswordSanitizer } from '../sanitizers/PasswordSanitizer';
+import { evaluatePasswordPolicy, getFailedPasswordCheck } from '../policy/PasswordPolicy';
 
-export interface PasswordConfig {
-  minLength: number;
-}
+export type { PasswordConfig };
 
 export class PasswordValidator {
   private config: PasswordConfig;
@@ -34,34 +37,33 @@ export class PasswordValidator {
   }
 
   /**
-   * Validate password for registration (check requirements)
+   * Validate password for registration (check every policy requirement)
    * @param password - Password to validate
-   * @returns Password strength result
+   * @param context - Email and name the password must not contain
+   * @returns Password strength result with one check per requirement
    */
-  validateForRegister(password: string): PasswordStrengthResult {
+  validateForRegister(password: string, context?: PasswordPolicyContext): PasswordStrengthResult {
+    const checks = evaluatePasswordPolicy(password, this.config, context);
+    const requirements = {
+      hasMinLength: password.length >= this.config.minLength,
+      checks,
+    };
+
     // Don't trim passwords - whitespace may be intentional
     if (PasswordSanitizer.isEmpty(password)) {
       return {
         isValid: false,
         error: 'auth.validation.passwordRequired',
-        requirements: { hasMinLength: false },
+        requirements,
       };
     }
 
-    const hasMinLength = password.length >= this.config.minLength;
-
-    if (!hasMinLength) {
-      return {
-        isValid: false,
-        error: 'auth.validation.passwordTooShort',
-        requirements: { hasMinLength: false },
-      };
+    const failed = getFailedPasswordCheck(checks);
+    if (failed) {
+      return { isValid: false, error: failed.error, requirements };
     }
 
-    return {
-      isValid: true,
-      requirements: { hasMinLength: true },
-    };
+    return { isValid: true, requirements };
   }
 
   /**
@@ -0,0 +1,50 @@
+/**
+ * Phone Validator
+ * Validates phone numbers in E.164 format
+ */
+
+import type { ValidationResult } from '../types';
+import { RegexRule } from '../rules/ValidationRule';
+import { PhoneSanitizer } from '../sanitizers/PhoneSanitizer';
+
+// "+" followed by up to 15 digits, no leading zero in the country code
+const E164_REGEX = /^\+[1-9]\d{6,14}$/;
+
+export interface PhoneValidatorConfig {
+  /** Calling code without "+" applied to national numbers (e.g. "90") */
+  defaultCountryCode?: string;
+}
+
+export class PhoneValidator {
+  private config: PhoneValidatorConfig;
+  private regexRule: RegexRule;
+
+  constructor(config: PhoneValidatorConfig = {}) {
+    this.config = config;
+    this.regexRule = new RegexRule(E164_REGEX, 'auth.validation.invalidPhone');
+  }
+
+  /**
+   * Validate phone number
+   * @param phone - Phone number to validate
+   * @returns Validation result
+   */
+  validate(phone: string): ValidationResult {
+    if (PhoneSanitizer.isEmpty(phone)) {
+      return { isValid: false, error: 'auth.validation.phoneRequired' };
+    }
+
+    // Sanitize
+    const sanitized = PhoneSanitizer.sanitize(phone, this.config.defaultCountryCode);
+
+    // Check format
+    return this.regexRule.validate(sanitized);
+  }
+
+  /**
+   * Check if phone is empty
+   */
+  isEmpty(phone: string | null | undefined): boolean {
+    return PhoneSanitizer.isEmpty(phone);
+  }
+}
@@ -6,3 +6,5 @@ export { EmailValidator } from './EmailValidator';
 export { PasswordValidator } from './PasswordValidator';
 export type { PasswordConfig } from './PasswordValidator';
 export { NameValidator } from './NameValidator';
+export { PhoneValidator } from './PhoneValidator';
+export type { PhoneValidatorConfig } from './PhoneValidator';
@@ -0,0 +1,179 @@
+/**
+ * Test Auth Environment
+ * Wires AuthService, the auth stores, AuthEventService and the auth listener
+ * to an InMemoryAuthRepository so flows can be tested without Firebase
+ */
+
+import { createQueryClient, type QueryClient } from "@umituz/react-native-design-system/tanstack";
+import {
+  InMemoryAuthRepository,
+  type InMemoryAuthRepositoryOptions,
+} from "../infrastructure/repositories/InMemoryAuthRepository";
+import {
+  initializeAuthService,
+  resetAuthService,
+  type AuthService,
+} from "../infrastructure/services/AuthService";
+import {
+  resetAuthInitialization,
+  startAppLock,
+  startSessionTimeout,
+} from "../infrastructure/services/initializeAuth";
+import { authEventService } from "../infrastructure/services/AuthEventService";
+import { authAnalyticsService } from "../infrastructure/services/AuthAnalyticsService";
+import { sessionTimeoutService } from "../infrastructure/services/SessionTimeoutService";
+import { createAuthStateHandler } from "../infrastructure/utils/authStateHandler";
+import { initializeAuthListener, resetAuthListener } from "../presentation/stores/initializeAuthListener";
+import { useAuthStore } from "../presentation/stores/authStore";
+import { selectIsAuthReady } from "../presentation/stores/auth.selectors";
+import { useAuthModalStore } from "../presentation/stores/authModalStore";
+import { sanitizeAuthConfig, type AuthConfig } from "../domain/value-objects/AuthConfig";
+import type { IStorageProvider } from "../infrastructure/types/Storage.types";
+import type { AuthAnalyticsAdapter } from "../infrastructure/types/AuthAnalytics.types";
+import type { BiometricProvider } from "../infrastructure/types/AppLock.types";
+import type { AuthListenerOptions } from "../types/auth-store.types";
+
+const AUTH_READY_TIMEOUT_MS = 5000;
+
+export interface TestAuthEnvironmentOptions extends InMemoryAuthRepositoryOptions {
+  authConfig?: Partial<AuthConfig>;
+  storageProvider?: IStorageProvider;
+  /**
+   * Sign in anonymously when nobody is signed in
+   * @default false
+   */
+  autoAnonymousSignIn?: boolean;
+  onAuthStateChange?: AuthListenerOptions["onAuthStateChange"];
+  /** e.g. BufferingAuthAnalyticsAdapter to assert on tracked events */
+  analytics?: AuthAnalyticsAdapter;
+  /** Scripted biometric check for authConfig.appLock */
+  biometricProvider?: BiometricProvider;
+}
+
+export interface TestAuthEnvironment {
+  repository: InMemoryAuthRepository;
+  service: AuthService;
+  /** Mutations don't retry, so a scripted failure fails exactly one call */
+  queryClient: QueryClient;
+  /** Resolves once the auth status settled and nothing is loading */
+  waitForAuthReady: () => Promise<void>;
+  /** Unsubscribes the listener and resets every auth singleton */
+  cleanup: () => void;
+}
+
+/**
+ * Reset all module-level auth state so tests don't leak into each other
+ */
+export function resetAuthEnvironment(): void {
+  resetAuthInitialization();
+  resetAuthListener();
+  resetAuthService();
+  authAnalyticsService.setAdapter(null);
+  authEventService.removeAllListeners();
+  useAuthStore.getState().reset();
+  const modal = useAuthModalStore.getState();
+  modal.hideAuthModal();
+  modal.setMode("login");
+}
+
+/**
+ * Create a signed-out (or signedInAs) auth environment backed by an InMemoryAuthRepository
+ *
+ * @example
+ * ```typescript
+ * const env = await createTestAuthEnvironment({
+ *   users: [{ email: "jane@example.com", password: "Secret123!" }],
+ * });
+ * env.repository.failNext("signIn");
+ * // ...
+ * env.cleanup();
+ * ```
+ */
+export async function createTestAuthEnvironment(
+  options: TestAuthEnvironmentOptions = {}
+): Promise<TestAuthEnvironment> {
+  const {
+    authConfig,
+    storageProvider,
+    autoAnonymousSignIn = false,
+    onAuthStateChange,
+    analytics,
+    biometricProvider,
+    ...repositoryOptions
+  } = options;
+
+  resetAuthEnvironment();
+
+  const repository = new InMemoryAuthRepository(sanitizeAuthConfig(authConfig), repositoryOptions);
+  const service = await initializeAuthService(authConfig, storageProvider, () => repository);
+
+  if (analytics) {
+    authAnalyticsService.setAdapter(analytics);
+  }
+  startSessionTimeout(service, storageProvider);
+  startAppLock(service, storageProvider, biometricProvider);
+
+  // Same conversion tracking and session timeout as initializeAuth
+  const handleAuthStateChange = createAuthStateHandler(
+    { current: { previousUserId: null, wasAnonymous: false } },
+    {
+      onConversion: (conversion) => authAnalyticsService.trackConversion(conversion),
+      onAuthStateChange,
+    }
+  );
+  const unsubscribe = initializeAuthListener({
+    autoAnonymousSignIn,
+    onAuthStateChange: (user, authUser) => {
+      void sessionTimeoutService.handleUserChange(authUser);
+      void handleAuthStateChange(user, authUser);
+    },
+  });
+
+  // gcTime Infinity: no garbage collection timers left running after the test
+  const queryClient = createQueryClient({ defaultRetry: false });
+  const defaultOptions = queryClient.getDefaultOptions();
+  queryClient.setDefaultOptions({
+    ...defaultOptions,
+    queries: { ...defaultOptions.queries, gcTime: Infinity },
+    mutations: { retry: false, gcTime: Infinity },
+  });
+
+  const environment: TestAuthEnvironment = {
+    repository,
+    service,
+    queryClient,
+    waitForAuthReady,
+    cleanup: () => {
+      unsubscribe();
+      queryClient.clear();
+      resetAuthEnvironment();
+    },
+  };
+
+  await waitForAuthReady();
+  return environment;
+}
+
+function isAuthReady(): boolean {
+  return selectIsAuthReady(useAuthStore.getState());
+}
+
+function waitForAuthReady(): Promise<void> {
+  if (isAuthReady()) {
+    return Promise.resolve();
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      unsubscribe();
+      reject(new Error("Auth state did not settle in time"));
+    }, AUTH_READY_TIMEOUT_MS);
+
+    const unsubscribe = useAuthStore.subscribe(() => {
+      if (!isAuthReady()) return;
+      clearTimeout(timeout);
+      unsubscribe();
+      resolve();
+    });
+  });
+}
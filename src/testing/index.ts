@@ -0,0 +1,30 @@
+/**
+ * Auth Testing Module
+ * Offline auth backend and helpers for consumer tests
+ */
+
+export {
+  InMemoryAuthRepository,
+  type InMemoryAuthRepositoryOptions,
+  type InMemoryUserSeed,
+  type InMemoryAuthMethod,
+  type InMemorySentEmail,
+} from '../infrastructure/repositories/InMemoryAuthRepository';
+
+export {
+  createTestAuthEnvironment,
+  resetAuthEnvironment,
+  type TestAuthEnvironment,
+  type TestAuthEnvironmentOptions,
+} from './createTestAuthEnvironment';
+
+export {
+  renderWithAuth,
+  createAuthTestWrapper,
+  type RenderWithAuthOptions,
+  type RenderWithAuthResult,
+} from './renderWithAuth';
+
+export { generateTotpCode } from '../infrastructure/utils/totp';
+
+export { BufferingAuthAnalyticsAdapter } from '../infrastructure/adapters/BufferingAuthAnalyticsAdapter';
@@ -0,0 +1,69 @@
+/**
+ * Render With Auth
+ * Renders UI inside a query client bound to a test auth environment
+ * Renderer agnostic: pass render (or renderHook's wrapper) from your testing library
+ */
+
+import React, { type ComponentType, type ReactElement, type ReactNode } from "react";
+import { TanstackProvider } from "@umituz/react-native-design-system/tanstack";
+import {
+  createTestAuthEnvironment,
+  type TestAuthEnvironment,
+  type TestAuthEnvironmentOptions,
+} from "./createTestAuthEnvironment";
+
+type ProvidersWrapper = ComponentType<{ children: ReactNode }>;
+
+export interface RenderWithAuthOptions<TResult> extends TestAuthEnvironmentOptions {
+  /** e.g. render from @testing-library/react-native */
+  render: (ui: ReactElement) => TResult;
+  /** App providers the UI needs (design system, safe area, bottom sheet...) */
+  wrapper?: ProvidersWrapper;
+}
+
+export type RenderWithAuthResult<TResult> = TResult & { auth: TestAuthEnvironment };
+
+/**
+ * Wrapper component for renderHook or custom renders
+ */
+export function createAuthTestWrapper(
+  environment: TestAuthEnvironment,
+  Wrapper?: ProvidersWrapper
+): ProvidersWrapper {
+  const AuthTestWrapper = ({ children }: { children: ReactNode }) => (
+    <TanstackProvider queryClient={environment.queryClient} enablePersistence={false}>
+      {Wrapper ? <Wrapper>{children}</Wrapper> : children}
+    </TanstackProvider>
+  );
+  AuthTestWrapper.displayName = "AuthTestWrapper";
+  return AuthTestWrapper;
+}
+
+/**
+ * Create a test auth environment and render ui inside it
+ *
+ * @example
+ * ```tsx
+ * import { render, fireEvent, waitFor } from "@testing-library/react-native";
+ *
+ * const { auth, getByText } = await renderWithAuth(<App />, {
+ *   render,
+ *   wrapper: AppProviders,
+ *   users: [{ email: "jane@example.com", password: "Secret123!" }],
+ * });
+ * // fill in the form, press sign in...
+ * await waitFor(() => expect(useAuthModalStore.getState().isVisible).toBe(false));
+ * auth.cleanup();
+ * ```
+ */
+export async function renderWithAuth<TResult extends object>(
+  ui: ReactElement,
+  options: RenderWithAuthOptions<TResult>
+): Promise<RenderWithAuthResult<TResult>> {
+  const { render, wrapper, ...environmentOptions } = options;
+  const auth = await createTestAuthEnvironment(environmentOptions);
+  const AuthTestWrapper = createAuthTestWrapper(auth, wrapper);
+
+  const result = render(<AuthTestWrapper>{ui}</AuthTestWrapper>);
+  return Object.assign(result, { auth });
+}
@@ -11,21 +11,57 @@ import type { AuthUser } from "../domain/entities/AuthUser";
  */
 export type UserType = "authenticated" | "anonymous" | "none";
 
+/**
+ * Auth lifecycle status
+ * booting → restoring → (signingInAnonymously) → anonymous / authenticated / unauthenticated,
+ * signingOut while a sign-out runs, error when no session could be established,
+ * locked when the session timed out with the "lock" action
+ */
+export type AuthStatus =
+  | "booting"
+  | "restoring"
+  | "signingInAnonymously"
+  | "anonymous"
+  | "authenticated"
+  | "unauthenticated"
+  | "signingOut"
+  | "locked"
+  | "error";
+
+/**
+ * Events that move the auth status, see transitionAuthStatus
+ */
+export type AuthStateEvent =
+  | { type: "listenerStarted" }
+  /** The backend reported the session (null when signed out) */
+  | { type: "sessionResolved"; user: { isAnonymous: boolean } | null }
+  | { type: "listenerTimedOut" }
+  | { type: "listenerUnavailable" }
+  | { type: "listenerFailed"; error?: string }
+  | { type: "anonymousSignInStarted" }
+  | { type: "anonymousSignInFailed"; error: string }
+  | { type: "signOutStarted" }
+  | { type: "signOutFailed"; user: { isAnonymous: boolean } | null }
+  | { type: "sessionLocked" }
+  | { type: "sessionUnlocked"; user: { isAnonymous: boolean } | null };
+
 /**
  * Auth state interface
  */
 export interface AuthState {
+  /** Where the auth lifecycle is; loading, initialized and isAnonymous derive from it */
+  status: AuthStatus;
   /** Mapped AuthUser (null if not authenticated) */
   user: AuthUser | null;
-  /** Raw Firebase user reference */
+  /** Raw Firebase user reference (null with a non-Firebase repository) */
   firebaseUser: User | null;
-  /** Loading state during auth operations */
+  /** A status transition or an auth operation is in progress */
   loading: boolean;
-  /** Anonymous mode (user using anonymous auth) */
+  /** Anonymous session (status "anonymous") */
   isAnonymous: boolean;
   /** Error message from last auth operation */
   error: string | null;
-  /** Whether auth listener has initialized */
+  /** The first session was resolved; stays true until reset */
   initialized: boolean;
 }
 
@@ -33,15 +69,21 @@ export interface AuthState {
  * Auth store actions interface
  */
 export interface AuthActions {
+  /** Move the status machine; invalid transitions are ignored (and logged in development) */
+  transition: (event: AuthStateEvent) => void;
   /** Update user from Firebase listener */
   setFirebaseUser: (user: User | null) => void;
-  /** Set loading state */
+  /** Update user from the repository listener; firebaseUser only with the Firebase repository */
+  setUser: (user: AuthUser | null, firebaseUser?: User | null) => void;
+  /** Apply a refreshed user snapshot (e.g. after reloading emailVerified) */
+  updateUser: (user: AuthUser) => void;
+  /** Mark an auth operation as running; can't clear the loading of a busy status */
   setLoading: (loading: boolean) => void;
-  /** Set anonymous mode */
+  /** @deprecated isAnonymous derives from the status */
   setIsAnonymous: (isAnonymous: boolean) => void;
   /** Set error message */
   setError: (error: string | null) => void;
-  /** Mark as initialized */
+  /** @deprecated initialized derives from the status; true settles a pending restore */
   setInitialized: (initialized: boolean) => void;
   /** Reset to initial state */
   reset: () => void;
@@ -51,6 +93,7 @@ export interface AuthActions {
  * Initial auth state
  */
 export const initialAuthState: AuthState = {
+  status: "booting",
   user: null,
   firebaseUser: null,
   loading: true,
@@ -65,6 +108,9 @@ export const initialAuthState: AuthState = {
 export interface AuthListenerOptions {
   /** Enable auto anonymous sign-in when no user is logged in */
   autoAnonymousSignIn?: boolean;
-  /** Callback when auth state changes (can be async) */
-  onAuthStateChange?: (user: User | null) => void | Promise<void>;
+  /**
+   * Callback when auth state changes (can be async).
+   * user is the Firebase user; with a custom repository it is null, use authUser instead.
+   */
+  onAuthStateChange?: (user: User | null, authUser: AuthUser | null) => void | Promise<void>;
 }